@@ -1,7 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Installed apps only pick up a new service worker if browsers revalidate it on every visit.
+  headers: async () => [
+    {
+      source: "/sw.js",
+      headers: [{ key: "Cache-Control", value: "no-cache, no-store, must-revalidate" }],
+    },
+  ],
 };
 
 export default nextConfig;
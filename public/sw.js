@@ -0,0 +1,98 @@
+// Service worker for the installable app: keeps the app shell available with no signal.
+// Workout data is not cached here; the page keeps it in IndexedDB and syncs it itself.
+const CACHE_NAME = "rep-set-tracker-shell-v3";
+// The shell page itself ("/") is cached together with the build assets it references, see cacheShell.
+const SHELL_FILES = ["/manifest.webmanifest", "/icon.svg", "/icon-192.png", "/icon-512.png"];
+
+// Build assets named anywhere in the shell HTML: script and style tags, fonts, and the chunks listed
+// in the inline React Server Components payload, where quotes are escaped with a backslash.
+const ASSET_PATTERN = /\/_next\/static\/[^"'\s\\)]+/g;
+
+/**
+ * Stores the shell HTML after every build asset it references, so a cached shell always renders
+ * offline, even when some of its chunks were never requested while online.
+ */
+const cacheShell = async (cache, response) => {
+  const html = await response.clone().text();
+  const assets = Array.from(new Set(html.match(ASSET_PATTERN) ?? []));
+  const missing = [];
+  for (const asset of assets) {
+    if (!(await cache.match(asset))) missing.push(asset);
+  }
+  await cache.addAll(missing);
+  await cache.put("/", response);
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(async (cache) => {
+      await cache.addAll(SHELL_FILES);
+      const response = await fetch("/", { cache: "reload" });
+      if (!response.ok) throw new Error(`Shell request failed with status ${response.status}`);
+      await cacheShell(cache, response);
+    })
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    // Reports and shared sessions are rendered by the server per request; only the app itself is the shell.
+    if (url.pathname !== "/") return;
+    // Fresh HTML when online, with the assets of a new build cached alongside it; the cached shell
+    // when the gym has no signal.
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            event.waitUntil(
+              caches
+                .open(CACHE_NAME)
+                .then((cache) => cacheShell(cache, copy))
+                .catch((cacheError) => console.warn("Failed to refresh the offline shell", cacheError))
+            );
+          }
+          return response;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    // Build assets have content hashes in their names, so a cached copy never goes stale.
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request).then((response) => putInCache(request, response))));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => cached);
+      return cached ?? network;
+    })
+  );
+});
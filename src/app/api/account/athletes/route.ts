@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { userStore } from "@/lib/server/user-store";
+import { toUserSummary } from "@/lib/users";
+
+/** Accounts that have shared their workouts with the signed-in coach. */
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const athletes = (await userStore.list()).filter((user) => user.sharedWith.includes(auth.user.id));
+  return NextResponse.json({ athletes: athletes.map(toUserSummary) });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { userStore } from "@/lib/server/user-store";
+import { toUserSummary } from "@/lib/users";
+
+/** Coaches the signed-in user could share their workouts with. */
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const coaches = (await userStore.list()).filter((user) => user.role === "coach" && user.id !== auth.user.id);
+  return NextResponse.json({ coaches: coaches.map(toUserSummary) });
+}
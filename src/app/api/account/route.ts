@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { toPublicUser, userStore, type StoredUser } from "@/lib/server/user-store";
+
+type SharingOutcome = { user: StoredUser } | { error: string; status: number };
+
+/** The signed-in account; a 401 tells the client to show the sign-in form. */
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  return NextResponse.json({ user: toPublicUser(auth.user) });
+}
+
+/** Replaces the list of coaches allowed to view this account's workouts. */
+export async function PUT(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const json = await readJsonBody(request);
+  if (!json.ok) return invalidJsonResponse();
+
+  const sharedWith = (json.body as { sharedWith?: unknown } | null)?.sharedWith;
+  if (!Array.isArray(sharedWith) || sharedWith.some((id) => typeof id !== "string")) {
+    return NextResponse.json({ error: "sharedWith must be an array of user ids." }, { status: 400 });
+  }
+  const requested = Array.from(new Set(sharedWith as string[]));
+
+  // Checked and written against the stored account in one step, so a concurrent change to it is not lost.
+  const outcome = await userStore.modify<SharingOutcome>((users) => {
+    const coachIds = new Set(users.filter((user) => user.role === "coach").map((user) => user.id));
+    if (requested.some((id) => !coachIds.has(id) || id === auth.user.id)) {
+      return { records: users, result: { error: "You can only share with other coaches.", status: 400 } };
+    }
+    const current = users.find((user) => user.id === auth.user.id);
+    if (!current) return { records: users, result: { error: "Account not found.", status: 404 } };
+    const updated = { ...current, sharedWith: requested };
+    return { records: users.map((user) => (user.id === updated.id ? updated : user)), result: { user: updated } };
+  });
+  if ("error" in outcome) return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+  return NextResponse.json({ user: toPublicUser(outcome.user) });
+}
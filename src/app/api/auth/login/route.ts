@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { startSession } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { verifyPassword } from "@/lib/server/passwords";
+import { toPublicUser, userStore } from "@/lib/server/user-store";
+import { normalizeUsername } from "@/lib/users";
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request);
+  if (!json.ok) return invalidJsonResponse();
+
+  const body = (json.body ?? {}) as { username?: unknown; password?: unknown };
+  if (typeof body.username !== "string" || typeof body.password !== "string") {
+    return NextResponse.json({ error: "Enter a username and password." }, { status: 400 });
+  }
+
+  const username = normalizeUsername(body.username);
+  const user = (await userStore.list()).find((candidate) => candidate.username === username);
+  // The same message either way, so the form does not reveal which usernames exist.
+  if (!user || !(await verifyPassword(body.password, user))) {
+    return NextResponse.json({ error: "Incorrect username or password." }, { status: 401 });
+  }
+
+  return startSession(request, NextResponse.json({ user: toPublicUser(user) }), user.id);
+}
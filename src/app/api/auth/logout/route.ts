@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+
+import { endSession } from "@/lib/server/auth";
+
+export async function POST() {
+  return endSession(new NextResponse(null, { status: 204 }));
+}
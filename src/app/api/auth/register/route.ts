@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { startSession } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { registerUser, toPublicUser } from "@/lib/server/user-store";
+import { isUserRole, validateCredentials } from "@/lib/users";
+
+/** Creates an account and signs it in. The very first account inherits any data stored before accounts existed. */
+export async function POST(request: Request) {
+  const json = await readJsonBody(request);
+  if (!json.ok) return invalidJsonResponse();
+
+  const body = (json.body ?? {}) as { username?: unknown; password?: unknown; role?: unknown };
+  const credentials = validateCredentials(body.username, body.password);
+  if (!credentials.ok) return NextResponse.json({ error: credentials.reason }, { status: 400 });
+  const role = body.role ?? "athlete";
+  if (!isUserRole(role)) return NextResponse.json({ error: "Role must be athlete or coach." }, { status: 400 });
+
+  const registered = await registerUser(credentials.value.username, credentials.value.password, role);
+  if (!registered.ok) return NextResponse.json({ error: registered.reason }, { status: 409 });
+
+  const response = NextResponse.json({ user: toPublicUser(registered.value) }, { status: 201 });
+  return startSession(request, response, registered.value.id);
+}
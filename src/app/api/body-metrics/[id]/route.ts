@@ -0,0 +1,3 @@
+import { bodyMetricRoutes } from "@/lib/server/body-metric-store";
+
+export const { PUT, DELETE } = bodyMetricRoutes;
@@ -0,0 +1,3 @@
+import { exerciseRoutes } from "@/lib/server/exercise-store";
+
+export const { PUT, DELETE } = exerciseRoutes;
@@ -0,0 +1,3 @@
+import { programRoutes } from "@/lib/server/program-store";
+
+export const { GET, POST } = programRoutes;
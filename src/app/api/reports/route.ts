@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { requireReader } from "@/lib/server/auth";
+import { loadWorkoutReport } from "@/lib/server/report";
+import { parseReportParams, reportFileName, reportToMarkdown } from "@/lib/workout-report";
+
+/** The report for `?from=&to=` as a Markdown download; coaches add `&athlete=<id>` like any other read. */
+export async function GET(request: Request) {
+  const reader = await requireReader(request);
+  if (!reader.ok) return reader.response;
+  const options = parseReportParams(new URL(request.url).searchParams);
+  if (!options.ok) return NextResponse.json({ error: options.reason }, { status: 400 });
+
+  const report = await loadWorkoutReport(reader.userId, options.value);
+  return new NextResponse(reportToMarkdown(report), {
+    headers: {
+      "Content-Type": "text/markdown; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${reportFileName(report)}"`,
+    },
+  });
+}
@@ -0,0 +1,3 @@
+import { shareRoutes } from "@/lib/server/share-store";
+
+export const { DELETE } = shareRoutes;
@@ -0,0 +1,3 @@
+import { templateRoutes } from "@/lib/server/template-store";
+
+export const { PUT, DELETE } = templateRoutes;
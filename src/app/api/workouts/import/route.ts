@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+import { applySyncChanges } from "@/lib/workout-sync";
+import { parseWorkoutSession, type WorkoutSession } from "@/lib/workouts";
+
+/**
+ * Stores an array of imported sessions. Sessions whose id already exists
+ * replace the stored copy under the sync rule: the newest `updatedAt` wins,
+ * and imported copies older than the stored one are reported as conflicts.
+ */
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const json = await readJsonBody(request);
+  if (!json.ok) return invalidJsonResponse();
+
+  if (!Array.isArray(json.body)) {
+    return NextResponse.json({ error: "Expected an array of workout sessions." }, { status: 400 });
+  }
+  const sessions = json.body.map(parseWorkoutSession);
+  if (sessions.some((session) => session === null)) {
+    return NextResponse.json({ error: "Invalid workout session payload." }, { status: 400 });
+  }
+
+  const upserts = sessions as WorkoutSession[];
+  const result = await workoutStoreFor(auth.user.id).modify((stored) => {
+    const merged = applySyncChanges(stored, { upserts, deletions: [] });
+    const saved = upserts.filter((session) => !merged.conflicts.includes(session.id));
+    return { records: merged.workouts, result: { workouts: saved, conflicts: merged.conflicts } };
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+
+/** Stored sessions that failed validation on load, kept so they can be repaired by hand. */
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  return NextResponse.json({ quarantined: await workoutStoreFor(auth.user.id).quarantined() });
+}
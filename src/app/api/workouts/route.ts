@@ -0,0 +1,3 @@
+import { workoutRoutes } from "@/lib/server/workout-store";
+
+export const { GET, POST } = workoutRoutes;
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+import { applySyncChanges, parseSyncRequest } from "@/lib/workout-sync";
+
+/**
+ * Applies the changes an offline device queued, resolving conflicts by id and
+ * update time, and returns the full log so the device can refresh its copy.
+ */
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const json = await readJsonBody(request);
+  if (!json.ok) return invalidJsonResponse();
+
+  const changes = parseSyncRequest(json.body);
+  if (!changes) {
+    return NextResponse.json({ error: "Expected { upserts, deletions } of workout changes." }, { status: 400 });
+  }
+
+  const result = await workoutStoreFor(auth.user.id).modify((stored) => {
+    const merged = applySyncChanges(stored, changes);
+    return { records: merged.workouts, result: merged };
+  });
+  return NextResponse.json(result);
+}
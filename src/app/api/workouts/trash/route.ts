@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/server/auth";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+
+/**
+ * Empties the trash: permanently removes every session that has a deletedAt
+ * timestamp right now, without comparing against changes still queued on devices.
+ */
+export async function DELETE() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  const removed = await workoutStoreFor(auth.user.id).removeWhere((session) => session.deletedAt !== undefined);
+  return NextResponse.json({ removed: removed.map((session) => session.id) });
+}
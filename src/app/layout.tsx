@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+
+import ServiceWorkerRegistration from "@/components/service-worker-registration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -15,6 +17,12 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Rep & Set Tracker",
   description: "Track workout sessions, sets, reps, and training volume in a clean web dashboard.",
+  appleWebApp: { capable: true, title: "Rep & Set", statusBarStyle: "black-translucent" },
+  icons: { icon: "/icon.svg", apple: "/icon-192.png" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#020617",
 };
 
 export default function RootLayout({
@@ -26,6 +34,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
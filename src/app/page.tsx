@@ -2,214 +2,721 @@
 
 import { useEffect, useMemo, useState } from "react";
 
-type WorkoutSet = {
-  id: string;
-  reps: number;
-  weight?: number;
-};
+import AccountBar from "@/components/account-bar";
+import AppImportPanel from "@/components/app-import-panel";
+import AuthForm from "@/components/auth-form";
+import BodyMetricsPanel from "@/components/body-metrics-panel";
+import DataTransferPanel from "@/components/data-transfer-panel";
+import DraftsPanel, { type DraftSummary } from "@/components/drafts-panel";
+import ExerciseCatalogPanel from "@/components/exercise-catalog-panel";
+import LiveSessionBar from "@/components/live-session-bar";
+import LogFilterBar from "@/components/log-filter-bar";
+import MuscleAnalyticsPanel from "@/components/muscle-analytics-panel";
+import ProgramsPanel from "@/components/programs-panel";
+import ProgressPanel from "@/components/progress-panel";
+import ProgressionSettingsPanel from "@/components/progression-settings-panel";
+import ReportPanel from "@/components/report-panel";
+import StrengthScoresPanel from "@/components/strength-scores-panel";
+import TemplatesPanel from "@/components/templates-panel";
+import TrainingCalendar from "@/components/training-calendar";
+import TrashPanel from "@/components/trash-panel";
+import * as bodyMetricsApi from "@/lib/body-metrics-api";
+import { bodyweightOn, type BodyMetricEntry } from "@/lib/body-metrics";
+import {
+  adoptUnscopedStorage,
+  clearPreference,
+  clearSignedInUser,
+  DRAFTS_PREFERENCE,
+  FORMULA_PREFERENCE,
+  LIVE_SESSION_PREFERENCE,
+  migrateLegacyWorkouts,
+  MUSCLE_TARGETS_PREFERENCE,
+  PROGRESSION_PREFERENCE,
+  readPreference,
+  readSignedInUser,
+  SCORING_CATEGORY_PREFERENCE,
+  UNIT_PREFERENCE,
+  WEEKLY_GOAL_PREFERENCE,
+  writePreference,
+  writeSignedInUser,
+  type StoredLiveSession,
+} from "@/lib/browser-storage";
+import {
+  buildCatalogIndex,
+  canonicalizeWorkouts,
+  catalogExerciseKind,
+  findUnlinkedNames,
+  linkNameToEntry,
+  resolveCatalogEntry,
+  withAlias,
+  type CatalogExercise,
+} from "@/lib/exercise-catalog";
+import { draftLabel, sortDraftsByRecent, type SavedDraft } from "@/lib/drafts";
+import {
+  endsRound,
+  groupLabel,
+  groupRuns,
+  groupTags,
+  isLinkedWithNext,
+  moveItem,
+  normalizeGroups,
+  toggleLinkWithNext,
+} from "@/lib/exercise-groups";
+import * as exercisesApi from "@/lib/exercises-api";
+import * as authApi from "@/lib/auth-api";
+import { createId } from "@/lib/ids";
+import {
+  adjustRest,
+  REST_PRESETS,
+  restSecondsFor,
+  startLiveSession,
+  toggleSetCompleted,
+  type LiveSessionState,
+} from "@/lib/live-session";
+import {
+  EMPTY_LOG_FILTER,
+  filterFromSearchParams,
+  filterToSearchParams,
+  filterWorkouts,
+  isFilterActive,
+  type LogFilter,
+} from "@/lib/log-filter";
+import type { MuscleSetTargets } from "@/lib/muscle-analytics";
+import { createOfflineWorkouts, type WorkoutStorage } from "@/lib/offline-workouts";
+import { describePlannedLink, plannedDayLabel, type PlannedDay, type TrainingProgram } from "@/lib/programs";
+import * as programsApi from "@/lib/programs-api";
+import { describeSet, type ProgressionSettings, type SetSuggestion } from "@/lib/progression";
+import {
+  computeRecords,
+  describeRecordHit,
+  findNewRecords,
+  ONE_REP_MAX_FORMULAS,
+  recordHitsBySession,
+  type OneRepMaxFormula,
+} from "@/lib/records";
+import { BIG_THREE_IDS, bodyweightMultiple, type ScoringCategory } from "@/lib/strength-scores";
+import {
+  convertWorkouts,
+  DEFAULT_DISTANCE_UNIT,
+  DISTANCE_UNITS,
+  formatDistance,
+  formatDuration,
+  formatWeight,
+  setVolume,
+  setWeightIn,
+  WEIGHT_UNITS,
+  type DistanceUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import {
+  applySuggestion,
+  changeSetUnit,
+  draftProgressions,
+  fillFromTargets,
+  hasDraftContent,
+  KIND_FIELDS,
+  newExerciseDraft,
+  newSetDraft,
+  parseSessionDraft,
+  plannedDayToDrafts,
+  sessionToDrafts,
+  suggestionToDraft,
+  templateToDrafts,
+  type DraftSnapshot,
+  type EffortScale,
+  type ExerciseDraft,
+  type SetDraft,
+  type SetDraftField,
+} from "@/lib/session-draft";
+import { sharePath, type SessionShare } from "@/lib/session-shares";
+import * as sharesApi from "@/lib/shares-api";
+import { templateFromSession, type WorkoutTemplate } from "@/lib/templates";
+import * as templatesApi from "@/lib/templates-api";
+import { weeklyStats } from "@/lib/training-calendar";
+import {
+  applyEntry,
+  discardEntry,
+  EMPTY_HISTORY,
+  entryTargets,
+  forgetSessions,
+  recordEntry,
+  redoEntry,
+  undoEntry,
+  type HistoryEntry,
+  type WorkoutChange,
+  type WorkoutHistory,
+} from "@/lib/workout-history";
+import type { User, UserSummary } from "@/lib/users";
+import { logTotals, setsVolume, summarizeExercises } from "@/lib/workout-stats";
+import { mergeWorkouts } from "@/lib/workout-transfer";
+import * as workoutsApi from "@/lib/workouts-api";
+import {
+  EXERCISE_KINDS,
+  formatSessionDate,
+  SET_TYPES,
+  type ExerciseKind,
+  type PlannedSessionLink,
+  type SetType,
+  type WorkoutSession,
+  type WorkoutSet,
+} from "@/lib/workouts";
 
-type ExerciseEntry = {
-  id: string;
-  name: string;
-  notes?: string;
-  sets: WorkoutSet[];
+type EditingState = {
+  sessionId: string;
+  createdAt: string;
+  // The draft that was in the form before editing started, restored on cancel or save.
+  stashedDraft: DraftSnapshot;
 };
 
-type WorkoutSession = {
-  id: string;
-  date: string; // ISO date (yyyy-mm-dd)
-  title?: string;
-  notes?: string;
-  exercises: ExerciseEntry[];
-  createdAt: string;
+const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  drop: "Drop set",
+  failure: "To failure",
 };
 
-type ExerciseDraft = {
-  id: string;
-  name: string;
-  notes: string;
-  sets: {
-    id: string;
-    reps: string;
-    weight: string;
-  }[];
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+// Used when the catalog has not loaded yet or the seeded entries were removed.
+const BIG_THREE_FALLBACK_NAMES: Record<(typeof BIG_THREE_IDS)[number], string> = {
+  "back-squat": "Back Squat",
+  "bench-press": "Bench Press",
+  deadlift: "Deadlift",
 };
 
-const STORAGE_KEY = "workout-tracker-sessions";
+// localStorage, or nothing while rendering on the server.
+const browserStorage = () => (typeof window === "undefined" ? null : window.localStorage);
 
-const todayISO = () => new Date().toISOString().slice(0, 10);
+// How often queued changes are retried while the server is out of reach.
+const SYNC_INTERVAL_MS = 60_000;
 
-const createId = () => {
-  const globalScope = globalThis as unknown as { crypto?: { randomUUID?: () => string } };
-  if (globalScope.crypto?.randomUUID) {
-    return globalScope.crypto.randomUUID();
-  }
-  return `id-${Math.random().toString(36).slice(2, 11)}`;
+type WorkoutTrackerProps = {
+  user: User;
+  // Set when a coach is looking at an athlete's shared log, which is read-only.
+  athlete: UserSummary | null;
 };
 
-const newExerciseDraft = (): ExerciseDraft => ({
-  id: createId(),
-  name: "",
-  notes: "",
-  sets: [
-    {
-      id: createId(),
-      reps: "",
-      weight: "",
-    },
-  ],
-});
+function WorkoutTracker({ user, athlete }: WorkoutTrackerProps) {
+  const readOnly = athlete !== null;
+  const athleteId = athlete?.id;
+  const [restoredLive] = useState<StoredLiveSession | null>(() =>
+    readOnly ? null : readPreference(browserStorage(), user.id, LIVE_SESSION_PREFERENCE)
+  );
+  const [date, setDate] = useState<string>(() => restoredLive?.draft.date ?? todayISO());
+  const [title, setTitle] = useState<string>(restoredLive?.draft.title ?? "");
+  const [sessionNotes, setSessionNotes] = useState<string>(restoredLive?.draft.sessionNotes ?? "");
+  const [planned, setPlanned] = useState<PlannedSessionLink | undefined>(restoredLive?.draft.planned);
+  const [unit, setUnit] = useState<WeightUnit>(() => readPreference(browserStorage(), user.id, UNIT_PREFERENCE));
+  const [exercises, setExercises] = useState<ExerciseDraft[]>(
+    () => restoredLive?.draft.exercises ?? [newExerciseDraft(readPreference(browserStorage(), user.id, UNIT_PREFERENCE))]
+  );
+  const [live, setLive] = useState<LiveSessionState | null>(restoredLive?.state ?? null);
+  // Drafts other than the one in the editor, which is autosaved under `draftId`.
+  const [savedDrafts, setSavedDrafts] = useState<SavedDraft<DraftSnapshot>[]>(() =>
+    readOnly ? [] : readPreference(browserStorage(), user.id, DRAFTS_PREFERENCE)
+  );
+  const [draftId, setDraftId] = useState<string>(createId);
+  const [draftName, setDraftName] = useState<string>("");
+  // Offered once per visit when earlier drafts exist, unless a live session was restored instead.
+  const [resumeOffered, setResumeOffered] = useState<boolean>(() => !restoredLive && savedDrafts.length > 0);
+  // Everything the server holds, trashed sessions included; most of the page works on `workouts` below.
+  const [storedWorkouts, setStoredWorkouts] = useState<WorkoutSession[]>([]);
+  const [history, setHistory] = useState<WorkoutHistory>(EMPTY_HISTORY);
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [bodyMetrics, setBodyMetrics] = useState<BodyMetricEntry[]>([]);
+  // Read-only links to single sessions, keyed by the session they show.
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  // The device copy in IndexedDB; the page renders from it and syncs with the server in the background.
+  const [offline] = useState<WorkoutStorage>(() => createOfflineWorkouts(user.id));
+  const [cacheLoaded, setCacheLoaded] = useState<boolean>(false);
+  // Bumped after each local change so the sync effect pushes it straight away.
+  const [syncRequest, setSyncRequest] = useState<number>(0);
+  const [syncStatus, setSyncStatus] = useState<{ pending: number; reachable: boolean }>({ pending: 0, reachable: true });
+  const [quarantinedCount, setQuarantinedCount] = useState<number>(0);
+  // Seeded from the URL so a filtered view can be bookmarked and shared.
+  const [filter, setFilter] = useState<LogFilter>(() =>
+    typeof window === "undefined" ? EMPTY_LOG_FILTER : filterFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  // What is being dragged in the editor: an exercise, or one of its sets.
+  const [dragging, setDragging] = useState<{ exerciseId: string; setId?: string } | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  // Whether the current feedback message belongs to an action that can be undone.
+  const [undoOffered, setUndoOffered] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [formula, setFormula] = useState<OneRepMaxFormula>(() =>
+    readPreference(browserStorage(), user.id, FORMULA_PREFERENCE)
+  );
+  const [progression, setProgression] = useState<ProgressionSettings>(() =>
+    readPreference(browserStorage(), user.id, PROGRESSION_PREFERENCE)
+  );
+  const [weeklyGoal, setWeeklyGoal] = useState<number>(() =>
+    readPreference(browserStorage(), user.id, WEEKLY_GOAL_PREFERENCE)
+  );
+  const [muscleTargets, setMuscleTargets] = useState<MuscleSetTargets>(() =>
+    readPreference(browserStorage(), user.id, MUSCLE_TARGETS_PREFERENCE)
+  );
+  const [scoringCategory, setScoringCategory] = useState<ScoringCategory>(() =>
+    readPreference(browserStorage(), user.id, SCORING_CATEGORY_PREFERENCE)
+  );
 
-export default function Home() {
-  const [date, setDate] = useState<string>(todayISO);
-  const [title, setTitle] = useState<string>("");
-  const [sessionNotes, setSessionNotes] = useState<string>("");
-  const [exercises, setExercises] = useState<ExerciseDraft[]>([newExerciseDraft()]);
-  const [workouts, setWorkouts] = useState<WorkoutSession[]>(() => {
-    if (typeof window === "undefined") {
-      return [];
+  useEffect(() => {
+    let cancelled = false;
+    if (athleteId) {
+      // An athlete's shared log is read straight from the server and never cached on this device.
+      workoutsApi
+        .fetchWorkouts(athleteId)
+        .then((loaded) => {
+          if (!cancelled) setStoredWorkouts(loaded);
+        })
+        .catch((loadError) => {
+          console.error("Failed to load workouts", loadError);
+          if (!cancelled) setError("Could not load workouts from the server.");
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    } else {
+      offline
+        .cached()
+        .then((cached) => {
+          if (cancelled || cached.length === 0) return;
+          setStoredWorkouts(cached);
+          setLoading(false);
+        })
+        .then(() => migrateLegacyWorkouts(window.localStorage, (legacy) => offline.record(legacy, [])))
+        .catch((loadError) => {
+          console.error("Failed to read the offline copy of the log", loadError);
+        })
+        .finally(() => {
+          if (!cancelled) setCacheLoaded(true);
+        });
     }
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    try {
-      const parsed = JSON.parse(raw) as WorkoutSession[];
-      return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-      console.error("Failed to parse workout data", error);
-      return [];
+    // The athlete's catalog still matters when viewing: insights group exercises by it.
+    exercisesApi
+      .fetchCatalog(athleteId)
+      .then((loaded) => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load the exercise catalog", loadError);
+      });
+    bodyMetricsApi
+      .fetchBodyMetrics(athleteId)
+      .then((loaded) => {
+        if (!cancelled) setBodyMetrics(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load body metrics", loadError);
+      });
+    programsApi
+      .fetchPrograms(athleteId)
+      .then((loaded) => {
+        if (!cancelled) setPrograms(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load programs", loadError);
+      });
+    if (athleteId) {
+      return () => {
+        cancelled = true;
+      };
     }
-  });
-  const [search, setSearch] = useState<string>("");
-  const [feedback, setFeedback] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+    workoutsApi
+      .fetchQuarantinedWorkouts()
+      .then((quarantined) => {
+        if (!cancelled) setQuarantinedCount(quarantined.length);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load quarantined workouts", loadError);
+      });
+    templatesApi
+      .fetchTemplates()
+      .then((loaded) => {
+        if (!cancelled) setTemplates(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load templates", loadError);
+      });
+    sharesApi
+      .fetchShares()
+      .then((loaded) => {
+        if (!cancelled) setShares(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load share links", loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [athleteId, offline]);
 
+  // Syncs once the device copy is on screen, after every local change, when the connection
+  // comes back and on a timer; failures just leave the queue for the next attempt.
+  useEffect(() => {
+    if (readOnly || !cacheLoaded) return;
+    let cancelled = false;
+    const run = () => {
+      offline
+        .sync()
+        .then((result) => {
+          if (cancelled) return;
+          setStoredWorkouts(result.workouts);
+          setSyncStatus({ pending: result.pending, reachable: true });
+          if (result.conflicts.length > 0) {
+            setFeedback(
+              `${result.conflicts.length} change${result.conflicts.length === 1 ? " was" : "s were"} replaced by newer edits from another device`
+            );
+          }
+        })
+        .catch(async (syncError) => {
+          console.warn("Sync postponed", syncError);
+          const pending = await offline.pendingCount().catch(() => 0);
+          if (!cancelled) setSyncStatus({ pending, reachable: false });
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    };
+    run();
+    window.addEventListener("online", run);
+    const timer = window.setInterval(run, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", run);
+      window.clearInterval(timer);
+    };
+  }, [readOnly, cacheLoaded, offline, syncRequest]);
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(workouts));
-  }, [workouts]);
+    writePreference(window.localStorage, user.id, FORMULA_PREFERENCE, formula);
+  }, [user.id, formula]);
+
+  useEffect(() => {
+    writePreference(window.localStorage, user.id, PROGRESSION_PREFERENCE, progression);
+  }, [user.id, progression]);
+
+  useEffect(() => {
+    writePreference(window.localStorage, user.id, UNIT_PREFERENCE, unit);
+  }, [user.id, unit]);
+
+  useEffect(() => {
+    writePreference(window.localStorage, user.id, WEEKLY_GOAL_PREFERENCE, weeklyGoal);
+  }, [user.id, weeklyGoal]);
+
+  useEffect(() => {
+    writePreference(window.localStorage, user.id, MUSCLE_TARGETS_PREFERENCE, muscleTargets);
+  }, [user.id, muscleTargets]);
+
+  useEffect(() => {
+    writePreference(window.localStorage, user.id, SCORING_CATEGORY_PREFERENCE, scoringCategory);
+  }, [user.id, scoringCategory]);
+
+  // Viewing an athlete starts with no live session or drafts; the coach's own are left untouched.
+  useEffect(() => {
+    if (readOnly) return;
+    if (!live) {
+      clearPreference(window.localStorage, user.id, LIVE_SESSION_PREFERENCE);
+      return;
+    }
+    writePreference(window.localStorage, user.id, LIVE_SESSION_PREFERENCE, {
+      state: live,
+      draft: { date, title, sessionNotes, exercises, planned },
+    });
+  }, [readOnly, user.id, live, date, title, sessionNotes, exercises, planned]);
+
+  // While editing a saved session the draft being typed is the one stashed away; a live session saves its own.
+  useEffect(() => {
+    if (readOnly || live) return;
+    const snapshot = editing?.stashedDraft ?? { date, title, sessionNotes, exercises, planned };
+    const current = hasDraftContent(snapshot)
+      ? [{ id: draftId, name: draftName, updatedAt: new Date().toISOString(), snapshot }]
+      : [];
+    const stored = [...savedDrafts.filter((draft) => draft.id !== draftId), ...current];
+    writePreference(window.localStorage, user.id, DRAFTS_PREFERENCE, stored);
+  }, [readOnly, user.id, live, editing, date, title, sessionNotes, exercises, planned, draftId, draftName, savedDrafts]);
 
   useEffect(() => {
     if (!feedback && !error) return;
     const timer = window.setTimeout(() => {
       setFeedback(null);
       setError(null);
+      setUndoOffered(false);
     }, 3500);
     return () => window.clearTimeout(timer);
   }, [feedback, error]);
 
+  useEffect(() => {
+    const params = filterToSearchParams(filter).toString();
+    const url = `${window.location.pathname}${params ? `?${params}` : ""}${window.location.hash}`;
+    window.history.replaceState(window.history.state, "", url);
+  }, [filter]);
+
+  const workouts = useMemo(() => storedWorkouts.filter((session) => !session.deletedAt), [storedWorkouts]);
+  const trashedWorkouts = useMemo(() => storedWorkouts.filter((session) => session.deletedAt), [storedWorkouts]);
+  // Every aggregate below works on this copy so sets logged in different units add up correctly
+  // and aliases such as "Bench" and "bench press" count as one catalog exercise.
+  const catalogIndex = useMemo(() => buildCatalogIndex(catalog), [catalog]);
+  const displayWorkouts = useMemo(
+    () => canonicalizeWorkouts(convertWorkouts(workouts, unit), catalogIndex),
+    [workouts, unit, catalogIndex]
+  );
+  // History for suggestions keeps each set's own unit; only names are canonicalized.
+  const canonicalWorkouts = useMemo(() => canonicalizeWorkouts(workouts, catalogIndex), [workouts, catalogIndex]);
+  const draftHistory = useMemo(
+    () =>
+      draftProgressions(
+        exercises,
+        // The session being edited is not its own history.
+        canonicalWorkouts.filter((session) => session.id !== editing?.sessionId),
+        catalogIndex,
+        progression
+      ),
+    [canonicalWorkouts, catalogIndex, exercises, editing, progression]
+  );
+  // Filtering runs on the converted copy so weight thresholds use the display unit; cards show the stored sessions.
   const filteredWorkouts = useMemo(() => {
-    const query = search.trim().toLowerCase();
-    const sorted = [...workouts].sort((a, b) => {
-      if (a.date === b.date) {
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      }
-      return a.date < b.date ? 1 : -1;
-    });
-    if (!query) return sorted;
-    return sorted.filter((session) =>
-      session.exercises.some((exercise) => exercise.name.toLowerCase().includes(query)) ||
-      (session.title ?? "").toLowerCase().includes(query)
-    );
-  }, [search, workouts]);
+    const byId = new Map(workouts.map((session) => [session.id, session]));
+    return filterWorkouts(displayWorkouts, filter, catalogIndex).flatMap((session) => byId.get(session.id) ?? []);
+  }, [workouts, displayWorkouts, filter, catalogIndex]);
+  const weekly = useMemo(() => weeklyStats(workouts, weeklyGoal, todayISO()), [workouts, weeklyGoal]);
+  const sessionGroupTags = useMemo(
+    () => new Map(workouts.map((session) => [session.id, groupTags(session.exercises)])),
+    [workouts]
+  );
+  const draftGroupTags = useMemo(() => groupTags(exercises), [exercises]);
+  const draftSummaries = useMemo<DraftSummary[]>(
+    () =>
+      sortDraftsByRecent(savedDrafts)
+        .filter((draft) => draft.id !== draftId)
+        .map((draft) => {
+          const named = draft.snapshot.exercises.filter((exercise) => exercise.name.trim()).length;
+          return {
+            id: draft.id,
+            label: draftLabel(draft.name, draft.snapshot.title),
+            updatedAt: draft.updatedAt,
+            detail: `${named} exercise${named === 1 ? "" : "s"} · ${draft.snapshot.date}`,
+          };
+        }),
+    [savedDrafts, draftId]
+  );
+  const shareBySession = useMemo(() => new Map(shares.map((share) => [share.sessionId, share])), [shares]);
+  const unlinkedNames = useMemo(() => findUnlinkedNames(workouts, catalogIndex), [workouts, catalogIndex]);
 
-  const exerciseSummary = useMemo(() => {
-    const summary = new Map<
-      string,
-      {
-        totalSets: number;
-        totalReps: number;
-        totalVolume: number;
-        lastPerformed: string;
-      }
-    >();
-
-    workouts.forEach((session) => {
-      session.exercises.forEach((exercise) => {
-        const key = exercise.name.trim() || "Unnamed Exercise";
-        const record = summary.get(key) ?? {
-          totalSets: 0,
-          totalReps: 0,
-          totalVolume: 0,
-          lastPerformed: session.date,
-        };
-
-        const sets = exercise.sets ?? [];
-        const newSets = record.totalSets + sets.length;
-        const newReps =
-          record.totalReps +
-          sets.reduce((acc, set) => acc + (Number.isFinite(set.reps) ? set.reps : 0), 0);
-        const newVolume =
-          record.totalVolume +
-          sets.reduce((acc, set) => acc + (set.weight ?? 0) * set.reps, 0);
-
-        const lastPerformed = record.lastPerformed > session.date ? record.lastPerformed : session.date;
-
-        summary.set(key, {
-          totalSets: newSets,
-          totalReps: newReps,
-          totalVolume: newVolume,
-          lastPerformed,
-        });
-      });
-    });
+  const exerciseSummary = useMemo(() => summarizeExercises(displayWorkouts, unit), [displayWorkouts, unit]);
 
-    return Array.from(summary.entries()).sort((a, b) => b[1].lastPerformed.localeCompare(a[1].lastPerformed));
-  }, [workouts]);
+  const personalRecords = useMemo(() => computeRecords(displayWorkouts, formula), [displayWorkouts, formula]);
+  const recordHits = useMemo(() => recordHitsBySession(displayWorkouts, formula), [displayWorkouts, formula]);
+  // Best estimated 1RMs on the big three, named as in the catalog so they match the canonicalized log.
+  const bigThree = useMemo(
+    () =>
+      BIG_THREE_IDS.map((id) => {
+        const name = catalog.find((entry) => entry.id === id)?.name ?? BIG_THREE_FALLBACK_NAMES[id];
+        return { name, oneRepMax: personalRecords.get(name)?.bestOneRepMax?.value ?? null };
+      }),
+    [catalog, personalRecords]
+  );
+  const currentBodyweight = useMemo(() => bodyweightOn(bodyMetrics, todayISO(), unit), [bodyMetrics, unit]);
 
   const resetForm = () => {
     setTitle("");
     setSessionNotes("");
-    setExercises([newExerciseDraft()]);
+    setExercises([newExerciseDraft(unit)]);
     setDate(todayISO);
+    setPlanned(undefined);
   };
 
-  const handleAddWorkout = () => {
-    const preparedExercises = exercises
-      .map((exercise) => {
-        const cleanName = exercise.name.trim();
-        const cleanSets = exercise.sets
-          .map((set) => {
-            const repsValue = parseInt(set.reps, 10);
-            const weightValue = set.weight.trim() === "" ? undefined : parseFloat(set.weight);
-            return {
-              id: set.id,
-              reps: repsValue,
-              weight: Number.isNaN(weightValue) ? undefined : weightValue,
-            } satisfies WorkoutSet;
-          })
-          .filter((set) => !Number.isNaN(set.reps) && set.reps > 0);
-
-        if (!cleanName || cleanSets.length === 0) {
-          return null;
-        }
+  const restoreDraft = (snapshot: DraftSnapshot) => {
+    setDate(snapshot.date);
+    setTitle(snapshot.title);
+    setSessionNotes(snapshot.sessionNotes);
+    setExercises(snapshot.exercises);
+    setPlanned(snapshot.planned);
+  };
 
-        return {
-          id: exercise.id,
-          name: cleanName,
-          notes: exercise.notes.trim() || undefined,
-          sets: cleanSets,
-        } satisfies ExerciseEntry;
-      })
-      .filter(Boolean) as ExerciseEntry[];
+  // Keeps the editor's draft (if it has content) in the list and gives the editor a fresh draft id.
+  const parkDraft = (nextId: string, nextName: string) => {
+    if (live) return;
+    const snapshot = editing?.stashedDraft ?? { date, title, sessionNotes, exercises, planned };
+    setSavedDrafts((prev) => [
+      ...prev.filter((draft) => draft.id !== nextId),
+      ...(hasDraftContent(snapshot)
+        ? [{ id: draftId, name: draftName, updatedAt: new Date().toISOString(), snapshot }]
+        : []),
+    ]);
+    setDraftId(nextId);
+    setDraftName(nextName);
+    setResumeOffered(false);
+  };
+
+  const startNewDraft = () => parkDraft(createId(), "");
+
+  const resumeDraft = (id: string) => {
+    const draft = savedDrafts.find((candidate) => candidate.id === id);
+    if (!draft) return;
+    parkDraft(draft.id, draft.name);
+    setEditing(null);
+    restoreDraft(draft.snapshot);
+    setFeedback(`Resumed "${draftLabel(draft.name, draft.snapshot.title)}"`);
+  };
+
+  const discardDraft = (id: string) => {
+    setSavedDrafts((prev) => prev.filter((draft) => draft.id !== id));
+  };
+
+  // Records a local change on this device; the sync effect takes it to the server.
+  const recordLocally = async (sessions: WorkoutSession[], removedIds: string[]) => {
+    await offline.record(sessions, removedIds);
+    setSyncRequest((prev) => prev + 1);
+  };
+
+  // Writes one side of a history entry: saves the sessions it keeps and deletes the ones it drops.
+  const persistEntry = async (entry: HistoryEntry, side: keyof WorkoutChange) => {
+    const { sessions, removedIds } = entryTargets(entry, side);
+    await recordLocally(sessions, removedIds);
+  };
+
+  // Applies a change to the list right away and records it for undo; a failed request reverts both.
+  const commitChange = (entry: HistoryEntry, message: string, failure: string) => {
+    setStoredWorkouts((prev) => applyEntry(prev, entry, "after"));
+    setHistory((prev) => recordEntry(prev, entry));
+    setFeedback(message);
+    setUndoOffered(true);
+    persistEntry(entry, "after").catch((saveError) => {
+      console.error(`Failed to ${entry.label}`, saveError);
+      setStoredWorkouts((prev) => applyEntry(prev, entry, "before"));
+      setHistory((prev) => discardEntry(prev, entry));
+      setUndoOffered(false);
+      setError(failure);
+    });
+  };
+
+  const stepHistory = (direction: "undo" | "redo") => {
+    const entry = direction === "undo" ? history.past.at(-1) : history.future.at(-1);
+    if (!entry) return;
+    const [side, previous] = direction === "undo" ? (["before", "after"] as const) : (["after", "before"] as const);
+    setStoredWorkouts((prev) => applyEntry(prev, entry, side));
+    setHistory((prev) => (direction === "undo" ? undoEntry(prev) : redoEntry(prev)));
+    setUndoOffered(false);
+    setFeedback(`${direction === "undo" ? "Undid" : "Redid"}: ${entry.label}`);
+    persistEntry(entry, side).catch((saveError) => {
+      console.error(`Failed to ${direction} ${entry.label}`, saveError);
+      setStoredWorkouts((prev) => applyEntry(prev, entry, previous));
+      setHistory((prev) => discardEntry(prev, entry));
+      setError(`Could not ${direction} "${entry.label}". It was removed from the history.`);
+    });
+  };
 
-    if (preparedExercises.length === 0) {
-      setError("Add at least one exercise with a valid set before saving.");
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing where the browser's own undo applies.
+  useEffect(() => {
+    if (readOnly) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        event.preventDefault();
+        stepHistory(key === "y" || event.shiftKey ? "redo" : "undo");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // A live session only keeps the sets that were ticked off and records when it ran.
+  const handleSaveWorkout = (liveSession: LiveSessionState | null = null) => {
+    const parsed = parseSessionDraft(
+      { date, title, sessionNotes, exercises, planned },
+      { catalogIndex, completedSetIds: liveSession?.completedSetIds }
+    );
+    if (!parsed.ok) {
+      setError(parsed.reason);
+      return;
+    }
+
+    if (editing) {
+      const original = workouts.find((workout) => workout.id === editing.sessionId);
+      if (!original) {
+        setError("This session no longer exists.");
+        return;
+      }
+      const updatedWorkout: WorkoutSession = {
+        id: editing.sessionId,
+        ...parsed.value,
+        createdAt: editing.createdAt,
+        startedAt: original.startedAt,
+        endedAt: original.endedAt,
+      };
+
+      restoreDraft(editing.stashedDraft);
+      setEditing(null);
+      commitChange(
+        { label: "edit workout", changes: [{ before: original, after: updatedWorkout }] },
+        "Workout updated",
+        "Updating failed. The previous version was kept."
+      );
       return;
     }
 
     const newWorkout: WorkoutSession = {
       id: createId(),
-      date,
-      title: title.trim() || undefined,
-      notes: sessionNotes.trim() || undefined,
-      exercises: preparedExercises,
+      ...parsed.value,
       createdAt: new Date().toISOString(),
+      startedAt: liveSession?.startedAt,
+      endedAt: liveSession ? new Date().toISOString() : undefined,
     };
 
-    setWorkouts((prev) => [...prev, newWorkout]);
+    // Compared under canonical names, like the log it is checked against, so a lift logged by alias still counts.
+    const hits = findNewRecords(
+      displayWorkouts,
+      canonicalizeWorkouts(convertWorkouts([newWorkout], unit), catalogIndex)[0],
+      formula
+    );
+    setLive(null);
     resetForm();
-    setFeedback("Workout saved");
+    // The saved session replaces its draft, so the editor moves on to a new one.
+    setDraftId(createId());
+    setDraftName("");
+    commitChange(
+      { label: "save workout", changes: [{ before: null, after: newWorkout }] },
+      hits.length === 0
+        ? "Workout saved"
+        : `Workout saved — ${hits.length} new PR${hits.length === 1 ? "" : "s"}! ${hits
+            .map((hit) => describeRecordHit(hit, unit))
+            .join("; ")}`,
+      "Saving failed. The workout was not stored."
+    );
+  };
+
+  const startLive = () => {
+    setDate(todayISO());
+    setLive(startLiveSession(new Date()));
+  };
+
+  const discardLive = () => {
+    setLive(null);
+    resetForm();
+    setFeedback("Live session discarded");
+  };
+
+  const toggleLiveSet = (exerciseId: string, setId: string) => {
+    if (!live) return;
+    if (!live.completedSetIds.includes(setId)) updateSetWith(exerciseId, setId, fillFromTargets);
+    // Within a superset the rest only starts after the last exercise of the round.
+    const restKey = endsRound(exercises, exerciseId) ? restKeyFor(exerciseId) : null;
+    setLive(toggleSetCompleted(live, restKey, setId, new Date()));
+  };
+
+  // Grouped exercises share one rest setting, stored under the group id.
+  const restKeyFor = (exerciseId: string) =>
+    exercises.find((exercise) => exercise.id === exerciseId)?.groupId ?? exerciseId;
+
+  const setRestSeconds = (restKey: string, seconds: number) => {
+    setLive((prev) => prev && { ...prev, restSeconds: { ...prev.restSeconds, [restKey]: seconds } });
   };
 
   const updateExercise = (exerciseId: string, updater: (exercise: ExerciseDraft) => ExerciseDraft) => {
@@ -217,32 +724,57 @@ export default function Home() {
   };
 
   const handleExerciseNameChange = (exerciseId: string, value: string) => {
-    updateExercise(exerciseId, (exercise) => ({ ...exercise, name: value }));
+    const entry = resolveCatalogEntry(catalogIndex, value);
+    updateExercise(exerciseId, (exercise) => ({
+      ...exercise,
+      name: value,
+      exerciseId: undefined,
+      // Picking a catalog exercise switches to the inputs it is normally logged with.
+      kind: entry ? catalogExerciseKind(entry) : exercise.kind,
+    }));
+  };
+
+  const handleExerciseKindChange = (exerciseId: string, kind: ExerciseKind) => {
+    updateExercise(exerciseId, (exercise) => ({ ...exercise, kind }));
+  };
+
+  const handleEffortScaleChange = (exerciseId: string, effortScale: EffortScale) => {
+    updateExercise(exerciseId, (exercise) => ({ ...exercise, effortScale }));
   };
 
   const handleExerciseNotesChange = (exerciseId: string, value: string) => {
     updateExercise(exerciseId, (exercise) => ({ ...exercise, notes: value }));
   };
 
-  const handleSetChange = (exerciseId: string, setId: string, field: "reps" | "weight", value: string) => {
+  const updateSetWith = (exerciseId: string, setId: string, updater: (set: SetDraft) => SetDraft) => {
     updateExercise(exerciseId, (exercise) => ({
       ...exercise,
-      sets: exercise.sets.map((set) => (set.id === setId ? { ...set, [field]: value } : set)),
+      sets: exercise.sets.map((set) => (set.id === setId ? updater(set) : set)),
     }));
   };
 
+  const updateSet = (exerciseId: string, setId: string, patch: Partial<SetDraft>) => {
+    updateSetWith(exerciseId, setId, (set) => ({ ...set, ...patch }));
+  };
+
+  const handleSetChange = (exerciseId: string, setId: string, field: SetDraftField, value: string) => {
+    updateSet(exerciseId, setId, { [field]: value });
+  };
+
+  const fillSuggestion = (exerciseId: string, suggestions: SetSuggestion[]) => {
+    updateExercise(exerciseId, (exercise) => applySuggestion(exercise, suggestions));
+  };
+
   const addSetToExercise = (exerciseId: string) => {
-    updateExercise(exerciseId, (exercise) => ({
-      ...exercise,
-      sets: [
-        ...exercise.sets,
-        {
-          id: createId(),
-          reps: "",
-          weight: "",
-        },
-      ],
-    }));
+    updateExercise(exerciseId, (exercise) => {
+      const previous = exercise.sets[exercise.sets.length - 1];
+      // Follow the previous set so a pounds session stays in pounds and a miles run stays in miles.
+      return { ...exercise, sets: [...exercise.sets, newSetDraft(previous?.unit ?? unit, previous?.distanceUnit)] };
+    });
+  };
+
+  const handleSetUnitChange = (exerciseId: string, setId: string, value: WeightUnit) => {
+    updateSetWith(exerciseId, setId, (set) => changeSetUnit(set, value));
   };
 
   const removeSetFromExercise = (exerciseId: string, setId: string) => {
@@ -252,74 +784,457 @@ export default function Home() {
     }));
   };
 
+  const moveExercise = (from: number, to: number) => {
+    setExercises((prev) => normalizeGroups(moveItem(prev, from, to), createId));
+  };
+
+  const moveSet = (exerciseId: string, from: number, to: number) => {
+    updateExercise(exerciseId, (exercise) => ({ ...exercise, sets: moveItem(exercise.sets, from, to) }));
+  };
+
+  const toggleExerciseLink = (index: number) => {
+    setExercises((prev) => toggleLinkWithNext(prev, index, createId));
+  };
+
+  // Drag and drop mirrors the move buttons: dropping on an item puts the dragged one in its place.
+  const dropOn = (exerciseId: string, setId?: string) => {
+    if (!dragging) return;
+    if (dragging.setId && setId && dragging.exerciseId === exerciseId) {
+      const sets = exercises.find((exercise) => exercise.id === exerciseId)?.sets ?? [];
+      moveSet(
+        exerciseId,
+        sets.findIndex((set) => set.id === dragging.setId),
+        sets.findIndex((set) => set.id === setId)
+      );
+    } else if (!dragging.setId && !setId) {
+      moveExercise(
+        exercises.findIndex((exercise) => exercise.id === dragging.exerciseId),
+        exercises.findIndex((exercise) => exercise.id === exerciseId)
+      );
+    }
+    setDragging(null);
+  };
+
   const addExercise = () => {
-    setExercises((prev) => [...prev, newExerciseDraft()]);
+    setExercises((prev) => [...prev, newExerciseDraft(unit)]);
   };
 
   const removeExercise = (exerciseId: string) => {
-    setExercises((prev) => (prev.length <= 1 ? prev : prev.filter((exercise) => exercise.id !== exerciseId)));
+    setExercises((prev) =>
+      prev.length <= 1 ? prev : normalizeGroups(prev.filter((exercise) => exercise.id !== exerciseId), createId)
+    );
   };
 
+  // Deleting only moves the session to the trash; it can be undone or restored from there.
   const deleteWorkout = (workoutId: string) => {
-    setWorkouts((prev) => prev.filter((workout) => workout.id !== workoutId));
+    const removed = workouts.find((workout) => workout.id === workoutId);
+    if (!removed) return;
+    if (editing?.sessionId === workoutId) {
+      cancelEditing();
+    }
+    commitChange(
+      {
+        label: "delete workout",
+        changes: [{ before: removed, after: { ...removed, deletedAt: new Date().toISOString() } }],
+      },
+      "Workout moved to the trash",
+      "Deleting failed. The workout was restored."
+    );
+  };
+
+  const restoreWorkout = (workoutId: string) => {
+    const trashed = trashedWorkouts.find((workout) => workout.id === workoutId);
+    if (!trashed) return;
+    commitChange(
+      { label: "restore workout", changes: [{ before: trashed, after: { ...trashed, deletedAt: undefined } }] },
+      "Workout restored",
+      "Restoring failed. The workout is still in the trash."
+    );
+  };
+
+  const purgeWorkouts = (ids: string[]) => {
+    setStoredWorkouts((prev) => prev.filter((workout) => !ids.includes(workout.id)));
+    setHistory((prev) => forgetSessions(prev, ids));
+  };
+
+  const deleteWorkoutForever = (workoutId: string) => {
+    recordLocally([], [workoutId])
+      .then(() => purgeWorkouts([workoutId]))
+      .catch((deleteError) => {
+        console.error("Failed to delete workout", deleteError);
+        setError("Deleting failed. The workout is still in the trash.");
+      });
+  };
+
+  const emptyTrash = () => {
+    const removed = trashedWorkouts.map((session) => session.id);
+    recordLocally([], removed)
+      .then(() => {
+        purgeWorkouts(removed);
+        setFeedback(`Permanently deleted ${removed.length} workout${removed.length === 1 ? "" : "s"}`);
+      })
+      .catch((deleteError) => {
+        console.error("Failed to empty the trash", deleteError);
+        setError("Emptying the trash failed.");
+      });
+  };
+
+  const saveCatalogEntry = async (entry: CatalogExercise) => {
+    if (catalog.some((candidate) => candidate.id === entry.id)) {
+      const updated = await exercisesApi.updateCatalogExercise(entry);
+      setCatalog((prev) => prev.map((candidate) => (candidate.id === updated.id ? updated : candidate)));
+    } else {
+      const created = await exercisesApi.createCatalogExercises([entry]);
+      setCatalog((prev) => [...prev, ...created]);
+    }
+  };
+
+  const deleteCatalogEntry = (entryId: string) => {
+    const removed = catalog.find((entry) => entry.id === entryId);
+    if (!removed) return;
+    setCatalog((prev) => prev.filter((entry) => entry.id !== entryId));
+    exercisesApi.deleteCatalogExercise(entryId).catch((deleteError) => {
+      console.error("Failed to delete catalog exercise", deleteError);
+      setCatalog((prev) => [...prev, removed]);
+      setError("Deleting the catalog exercise failed.");
+    });
+  };
+
+  const mergeExerciseName = async (name: string, targetId: string | null) => {
+    const target = targetId ? catalog.find((entry) => entry.id === targetId) : undefined;
+    const entry: CatalogExercise = target
+      ? withAlias(target, name)
+      : { id: createId(), name: name.trim(), aliases: [], muscleGroups: [], equipment: "other" };
+    try {
+      if (entry !== target) await saveCatalogEntry(entry);
+      const changed = linkNameToEntry(storedWorkouts, name, entry);
+      if (changed.length > 0) {
+        await recordLocally(changed, []);
+        const byId = new Map(changed.map((session) => [session.id, session]));
+        setStoredWorkouts((prev) => prev.map((session) => byId.get(session.id) ?? session));
+      }
+      setFeedback(`Merged "${name}" into ${entry.name}`);
+    } catch (mergeError) {
+      console.error("Failed to merge exercise name", mergeError);
+      setError(`Could not merge "${name}".`);
+    }
+  };
+
+  // Merging against the trash too means importing a trashed session's id brings it back.
+  const handleImport = async (sessions: WorkoutSession[]) => {
+    const merged = mergeWorkouts(storedWorkouts, sessions);
+    const changed = [...merged.added, ...merged.updated];
+    if (changed.length > 0) {
+      const byId = new Map(storedWorkouts.map((session) => [session.id, session]));
+      const entry: HistoryEntry = {
+        label: `import ${changed.length} workout${changed.length === 1 ? "" : "s"}`,
+        changes: changed.map((session) => ({ before: byId.get(session.id) ?? null, after: session })),
+      };
+      await recordLocally(changed, []);
+      setStoredWorkouts(merged.workouts);
+      setHistory((prev) => recordEntry(prev, entry));
+      setFeedback(`Imported ${changed.length} workout${changed.length === 1 ? "" : "s"}`);
+      setUndoOffered(true);
+    }
+    return merged;
   };
 
   const duplicateWorkout = (workoutId: string) => {
     const source = workouts.find((workout) => workout.id === workoutId);
     if (!source) return;
 
+    startNewDraft();
     setDate(source.date);
     setTitle(source.title ?? "");
     setSessionNotes(source.notes ?? "");
-    setExercises(
-      source.exercises.map((exercise) => ({
-        id: createId(),
-        name: exercise.name,
-        notes: exercise.notes ?? "",
-        sets: exercise.sets.map((set) => ({
-          id: createId(),
-          reps: String(set.reps),
-          weight: set.weight != null ? String(set.weight) : "",
-        })),
-      }))
-    );
+    setExercises(sessionToDrafts(source, false));
+    setPlanned(undefined);
+    setEditing(null);
     setFeedback("Session loaded into the editor");
   };
 
-  const renderVolume = (sets: WorkoutSet[]) => {
-    const total = sets.reduce((acc, set) => acc + (set.weight ?? 0) * set.reps, 0);
-    if (!total) return "—";
-    return `${total.toLocaleString()} kg`;
+  const kindForName = (name: string) => {
+    const entry = resolveCatalogEntry(catalogIndex, name);
+    return entry ? catalogExerciseKind(entry) : "weighted";
+  };
+
+  const startFromTemplate = (template: WorkoutTemplate) => {
+    startNewDraft();
+    setEditing(null);
+    setDate(todayISO());
+    setTitle(template.name);
+    setSessionNotes("");
+    setPlanned(undefined);
+    setExercises(templateToDrafts(template, kindForName));
+    setFeedback(`Started "${template.name}"`);
   };
 
-  const formatDate = (iso: string) => {
+  // Days ahead of schedule are logged today; days already due keep the date they were planned for.
+  const startPlannedDay = (day: PlannedDay) => {
+    if (live) {
+      setError("Finish or discard the live session before opening a program day.");
+      return;
+    }
+    const program = programs.find((candidate) => candidate.id === day.programId);
+    startNewDraft();
+    setEditing(null);
+    setDate(day.date < todayISO() ? day.date : todayISO());
+    setTitle(day.title || program?.name || "");
+    setSessionNotes(day.deload ? "Deload week" : "");
+    setPlanned({ programId: day.programId, dayId: day.dayId, week: day.week });
+    setExercises(plannedDayToDrafts(day, kindForName));
+    setFeedback(`Opened ${program ? `${program.name}: ` : ""}${plannedDayLabel(day)}`);
+  };
+
+  const saveProgram = async (program: TrainingProgram) => {
+    if (programs.some((candidate) => candidate.id === program.id)) {
+      const updated = await programsApi.updateProgram(program);
+      setPrograms((prev) => prev.map((candidate) => (candidate.id === updated.id ? updated : candidate)));
+    } else {
+      const created = await programsApi.createPrograms([program]);
+      setPrograms((prev) => [...prev, ...created]);
+    }
+    setFeedback(`Program "${program.name}" saved`);
+  };
+
+  // Sessions logged against the program keep their link; they just stop counting towards anything.
+  const deleteProgram = (programId: string) => {
+    const removed = programs.find((program) => program.id === programId);
+    if (!removed) return;
+    setPrograms((prev) => prev.filter((program) => program.id !== programId));
+    programsApi.deleteProgram(programId).catch((deleteError) => {
+      console.error("Failed to delete program", deleteError);
+      setPrograms((prev) => [...prev, removed]);
+      setError("Deleting the program failed.");
+    });
+  };
+
+  const saveTemplate = async (template: WorkoutTemplate) => {
+    if (templates.some((candidate) => candidate.id === template.id)) {
+      const updated = await templatesApi.updateTemplate(template);
+      setTemplates((prev) => prev.map((candidate) => (candidate.id === updated.id ? updated : candidate)));
+    } else {
+      const created = await templatesApi.createTemplates([template]);
+      setTemplates((prev) => [...prev, ...created]);
+    }
+  };
+
+  const saveWorkoutAsTemplate = (workoutId: string) => {
+    const source = workouts.find((workout) => workout.id === workoutId);
+    if (!source) return;
+    const template = templateFromSession(source, source.title ?? `Session ${source.date}`);
+    saveTemplate(template)
+      .then(() => setFeedback(`Template "${template.name}" created`))
+      .catch((saveError) => {
+        console.error("Failed to create template", saveError);
+        setError("Could not create the template.");
+      });
+  };
+
+  const saveBodyMetric = async (entry: BodyMetricEntry) => {
+    const previous = bodyMetrics;
+    const exists = previous.some((candidate) => candidate.id === entry.id);
+    setBodyMetrics(
+      exists ? previous.map((candidate) => (candidate.id === entry.id ? entry : candidate)) : [...previous, entry]
+    );
     try {
-      const dateObject = new Date(`${iso}T00:00:00`);
-      return new Intl.DateTimeFormat(undefined, {
-        weekday: "short",
-        month: "short",
-        day: "numeric",
-      }).format(dateObject);
-    } catch (error) {
-      console.warn("Unable to format date", error);
-      return iso;
+      if (exists) {
+        await bodyMetricsApi.updateBodyMetric(entry);
+      } else {
+        await bodyMetricsApi.createBodyMetrics([entry]);
+      }
+      setFeedback("Body metrics logged");
+    } catch (saveError) {
+      console.error("Failed to save body metrics", saveError);
+      setBodyMetrics(previous);
+      throw saveError;
     }
   };
 
-  const totalSets = workouts.reduce(
-    (acc, workout) => acc + workout.exercises.reduce((sum, exercise) => sum + exercise.sets.length, 0),
-    0
-  );
-  const totalVolume = workouts.reduce(
-    (acc, workout) =>
-      acc +
-      workout.exercises.reduce(
-        (exerciseSum, exercise) =>
-          exerciseSum + exercise.sets.reduce((setSum, set) => setSum + (set.weight ?? 0) * set.reps, 0),
-        0
-      ),
-    0
-  );
+  const deleteBodyMetric = (entryId: string) => {
+    const removed = bodyMetrics.find((entry) => entry.id === entryId);
+    if (!removed) return;
+    setBodyMetrics((prev) => prev.filter((entry) => entry.id !== entryId));
+    bodyMetricsApi.deleteBodyMetric(entryId).catch((deleteError) => {
+      console.error("Failed to delete body metrics", deleteError);
+      setBodyMetrics((prev) => [...prev, removed]);
+      setError("Deleting the body metrics entry failed.");
+    });
+  };
+
+  // The link is copied straight away; where the clipboard is unavailable it is shown instead.
+  const shareWorkout = (sessionId: string) => {
+    sharesApi
+      .shareSession(sessionId, unit)
+      .then(async (share) => {
+        setShares((prev) => [...prev.filter((candidate) => candidate.id !== share.id), share]);
+        const url = new URL(sharePath(share.id), window.location.origin).toString();
+        try {
+          await navigator.clipboard.writeText(url);
+          setFeedback("Share link copied");
+        } catch {
+          setFeedback(`Share link: ${url}`);
+        }
+      })
+      .catch((shareError) => {
+        console.error("Failed to share workout", shareError);
+        setError("Could not create a share link. Sessions can be shared once they have synced.");
+      });
+  };
+
+  const stopSharing = (shareId: string) => {
+    const removed = shares.find((share) => share.id === shareId);
+    if (!removed) return;
+    setShares((prev) => prev.filter((share) => share.id !== shareId));
+    sharesApi
+      .revokeShare(shareId)
+      .then(() => setFeedback("Share link revoked"))
+      .catch((revokeError) => {
+        console.error("Failed to revoke share link", revokeError);
+        setShares((prev) => [...prev, removed]);
+        setError("Revoking the share link failed.");
+      });
+  };
+
+  const deleteTemplate = (templateId: string) => {
+    const removed = templates.find((template) => template.id === templateId);
+    if (!removed) return;
+    setTemplates((prev) => prev.filter((template) => template.id !== templateId));
+    templatesApi.deleteTemplate(templateId).catch((deleteError) => {
+      console.error("Failed to delete template", deleteError);
+      setTemplates((prev) => [...prev, removed]);
+      setError("Deleting the template failed.");
+    });
+  };
+
+  const startEditing = (workoutId: string) => {
+    const source = workouts.find((workout) => workout.id === workoutId);
+    if (!source) return;
+    if (live) {
+      setError("Finish or discard the live session before editing another one.");
+      return;
+    }
+
+    // Switching from one edit to another keeps the draft stashed by the first.
+    const stashedDraft = editing?.stashedDraft ?? { date, title, sessionNotes, exercises, planned };
+    setEditing({ sessionId: source.id, createdAt: source.createdAt, stashedDraft });
+    setDate(source.date);
+    setTitle(source.title ?? "");
+    setSessionNotes(source.notes ?? "");
+    setExercises(sessionToDrafts(source, true));
+    setPlanned(source.planned);
+  };
+
+  const cancelEditing = () => {
+    if (!editing) return;
+    restoreDraft(editing.stashedDraft);
+    setEditing(null);
+  };
+
+  const renderVolume = (sets: WorkoutSet[]) => {
+    const total = setsVolume(sets, unit);
+    if (!total) return "—";
+    return formatWeight(total, unit);
+  };
+
+  const renderGroupTag = (tag: string | undefined) =>
+    tag && <span className="mr-2 rounded bg-indigo-500/20 px-1.5 py-0.5 text-xs text-indigo-200">{tag}</span>;
+
+  const describeSetDetails = (set: WorkoutSet) =>
+    [
+      set.durationSeconds != null && formatDuration(set.durationSeconds),
+      set.distance != null && formatDistance(set.distance, set.distanceUnit ?? DEFAULT_DISTANCE_UNIT),
+      set.rpe != null && `RPE ${set.rpe}`,
+      set.rir != null && `${set.rir} RIR`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const renderDraftHistory = (exerciseId: string) => {
+    const history = draftHistory.get(exerciseId);
+    if (!history) return null;
+    const { previous, suggestion } = history;
+    return (
+      <div className="mt-3 space-y-1 rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-xs text-slate-400">
+        <p>
+          Last time ({formatSessionDate(previous.date)}):{" "}
+          <span className="text-slate-200">{previous.sets.map(describeSet).join(", ")}</span>
+        </p>
+        {suggestion && (
+          <div className="flex items-center justify-between gap-2">
+            <p>
+              Suggested: <span className="text-indigo-200">{suggestion.reason}</span>
+            </p>
+            <button
+              type="button"
+              onClick={() => fillSuggestion(exerciseId, suggestion.sets)}
+              className="shrink-0 rounded-lg border border-indigo-500/40 px-2 py-1 text-[11px] font-semibold uppercase tracking-wide text-indigo-200 transition hover:bg-indigo-500/20"
+            >
+              Fill sets
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRecords = (name: string) => {
+    const records = personalRecords.get(name);
+    if (!records?.heaviest) return null;
+    // Against the bodyweight logged around the day the best estimate was set.
+    const relativeStrength = records.bestOneRepMax
+      ? bodyweightMultiple(records.bestOneRepMax.value, bodyweightOn(bodyMetrics, records.bestOneRepMax.date, unit))
+      : null;
+    const repsByWeight = Array.from(records.bestRepsByWeight.entries())
+      .sort((a, b) => b[0] - a[0])
+      .slice(0, 4);
+    return (
+      <div className="mt-4 space-y-2 border-t border-slate-800 pt-3 text-sm text-slate-300">
+        <p className="text-xs font-semibold uppercase tracking-wide text-amber-200">Personal records</p>
+        <p>
+          Heaviest weight:{" "}
+          <span className="font-semibold text-slate-100">
+            {formatWeight(records.heaviest.weight, unit)} × {records.heaviest.reps}
+          </span>
+        </p>
+        {records.bestOneRepMax && (
+          <p>
+            Estimated 1RM:{" "}
+            <span className="font-semibold text-slate-100">
+              {formatWeight(records.bestOneRepMax.value, unit)}
+            </span>{" "}
+            <span className="text-xs text-slate-400">
+              ({formatWeight(records.bestOneRepMax.weight, unit)} × {records.bestOneRepMax.reps})
+            </span>
+          </p>
+        )}
+        {relativeStrength !== null && (
+          <p>
+            Relative strength:{" "}
+            <span className="font-semibold text-slate-100">{relativeStrength.toFixed(2)}× bodyweight</span>
+          </p>
+        )}
+        {records.bestSessionVolume && (
+          <p>
+            Best session volume:{" "}
+            <span className="font-semibold text-slate-100">{formatWeight(records.bestSessionVolume.volume, unit)}</span>{" "}
+            <span className="text-xs text-slate-400">({formatSessionDate(records.bestSessionVolume.date)})</span>
+          </p>
+        )}
+        <p>
+          Best reps:{" "}
+          <span className="font-semibold text-slate-100">
+            {repsByWeight.map(([weight, best]) => `${formatWeight(weight, unit)} × ${best.reps}`).join(" · ")}
+          </span>
+        </p>
+      </div>
+    );
+  };
+
+
+  const editingWorkout = editing ? workouts.find((workout) => workout.id === editing.sessionId) : undefined;
+
+  const totals = logTotals(displayWorkouts, unit);
 
   return (
     <div className="min-h-screen w-full bg-slate-950/95 pb-20 text-slate-200">
@@ -330,259 +1245,851 @@ export default function Home() {
             <p className="text-sm text-slate-300">
               Log your strength sessions, record every set, and keep an eye on training volume over time.
             </p>
+            <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+              Display unit
+              <select
+                value={unit}
+                onChange={(event) => setUnit(event.target.value as WeightUnit)}
+                className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200 outline-none focus:border-indigo-400"
+              >
+                {WEIGHT_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {!readOnly && (
+              <p className={`text-xs ${syncStatus.reachable ? "text-slate-400" : "text-amber-300"}`}>
+                {syncStatus.reachable ? "Synced with the server" : "Offline: changes are kept on this device"}
+                {syncStatus.pending > 0 &&
+                  ` · ${syncStatus.pending} change${syncStatus.pending === 1 ? "" : "s"} waiting to sync`}
+              </p>
+            )}
           </header>
 
-          <div className="flex flex-col gap-4">
-            <label className="flex flex-col gap-1">
-              <span className="text-sm font-medium text-slate-200">Session date</span>
-              <input
-                type="date"
-                value={date}
-                onChange={(event) => setDate(event.target.value)}
-                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-              />
-            </label>
+          {readOnly ? (
+            <p className="rounded-xl border border-amber-400/30 bg-amber-400/10 p-4 text-sm text-amber-100">
+              You are viewing {athlete.username}&apos;s shared log. It is read-only: editing, templates and imports
+              stay with the athlete.
+            </p>
+          ) : (
+            <>
+              {live && (
+                <LiveSessionBar
+                  startedAt={live.startedAt}
+                  restEndsAt={live.restEndsAt}
+                  completedSets={exercises.reduce(
+                    (sum, exercise) => sum + exercise.sets.filter((set) => live.completedSetIds.includes(set.id)).length,
+                    0
+                  )}
+                  plannedSets={exercises.reduce((sum, exercise) => sum + exercise.sets.length, 0)}
+                  onAdjustRest={(seconds) => setLive(adjustRest(live, seconds, new Date()))}
+                  onSkipRest={() => setLive({ ...live, restEndsAt: null })}
+                  onFinish={() => handleSaveWorkout(live)}
+                  onDiscard={discardLive}
+                />
+              )}
 
-            <label className="flex flex-col gap-1">
-              <span className="text-sm font-medium text-slate-200">Session focus (optional)</span>
-              <input
-                type="text"
-                value={title}
-                placeholder="Upper body strength"
-                onChange={(event) => setTitle(event.target.value)}
-                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-              />
-            </label>
+              {resumeOffered && !live && !editing && draftSummaries.length > 0 && (
+                <div className="mb-6 flex items-center justify-between gap-3 rounded-xl border border-indigo-400/40 bg-indigo-500/10 px-4 py-3">
+                  <p className="text-sm text-indigo-100">
+                    Resume <span className="font-semibold">{draftSummaries[0].label}</span>?
+                    {draftSummaries.length > 1 && ` ${draftSummaries.length - 1} more in Drafts below.`}
+                  </p>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => resumeDraft(draftSummaries[0].id)}
+                      className="rounded-lg bg-indigo-500 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-indigo-400"
+                    >
+                      Resume draft
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setResumeOffered(false)}
+                      className="rounded-lg border border-indigo-400/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-100 transition hover:bg-indigo-400/20"
+                    >
+                      Not now
+                    </button>
+                  </div>
+                </div>
+              )}
 
-            <label className="flex flex-col gap-1">
-              <span className="text-sm font-medium text-slate-200">Session notes</span>
-              <textarea
-                value={sessionNotes}
-                placeholder="Warm-up details, how you felt..."
-                onChange={(event) => setSessionNotes(event.target.value)}
-                rows={3}
-                className="resize-none rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-              />
-            </label>
-          </div>
+              {editingWorkout && (
+                <div className="mb-6 flex items-center justify-between gap-3 rounded-xl border border-amber-400/40 bg-amber-400/10 px-4 py-3">
+                  <p className="text-sm text-amber-100">
+                    Editing session{" "}
+                    <span className="font-semibold">
+                      {editingWorkout.title ?? "Untitled"} &middot; {formatSessionDate(editingWorkout.date)}
+                    </span>
+                  </p>
+                  <button
+                    type="button"
+                    onClick={cancelEditing}
+                    className="rounded-lg border border-amber-400/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-400/20"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
 
-          <div className="mt-6 space-y-5">
-            {exercises.map((exercise, exerciseIndex) => (
-              <div key={exercise.id} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
-                <div className="flex items-start gap-4">
-                  <div className="flex-1 space-y-3">
-                    <input
-                      type="text"
-                      value={exercise.name}
-                      placeholder={`Exercise ${exerciseIndex + 1}`}
-                      onChange={(event) => handleExerciseNameChange(exercise.id, event.target.value)}
-                      className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-                    />
-                    <textarea
-                      value={exercise.notes}
-                      placeholder="Notes (e.g. tempo, cues)"
-                      onChange={(event) => handleExerciseNotesChange(exercise.id, event.target.value)}
-                      rows={2}
-                      className="w-full resize-none rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-                    />
-                  </div>
+              {planned && (
+                <div className="mb-6 flex items-center justify-between gap-3 rounded-xl border border-indigo-400/40 bg-indigo-500/10 px-4 py-3">
+                  <p className="text-sm text-indigo-100">
+                    Planned session{" "}
+                    <span className="font-semibold">
+                      {describePlannedLink(programs, planned) ?? "from a program that no longer exists"}
+                    </span>
+                  </p>
                   <button
                     type="button"
-                    onClick={() => removeExercise(exercise.id)}
-                    className="rounded-lg border border-transparent bg-slate-800/80 px-3 py-2 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:bg-red-500/20 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
-                    disabled={exercises.length <= 1}
+                    onClick={() => setPlanned(undefined)}
+                    title="Save this session without linking it to the program"
+                    className="rounded-lg border border-indigo-400/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-100 transition hover:bg-indigo-400/20"
                   >
-                    Remove
+                    Unlink
                   </button>
                 </div>
+              )}
 
-                <div className="mt-4 space-y-3">
-                  {exercise.sets.map((set) => (
-                    <div key={set.id} className="grid grid-cols-[repeat(12,_1fr)] items-center gap-3">
-                      <div className="col-span-5">
-                        <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
-                          Reps
-                          <input
-                            type="number"
-                            min={0}
-                            inputMode="numeric"
-                            value={set.reps}
-                            onChange={(event) => handleSetChange(exercise.id, set.id, "reps", event.target.value)}
-                            className="mt-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-                          />
-                        </label>
-                      </div>
-                      <div className="col-span-5">
-                        <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
-                          Weight (kg)
-                          <input
-                            type="number"
-                            min={0}
-                            inputMode="decimal"
-                            value={set.weight}
-                            onChange={(event) => handleSetChange(exercise.id, set.id, "weight", event.target.value)}
-                            className="mt-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
-                          />
-                        </label>
-                      </div>
-                      <div className="col-span-2 flex justify-end">
+              <div className="flex flex-col gap-4">
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm font-medium text-slate-200">Session date</span>
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(event) => setDate(event.target.value)}
+                    className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                  />
+                </label>
+
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm font-medium text-slate-200">Session focus (optional)</span>
+                  <input
+                    type="text"
+                    value={title}
+                    placeholder="Upper body strength"
+                    onChange={(event) => setTitle(event.target.value)}
+                    className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                  />
+                </label>
+
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm font-medium text-slate-200">Session notes</span>
+                  <textarea
+                    value={sessionNotes}
+                    placeholder="Warm-up details, how you felt..."
+                    onChange={(event) => setSessionNotes(event.target.value)}
+                    rows={3}
+                    className="resize-none rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                  />
+                </label>
+              </div>
+
+              <div className="mt-6 space-y-5">
+                {exercises.map((exercise, exerciseIndex) => (
+                  <div
+                    key={exercise.id}
+                    onDragOver={(event) => dragging && !dragging.setId && event.preventDefault()}
+                    onDrop={() => dropOn(exercise.id)}
+                    className={`rounded-xl border bg-slate-900/60 p-4 ${
+                      draftGroupTags.has(exercise.id) ? "border-indigo-400/50" : "border-slate-800"
+                    } ${dragging?.exerciseId === exercise.id && !dragging.setId ? "opacity-50" : ""}`}
+                  >
+                    <div className="mb-3 flex items-center gap-2">
+                      <button
+                        type="button"
+                        draggable
+                        onDragStart={() => setDragging({ exerciseId: exercise.id })}
+                        onDragEnd={() => setDragging(null)}
+                        onKeyDown={(event) => {
+                          if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return;
+                          event.preventDefault();
+                          moveExercise(exerciseIndex, exerciseIndex + (event.key === "ArrowUp" ? -1 : 1));
+                        }}
+                        aria-label="Reorder exercise: drag, or focus and use the arrow keys"
+                        title="Drag to reorder, or use the arrow keys"
+                        className="cursor-grab rounded px-1 text-slate-500 hover:text-slate-300"
+                      >
+                        ⠿
+                      </button>
+                      {renderGroupTag(draftGroupTags.get(exercise.id))}
+                      <div className="ml-auto flex gap-1">
                         <button
                           type="button"
-                          onClick={() => removeSetFromExercise(exercise.id, set.id)}
-                          className="rounded-lg border border-transparent bg-slate-800/80 px-3 py-2 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:bg-red-500/20 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
-                          disabled={exercise.sets.length <= 1}
+                          aria-label="Move exercise up"
+                          disabled={exerciseIndex === 0}
+                          onClick={() => moveExercise(exerciseIndex, exerciseIndex - 1)}
+                          className="rounded-lg bg-slate-800/80 px-2 py-1 text-xs text-slate-300 disabled:opacity-40"
                         >
-                          Delete
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          aria-label="Move exercise down"
+                          disabled={exerciseIndex === exercises.length - 1}
+                          onClick={() => moveExercise(exerciseIndex, exerciseIndex + 1)}
+                          className="rounded-lg bg-slate-800/80 px-2 py-1 text-xs text-slate-300 disabled:opacity-40"
+                        >
+                          ↓
                         </button>
                       </div>
                     </div>
-                  ))}
+                    <div className="flex items-start gap-4">
+                      <div className="flex-1 space-y-3">
+                        <input
+                          type="text"
+                          value={exercise.name}
+                          placeholder={`Exercise ${exerciseIndex + 1}`}
+                          list="exercise-catalog-names"
+                          onChange={(event) => handleExerciseNameChange(exercise.id, event.target.value)}
+                          className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                        />
+                        <textarea
+                          value={exercise.notes}
+                          placeholder="Notes (e.g. tempo, cues)"
+                          onChange={(event) => handleExerciseNotesChange(exercise.id, event.target.value)}
+                          rows={2}
+                          className="w-full resize-none rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                        />
+                        <div className="flex flex-wrap gap-3">
+                          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                            Kind
+                            <select
+                              value={exercise.kind}
+                              onChange={(event) => handleExerciseKindChange(exercise.id, event.target.value as ExerciseKind)}
+                              className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                            >
+                              {EXERCISE_KINDS.map((option) => (
+                                <option key={option} value={option}>
+                                  {option}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                            Effort
+                            <select
+                              value={exercise.effortScale}
+                              onChange={(event) => handleEffortScaleChange(exercise.id, event.target.value as EffortScale)}
+                              className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                            >
+                              <option value="rpe">RPE</option>
+                              <option value="rir">RIR</option>
+                            </select>
+                          </label>
+                          {live && (
+                            <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                              Rest
+                              <select
+                                value={restSecondsFor(live, exercise.groupId ?? exercise.id)}
+                                onChange={(event) => setRestSeconds(exercise.groupId ?? exercise.id, Number(event.target.value))}
+                                className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                              >
+                                {REST_PRESETS.map((seconds) => (
+                                  <option key={seconds} value={seconds}>
+                                    {formatDuration(seconds)}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeExercise(exercise.id)}
+                        className="rounded-lg border border-transparent bg-slate-800/80 px-3 py-2 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:bg-red-500/20 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
+                        disabled={exercises.length <= 1}
+                      >
+                        Remove
+                      </button>
+                    </div>
 
+                    {renderDraftHistory(exercise.id)}
+
+                    <div className="mt-4 space-y-3">
+                      {exercise.sets.map((set, setIndex) => {
+                        const fields = KIND_FIELDS[exercise.kind];
+                        // Working sets line up with the previous session's working sets by position.
+                        const workingIndex = exercise.sets
+                          .slice(0, setIndex)
+                          .filter((candidate) => candidate.type !== "warmup").length;
+                        const history = set.type === "warmup" ? undefined : draftHistory.get(exercise.id);
+                        const previousSet = history?.previous.sets[workingIndex];
+                        const suggestedSet = history?.suggestion?.sets[workingIndex];
+                        const completed = live?.completedSetIds.includes(set.id) ?? false;
+                        return (
+                          <div
+                            key={set.id}
+                            onDragOver={(event) => {
+                              if (dragging?.setId && dragging.exerciseId === exercise.id) event.preventDefault();
+                            }}
+                            onDrop={(event) => {
+                              event.stopPropagation();
+                              dropOn(exercise.id, set.id);
+                            }}
+                            className={`space-y-2 rounded-lg border p-3 ${
+                              completed ? "border-emerald-400/50 bg-emerald-500/5" : "border-slate-800/80 bg-slate-950/40"
+                            } ${dragging?.setId === set.id ? "opacity-50" : ""}`}
+                          >
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="flex items-center gap-1">
+                                <button
+                                  type="button"
+                                  draggable
+                                  onDragStart={(event) => {
+                                    event.stopPropagation();
+                                    setDragging({ exerciseId: exercise.id, setId: set.id });
+                                  }}
+                                  onDragEnd={() => setDragging(null)}
+                                  onKeyDown={(event) => {
+                                    if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return;
+                                    event.preventDefault();
+                                    moveSet(exercise.id, setIndex, setIndex + (event.key === "ArrowUp" ? -1 : 1));
+                                  }}
+                                  aria-label="Reorder set: drag, or focus and use the arrow keys"
+                                  title="Drag to reorder, or use the arrow keys"
+                                  className="cursor-grab rounded px-1 text-slate-500 hover:text-slate-300"
+                                >
+                                  ⠿
+                                </button>
+                                <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                                  Set {setIndex + 1}
+                                  <select
+                                    value={set.type}
+                                    aria-label="Set type"
+                                    onChange={(event) => updateSet(exercise.id, set.id, { type: event.target.value as SetType })}
+                                    className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                                  >
+                                    {SET_TYPES.map((option) => (
+                                      <option key={option} value={option}>
+                                        {SET_TYPE_LABELS[option]}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </label>
+                              </div>
+                              {live && (
+                                <button
+                                  type="button"
+                                  aria-pressed={completed}
+                                  onClick={() => toggleLiveSet(exercise.id, set.id)}
+                                  className={`ml-auto rounded-lg px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                                    completed
+                                      ? "bg-emerald-500 text-white hover:bg-emerald-400"
+                                      : "border border-emerald-400/40 text-emerald-200 hover:bg-emerald-500/20"
+                                  }`}
+                                >
+                                  {completed ? "✓ Done" : "Done"}
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => removeSetFromExercise(exercise.id, set.id)}
+                                className="rounded-lg border border-transparent bg-slate-800/80 px-3 py-1 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:bg-red-500/20 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
+                                disabled={exercise.sets.length <= 1}
+                              >
+                                Delete
+                              </button>
+                            </div>
+                            {(previousSet || suggestedSet) && (
+                              <p className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                                {previousSet && <span>Last: {describeSet(previousSet)}</span>}
+                                {suggestedSet && (
+                                  <button
+                                    type="button"
+                                    onClick={() => updateSet(exercise.id, set.id, suggestionToDraft(suggestedSet))}
+                                    className="rounded-full bg-indigo-500/15 px-2 py-0.5 text-indigo-200 transition hover:bg-indigo-500/30"
+                                  >
+                                    Next: {describeSet(suggestedSet)}
+                                  </button>
+                                )}
+                              </p>
+                            )}
+                            <div className="grid grid-cols-2 gap-3">
+                              {fields.reps && (
+                                <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
+                                  Reps
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    inputMode="numeric"
+                                    value={set.reps}
+                                    placeholder={set.target?.reps}
+                                    onChange={(event) => handleSetChange(exercise.id, set.id, "reps", event.target.value)}
+                                    className="mt-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                                  />
+                                </label>
+                              )}
+                              {fields.duration && (
+                                <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
+                                  Duration
+                                  <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={set.duration}
+                                    placeholder="1:30"
+                                    onChange={(event) => handleSetChange(exercise.id, set.id, "duration", event.target.value)}
+                                    className="mt-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                                  />
+                                </label>
+                              )}
+                              {fields.weight && (
+                                <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
+                                  {exercise.kind === "weighted" ? "Weight" : "Added load"}
+                                  <div className="mt-1 flex gap-2">
+                                    <input
+                                      type="number"
+                                      inputMode="decimal"
+                                      value={set.weight}
+                                      placeholder={set.target?.weight}
+                                      onChange={(event) => handleSetChange(exercise.id, set.id, "weight", event.target.value)}
+                                      className="w-full min-w-0 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                                    />
+                                    <select
+                                      value={set.unit}
+                                      aria-label="Weight unit"
+                                      onChange={(event) => handleSetUnitChange(exercise.id, set.id, event.target.value as WeightUnit)}
+                                      className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-2 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                                    >
+                                      {WEIGHT_UNITS.map((option) => (
+                                        <option key={option} value={option}>
+                                          {option}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                </label>
+                              )}
+                              {fields.distance && (
+                                <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
+                                  Distance
+                                  <div className="mt-1 flex gap-2">
+                                    <input
+                                      type="number"
+                                      min={0}
+                                      inputMode="decimal"
+                                      value={set.distance}
+                                      onChange={(event) => handleSetChange(exercise.id, set.id, "distance", event.target.value)}
+                                      className="w-full min-w-0 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                                    />
+                                    <select
+                                      value={set.distanceUnit}
+                                      aria-label="Distance unit"
+                                      onChange={(event) =>
+                                        updateSet(exercise.id, set.id, { distanceUnit: event.target.value as DistanceUnit })
+                                      }
+                                      className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-2 text-sm normal-case text-slate-100 outline-none focus:border-indigo-400"
+                                    >
+                                      {DISTANCE_UNITS.map((option) => (
+                                        <option key={option} value={option}>
+                                          {option}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                </label>
+                              )}
+                              <label className="flex flex-col text-xs uppercase tracking-wide text-slate-400">
+                                {exercise.effortScale === "rpe" ? "RPE" : "RIR"} (optional)
+                                <input
+                                  type="number"
+                                  min={exercise.effortScale === "rpe" ? 1 : 0}
+                                  max={10}
+                                  step={exercise.effortScale === "rpe" ? 0.5 : 1}
+                                  inputMode="decimal"
+                                  value={set.effort}
+                                  onChange={(event) => handleSetChange(exercise.id, set.id, "effort", event.target.value)}
+                                  className="mt-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+                                />
+                              </label>
+                            </div>
+                          </div>
+                        );
+                      })}
+
+                      <button
+                        type="button"
+                        onClick={() => addSetToExercise(exercise.id)}
+                        className="w-full rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20"
+                      >
+                        + Add set
+                      </button>
+                    </div>
+
+                    {exerciseIndex < exercises.length - 1 && (
+                      <button
+                        type="button"
+                        aria-pressed={isLinkedWithNext(exercises, exerciseIndex)}
+                        onClick={() => toggleExerciseLink(exerciseIndex)}
+                        className="mt-3 text-xs text-indigo-300 transition hover:text-indigo-200"
+                      >
+                        {isLinkedWithNext(exercises, exerciseIndex)
+                          ? "Unlink from the next exercise"
+                          : "Superset with the next exercise"}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-4 flex flex-col gap-3">
+                <button
+                  type="button"
+                  onClick={addExercise}
+                  className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800/60"
+                >
+                  + Add exercise
+                </button>
+                {!live && (
                   <button
                     type="button"
-                    onClick={() => addSetToExercise(exercise.id)}
-                    className="w-full rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20"
+                    onClick={() => handleSaveWorkout()}
+                    className="w-full rounded-lg bg-indigo-500 px-3 py-3 text-sm font-semibold text-white shadow transition hover:bg-indigo-400"
                   >
-                    + Add set
+                    {editing ? "Save changes" : "Save workout"}
                   </button>
-                </div>
+                )}
+                {!live && !editing && (
+                  <button
+                    type="button"
+                    onClick={startLive}
+                    className="w-full rounded-lg border border-emerald-400/40 bg-emerald-500/10 px-3 py-2 text-sm font-semibold text-emerald-200 transition hover:bg-emerald-500/20"
+                  >
+                    Start live session
+                  </button>
+                )}
               </div>
-            ))}
-          </div>
 
-          <div className="mt-4 flex flex-col gap-3">
-            <button
-              type="button"
-              onClick={addExercise}
-              className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800/60"
-            >
-              + Add exercise
-            </button>
-            <button
-              type="button"
-              onClick={handleAddWorkout}
-              className="w-full rounded-lg bg-indigo-500 px-3 py-3 text-sm font-semibold text-white shadow transition hover:bg-indigo-400"
-            >
-              Save workout
-            </button>
-          </div>
-
-          {(feedback || error) && (
-            <p
-              className={`mt-3 text-center text-sm font-medium ${
-                error ? "text-red-300" : "text-emerald-300"
-              }`}
-            >
-              {error ?? feedback}
-            </p>
+              {!live && !editing && (
+                <DraftsPanel
+                  currentName={draftName}
+                  currentHasContent={hasDraftContent({ date, title, sessionNotes, exercises })}
+                  drafts={draftSummaries}
+                  onRenameCurrent={setDraftName}
+                  onNewDraft={() => {
+                    startNewDraft();
+                    resetForm();
+                  }}
+                  onResume={resumeDraft}
+                  onDiscard={discardDraft}
+                />
+              )}
+            </>
           )}
         </section>
 
         <section className="flex-1 space-y-6">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
               <p className="text-xs uppercase tracking-wide text-slate-400">Total workouts</p>
-              <p className="mt-3 text-2xl font-semibold text-white">{workouts.length}</p>
+              <p className="mt-3 text-2xl font-semibold text-white">{totals.sessions}</p>
             </div>
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
               <p className="text-xs uppercase tracking-wide text-slate-400">Sets logged</p>
-              <p className="mt-3 text-2xl font-semibold text-white">{totalSets}</p>
+              <p className="mt-3 text-2xl font-semibold text-white">{totals.sets}</p>
             </div>
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
               <p className="text-xs uppercase tracking-wide text-slate-400">Total volume</p>
-              <p className="mt-3 text-2xl font-semibold text-white">{totalVolume.toLocaleString()} kg</p>
+              <p className="mt-3 text-2xl font-semibold text-white">{formatWeight(totals.volume, unit)}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs uppercase tracking-wide text-slate-400">This week</p>
+                <label className="flex items-center gap-1 text-xs text-slate-400">
+                  Goal
+                  <input
+                    type="number"
+                    min={1}
+                    max={14}
+                    value={weeklyGoal}
+                    onChange={(event) => {
+                      const next = Math.round(Number(event.target.value));
+                      if (next >= 1 && next <= 14) setWeeklyGoal(next);
+                    }}
+                    className="w-12 rounded-md border border-slate-700 bg-slate-950 px-1 py-0.5 text-xs text-slate-100 outline-none focus:border-indigo-400"
+                  />
+                </label>
+              </div>
+              <p className="mt-3 text-2xl font-semibold text-white">
+                {weekly.thisWeek} / {weeklyGoal}
+              </p>
+              <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-800">
+                <div
+                  className={`h-full rounded-full ${weekly.thisWeek >= weeklyGoal ? "bg-emerald-400" : "bg-indigo-400"}`}
+                  style={{ width: `${Math.min(100, (weekly.thisWeek / weeklyGoal) * 100)}%` }}
+                />
+              </div>
+              <p className="mt-2 text-xs text-slate-400">
+                Streak {weekly.currentStreak} wk · best {weekly.longestStreak} wk · avg{" "}
+                {weekly.averagePerWeek.toFixed(1)}/wk
+              </p>
             </div>
           </div>
 
+          <ProgramsPanel
+            programs={programs}
+            workouts={workouts}
+            unit={unit}
+            today={todayISO()}
+            readOnly={readOnly}
+            onOpenDay={startPlannedDay}
+            onSave={saveProgram}
+            onDelete={deleteProgram}
+          />
+
+          {!readOnly && (
+            <>
+              <TemplatesPanel
+                templates={templates}
+                unit={unit}
+                onStart={startFromTemplate}
+                onSave={saveTemplate}
+                onDelete={deleteTemplate}
+              />
+
+              <ProgressionSettingsPanel settings={progression} onChange={setProgression} />
+            </>
+          )}
+
           <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
             <header className="mb-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
               <div>
                 <h2 className="text-xl font-semibold text-white">Workout log</h2>
                 <p className="text-sm text-slate-400">
-                  Search by exercise name to surface past sessions instantly.
+                  Filter by date, exercise, muscle group or load, or type a query to surface past sessions instantly.
                 </p>
               </div>
-              <input
-                type="search"
-                value={search}
-                onChange={(event) => setSearch(event.target.value)}
-                placeholder="Search exercises..."
-                className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30 md:w-64"
-              />
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => stepHistory("undo")}
+                    disabled={history.past.length === 0}
+                    title={history.past.length > 0 ? `Undo ${history.past.at(-1)?.label} (Ctrl+Z)` : "Nothing to undo"}
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => stepHistory("redo")}
+                    disabled={history.future.length === 0}
+                    title={
+                      history.future.length > 0 ? `Redo ${history.future.at(-1)?.label} (Ctrl+Shift+Z)` : "Nothing to redo"
+                    }
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+                  >
+                    Redo
+                  </button>
+                </div>
+              )}
             </header>
 
-            {filteredWorkouts.length === 0 ? (
+            <LogFilterBar
+              filter={filter}
+              onChange={setFilter}
+              exerciseNames={exerciseSummary.map(({ name }) => name).sort((a, b) => a.localeCompare(b))}
+              unit={unit}
+              matchCount={filteredWorkouts.length}
+            />
+
+            {quarantinedCount > 0 && (
+              <p className="mb-4 rounded-xl border border-amber-400/40 bg-amber-400/5 px-4 py-3 text-sm text-amber-100">
+                {quarantinedCount} stored session{quarantinedCount === 1 ? "" : "s"} could not be read and{" "}
+                {quarantinedCount === 1 ? "was" : "were"} set aside in <code>workouts.quarantine.json</code> instead of
+                being shown.
+              </p>
+            )}
+
+            {loading ? (
               <div className="rounded-xl border border-dashed border-slate-700 p-8 text-center text-sm text-slate-400">
-                No workouts logged yet. Start by saving your first session.
+                Loading workouts...
+              </div>
+            ) : filteredWorkouts.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-slate-700 p-8 text-center text-sm text-slate-400">
+                {isFilterActive(filter)
+                  ? "No sessions match these filters."
+                  : "No workouts logged yet. Start by saving your first session."}
               </div>
             ) : (
               <div className="space-y-4">
                 {filteredWorkouts.map((workout) => (
-                  <article key={workout.id} className="rounded-xl border border-slate-800 bg-slate-950/60 p-5">
+                  <article
+                    key={workout.id}
+                    className={`rounded-xl border bg-slate-950/60 p-5 ${
+                      editing?.sessionId === workout.id ? "border-amber-400/60" : "border-slate-800"
+                    }`}
+                  >
                     <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                       <div>
                         <p className="text-sm font-semibold uppercase tracking-wide text-indigo-300">
-                          {formatDate(workout.date)}
+                          {formatSessionDate(workout.date)}
+                          {workout.startedAt && workout.endedAt && (
+                            <span className="ml-2 font-normal normal-case text-slate-400">
+                              ·{" "}
+                              {formatDuration(
+                                (new Date(workout.endedAt).getTime() - new Date(workout.startedAt).getTime()) / 1000
+                              )}
+                            </span>
+                          )}
                         </p>
                         {workout.title && (
                           <h3 className="text-lg font-semibold text-white">{workout.title}</h3>
                         )}
+                        {workout.planned && describePlannedLink(programs, workout.planned) && (
+                          <p className="text-xs text-indigo-200">📅 {describePlannedLink(programs, workout.planned)}</p>
+                        )}
+                        {recordHits.has(workout.id) && (
+                          <p
+                            className="mt-1 inline-flex items-center gap-1 rounded-full bg-amber-400/15 px-2 py-0.5 text-xs font-semibold uppercase tracking-wide text-amber-200"
+                            title={recordHits
+                              .get(workout.id)
+                              ?.map((hit) => describeRecordHit(hit, unit))
+                              .join("\n")}
+                          >
+                            🏆 {recordHits.get(workout.id)?.length} PR{recordHits.get(workout.id)?.length === 1 ? "" : "s"}
+                          </p>
+                        )}
                         {workout.notes && (
                           <p className="text-sm text-slate-300">{workout.notes}</p>
                         )}
                       </div>
-                      <div className="flex flex-wrap gap-2">
-                        <button
-                          type="button"
-                          onClick={() => duplicateWorkout(workout.id)}
-                          className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
-                        >
-                          Load into editor
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => deleteWorkout(workout.id)}
-                          className="rounded-lg border border-transparent bg-red-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
-                        >
-                          Delete
-                        </button>
-                      </div>
+                      {!readOnly && (
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            type="button"
+                            onClick={() => startEditing(workout.id)}
+                            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-amber-400 hover:text-amber-200"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => duplicateWorkout(workout.id)}
+                            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+                          >
+                            Load into editor
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => saveWorkoutAsTemplate(workout.id)}
+                            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+                          >
+                            Save as template
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => shareWorkout(workout.id)}
+                            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+                          >
+                            {shareBySession.has(workout.id) ? "Copy share link" : "Share"}
+                          </button>
+                          {shareBySession.has(workout.id) && (
+                            <button
+                              type="button"
+                              onClick={() => stopSharing(shareBySession.get(workout.id)?.id ?? "")}
+                              className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                            >
+                              Stop sharing
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => deleteWorkout(workout.id)}
+                            className="rounded-lg border border-transparent bg-red-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
                     </div>
 
                     <div className="mt-4 space-y-3">
-                      {workout.exercises.map((exercise) => (
-                        <div key={exercise.id} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
-                          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
-                            <h4 className="text-base font-semibold text-white">{exercise.name}</h4>
-                            <p className="text-xs uppercase tracking-wide text-slate-400">
-                              Volume: {renderVolume(exercise.sets)}
+                      {groupRuns(workout.exercises).map((run) => (
+                        <div
+                          key={run.items[0].id}
+                          className={
+                            run.items.length > 1
+                              ? "space-y-2 rounded-xl border border-indigo-400/30 bg-indigo-500/5 p-2"
+                              : "space-y-3"
+                          }
+                        >
+                          {run.items.length > 1 && (
+                            <p className="px-2 pt-1 text-xs font-semibold uppercase tracking-wide text-indigo-300">
+                              {groupLabel(run.items.length)} {sessionGroupTags.get(workout.id)?.get(run.items[0].id)?.charAt(0)}
                             </p>
-                          </div>
-                          {exercise.notes && (
-                            <p className="text-sm text-slate-300">{exercise.notes}</p>
                           )}
-                          <div className="mt-3 overflow-hidden rounded-lg border border-slate-800">
-                            <table className="min-w-full divide-y divide-slate-800 text-sm">
-                              <thead className="bg-slate-900/80 text-xs uppercase tracking-wide text-slate-400">
-                                <tr>
-                                  <th className="px-3 py-2 text-left">Set</th>
-                                  <th className="px-3 py-2 text-left">Reps</th>
-                                  <th className="px-3 py-2 text-left">Weight</th>
-                                  <th className="px-3 py-2 text-left">Volume</th>
-                                </tr>
-                              </thead>
-                              <tbody className="divide-y divide-slate-800">
-                                {exercise.sets.map((set, index) => (
-                                  <tr key={set.id}>
-                                    <td className="px-3 py-2 text-slate-300">Set {index + 1}</td>
-                                    <td className="px-3 py-2 text-slate-200">{set.reps}</td>
-                                    <td className="px-3 py-2 text-slate-200">{set.weight ?? "—"}</td>
-                                    <td className="px-3 py-2 text-slate-200">{(set.weight ?? 0) * set.reps}</td>
-                                  </tr>
-                                ))}
-                              </tbody>
-                            </table>
-                          </div>
+                          {run.items.map((exercise) => (
+                            <div key={exercise.id} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+                              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                                <h4 className="text-base font-semibold text-white">
+                                  {renderGroupTag(sessionGroupTags.get(workout.id)?.get(exercise.id))}
+                                  {exercise.name}
+                                </h4>
+                                <p className="text-xs uppercase tracking-wide text-slate-400">
+                                  Volume: {renderVolume(exercise.sets)}
+                                </p>
+                              </div>
+                              {exercise.notes && (
+                                <p className="text-sm text-slate-300">{exercise.notes}</p>
+                              )}
+                              <div className="mt-3 overflow-hidden rounded-lg border border-slate-800">
+                                <table className="min-w-full divide-y divide-slate-800 text-sm">
+                                  <thead className="bg-slate-900/80 text-xs uppercase tracking-wide text-slate-400">
+                                    <tr>
+                                      <th className="px-3 py-2 text-left">Set</th>
+                                      <th className="px-3 py-2 text-left">Reps</th>
+                                      <th className="px-3 py-2 text-left">Weight</th>
+                                      <th className="px-3 py-2 text-left">Details</th>
+                                      <th className="px-3 py-2 text-left">Volume ({unit})</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-800">
+                                    {exercise.sets.map((set, index) => (
+                                      <tr key={set.id}>
+                                        <td className="px-3 py-2 text-slate-300">
+                                          Set {index + 1}
+                                          {set.type !== "working" && (
+                                            <span
+                                              className={`ml-2 rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide ${
+                                                set.type === "warmup"
+                                                  ? "bg-slate-700/60 text-slate-300"
+                                                  : "bg-rose-500/20 text-rose-200"
+                                              }`}
+                                            >
+                                              {SET_TYPE_LABELS[set.type]}
+                                            </span>
+                                          )}
+                                        </td>
+                                        <td className="px-3 py-2 text-slate-200">{set.reps ?? "—"}</td>
+                                        <td className="px-3 py-2 text-slate-200">
+                                          {exercise.kind === "bodyweight" && "BW"}
+                                          {exercise.kind === "bodyweight" && set.weight != null && " + "}
+                                          {set.weight != null
+                                            ? formatWeight(set.weight, set.unit)
+                                            : exercise.kind !== "bodyweight" && "—"}
+                                          {set.weight != null && set.unit !== unit && (
+                                            <span className="ml-1 text-xs text-slate-400">
+                                              ({formatWeight(setWeightIn(set, unit), unit)})
+                                            </span>
+                                          )}
+                                        </td>
+                                        <td className="px-3 py-2 text-slate-300">{describeSetDetails(set) || "—"}</td>
+                                        <td className="px-3 py-2 text-slate-200">
+                                          {setVolume(set, unit).toLocaleString(undefined, {
+                                            maximumFractionDigits: 1,
+                                          })}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            </div>
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -593,14 +2100,30 @@ export default function Home() {
           </div>
 
           <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
-            <h2 className="text-xl font-semibold text-white">Exercise insights</h2>
+            <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <h2 className="text-xl font-semibold text-white">Exercise insights</h2>
+              <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                1RM formula
+                <select
+                  value={formula}
+                  onChange={(event) => setFormula(event.target.value as OneRepMaxFormula)}
+                  className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200 outline-none focus:border-indigo-400"
+                >
+                  {ONE_REP_MAX_FORMULAS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </header>
             {exerciseSummary.length === 0 ? (
               <p className="mt-3 text-sm text-slate-400">Insights will appear after you log workouts.</p>
             ) : (
               <div className="mt-5 grid grid-cols-1 gap-4 md:grid-cols-2">
-                {exerciseSummary.map(([name, stats]) => (
-                  <div key={name} className="rounded-xl border border-slate-800 bg-slate-950/60 p-4">
-                    <h3 className="text-base font-semibold text-white">{name}</h3>
+                {exerciseSummary.map((stats) => (
+                  <div key={stats.name} className="rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+                    <h3 className="text-base font-semibold text-white">{stats.name}</h3>
                     <div className="mt-3 space-y-2 text-sm text-slate-300">
                       <p>
                         Sets logged: <span className="font-semibold text-slate-100">{stats.totalSets}</span>
@@ -609,19 +2132,267 @@ export default function Home() {
                         Total reps: <span className="font-semibold text-slate-100">{stats.totalReps}</span>
                       </p>
                       <p>
-                        Training volume: <span className="font-semibold text-slate-100">{stats.totalVolume.toLocaleString()} kg</span>
+                        Training volume: <span className="font-semibold text-slate-100">{formatWeight(stats.totalVolume, unit)}</span>
                       </p>
                       <p>
-                        Last performed: <span className="font-semibold text-slate-100">{formatDate(stats.lastPerformed)}</span>
+                        Last performed: <span className="font-semibold text-slate-100">{formatSessionDate(stats.lastPerformed)}</span>
                       </p>
                     </div>
+                    {renderRecords(stats.name)}
                   </div>
                 ))}
               </div>
             )}
           </div>
+
+          <MuscleAnalyticsPanel
+            workouts={displayWorkouts}
+            catalogIndex={catalogIndex}
+            targets={muscleTargets}
+            onTargetsChange={setMuscleTargets}
+            unit={unit}
+          />
+
+          {!readOnly && (
+            <TrashPanel
+              sessions={trashedWorkouts}
+              onRestore={restoreWorkout}
+              onDeleteForever={deleteWorkoutForever}
+              onEmpty={emptyTrash}
+            />
+          )}
+
+          <TrainingCalendar
+            workouts={displayWorkouts}
+            unit={unit}
+            onShowDay={(day) => setFilter({ ...EMPTY_LOG_FILTER, from: day, to: day })}
+          />
+
+          <ProgressPanel
+            workouts={displayWorkouts}
+            exerciseNames={exerciseSummary.map(({ name }) => name)}
+            formula={formula}
+            unit={unit}
+          />
+
+          <StrengthScoresPanel
+            lifts={bigThree}
+            bodyweight={currentBodyweight}
+            unit={unit}
+            category={scoringCategory}
+            onCategoryChange={setScoringCategory}
+          />
+
+          <BodyMetricsPanel
+            entries={bodyMetrics}
+            unit={unit}
+            readOnly={readOnly}
+            onSave={saveBodyMetric}
+            onDelete={deleteBodyMetric}
+          />
+
+          <ReportPanel unit={unit} formula={formula} athleteId={athleteId} />
+
+          {!readOnly && (
+            <>
+              <ExerciseCatalogPanel
+                catalog={catalog}
+                unlinkedNames={unlinkedNames}
+                onSaveEntry={saveCatalogEntry}
+                onDeleteEntry={deleteCatalogEntry}
+                onMerge={mergeExerciseName}
+              />
+
+              <DataTransferPanel workouts={workouts} onImport={handleImport} />
+
+              <AppImportPanel workouts={workouts} catalog={catalog} unit={unit} onImport={handleImport} />
+            </>
+          )}
         </section>
+
+        {(feedback || error) && (
+          <div
+            role="status"
+            className={`fixed bottom-6 left-1/2 z-20 flex max-w-[90vw] -translate-x-1/2 items-center gap-4 rounded-xl border bg-slate-950/95 px-4 py-3 text-sm font-medium shadow-lg ${
+              error ? "border-red-400/40 text-red-300" : "border-emerald-400/40 text-emerald-300"
+            }`}
+          >
+            <span>{error ?? feedback}</span>
+            {!error && undoOffered && history.past.length > 0 && (
+              <button
+                type="button"
+                onClick={() => stepHistory("undo")}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-indigo-400 hover:text-indigo-200"
+              >
+                Undo
+              </button>
+            )}
+          </div>
+        )}
+
+        <datalist id="exercise-catalog-names">
+          {catalog.map((entry) => (
+            <option key={entry.id} value={entry.name} />
+          ))}
+        </datalist>
       </div>
     </div>
   );
 }
+
+/** Signs the visitor in, then shows their own log or, for coaches, an athlete's shared one. */
+export default function Home() {
+  const [user, setUser] = useState<User | null>(null);
+  const [checking, setChecking] = useState<boolean>(true);
+  // Set while the app runs from the account remembered on this browser because the server could not be asked.
+  const [unverified, setUnverified] = useState<boolean>(false);
+  const [coaches, setCoaches] = useState<UserSummary[]>([]);
+  const [athletes, setAthletes] = useState<UserSummary[]>([]);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    authApi
+      .fetchCurrentUser()
+      .then((found) => {
+        if (cancelled) return;
+        if (found) adoptUnscopedStorage(window.localStorage, found.id);
+        setUser(found);
+      })
+      .catch((loadError) => {
+        // Only a 401 means signed out; without a connection the last account opens from the device copy.
+        console.error("Failed to check the sign-in session", loadError);
+        const remembered = readSignedInUser(window.localStorage);
+        if (cancelled || !remembered) return;
+        setUser(remembered);
+        setUnverified(true);
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Checks the remembered account's session again once the server can be reached; an expired one signs out.
+  useEffect(() => {
+    if (!unverified) return;
+    let cancelled = false;
+    const recheck = () => {
+      authApi
+        .fetchCurrentUser()
+        .then((found) => {
+          if (cancelled) return;
+          if (found) adoptUnscopedStorage(window.localStorage, found.id);
+          setUser(found);
+          setUnverified(false);
+        })
+        .catch((checkError) => {
+          console.warn("Sign-in check postponed", checkError);
+        });
+    };
+    window.addEventListener("online", recheck);
+    const timer = window.setInterval(recheck, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", recheck);
+      window.clearInterval(timer);
+    };
+  }, [unverified]);
+
+  useEffect(() => {
+    if (checking) return;
+    if (user) writeSignedInUser(window.localStorage, user);
+    else clearSignedInUser(window.localStorage);
+  }, [checking, user]);
+
+  const userId = user?.id;
+  const isCoach = user?.role === "coach";
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    authApi
+      .fetchCoaches()
+      .then((loaded) => {
+        if (!cancelled) setCoaches(loaded);
+      })
+      .catch((loadError) => {
+        console.error("Failed to load coaches", loadError);
+      });
+    if (isCoach) {
+      authApi
+        .fetchAthletes()
+        .then((loaded) => {
+          if (!cancelled) setAthletes(loaded);
+        })
+        .catch((loadError) => {
+          console.error("Failed to load athletes", loadError);
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isCoach]);
+
+  const signedIn = (signedInUser: User) => {
+    adoptUnscopedStorage(window.localStorage, signedInUser.id);
+    setUser(signedInUser);
+    setUnverified(false);
+  };
+
+  const signOut = () => {
+    authApi
+      .signOut()
+      .catch((signOutError) => console.error("Failed to sign out", signOutError))
+      .finally(() => {
+        setUser(null);
+        setUnverified(false);
+        setCoaches([]);
+        setAthletes([]);
+        setViewingId(null);
+      });
+  };
+
+  const toggleShare = (coachId: string) => {
+    if (!user) return;
+    const sharedWith = user.sharedWith.includes(coachId)
+      ? user.sharedWith.filter((id) => id !== coachId)
+      : [...user.sharedWith, coachId];
+    const previous = user;
+    setUser({ ...user, sharedWith });
+    authApi.updateSharing(sharedWith).catch((shareError) => {
+      console.error("Failed to update sharing", shareError);
+      setUser(previous);
+    });
+  };
+
+  if (checking) {
+    return <div className="min-h-screen w-full bg-slate-950/95" />;
+  }
+  if (!user) {
+    return (
+      <AuthForm
+        onSignIn={async (username, password) => signedIn(await authApi.signIn(username, password))}
+        onRegister={async (username, password, role) => signedIn(await authApi.register(username, password, role))}
+      />
+    );
+  }
+
+  const athlete = athletes.find((candidate) => candidate.id === viewingId) ?? null;
+  return (
+    <>
+      <AccountBar
+        user={user}
+        coaches={coaches}
+        athletes={athletes}
+        viewingId={athlete?.id ?? null}
+        onView={setViewingId}
+        onToggleShare={toggleShare}
+        onSignOut={signOut}
+      />
+      {/* Remounted per account and per athlete so no state leaks from one log into the next. */}
+      <WorkoutTracker key={`${user.id}:${athlete?.id ?? ""}`} user={user} athlete={athlete} />
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import PrintButton from "@/components/print-button";
+import SessionReport from "@/components/session-report";
+import { currentUser, readableUserId } from "@/lib/server/auth";
+import { loadWorkoutReport } from "@/lib/server/report";
+import { userStore } from "@/lib/server/user-store";
+import { formatWeight } from "@/lib/units";
+import { parseReportParams } from "@/lib/workout-report";
+
+export const metadata: Metadata = {
+  title: "Training report · Rep & Set Tracker",
+};
+
+type ReportPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const toSearchParams = (query: Record<string, string | string[] | undefined>) =>
+  new URLSearchParams(
+    Object.entries(query).flatMap(([key, value]) => (typeof value === "string" ? [[key, value]] : []))
+  );
+
+const ReportMessage = ({ message }: { message: string }) => (
+  <main className="mx-auto max-w-3xl px-6 py-16 text-slate-800">
+    <p>{message}</p>
+    <Link href="/" className="mt-4 inline-block text-sm font-semibold text-indigo-700 hover:underline">
+      Back to the log
+    </Link>
+  </main>
+);
+
+/** A printable summary of a date range, rendered on the server from the stored log. */
+export default async function ReportPage({ searchParams }: ReportPageProps) {
+  const user = await currentUser();
+  if (!user) redirect("/");
+
+  const params = toSearchParams(await searchParams);
+  const options = parseReportParams(params);
+  if (!options.ok) return <ReportMessage message={options.reason} />;
+  const userId = await readableUserId(user, params.get("athlete"));
+  if (!userId) return <ReportMessage message="That athlete has not shared with you." />;
+
+  const report = await loadWorkoutReport(userId, options.value);
+  const athlete = userId === user.id ? user : (await userStore.list()).find((candidate) => candidate.id === userId);
+  const { unit } = report;
+
+  return (
+    <main className="min-h-screen bg-white text-slate-900">
+      <div className="mx-auto max-w-4xl space-y-8 px-6 py-10 print:max-w-none print:px-0 print:py-0">
+        <header className="space-y-4">
+          <div className="flex flex-wrap gap-3 print:hidden">
+            <PrintButton />
+            <a
+              href={`/api/reports?${params.toString()}`}
+              className="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-100"
+            >
+              Download Markdown
+            </a>
+            <Link
+              href="/"
+              className="rounded-lg px-4 py-2 text-sm font-medium text-slate-500 transition hover:text-slate-800"
+            >
+              Back to the log
+            </Link>
+          </div>
+          <div>
+            <p className="text-sm uppercase tracking-wide text-slate-500">{athlete?.username}</p>
+            <h1 className="text-3xl font-semibold">
+              Training report: {report.from} to {report.to}
+            </h1>
+          </div>
+          <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {[
+              ["Sessions", report.totals.sessions],
+              ["Sets", report.totals.sets],
+              ["Volume", formatWeight(report.totals.volume, unit)],
+              ["Personal records", report.recordCount],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl border border-slate-200 p-4">
+                <dt className="text-xs uppercase tracking-wide text-slate-500">{label}</dt>
+                <dd className="mt-2 text-2xl font-semibold">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </header>
+
+        {report.exercises.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="mb-3 text-xl font-semibold">Volume per exercise</h2>
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 text-left">Exercise</th>
+                  <th className="px-3 py-2 text-right">Sets</th>
+                  <th className="px-3 py-2 text-right">Reps</th>
+                  <th className="py-2 pl-3 text-right">Volume</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.exercises.map((exercise) => (
+                  <tr key={exercise.name}>
+                    <td className="py-2 pr-3">{exercise.name}</td>
+                    <td className="px-3 py-2 text-right">{exercise.totalSets}</td>
+                    <td className="px-3 py-2 text-right">{exercise.totalReps}</td>
+                    <td className="py-2 pl-3 text-right">{formatWeight(exercise.totalVolume, unit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">Sessions</h2>
+          {report.sessions.length === 0 ? (
+            <p className="text-sm text-slate-600">No sessions were logged in this period.</p>
+          ) : (
+            report.sessions.map((entry) => <SessionReport key={entry.session.id} entry={entry} unit={unit} />)
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,45 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import PrintButton from "@/components/print-button";
+import SessionReport from "@/components/session-report";
+import { findSharedSession } from "@/lib/server/share-store";
+
+type SharedSessionPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export async function generateMetadata({ params }: SharedSessionPageProps): Promise<Metadata> {
+  const shared = await findSharedSession((await params).id);
+  return {
+    title: shared ? `${shared.owner}'s workout on ${shared.entry.session.date}` : "Shared workout",
+    // Links are private to whoever they were sent to.
+    robots: { index: false, follow: false },
+  };
+}
+
+/** A read-only view of one shared session; needs no account, only the link. */
+export default async function SharedSessionPage({ params }: SharedSessionPageProps) {
+  const shared = await findSharedSession((await params).id);
+  if (!shared) notFound();
+
+  const { unit } = shared.share;
+  const { session } = shared.entry;
+
+  return (
+    <main className="min-h-screen bg-white text-slate-900">
+      <div className="mx-auto max-w-3xl space-y-6 px-6 py-10 print:max-w-none print:px-0 print:py-0">
+        <header className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <div>
+            <p className="text-sm uppercase tracking-wide text-slate-500">Shared by {shared.owner}</p>
+            <h1 className="text-3xl font-semibold">{session.title ?? "Workout session"}</h1>
+          </div>
+          <div className="print:hidden">
+            <PrintButton label="Print" />
+          </div>
+        </header>
+        <SessionReport entry={shared.entry} unit={unit} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import type { User, UserSummary } from "@/lib/users";
+
+type AccountBarProps = {
+  user: User;
+  coaches: UserSummary[];
+  // Athletes who shared with this user; only coaches get the picker.
+  athletes: UserSummary[];
+  viewingId: string | null;
+  onView: (athleteId: string | null) => void;
+  onToggleShare: (coachId: string) => void;
+  onSignOut: () => void;
+};
+
+export default function AccountBar({
+  user,
+  coaches,
+  athletes,
+  viewingId,
+  onView,
+  onToggleShare,
+  onSignOut,
+}: AccountBarProps) {
+  const viewing = athletes.find((athlete) => athlete.id === viewingId);
+
+  return (
+    <div className="border-b border-slate-800 bg-slate-950/95 text-slate-200">
+      <div className="mx-auto flex w-full max-w-6xl flex-wrap items-center gap-3 px-4 py-3 text-sm">
+        <p className="font-semibold text-white">
+          {user.username}
+          <span className="ml-2 rounded-full bg-slate-800 px-2 py-0.5 text-xs font-semibold uppercase tracking-wide text-slate-300">
+            {user.role}
+          </span>
+        </p>
+
+        {user.role === "coach" && (
+          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+            Viewing
+            <select
+              value={viewingId ?? ""}
+              onChange={(event) => onView(event.target.value || null)}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200 outline-none focus:border-indigo-400"
+            >
+              <option value="">My own log</option>
+              {athletes.map((athlete) => (
+                <option key={athlete.id} value={athlete.id}>
+                  {athlete.username}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <details className="relative">
+          <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-indigo-200">
+            Sharing ({user.sharedWith.length})
+          </summary>
+          <div className="absolute left-0 z-30 mt-2 w-64 space-y-2 rounded-xl border border-slate-800 bg-slate-950 p-4 shadow-lg">
+            <p className="text-xs text-slate-400">Coaches you pick can view your workouts and insights, but not change them.</p>
+            {coaches.length === 0 ? (
+              <p className="text-xs text-slate-500">No coaches have an account yet.</p>
+            ) : (
+              coaches.map((coach) => (
+                <label key={coach.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={user.sharedWith.includes(coach.id)}
+                    onChange={() => onToggleShare(coach.id)}
+                  />
+                  {coach.username}
+                </label>
+              ))
+            )}
+          </div>
+        </details>
+
+        {viewing && (
+          <p className="rounded-full bg-amber-400/15 px-3 py-0.5 text-xs font-semibold uppercase tracking-wide text-amber-200">
+            Read-only: {viewing.username}
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={onSignOut}
+          className="ml-auto rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+
+import {
+  applyNameMapping,
+  findDuplicateSessions,
+  groupRejected,
+  IMPORT_SOURCES,
+  importedExerciseNames,
+  parseAppExport,
+  suggestCatalogEntry,
+  type AppImport,
+  type ImportSource,
+} from "@/lib/app-import";
+import { buildCatalogIndex, type CatalogExercise } from "@/lib/exercise-catalog";
+import { WEIGHT_UNITS, type WeightUnit } from "@/lib/units";
+import type { MergeResult } from "@/lib/workout-transfer";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type Preview = {
+  fileName: string;
+  parsed: AppImport;
+  // Imported exercise name to the catalog entry id it becomes; "" keeps the name as free text.
+  mapping: Record<string, string>;
+};
+
+type AppImportPanelProps = {
+  workouts: WorkoutSession[];
+  catalog: CatalogExercise[];
+  unit: WeightUnit;
+  onImport: (sessions: WorkoutSession[]) => Promise<MergeResult>;
+};
+
+const selectClass =
+  "rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-400";
+
+export default function AppImportPanel({ workouts, catalog, unit, onImport }: AppImportPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImportSource | "auto">("auto");
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(unit);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState<boolean>(true);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [report, setReport] = useState<string | null>(null);
+
+  const catalogIndex = useMemo(() => buildCatalogIndex(catalog), [catalog]);
+  const names = useMemo(() => (preview ? importedExerciseNames(preview.parsed.workouts) : []), [preview]);
+  const mapped = useMemo(() => {
+    if (!preview) return [];
+    const mapping = new Map<string, CatalogExercise>();
+    Object.entries(preview.mapping).forEach(([name, id]) => {
+      const entry = catalogIndex.byId.get(id);
+      if (entry) mapping.set(name, entry);
+    });
+    return applyNameMapping(preview.parsed.workouts, mapping);
+  }, [preview, catalogIndex]);
+  const duplicates = useMemo(
+    () => findDuplicateSessions(workouts, mapped, catalogIndex),
+    [workouts, mapped, catalogIndex]
+  );
+  const selected = skipDuplicates ? mapped.filter((session) => !duplicates.has(session.id)) : mapped;
+  const skipped = useMemo(() => (preview ? groupRejected(preview.parsed.rejected) : []), [preview]);
+  const dates = mapped.map((session) => session.date).sort();
+  const setCount = mapped.reduce(
+    (sum, session) => sum + session.exercises.reduce((acc, exercise) => acc + exercise.sets.length, 0),
+    0
+  );
+
+  const handleFile = async (file: File) => {
+    setImportError(null);
+    setReport(null);
+    try {
+      const parsed = parseAppExport(await file.text(), {
+        source: source === "auto" ? undefined : source,
+        weightUnit,
+      });
+      const mapping = Object.fromEntries(
+        importedExerciseNames(parsed.workouts).map(({ name }) => [name, suggestCatalogEntry(catalogIndex, name)?.id ?? ""])
+      );
+      setPreview({ fileName: file.name, parsed, mapping });
+    } catch (error) {
+      setPreview(null);
+      setImportError(error instanceof Error ? error.message : "The file could not be read.");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const merged = await onImport(selected);
+      const skippedSessions = mapped.length - selected.length;
+      setReport(
+        `Imported ${merged.added.length} session${merged.added.length === 1 ? "" : "s"} from ${preview.fileName}` +
+          (skippedSessions > 0 ? `, skipped ${skippedSessions} duplicate${skippedSessions === 1 ? "" : "s"}.` : ".")
+      );
+      setPreview(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const sourceLabel = (value: ImportSource) => IMPORT_SOURCES.find((option) => option.value === value)?.label ?? value;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-xl font-semibold text-white">Import from other apps</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Bring in CSV exports from Strong, Hevy or FitNotes. You can review the sessions, map exercise names to the
+        catalog and skip duplicates before anything is saved.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          App
+          <select
+            value={source}
+            onChange={(event) => setSource(event.target.value as ImportSource | "auto")}
+            className={selectClass}
+          >
+            <option value="auto">Detect automatically</option>
+            {IMPORT_SOURCES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          Weights without a unit
+          <select
+            value={weightUnit}
+            onChange={(event) => setWeightUnit(event.target.value as WeightUnit)}
+            className={selectClass}
+          >
+            {WEIGHT_UNITS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20"
+        >
+          Choose CSV export
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void handleFile(file);
+          }}
+        />
+      </div>
+
+      {importError && <p className="mt-3 text-sm font-medium text-red-300">{importError}</p>}
+      {report && <p className="mt-3 text-sm font-medium text-emerald-300">{report}</p>}
+
+      {preview && (
+        <div className="mt-4 space-y-4 rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-300">
+          <p>
+            <span className="font-semibold text-slate-100">{preview.fileName}</span>{" "}
+            {`(${sourceLabel(preview.parsed.source)}): ${mapped.length} session${mapped.length === 1 ? "" : "s"}`}
+            {dates.length > 0 && ` from ${dates[0]} to ${dates[dates.length - 1]}`}, {setCount} sets.
+          </p>
+
+          {names.length > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">Exercise names</h3>
+              <ul className="max-h-64 space-y-1 overflow-y-auto">
+                {names.map(({ name, sets }) => (
+                  <li key={name} className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+                    <span>
+                      {name} <span className="text-xs text-slate-500">({sets} sets)</span>
+                    </span>
+                    <select
+                      value={preview.mapping[name] ?? ""}
+                      onChange={(event) =>
+                        setPreview({ ...preview, mapping: { ...preview.mapping, [name]: event.target.value } })
+                      }
+                      aria-label={`Catalog entry for ${name}`}
+                      className={selectClass}
+                    >
+                      <option value="">Keep as &ldquo;{name}&rdquo;</option>
+                      {catalog.map((entry) => (
+                        <option key={entry.id} value={entry.id}>
+                          {entry.name}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {duplicates.size > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">Possible duplicates</h3>
+              <p>
+                {duplicates.size} session{duplicates.size === 1 ? " matches" : "s match"} one already in your log (same
+                date, exercises and number of sets).
+              </p>
+              <label className="mt-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(event) => setSkipDuplicates(event.target.checked)}
+                  className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-indigo-500 focus:ring-indigo-400"
+                />
+                Skip them
+              </label>
+            </section>
+          )}
+
+          {skipped.length > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                Skipped rows ({preview.parsed.rejected.length})
+              </h3>
+              <ul className="max-h-40 space-y-1 overflow-y-auto text-xs text-amber-200">
+                {skipped.map((group) => (
+                  <li key={group.reason}>
+                    <span className="font-semibold">{group.reason}</span> × {group.locations.length}:{" "}
+                    {group.locations.slice(0, 5).join(", ")}
+                    {group.locations.length > 5 && ", …"}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              disabled={importing || selected.length === 0}
+              onClick={() => void confirmImport()}
+              className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {importing ? "Importing..." : `Import ${selected.length} session${selected.length === 1 ? "" : "s"}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-300 transition hover:bg-slate-800/60"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
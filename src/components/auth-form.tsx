@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+import { MIN_PASSWORD_LENGTH, USER_ROLES, type UserRole } from "@/lib/users";
+
+type AuthFormProps = {
+  onSignIn: (username: string, password: string) => Promise<void>;
+  onRegister: (username: string, password: string, role: UserRole) => Promise<void>;
+};
+
+const INPUT_CLASS =
+  "rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30";
+
+export default function AuthForm({ onSignIn, onRegister }: AuthFormProps) {
+  const [mode, setMode] = useState<"sign-in" | "register">("sign-in");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("athlete");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === "sign-in") {
+        await onSignIn(username, password);
+      } else {
+        await onRegister(username, password, role);
+      }
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Something went wrong.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-slate-950/95 px-4 text-slate-200">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-2xl border border-slate-800/70 bg-slate-900/70 p-6 shadow-lg"
+      >
+        <header className="space-y-1">
+          <h1 className="text-2xl font-semibold text-white">Rep &amp; Set Tracker</h1>
+          <p className="text-sm text-slate-300">
+            {mode === "sign-in" ? "Sign in to your training log." : "Create an account on this server."}
+          </p>
+        </header>
+
+        <label className="flex flex-col gap-1 text-sm">
+          Username
+          <input
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            autoComplete="username"
+            autoCapitalize="none"
+            required
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+            minLength={mode === "register" ? MIN_PASSWORD_LENGTH : undefined}
+            required
+            className={INPUT_CLASS}
+          />
+        </label>
+        {mode === "register" && (
+          <fieldset className="flex gap-4 text-sm">
+            <legend className="mb-1 text-sm">I am</legend>
+            {USER_ROLES.map((option) => (
+              <label key={option.value} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="role"
+                  checked={role === option.value}
+                  onChange={() => setRole(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full rounded-lg bg-indigo-500 px-3 py-3 text-sm font-semibold text-white shadow transition hover:bg-indigo-400 disabled:opacity-60"
+        >
+          {mode === "sign-in" ? "Sign in" : "Create account"}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "sign-in" ? "register" : "sign-in");
+            setError(null);
+          }}
+          className="w-full text-sm text-slate-400 transition hover:text-indigo-200"
+        >
+          {mode === "sign-in" ? "New here? Create an account" : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
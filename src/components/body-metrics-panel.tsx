@@ -0,0 +1,264 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { LineChart } from "@/components/charts";
+import {
+  MEASUREMENT_SITES,
+  metricSeries,
+  sortByDate,
+  type BodyMetric,
+  type BodyMetricEntry,
+  type MeasurementSite,
+} from "@/lib/body-metrics";
+import { createId } from "@/lib/ids";
+import {
+  convertLength,
+  convertWeight,
+  DEFAULT_LENGTH_UNIT,
+  formatLength,
+  formatWeight,
+  LENGTH_UNITS,
+  type LengthUnit,
+  type WeightUnit,
+} from "@/lib/units";
+
+type BodyMetricsPanelProps = {
+  entries: BodyMetricEntry[];
+  unit: WeightUnit;
+  // Coaches viewing an athlete see the log and charts but no form.
+  readOnly: boolean;
+  onSave: (entry: BodyMetricEntry) => Promise<void>;
+  onDelete: (entryId: string) => void;
+};
+
+const METRIC_OPTIONS: { value: BodyMetric; label: string }[] = [
+  { value: "bodyweight", label: "Bodyweight" },
+  { value: "bodyFat", label: "Body fat %" },
+  ...MEASUREMENT_SITES,
+];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+const emptyMeasurements = () =>
+  Object.fromEntries(MEASUREMENT_SITES.map((site) => [site.value, ""])) as Record<MeasurementSite, string>;
+
+export default function BodyMetricsPanel({ entries, unit, readOnly, onSave, onDelete }: BodyMetricsPanelProps) {
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>(DEFAULT_LENGTH_UNIT);
+  const [metric, setMetric] = useState<BodyMetric>("bodyweight");
+  const [date, setDate] = useState<string>(todayISO);
+  const [bodyweight, setBodyweight] = useState<string>("");
+  const [bodyFat, setBodyFat] = useState<string>("");
+  const [measurements, setMeasurements] = useState<Record<MeasurementSite, string>>(emptyMeasurements);
+  const [showMeasurements, setShowMeasurements] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const series = useMemo(() => metricSeries(entries, metric, unit, lengthUnit), [entries, metric, unit, lengthUnit]);
+  const recent = useMemo(() => sortByDate(entries).reverse().slice(0, 8), [entries]);
+  const metricLabel = METRIC_OPTIONS.find((option) => option.value === metric)?.label ?? "";
+  const metricUnit = metric === "bodyweight" ? unit : metric === "bodyFat" ? "%" : lengthUnit;
+
+  const handleSubmit = async () => {
+    const number = (text: string) => (text.trim() === "" ? undefined : Number(text));
+    const recorded: Partial<Record<MeasurementSite, number>> = {};
+    MEASUREMENT_SITES.forEach((site) => {
+      const value = number(measurements[site.value]);
+      if (value !== undefined) recorded[site.value] = value;
+    });
+    const entry: BodyMetricEntry = {
+      id: createId(),
+      date,
+      bodyweight: number(bodyweight),
+      weightUnit: unit,
+      bodyFatPercent: number(bodyFat),
+      measurements: recorded,
+      lengthUnit,
+      createdAt: new Date().toISOString(),
+    };
+    const values = [entry.bodyweight, entry.bodyFatPercent, ...Object.values(recorded)];
+    if (values.every((value) => value === undefined)) {
+      setFormError("Enter a bodyweight, body fat percentage or at least one measurement.");
+      return;
+    }
+    if (values.some((value) => value !== undefined && !(value > 0))) {
+      setFormError("Values must be positive numbers.");
+      return;
+    }
+    if (entry.bodyFatPercent !== undefined && entry.bodyFatPercent >= 100) {
+      setFormError("Body fat must be below 100%.");
+      return;
+    }
+    setFormError(null);
+    try {
+      await onSave(entry);
+      setBodyweight("");
+      setBodyFat("");
+      setMeasurements(emptyMeasurements());
+    } catch {
+      setFormError("Saving failed. Try again.");
+    }
+  };
+
+  if (readOnly && entries.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Body metrics</h2>
+          <p className="text-sm text-slate-400">Bodyweight, body fat and measurements over time.</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={metric}
+            onChange={(event) => setMetric(event.target.value as BodyMetric)}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+          >
+            {METRIC_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={lengthUnit}
+            onChange={(event) => setLengthUnit(event.target.value as LengthUnit)}
+            aria-label="Measurement unit"
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+          >
+            {LENGTH_UNITS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <div className="mt-4">
+        <LineChart series={[{ label: metricLabel, color: "#34d399", points: series }]} unit={metricUnit} />
+      </div>
+
+      {!readOnly && (
+        <div className="mt-5 rounded-xl border border-slate-800 bg-slate-950/40 p-4">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+              Date
+              <input type="date" value={date} onChange={(event) => setDate(event.target.value)} className={INPUT_CLASS} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+              Bodyweight ({unit})
+              <input
+                type="number"
+                min={0}
+                step="0.1"
+                inputMode="decimal"
+                value={bodyweight}
+                onChange={(event) => setBodyweight(event.target.value)}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+              Body fat (%)
+              <input
+                type="number"
+                min={0}
+                max={99}
+                step="0.1"
+                inputMode="decimal"
+                value={bodyFat}
+                onChange={(event) => setBodyFat(event.target.value)}
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setShowMeasurements((prev) => !prev)}
+            className="mt-3 text-xs font-semibold uppercase tracking-wide text-slate-400 transition hover:text-indigo-200"
+          >
+            {showMeasurements ? "Hide measurements" : `Add measurements (${lengthUnit})`}
+          </button>
+          {showMeasurements && (
+            <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
+              {MEASUREMENT_SITES.map((site) => (
+                <label key={site.value} className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                  {site.label}
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    inputMode="decimal"
+                    value={measurements[site.value]}
+                    onChange={(event) =>
+                      setMeasurements((prev) => ({ ...prev, [site.value]: event.target.value }))
+                    }
+                    className={INPUT_CLASS}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {formError && <p className="mt-3 text-sm text-red-300">{formError}</p>}
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="mt-4 rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-indigo-400"
+          >
+            Log body metrics
+          </button>
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <ul className="mt-5 space-y-2">
+          {recent.map((entry) => {
+            const sites = MEASUREMENT_SITES.filter((site) => entry.measurements[site.value] != null);
+            return (
+              <li
+                key={entry.id}
+                className="flex flex-col gap-2 rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-sm md:flex-row md:items-center md:justify-between"
+              >
+                <div>
+                  <p className="font-semibold text-slate-100">
+                    {entry.date}
+                    {entry.bodyweight != null &&
+                      ` · ${formatWeight(convertWeight(entry.bodyweight, entry.weightUnit, unit), unit)}`}
+                    {entry.bodyFatPercent != null && ` · ${entry.bodyFatPercent}% body fat`}
+                  </p>
+                  {sites.length > 0 && (
+                    <p className="text-xs text-slate-400">
+                      {sites
+                        .map(
+                          (site) =>
+                            `${site.label} ${formatLength(
+                              convertLength(entry.measurements[site.value] ?? 0, entry.lengthUnit, lengthUnit),
+                              lengthUnit
+                            )}`
+                        )
+                        .join(" · ")}
+                    </p>
+                  )}
+                </div>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(entry.id)}
+                    className="self-start rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-400 transition hover:border-red-400 hover:text-red-200 md:self-auto"
+                  >
+                    Delete
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+type ChartPoint = {
+  date: string; // ISO date
+  value: number;
+};
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  points: ChartPoint[];
+};
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 52 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const toTime = (iso: string) => new Date(`${iso}T00:00:00Z`).getTime();
+
+const formatTick = (value: number) =>
+  value >= 10000 ? `${Math.round(value / 1000)}k` : (Math.round(value * 10) / 10).toLocaleString();
+
+const shortDate = (iso: string) =>
+  new Intl.DateTimeFormat(undefined, { month: "short", day: "numeric", timeZone: "UTC" }).format(
+    new Date(`${iso}T00:00:00Z`)
+  );
+
+// Rounds the axis maximum up to a "nice" number so tick labels stay readable.
+const niceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((candidate) => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+const YAxis = ({ max, unit }: { max: number; unit: string }) => (
+  <g>
+    {[0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+      const y = PADDING.top + PLOT_HEIGHT * (1 - fraction);
+      return (
+        <g key={fraction}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#1e293b" strokeWidth={1} />
+          <text x={PADDING.left - 8} y={y + 4} textAnchor="end" className="fill-slate-500 text-[10px]">
+            {formatTick(max * fraction)}
+          </text>
+        </g>
+      );
+    })}
+    <text x={8} y={PADDING.top + 4} className="fill-slate-500 text-[10px]">
+      {unit}
+    </text>
+  </g>
+);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="flex h-40 items-center justify-center rounded-xl border border-dashed border-slate-700 text-sm text-slate-400">
+    {message}
+  </div>
+);
+
+/** Multi-series line chart with a time-scaled x axis. */
+export function LineChart({ series, unit }: { series: ChartSeries[]; unit: string }) {
+  const allPoints = series.flatMap((entry) => entry.points);
+  if (allPoints.length === 0) return <EmptyChart message="No data in this range." />;
+
+  const times = allPoints.map((point) => toTime(point.date));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const max = niceMax(Math.max(...allPoints.map((point) => point.value)));
+  const x = (iso: string) =>
+    PADDING.left + (maxTime === minTime ? PLOT_WIDTH / 2 : ((toTime(iso) - minTime) / (maxTime - minTime)) * PLOT_WIDTH);
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT * (1 - value / max);
+  const firstDate = allPoints.reduce((min, point) => (point.date < min ? point.date : min), allPoints[0].date);
+  const lastDate = allPoints.reduce((latest, point) => (point.date > latest ? point.date : latest), allPoints[0].date);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img">
+        <YAxis max={max} unit={unit} />
+        {series.map((entry) => (
+          <g key={entry.label}>
+            <polyline
+              fill="none"
+              stroke={entry.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+              points={entry.points.map((point) => `${x(point.date)},${y(point.value)}`).join(" ")}
+            />
+            {entry.points.map((point) => (
+              <circle key={`${point.date}-${point.value}`} cx={x(point.date)} cy={y(point.value)} r={3} fill={entry.color}>
+                <title>
+                  {`${entry.label} · ${shortDate(point.date)}: ${formatTick(point.value)} ${unit}`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-500 text-[10px]">
+          {shortDate(firstDate)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-500 text-[10px]">
+          {shortDate(lastDate)}
+        </text>
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-4 text-xs text-slate-400">
+        {series.map((entry) => (
+          <span key={entry.label} className="flex items-center gap-2">
+            <span className="h-2 w-4 rounded-full" style={{ backgroundColor: entry.color }} />
+            {entry.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Single-series bar chart, one bar per point in the given order. */
+export function BarChart({ points, unit, color }: { points: ChartPoint[]; unit: string; color: string }) {
+  if (points.length === 0) return <EmptyChart message="No data in this range." />;
+
+  const max = niceMax(Math.max(...points.map((point) => point.value)));
+  const slot = PLOT_WIDTH / points.length;
+  const barWidth = Math.max(2, slot * 0.7);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img">
+      <YAxis max={max} unit={unit} />
+      {points.map((point, index) => {
+        const height = (point.value / max) * PLOT_HEIGHT;
+        return (
+          <rect
+            key={point.date}
+            x={PADDING.left + index * slot + (slot - barWidth) / 2}
+            y={PADDING.top + PLOT_HEIGHT - height}
+            width={barWidth}
+            height={height}
+            rx={2}
+            fill={color}
+          >
+            <title>{`Week of ${shortDate(point.date)}: ${formatTick(point.value)} ${unit}`}</title>
+          </rect>
+        );
+      })}
+      <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-500 text-[10px]">
+        {shortDate(points[0].date)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-500 text-[10px]">
+        {shortDate(points[points.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import {
+  exportToCsv,
+  exportToJson,
+  parseImportFile,
+  type MergeResult,
+  type RejectedRecord,
+} from "@/lib/workout-transfer";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type ImportReport = {
+  fileName: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  rejected: RejectedRecord[];
+};
+
+type DataTransferPanelProps = {
+  workouts: WorkoutSession[];
+  onImport: (sessions: WorkoutSession[]) => Promise<MergeResult>;
+};
+
+const downloadFile = (fileName: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function DataTransferPanel({ workouts, onImport }: DataTransferPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const handleFile = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+    setReport(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      const merged = await onImport(parsed.workouts);
+      setReport({
+        fileName: file.name,
+        added: merged.added.length,
+        updated: merged.updated.length,
+        unchanged: merged.unchanged,
+        rejected: parsed.rejected,
+      });
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed.");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-xl font-semibold text-white">Export &amp; import</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Back up your log or move it between devices. Imports merge by session id, so re-importing never duplicates.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button
+          type="button"
+          disabled={workouts.length === 0}
+          onClick={() => downloadFile(`workouts-${stamp()}.json`, exportToJson(workouts), "application/json")}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800/60 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          disabled={workouts.length === 0}
+          onClick={() => downloadFile(`workouts-${stamp()}.csv`, exportToCsv(workouts), "text/csv")}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800/60 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          disabled={importing}
+          onClick={() => fileInput.current?.click()}
+          className="rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {importing ? "Importing..." : "Import file"}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void handleFile(file);
+          }}
+        />
+      </div>
+
+      {importError && <p className="mt-3 text-sm font-medium text-red-300">{importError}</p>}
+
+      {report && (
+        <div className="mt-4 space-y-2 rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-300">
+          <p>
+            Imported <span className="font-semibold text-slate-100">{report.fileName}</span>:{" "}
+            {report.added} added, {report.updated} updated, {report.unchanged} unchanged, {report.rejected.length}{" "}
+            rejected.
+          </p>
+          {report.rejected.length > 0 && (
+            <ul className="max-h-40 space-y-1 overflow-y-auto text-xs text-red-200">
+              {report.rejected.map((record, index) => (
+                <li key={`${record.location}-${index}`}>
+                  <span className="font-semibold">{record.location}:</span> {record.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
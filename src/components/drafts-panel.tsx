@@ -0,0 +1,95 @@
+"use client";
+
+export type DraftSummary = {
+  id: string;
+  label: string;
+  updatedAt: string;
+  // e.g. "3 exercises · 2026-10-18"
+  detail: string;
+};
+
+type DraftsPanelProps = {
+  currentName: string;
+  // The editor's own draft is autosaved too; it is only listed when it has content.
+  currentHasContent: boolean;
+  drafts: DraftSummary[];
+  onRenameCurrent: (name: string) => void;
+  onNewDraft: () => void;
+  onResume: (draftId: string) => void;
+  onDiscard: (draftId: string) => void;
+};
+
+const formatSavedAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function DraftsPanel({
+  currentName,
+  currentHasContent,
+  drafts,
+  onRenameCurrent,
+  onNewDraft,
+  onResume,
+  onDiscard,
+}: DraftsPanelProps) {
+  return (
+    <div className="mt-6 rounded-xl border border-slate-800 bg-slate-950/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Drafts</h2>
+        <button
+          type="button"
+          onClick={onNewDraft}
+          disabled={!currentHasContent}
+          className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+        >
+          New draft
+        </button>
+      </div>
+      <label className="mt-3 flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+        This draft
+        <input
+          value={currentName}
+          onChange={(event) => onRenameCurrent(event.target.value)}
+          placeholder="Name it, e.g. Thursday pull"
+          className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200 outline-none focus:border-indigo-400"
+        />
+      </label>
+      <p className="mt-1 text-xs text-slate-500">
+        {currentHasContent ? "Saved automatically as you type." : "Saved automatically once you start typing."}
+      </p>
+
+      {drafts.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {drafts.map((draft) => (
+            <li
+              key={draft.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2"
+            >
+              <div className="min-w-0 text-sm">
+                <p className="truncate font-medium text-slate-100">{draft.label}</p>
+                <p className="text-xs text-slate-400">
+                  {draft.detail} · saved {formatSavedAt(draft.updatedAt)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  onClick={() => onResume(draft.id)}
+                  className="rounded-lg border border-slate-700 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDiscard(draft.id)}
+                  className="rounded-lg border border-slate-700 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate-400 transition hover:border-red-400 hover:text-red-200"
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  catalogExerciseKind,
+  EQUIPMENT,
+  MUSCLE_GROUPS,
+  validateCatalogExercise,
+  type CatalogExercise,
+  type Equipment,
+  type MuscleGroup,
+  type UnlinkedName,
+} from "@/lib/exercise-catalog";
+import { createId } from "@/lib/ids";
+import { EXERCISE_KINDS, type ExerciseKind } from "@/lib/workouts";
+
+type EntryDraft = {
+  id: string;
+  name: string;
+  aliases: string; // comma-separated while editing
+  muscleGroups: MuscleGroup[];
+  equipment: Equipment;
+  kind: ExerciseKind | ""; // empty means inferred
+};
+
+// Sentinel merge target that creates a catalog entry named after the free-text name.
+const CREATE_NEW = "__create__";
+
+type ExerciseCatalogPanelProps = {
+  catalog: CatalogExercise[];
+  unlinkedNames: UnlinkedName[];
+  onSaveEntry: (entry: CatalogExercise) => Promise<void>;
+  onDeleteEntry: (entryId: string) => void;
+  onMerge: (name: string, targetId: string | null) => Promise<void>;
+};
+
+const toDraft = (entry: CatalogExercise): EntryDraft => ({
+  id: entry.id,
+  name: entry.name,
+  aliases: entry.aliases.join(", "),
+  muscleGroups: entry.muscleGroups,
+  equipment: entry.equipment,
+  kind: entry.kind ?? "",
+});
+
+const inputClass =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30";
+
+export default function ExerciseCatalogPanel({
+  catalog,
+  unlinkedNames,
+  onSaveEntry,
+  onDeleteEntry,
+  onMerge,
+}: ExerciseCatalogPanelProps) {
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState<string | null>(null);
+  const [filter, setFilter] = useState<string>("");
+
+  const sortedCatalog = [...catalog].sort((a, b) => a.name.localeCompare(b.name));
+  const query = filter.trim().toLowerCase();
+  const visibleCatalog = query
+    ? sortedCatalog.filter((entry) =>
+        [entry.name, ...entry.aliases, ...entry.muscleGroups].some((text) => text.toLowerCase().includes(query))
+      )
+    : sortedCatalog;
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const validated = validateCatalogExercise({
+      id: draft.id,
+      name: draft.name,
+      aliases: draft.aliases.split(","),
+      muscleGroups: draft.muscleGroups,
+      equipment: draft.equipment,
+      kind: draft.kind || undefined,
+    });
+    if (!validated.ok) {
+      setDraftError(`Cannot save: ${validated.reason}.`);
+      return;
+    }
+    try {
+      await onSaveEntry(validated.value);
+      setDraft(null);
+      setDraftError(null);
+    } catch (saveError) {
+      setDraftError(saveError instanceof Error ? saveError.message : "Saving the exercise failed.");
+    }
+  };
+
+  const merge = async (name: string) => {
+    const target = mergeTargets[name] ?? CREATE_NEW;
+    setMerging(name);
+    try {
+      await onMerge(name, target === CREATE_NEW ? null : target);
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Exercise catalog</h2>
+          <p className="text-sm text-slate-400">Canonical names, aliases and muscle groups used to group your log.</p>
+        </div>
+        <button
+          type="button"
+          disabled={draft !== null}
+          onClick={() => {
+            setDraftError(null);
+            setDraft({ id: createId(), name: "", aliases: "", muscleGroups: [], equipment: "barbell", kind: "" });
+          }}
+          className="rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          + New exercise
+        </button>
+      </header>
+
+      {unlinkedNames.length > 0 && (
+        <section className="mt-5 rounded-xl border border-amber-400/40 bg-amber-400/5 p-4">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-amber-200">Merge free-text names</h3>
+          <p className="mt-1 text-xs text-slate-400">
+            These names in your log match no catalog entry. Merging links every matching exercise and keeps the name as an
+            alias.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {unlinkedNames.map((unlinked) => (
+              <li key={unlinked.name} className="flex flex-col gap-2 text-sm md:flex-row md:items-center">
+                <span className="flex-1 text-slate-200">
+                  {unlinked.name} <span className="text-xs text-slate-400">({unlinked.occurrences}×)</span>
+                </span>
+                <select
+                  value={mergeTargets[unlinked.name] ?? CREATE_NEW}
+                  onChange={(event) => setMergeTargets((prev) => ({ ...prev, [unlinked.name]: event.target.value }))}
+                  className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-200"
+                >
+                  <option value={CREATE_NEW}>Create new entry</option>
+                  {sortedCatalog.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={merging !== null}
+                  onClick={() => void merge(unlinked.name)}
+                  className="rounded-lg bg-amber-400/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-400/30 disabled:opacity-40"
+                >
+                  {merging === unlinked.name ? "Merging..." : "Merge"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {draft && (
+        <div className="mt-5 space-y-3 rounded-xl border border-indigo-500/40 bg-slate-950/60 p-4">
+          <input
+            type="text"
+            value={draft.name}
+            placeholder="Canonical name (e.g. Bench Press)"
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.aliases}
+            placeholder="Aliases, comma separated (e.g. Bench, Flat Bench)"
+            onChange={(event) => setDraft({ ...draft, aliases: event.target.value })}
+            className={inputClass}
+          />
+          <fieldset className="flex flex-wrap gap-2">
+            <legend className="mb-1 text-xs uppercase tracking-wide text-slate-400">Muscle groups</legend>
+            {MUSCLE_GROUPS.map((group) => {
+              const selected = draft.muscleGroups.includes(group);
+              return (
+                <button
+                  key={group}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      muscleGroups: selected
+                        ? draft.muscleGroups.filter((candidate) => candidate !== group)
+                        : [...draft.muscleGroups, group],
+                    })
+                  }
+                  className={`rounded-full px-3 py-1 text-xs capitalize transition ${
+                    selected ? "bg-indigo-500 text-white" : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                  }`}
+                >
+                  {group}
+                </button>
+              );
+            })}
+          </fieldset>
+          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+            Equipment
+            <select
+              value={draft.equipment}
+              onChange={(event) => setDraft({ ...draft, equipment: event.target.value as Equipment })}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200"
+            >
+              {EQUIPMENT.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+            Logged as
+            <select
+              value={draft.kind}
+              onChange={(event) => setDraft({ ...draft, kind: event.target.value as ExerciseKind | "" })}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm normal-case text-slate-200"
+            >
+              <option value="">automatic</option>
+              {EXERCISE_KINDS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => void saveDraft()}
+              className="rounded-lg bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400"
+            >
+              Save exercise
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setDraftError(null);
+              }}
+              className="rounded-lg px-3 py-2 text-sm text-slate-400 hover:text-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+          {draftError && <p className="text-sm font-medium text-red-300">{draftError}</p>}
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={filter}
+        onChange={(event) => setFilter(event.target.value)}
+        placeholder="Filter catalog..."
+        className={`${inputClass} mt-5`}
+      />
+      <ul className="mt-3 max-h-96 space-y-2 overflow-y-auto">
+        {visibleCatalog.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex flex-col gap-2 rounded-lg border border-slate-800 bg-slate-950/60 p-3 md:flex-row md:items-center md:justify-between"
+          >
+            <div>
+              <p className="text-sm font-semibold text-white">
+                {entry.name}{" "}
+                <span className="text-xs font-normal text-slate-400">
+                  · {entry.equipment} · {catalogExerciseKind(entry)}
+                </span>
+              </p>
+              {entry.aliases.length > 0 && (
+                <p className="text-xs text-slate-400">Also: {entry.aliases.join(", ")}</p>
+              )}
+              <p className="mt-1 flex flex-wrap gap-1">
+                {entry.muscleGroups.map((group) => (
+                  <span key={group} className="rounded-full bg-slate-800 px-2 py-0.5 text-[11px] capitalize text-slate-300">
+                    {group}
+                  </span>
+                ))}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={draft !== null}
+                onClick={() => {
+                  setDraftError(null);
+                  setDraft(toDraft(entry));
+                }}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => onDeleteEntry(entry.id)}
+                className="rounded-lg border border-transparent bg-red-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { restRemaining } from "@/lib/live-session";
+import { formatDuration } from "@/lib/units";
+
+type LiveSessionBarProps = {
+  startedAt: string;
+  restEndsAt: string | null;
+  completedSets: number;
+  plannedSets: number;
+  onAdjustRest: (seconds: number) => void;
+  onSkipRest: () => void;
+  onFinish: () => void;
+  onDiscard: () => void;
+};
+
+// A short double beep through Web Audio plus a vibration where the device supports it.
+const playRestAlert = () => {
+  navigator.vibrate?.([200, 100, 200]);
+  const AudioContextClass = window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+  try {
+    const context = new AudioContextClass();
+    [0, 0.3].forEach((offset) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, context.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.25);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.25);
+    });
+    window.setTimeout(() => void context.close(), 1000);
+  } catch (error) {
+    console.warn("Unable to play the rest alert", error);
+  }
+};
+
+export default function LiveSessionBar({
+  startedAt,
+  restEndsAt,
+  completedSets,
+  plannedSets,
+  onAdjustRest,
+  onSkipRest,
+  onFinish,
+  onDiscard,
+}: LiveSessionBarProps) {
+  const [now, setNow] = useState<number>(() => Date.now());
+  const alertedFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const remaining = restRemaining({ restEndsAt }, now);
+
+  useEffect(() => {
+    if (remaining !== 0 || !restEndsAt || alertedFor.current === restEndsAt) return;
+    alertedFor.current = restEndsAt;
+    // A rest that ended long ago (e.g. before a reload) is shown as over without beeping again.
+    if (now - new Date(restEndsAt).getTime() < 5000) playRestAlert();
+  }, [remaining, restEndsAt, now]);
+
+  const elapsed = Math.max(0, (now - new Date(startedAt).getTime()) / 1000);
+
+  return (
+    <div className="sticky top-4 z-10 mb-6 space-y-3 rounded-xl border border-emerald-400/40 bg-slate-950/90 p-4 backdrop-blur">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-emerald-300">Live session</p>
+          <p className="font-mono text-2xl font-semibold text-white">{formatDuration(elapsed)}</p>
+        </div>
+        <p className="text-sm text-slate-300">
+          {completedSets}/{plannedSets} sets done
+        </p>
+      </div>
+
+      {remaining !== null && (
+        <div
+          className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${
+            remaining === 0 ? "bg-emerald-500/20 text-emerald-100" : "bg-indigo-500/15 text-indigo-100"
+          }`}
+        >
+          <p className="text-sm">
+            {remaining === 0 ? (
+              "Rest over — next set!"
+            ) : (
+              <>
+                Rest <span className="font-mono text-lg font-semibold">{formatDuration(remaining)}</span>
+              </>
+            )}
+          </p>
+          <div className="flex gap-2">
+            {remaining > 0 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onAdjustRest(-15)}
+                  className="rounded-lg border border-slate-700 px-2 py-1 text-xs font-semibold text-slate-200 hover:border-indigo-400"
+                >
+                  −15s
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onAdjustRest(15)}
+                  className="rounded-lg border border-slate-700 px-2 py-1 text-xs font-semibold text-slate-200 hover:border-indigo-400"
+                >
+                  +15s
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={onSkipRest}
+              className="rounded-lg border border-slate-700 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-indigo-400"
+            >
+              {remaining === 0 ? "Dismiss" : "Skip"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onFinish}
+          className="flex-1 rounded-lg bg-emerald-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400"
+        >
+          Finish workout
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="rounded-lg border border-transparent bg-red-500/20 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { MUSCLE_GROUPS, type MuscleGroup } from "@/lib/exercise-catalog";
+import {
+  EMPTY_LOG_FILTER,
+  isFilterActive,
+  LOG_SORTS,
+  parseLogQuery,
+  type LogFilter,
+  type LogSort,
+} from "@/lib/log-filter";
+import type { WeightUnit } from "@/lib/units";
+
+type LogFilterBarProps = {
+  filter: LogFilter;
+  onChange: (filter: LogFilter) => void;
+  exerciseNames: string[];
+  unit: WeightUnit;
+  matchCount: number;
+};
+
+const controlClass =
+  "rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-400";
+
+const labelClass = "flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400";
+
+const optionalNumber = (value: string) => {
+  const parsed = Number(value);
+  return value.trim() === "" || !Number.isFinite(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+export default function LogFilterBar({ filter, onChange, exerciseNames, unit, matchCount }: LogFilterBarProps) {
+  const invalidTerms = parseLogQuery(filter.query).invalid;
+  const unselectedExercises = exerciseNames.filter((name) => !filter.exercises.includes(name));
+
+  return (
+    <div className="mb-6 space-y-3">
+      <input
+        type="search"
+        value={filter.query}
+        onChange={(event) => onChange({ ...filter, query: event.target.value })}
+        placeholder='Search notes or filter: exercise:squat weight>100 after:2026-01-01'
+        className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30"
+      />
+      {invalidTerms.length > 0 && (
+        <p className="text-xs text-amber-200">Ignored filter terms: {invalidTerms.join(", ")}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <label className={labelClass}>
+          From
+          <input
+            type="date"
+            value={filter.from ?? ""}
+            onChange={(event) => onChange({ ...filter, from: event.target.value || undefined })}
+            className={controlClass}
+          />
+        </label>
+        <label className={labelClass}>
+          To
+          <input
+            type="date"
+            value={filter.to ?? ""}
+            onChange={(event) => onChange({ ...filter, to: event.target.value || undefined })}
+            className={controlClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Min weight ({unit})
+          <input
+            type="number"
+            min={0}
+            value={filter.minWeight ?? ""}
+            onChange={(event) => onChange({ ...filter, minWeight: optionalNumber(event.target.value) })}
+            className={controlClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Min reps
+          <input
+            type="number"
+            min={0}
+            value={filter.minReps ?? ""}
+            onChange={(event) => onChange({ ...filter, minReps: optionalNumber(event.target.value) })}
+            className={controlClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Exercise
+          <select
+            value=""
+            onChange={(event) =>
+              event.target.value && onChange({ ...filter, exercises: [...filter.exercises, event.target.value] })
+            }
+            className={controlClass}
+          >
+            <option value="">Add exercise…</option>
+            {unselectedExercises.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Muscle group
+          <select
+            value=""
+            onChange={(event) =>
+              event.target.value &&
+              onChange({ ...filter, muscleGroups: [...filter.muscleGroups, event.target.value as MuscleGroup] })
+            }
+            className={`${controlClass} capitalize`}
+          >
+            <option value="">Add muscle group…</option>
+            {MUSCLE_GROUPS.filter((group) => !filter.muscleGroups.includes(group)).map((group) => (
+              <option key={group} value={group}>
+                {group}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Sort
+          <select
+            value={filter.sort}
+            onChange={(event) => onChange({ ...filter, sort: event.target.value as LogSort })}
+            className={controlClass}
+          >
+            {LOG_SORTS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            disabled={!isFilterActive(filter) && filter.sort === EMPTY_LOG_FILTER.sort}
+            onClick={() => onChange(EMPTY_LOG_FILTER)}
+            className="w-full rounded-lg border border-slate-700 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+          >
+            Clear filters
+          </button>
+        </div>
+      </div>
+
+      {(filter.exercises.length > 0 || filter.muscleGroups.length > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {filter.exercises.map((name) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => onChange({ ...filter, exercises: filter.exercises.filter((candidate) => candidate !== name) })}
+              className="rounded-full bg-indigo-500/20 px-3 py-1 text-xs text-indigo-100 transition hover:bg-indigo-500/30"
+            >
+              {name} ×
+            </button>
+          ))}
+          {filter.muscleGroups.map((group) => (
+            <button
+              key={group}
+              type="button"
+              onClick={() =>
+                onChange({ ...filter, muscleGroups: filter.muscleGroups.filter((candidate) => candidate !== group) })
+              }
+              className="rounded-full bg-emerald-500/20 px-3 py-1 text-xs capitalize text-emerald-100 transition hover:bg-emerald-500/30"
+            >
+              {group} ×
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <p className="text-xs text-slate-400">
+          {matchCount} matching session{matchCount === 1 ? "" : "s"}
+        </p>
+      )}
+    </div>
+  );
+}
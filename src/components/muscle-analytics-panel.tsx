@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { LineChart } from "@/components/charts";
+import type { CatalogIndex } from "@/lib/exercise-catalog";
+import {
+  BALANCE_RATIOS,
+  balanceRatio,
+  targetStatus,
+  TRACKED_MUSCLE_GROUPS,
+  WORKLOAD_ZONES,
+  weeklyMuscleSets,
+  workloadHistory,
+  workloadZone,
+  type MuscleSetTargets,
+  type TargetStatus,
+  type WorkloadZone,
+} from "@/lib/muscle-analytics";
+import { addDays, startOfWeek } from "@/lib/progress";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type SetWindow = "this" | "last" | "4w";
+
+const SET_WINDOWS: { value: SetWindow; label: string }[] = [
+  { value: "this", label: "This week" },
+  { value: "last", label: "Last week" },
+  { value: "4w", label: "4-week average" },
+];
+
+const STATUS_STYLES: Record<TargetStatus, { bar: string; text: string }> = {
+  below: { bar: "bg-amber-400", text: "text-amber-200" },
+  within: { bar: "bg-emerald-400", text: "text-emerald-200" },
+  above: { bar: "bg-rose-400", text: "text-rose-200" },
+};
+
+const ZONE_STYLES: Record<WorkloadZone, string> = {
+  low: "border-slate-500/40 text-slate-300",
+  optimal: "border-emerald-400/40 text-emerald-200",
+  caution: "border-amber-400/40 text-amber-200",
+  spike: "border-rose-400/40 text-rose-200",
+};
+
+const inputClass =
+  "w-14 rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+type MuscleAnalyticsPanelProps = {
+  workouts: WorkoutSession[];
+  catalogIndex: CatalogIndex;
+  targets: MuscleSetTargets;
+  onTargetsChange: (targets: MuscleSetTargets) => void;
+  unit: WeightUnit;
+};
+
+export default function MuscleAnalyticsPanel({
+  workouts,
+  catalogIndex,
+  targets,
+  onTargetsChange,
+  unit,
+}: MuscleAnalyticsPanelProps) {
+  const [setWindow, setSetWindow] = useState<SetWindow>("4w");
+  const [editingTargets, setEditingTargets] = useState<boolean>(false);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const thisWeek = startOfWeek(today);
+  const sets = useMemo(() => {
+    if (setWindow === "this") return weeklyMuscleSets(workouts, catalogIndex, thisWeek);
+    // The running week is left out of the average so a fresh Monday does not drag it down.
+    const lastWeek = addDays(thisWeek, -7);
+    return weeklyMuscleSets(workouts, catalogIndex, lastWeek, setWindow === "4w" ? 4 : 1);
+  }, [workouts, catalogIndex, thisWeek, setWindow]);
+  const workload = useMemo(() => workloadHistory(workouts, today), [workouts, today]);
+  const current = workload[workload.length - 1];
+
+  // Targets are whole sets per week; a cleared or unreadable field leaves the target as it was.
+  const countInput = (value: string, fallback: number) => {
+    const parsed = Number(value);
+    return value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed) : fallback;
+  };
+
+  if (workouts.length === 0) return null;
+
+  const scale = Math.max(...TRACKED_MUSCLE_GROUPS.map((group) => Math.max(sets[group], targets[group].max)), 1);
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Muscle group analytics</h2>
+          <p className="text-sm text-slate-400">Weekly working sets, balance and training load.</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={setWindow}
+            onChange={(event) => setSetWindow(event.target.value as SetWindow)}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+          >
+            {SET_WINDOWS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setEditingTargets((prev) => !prev)}
+            className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+          >
+            {editingTargets ? "Done" : "Targets"}
+          </button>
+        </div>
+      </header>
+
+      <section className="mt-5">
+        <h3 className="mb-3 text-base font-semibold text-white">Working sets per week</h3>
+        <ul className="space-y-2">
+          {TRACKED_MUSCLE_GROUPS.map((group) => {
+            const count = sets[group];
+            const range = targets[group];
+            const style = STATUS_STYLES[targetStatus(count, range)];
+            return (
+              <li key={group} className="grid grid-cols-[6rem_1fr_auto] items-center gap-3 text-sm">
+                <span className="capitalize text-slate-300">{group}</span>
+                <div className="relative h-3 rounded-full bg-slate-800">
+                  <div
+                    className="absolute inset-y-0 rounded-full bg-slate-600/60"
+                    style={{ left: `${(range.min / scale) * 100}%`, width: `${((range.max - range.min) / scale) * 100}%` }}
+                    title={`Target ${range.min}-${range.max} sets`}
+                  />
+                  <div
+                    className={`absolute inset-y-0.5 left-0 rounded-full ${style.bar}`}
+                    style={{ width: `${(count / scale) * 100}%` }}
+                  />
+                </div>
+                {editingTargets ? (
+                  <span className="flex items-center gap-1 text-slate-400">
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label={`${group} minimum sets`}
+                      defaultValue={range.min}
+                      onChange={(event) =>
+                        onTargetsChange({ ...targets, [group]: { ...range, min: countInput(event.target.value, range.min) } })
+                      }
+                      className={inputClass}
+                    />
+                    –
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label={`${group} maximum sets`}
+                      defaultValue={range.max}
+                      onChange={(event) =>
+                        onTargetsChange({ ...targets, [group]: { ...range, max: countInput(event.target.value, range.max) } })
+                      }
+                      className={inputClass}
+                    />
+                  </span>
+                ) : (
+                  <span className={`w-24 text-right font-semibold ${style.text}`}>
+                    {Number.isInteger(count) ? count : count.toFixed(1)}{" "}
+                    <span className="text-xs font-normal text-slate-500">
+                      / {range.min}-{range.max}
+                    </span>
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <p className="mt-2 text-xs text-slate-500">
+          Sets count fully for an exercise&apos;s main muscle group and half for the others it lists in the catalog.
+        </p>
+      </section>
+
+      <section className="mt-6">
+        <h3 className="mb-3 text-base font-semibold text-white">Balance</h3>
+        <dl className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          {BALANCE_RATIOS.map((ratio) => {
+            const value = balanceRatio(sets, ratio);
+            const balanced = value !== null && value >= ratio.balanced.min && value <= ratio.balanced.max;
+            return (
+              <div key={ratio.id} className="rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3">
+                <dt className="text-xs uppercase tracking-wide text-slate-400">{ratio.label}</dt>
+                <dd className="mt-1 text-lg font-semibold text-slate-100">
+                  {value === null ? "–" : `${value.toFixed(2)} : 1`}
+                </dd>
+                <dd className={`text-xs ${value === null ? "text-slate-500" : balanced ? "text-emerald-200" : "text-amber-200"}`}>
+                  {value === null
+                    ? "Not enough sets to compare"
+                    : balanced
+                      ? "Balanced"
+                      : `Outside ${ratio.balanced.min}–${ratio.balanced.max}`}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      </section>
+
+      <section className="mt-6">
+        <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <h3 className="text-base font-semibold text-white">Acute : chronic workload</h3>
+          {current.ratio !== null && (
+            <span
+              className={`self-start rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide ${
+                ZONE_STYLES[workloadZone(current.ratio)]
+              }`}
+            >
+              {current.ratio.toFixed(2)} ·{" "}
+              {WORKLOAD_ZONES.find((zone) => zone.value === workloadZone(current.ratio ?? 0))?.label}
+            </span>
+          )}
+        </div>
+        {current.ratio === null ? (
+          <p className="text-sm text-slate-400">Log a few weeks of sessions to compare this week&apos;s load with your usual.</p>
+        ) : (
+          <>
+            <p className="mb-3 text-sm text-slate-300">
+              Last 7 days: <span className="font-semibold text-slate-100">{formatWeight(current.acute, unit)}</span> ·
+              4-week weekly average:{" "}
+              <span className="font-semibold text-slate-100">{formatWeight(current.chronic, unit)}</span>
+            </p>
+            {workloadZone(current.ratio) === "spike" && (
+              <p className="mb-3 text-sm text-rose-200">
+                Training load jumped well above your recent average; sudden spikes like this raise injury risk.
+              </p>
+            )}
+            <LineChart
+              unit="ratio"
+              series={[
+                {
+                  label: "Acute:chronic",
+                  color: "#f472b6",
+                  points: workload.flatMap((point) => (point.ratio === null ? [] : [{ date: point.date, value: point.ratio }])),
+                },
+              ]}
+            />
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+type PrintButtonProps = {
+  label?: string;
+};
+
+export default function PrintButton({ label = "Print or save as PDF" }: PrintButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-indigo-500"
+    >
+      {label}
+    </button>
+  );
+}
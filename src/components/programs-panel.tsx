@@ -0,0 +1,757 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { createId } from "@/lib/ids";
+import {
+  plannedDayLabel,
+  programAdherence,
+  programEndDate,
+  programWeekCount,
+  validateTrainingProgram,
+  type DayAdherence,
+  type PlannedDay,
+  type PlannedDayStatus,
+  type TrainingProgram,
+} from "@/lib/programs";
+import { startOfWeek } from "@/lib/progress";
+import { formatWeight, WEIGHT_UNITS, type WeightUnit } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type ExerciseDraft = {
+  id: string;
+  name: string;
+  sets: string;
+  reps: string;
+  percent: string;
+  notes?: string;
+};
+
+type DayDraft = {
+  id: string;
+  weekday: number;
+  title: string;
+  exercises: ExerciseDraft[];
+};
+
+type WeekDraft = {
+  id: string;
+  percentOffset: string;
+  deload: boolean;
+};
+
+type BlockDraft = {
+  id: string;
+  name: string;
+  days: DayDraft[];
+  weeks: WeekDraft[];
+};
+
+type TrainingMaxDraft = {
+  id: string;
+  name: string;
+  weight: string;
+};
+
+type ProgramDraft = {
+  id: string;
+  name: string;
+  startDate: string;
+  unit: WeightUnit;
+  trainingMaxes: TrainingMaxDraft[];
+  blocks: BlockDraft[];
+  createdAt?: string;
+};
+
+type ProgramsPanelProps = {
+  programs: TrainingProgram[];
+  workouts: WorkoutSession[];
+  unit: WeightUnit;
+  today: string;
+  // Coaches viewing an athlete see the schedule and adherence but cannot change or start anything.
+  readOnly: boolean;
+  onOpenDay: (day: PlannedDay) => void;
+  onSave: (program: TrainingProgram) => Promise<void>;
+  onDelete: (programId: string) => void;
+};
+
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+const STATUS_STYLES: Record<PlannedDayStatus, { label: string; className: string }> = {
+  done: { label: "Done", className: "bg-emerald-500/15 text-emerald-200" },
+  missed: { label: "Missed", className: "bg-red-500/15 text-red-200" },
+  upcoming: { label: "Planned", className: "bg-slate-800 text-slate-300" },
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30";
+
+const smallButtonClass =
+  "rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40";
+
+const newExerciseDraft = (): ExerciseDraft => ({ id: createId(), name: "", sets: "5", reps: "5", percent: "70" });
+
+const newDayDraft = (weekday: number): DayDraft => ({
+  id: createId(),
+  weekday,
+  title: `Day ${weekday + 1}`,
+  exercises: [newExerciseDraft()],
+});
+
+const newWeekDraft = (percentOffset: number, deload = false): WeekDraft => ({
+  id: createId(),
+  percentOffset: String(percentOffset),
+  deload,
+});
+
+// Three building weeks and a deload, the most common shape of a block.
+const newBlockDraft = (index: number): BlockDraft => ({
+  id: createId(),
+  name: `Block ${index + 1}`,
+  days: [newDayDraft(0)],
+  weeks: [newWeekDraft(0), newWeekDraft(5), newWeekDraft(10), newWeekDraft(0, true)],
+});
+
+const newProgramDraft = (unit: WeightUnit, today: string): ProgramDraft => ({
+  id: createId(),
+  name: "",
+  startDate: startOfWeek(today),
+  unit,
+  trainingMaxes: [{ id: createId(), name: "", weight: "" }],
+  blocks: [newBlockDraft(0)],
+});
+
+const toDraft = (program: TrainingProgram): ProgramDraft => ({
+  id: program.id,
+  name: program.name,
+  startDate: program.startDate,
+  unit: program.unit,
+  createdAt: program.createdAt,
+  trainingMaxes: program.trainingMaxes.map((max) => ({ id: createId(), name: max.name, weight: String(max.weight) })),
+  blocks: program.blocks.map((block) => ({
+    id: block.id,
+    name: block.name,
+    weeks: block.weeks.map((week) => ({ id: week.id, percentOffset: String(week.percentOffset), deload: week.deload })),
+    days: block.days.map((day) => ({
+      id: day.id,
+      weekday: day.weekday,
+      title: day.title,
+      exercises: day.exercises.map((exercise) => ({
+        id: exercise.id,
+        name: exercise.name,
+        notes: exercise.notes,
+        sets: String(exercise.sets),
+        reps: String(exercise.reps),
+        percent: exercise.percent != null ? String(exercise.percent) : "",
+      })),
+    })),
+  })),
+});
+
+const optionalNumber = (text: string) => (text.trim() === "" ? undefined : Number(text));
+
+const formatPercent = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+
+const describePrescription = (exercise: PlannedDay["exercises"][number]) =>
+  [
+    `${exercise.sets} × ${exercise.reps}`,
+    exercise.weight != null && `@ ${formatWeight(exercise.weight, exercise.unit)}`,
+    exercise.percent != null && `(${formatPercent(exercise.percent)})`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+export default function ProgramsPanel({
+  programs,
+  workouts,
+  unit,
+  today,
+  readOnly,
+  onOpenDay,
+  onSave,
+  onDelete,
+}: ProgramsPanelProps) {
+  const [draft, setDraft] = useState<ProgramDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const sortedPrograms = useMemo(
+    () => [...programs].sort((a, b) => b.startDate.localeCompare(a.startDate) || a.name.localeCompare(b.name)),
+    [programs]
+  );
+  // The program on screen: the one picked, else the latest one that has started.
+  const selected =
+    sortedPrograms.find((program) => program.id === selectedId) ??
+    sortedPrograms.find((program) => program.startDate <= today) ??
+    sortedPrograms[0];
+  const adherence = useMemo(
+    () => (selected ? programAdherence(selected, workouts, today) : null),
+    [selected, workouts, today]
+  );
+  const nextDay = adherence?.days.find((entry) => entry.status === "upcoming");
+
+  const updateBlock = (blockId: string, updater: (block: BlockDraft) => BlockDraft) => {
+    setDraft((prev) => prev && { ...prev, blocks: prev.blocks.map((block) => (block.id === blockId ? updater(block) : block)) });
+  };
+
+  const updateDay = (blockId: string, dayId: string, updater: (day: DayDraft) => DayDraft) => {
+    updateBlock(blockId, (block) => ({ ...block, days: block.days.map((day) => (day.id === dayId ? updater(day) : day)) }));
+  };
+
+  const updateExercise = (blockId: string, dayId: string, exerciseId: string, patch: Partial<ExerciseDraft>) => {
+    updateDay(blockId, dayId, (day) => ({
+      ...day,
+      exercises: day.exercises.map((exercise) => (exercise.id === exerciseId ? { ...exercise, ...patch } : exercise)),
+    }));
+  };
+
+  const updateTrainingMax = (maxId: string, patch: Partial<TrainingMaxDraft>) => {
+    setDraft(
+      (prev) =>
+        prev && { ...prev, trainingMaxes: prev.trainingMaxes.map((max) => (max.id === maxId ? { ...max, ...patch } : max)) }
+    );
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const now = new Date().toISOString();
+    const candidate = {
+      id: draft.id,
+      name: draft.name.trim(),
+      startDate: draft.startDate,
+      unit: draft.unit,
+      createdAt: draft.createdAt ?? now,
+      updatedAt: now,
+      // Rows left blank are unfinished, not errors.
+      trainingMaxes: draft.trainingMaxes
+        .filter((max) => max.name.trim() !== "" || max.weight.trim() !== "")
+        .map((max) => ({ name: max.name.trim(), weight: Number(max.weight) })),
+      blocks: draft.blocks.map((block) => ({
+        id: block.id,
+        name: block.name.trim(),
+        weeks: block.weeks.map((week) => ({
+          id: week.id,
+          percentOffset: optionalNumber(week.percentOffset) ?? 0,
+          deload: week.deload,
+        })),
+        days: block.days.map((day) => ({
+          id: day.id,
+          weekday: day.weekday,
+          title: day.title.trim(),
+          exercises: day.exercises.map((exercise) => ({
+            id: exercise.id,
+            name: exercise.name.trim(),
+            notes: exercise.notes,
+            sets: Number(exercise.sets),
+            reps: Number(exercise.reps),
+            percent: optionalNumber(exercise.percent),
+          })),
+        })),
+      })),
+    };
+    const validated = validateTrainingProgram(candidate);
+    if (!validated.ok) {
+      setDraftError(`Cannot save: ${validated.reason}.`);
+      return;
+    }
+    try {
+      await onSave(validated.value);
+      setSelectedId(validated.value.id);
+      setDraft(null);
+      setDraftError(null);
+    } catch (saveError) {
+      setDraftError(saveError instanceof Error ? saveError.message : "Saving the program failed.");
+    }
+  };
+
+  if (readOnly && programs.length === 0) return null;
+
+  const renderDay = (entry: DayAdherence, programUnit: WeightUnit) => {
+    const { day, status, session } = entry;
+    const style = STATUS_STYLES[status];
+    return (
+      <li key={`${day.dayId}-${day.week}`} className="rounded-xl border border-slate-800 bg-slate-950/60 p-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-white">
+              {day.date} · {day.title || WEEKDAYS[day.weekday]}
+              <span className={`ml-2 rounded-full px-2 py-0.5 text-xs font-medium ${style.className}`}>{style.label}</span>
+              {day.deload && (
+                <span className="ml-2 rounded-full bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-200">
+                  Deload
+                </span>
+              )}
+            </p>
+            <ul className="text-xs text-slate-400">
+              {day.exercises.map((exercise, index) => (
+                <li key={index}>
+                  <span className="text-slate-300">{exercise.name}</span> {describePrescription(exercise)}
+                </li>
+              ))}
+            </ul>
+            {session && (
+              <p className="text-xs text-slate-400">
+                Logged {session.date === day.date ? "on the day" : `on ${session.date}`}: {entry.performedSets} of{" "}
+                {entry.plannedSets} sets
+                {entry.plannedVolume > 0 &&
+                  `, ${formatWeight(entry.performedVolume, programUnit)} of ${formatWeight(
+                    entry.plannedVolume,
+                    programUnit
+                  )} planned volume`}
+              </p>
+            )}
+          </div>
+          {!readOnly && status !== "done" && (
+            <button
+              type="button"
+              onClick={() => onOpenDay(day)}
+              className="rounded-lg bg-indigo-500 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-indigo-400"
+            >
+              {status === "missed" ? "Log late" : "Open"}
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Programs</h2>
+          <p className="text-sm text-slate-400">
+            Multi-week blocks with loads from your training maxes, deload weeks and planned vs. performed.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {sortedPrograms.length > 1 && (
+            <select
+              value={selected?.id ?? ""}
+              onChange={(event) => setSelectedId(event.target.value)}
+              aria-label="Program"
+              className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+            >
+              {sortedPrograms.map((program) => (
+                <option key={program.id} value={program.id}>
+                  {program.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {!readOnly && (
+            <button
+              type="button"
+              disabled={draft !== null}
+              onClick={() => {
+                setDraftError(null);
+                setDraft(newProgramDraft(unit, today));
+              }}
+              className="rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              + New program
+            </button>
+          )}
+        </div>
+      </header>
+
+      {draft && (
+        <div className="mt-5 space-y-4 rounded-xl border border-indigo-500/40 bg-slate-950/60 p-4">
+          <div className="grid gap-2 md:grid-cols-[2fr_1fr_auto]">
+            <input
+              type="text"
+              value={draft.name}
+              placeholder="Program name (e.g. 5/3/1 Spring)"
+              onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+              Starts
+              <input
+                type="date"
+                value={draft.startDate}
+                onChange={(event) => setDraft({ ...draft, startDate: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <select
+              value={draft.unit}
+              aria-label="Program unit"
+              onChange={(event) => setDraft({ ...draft, unit: event.target.value as WeightUnit })}
+              className={inputClass}
+            >
+              {WEIGHT_UNITS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-200">Training maxes ({draft.unit})</h3>
+            {draft.trainingMaxes.map((max) => (
+              <div key={max.id} className="flex gap-2">
+                <input
+                  type="text"
+                  value={max.name}
+                  placeholder="Exercise"
+                  onChange={(event) => updateTrainingMax(max.id, { name: event.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={max.weight}
+                  placeholder="Weight"
+                  aria-label={`Training max for ${max.name || "exercise"}`}
+                  onChange={(event) => updateTrainingMax(max.id, { weight: event.target.value })}
+                  className={`${inputClass} max-w-32`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({ ...draft, trainingMaxes: draft.trainingMaxes.filter((candidate) => candidate.id !== max.id) })
+                  }
+                  className="rounded-lg bg-slate-800/80 px-2 text-xs uppercase text-slate-300 hover:bg-red-500/20 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                setDraft({ ...draft, trainingMaxes: [...draft.trainingMaxes, { id: createId(), name: "", weight: "" }] })
+              }
+              className="text-xs text-indigo-300 hover:text-indigo-200"
+            >
+              + Add training max
+            </button>
+          </section>
+
+          {draft.blocks.map((block) => (
+            <section key={block.id} className="space-y-3 rounded-lg border border-slate-800 p-3">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={block.name}
+                  placeholder="Block name (e.g. Accumulation)"
+                  onChange={(event) => updateBlock(block.id, (current) => ({ ...current, name: event.target.value }))}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  disabled={draft.blocks.length <= 1}
+                  onClick={() => setDraft({ ...draft, blocks: draft.blocks.filter((candidate) => candidate.id !== block.id) })}
+                  className="rounded-lg bg-slate-800/80 px-2 text-xs uppercase text-slate-300 hover:bg-red-500/20 hover:text-red-300 disabled:opacity-40"
+                >
+                  Remove block
+                </button>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs uppercase tracking-wide text-slate-400">Weeks (percentage points added to every load)</p>
+                <div className="flex flex-wrap gap-2">
+                  {block.weeks.map((week, index) => (
+                    <div key={week.id} className="flex items-center gap-2 rounded-lg border border-slate-800 px-2 py-1 text-xs text-slate-300">
+                      <span>W{index + 1}</span>
+                      <input
+                        type="number"
+                        step="any"
+                        value={week.percentOffset}
+                        aria-label={`Week ${index + 1} percentage offset`}
+                        onChange={(event) =>
+                          updateBlock(block.id, (current) => ({
+                            ...current,
+                            weeks: current.weeks.map((candidate) =>
+                              candidate.id === week.id ? { ...candidate, percentOffset: event.target.value } : candidate
+                            ),
+                          }))
+                        }
+                        className={`${inputClass} w-16`}
+                      />
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={week.deload}
+                          onChange={(event) =>
+                            updateBlock(block.id, (current) => ({
+                              ...current,
+                              weeks: current.weeks.map((candidate) =>
+                                candidate.id === week.id ? { ...candidate, deload: event.target.checked } : candidate
+                              ),
+                            }))
+                          }
+                        />
+                        Deload
+                      </label>
+                      <button
+                        type="button"
+                        aria-label={`Remove week ${index + 1}`}
+                        disabled={block.weeks.length <= 1}
+                        onClick={() =>
+                          updateBlock(block.id, (current) => ({
+                            ...current,
+                            weeks: current.weeks.filter((candidate) => candidate.id !== week.id),
+                          }))
+                        }
+                        className="text-slate-500 hover:text-red-300 disabled:opacity-40"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateBlock(block.id, (current) => ({ ...current, weeks: [...current.weeks, newWeekDraft(0)] }))}
+                    className="text-xs text-indigo-300 hover:text-indigo-200"
+                  >
+                    + Week
+                  </button>
+                </div>
+              </div>
+
+              {block.days.map((day) => (
+                <div key={day.id} className="space-y-2 rounded-lg border border-slate-800/80 bg-slate-900/40 p-3">
+                  <div className="flex gap-2">
+                    <select
+                      value={day.weekday}
+                      aria-label="Weekday"
+                      onChange={(event) =>
+                        updateDay(block.id, day.id, (current) => ({ ...current, weekday: Number(event.target.value) }))
+                      }
+                      className={`${inputClass} max-w-36`}
+                    >
+                      {WEEKDAYS.map((name, weekday) => (
+                        <option key={name} value={weekday}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={day.title}
+                      placeholder="Session title (e.g. Squat day)"
+                      onChange={(event) => updateDay(block.id, day.id, (current) => ({ ...current, title: event.target.value }))}
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      disabled={block.days.length <= 1}
+                      onClick={() =>
+                        updateBlock(block.id, (current) => ({
+                          ...current,
+                          days: current.days.filter((candidate) => candidate.id !== day.id),
+                        }))
+                      }
+                      className="rounded-lg bg-slate-800/80 px-2 text-xs uppercase text-slate-300 hover:bg-red-500/20 hover:text-red-300 disabled:opacity-40"
+                    >
+                      Remove day
+                    </button>
+                  </div>
+                  {day.exercises.map((exercise) => (
+                    <div key={exercise.id} className="grid grid-cols-[2fr_repeat(3,minmax(0,1fr))_auto] gap-2">
+                      <input
+                        type="text"
+                        value={exercise.name}
+                        placeholder="Exercise"
+                        onChange={(event) => updateExercise(block.id, day.id, exercise.id, { name: event.target.value })}
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={exercise.sets}
+                        aria-label="Sets"
+                        title="Sets"
+                        onChange={(event) => updateExercise(block.id, day.id, exercise.id, { sets: event.target.value })}
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={exercise.reps}
+                        aria-label="Reps"
+                        title="Reps"
+                        onChange={(event) => updateExercise(block.id, day.id, exercise.id, { reps: event.target.value })}
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={exercise.percent}
+                        placeholder="% TM"
+                        aria-label="Percentage of training max"
+                        title="Percentage of training max; leave empty to load by feel"
+                        onChange={(event) => updateExercise(block.id, day.id, exercise.id, { percent: event.target.value })}
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        aria-label="Remove exercise"
+                        disabled={day.exercises.length <= 1}
+                        onClick={() =>
+                          updateDay(block.id, day.id, (current) => ({
+                            ...current,
+                            exercises: current.exercises.filter((candidate) => candidate.id !== exercise.id),
+                          }))
+                        }
+                        className="rounded-lg bg-slate-800/80 px-2 text-xs text-slate-300 hover:bg-red-500/20 hover:text-red-300 disabled:opacity-40"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateDay(block.id, day.id, (current) => ({
+                        ...current,
+                        exercises: [...current.exercises, newExerciseDraft()],
+                      }))
+                    }
+                    className="text-xs text-indigo-300 hover:text-indigo-200"
+                  >
+                    + Add exercise
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                disabled={block.days.length >= WEEKDAYS.length}
+                onClick={() =>
+                  updateBlock(block.id, (current) => {
+                    const taken = new Set(current.days.map((day) => day.weekday));
+                    const weekday = WEEKDAYS.findIndex((_, index) => !taken.has(index));
+                    return { ...current, days: [...current.days, newDayDraft(weekday)] };
+                  })
+                }
+                className="text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-40"
+              >
+                + Add training day
+              </button>
+            </section>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, blocks: [...draft.blocks, newBlockDraft(draft.blocks.length)] })}
+              className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/60"
+            >
+              + Add block
+            </button>
+            <button
+              type="button"
+              onClick={() => void saveDraft()}
+              className="rounded-lg bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400"
+            >
+              Save program
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setDraftError(null);
+              }}
+              className="rounded-lg px-3 py-2 text-sm text-slate-400 hover:text-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+          {draftError && <p className="text-sm font-medium text-red-300">{draftError}</p>}
+        </div>
+      )}
+
+      {!selected || !adherence ? (
+        !draft && (
+          <p className="mt-4 text-sm text-slate-400">
+            No programs yet. Plan a block of weeks with percentages of your training maxes and open each day from here.
+          </p>
+        )
+      ) : (
+        <div className="mt-5 space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+            <div>
+              <h3 className="text-base font-semibold text-white">{selected.name}</h3>
+              <p className="text-sm text-slate-400">
+                {selected.startDate} to {programEndDate(selected)} · {programWeekCount(selected)} weeks ·{" "}
+                {selected.blocks.map((block) => block.name).join(" → ")}
+              </p>
+              {selected.trainingMaxes.length > 0 && (
+                <p className="text-xs text-slate-500">
+                  Training maxes:{" "}
+                  {selected.trainingMaxes.map((max) => `${max.name} ${formatWeight(max.weight, selected.unit)}`).join(", ")}
+                </p>
+              )}
+            </div>
+            {!readOnly && (
+              <div className="flex flex-wrap gap-2">
+                {nextDay && (
+                  <button
+                    type="button"
+                    onClick={() => onOpenDay(nextDay.day)}
+                    className="rounded-lg bg-indigo-500 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-indigo-400"
+                  >
+                    Open next: {plannedDayLabel(nextDay.day)}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  disabled={draft !== null}
+                  onClick={() => {
+                    setDraftError(null);
+                    setDraft(toDraft(selected));
+                  }}
+                  className={smallButtonClass}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(selected.id)}
+                  className="rounded-lg border border-transparent bg-red-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+
+          <dl className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {[
+              { label: "Done", value: String(adherence.done) },
+              { label: "Missed", value: String(adherence.missed) },
+              { label: "Still planned", value: String(adherence.upcoming) },
+              {
+                label: "Sets performed",
+                value: adherence.setCompletion != null ? formatPercent(adherence.setCompletion * 100) : "—",
+              },
+            ].map((tile) => (
+              <div key={tile.label} className="rounded-xl border border-slate-800 bg-slate-950/60 p-3">
+                <dt className="text-xs uppercase tracking-wide text-slate-400">{tile.label}</dt>
+                <dd className="text-lg font-semibold text-white">{tile.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {Array.from({ length: programWeekCount(selected) }, (_, index) => index + 1).map((week) => {
+            const days = adherence.days.filter((entry) => entry.day.week === week);
+            if (days.length === 0) return null;
+            const first = days[0].day;
+            return (
+              <section key={week} className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-200">
+                  Week {week} <span className="font-normal text-slate-400">· {first.blockName}</span>
+                </h4>
+                <ul className="space-y-2">{days.map((entry) => renderDay(entry, selected.unit))}</ul>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { BarChart, LineChart } from "@/components/charts";
+import { addDays, exerciseProgress, weeklyVolume, type DateRange } from "@/lib/progress";
+import type { OneRepMaxFormula } from "@/lib/records";
+import type { WeightUnit } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type RangePreset = "4w" | "12w" | "6m" | "1y" | "all" | "custom";
+
+const RANGE_PRESETS: { value: RangePreset; label: string; days?: number }[] = [
+  { value: "4w", label: "4 weeks", days: 28 },
+  { value: "12w", label: "12 weeks", days: 84 },
+  { value: "6m", label: "6 months", days: 182 },
+  { value: "1y", label: "1 year", days: 365 },
+  { value: "all", label: "All time" },
+  { value: "custom", label: "Custom" },
+];
+
+type ProgressPanelProps = {
+  // The charts plot set weights as they are, labelled with `unit`, so the page passes converted sessions.
+  workouts: WorkoutSession[];
+  exerciseNames: string[];
+  formula: OneRepMaxFormula;
+  unit: WeightUnit;
+};
+
+export default function ProgressPanel({ workouts, exerciseNames, formula, unit }: ProgressPanelProps) {
+  const [selectedExercise, setSelectedExercise] = useState<string>("");
+  const [preset, setPreset] = useState<RangePreset>("12w");
+  const [customRange, setCustomRange] = useState<DateRange>({});
+
+  // Fall back to the most recently trained exercise until the user picks one.
+  const exercise = exerciseNames.includes(selectedExercise) ? selectedExercise : (exerciseNames[0] ?? "");
+
+  const range = useMemo<DateRange>(() => {
+    if (preset === "custom") return customRange;
+    const days = RANGE_PRESETS.find((option) => option.value === preset)?.days;
+    if (!days) return {};
+    const today = new Date().toISOString().slice(0, 10);
+    return { from: addDays(today, -days), to: today };
+  }, [preset, customRange]);
+
+  const progress = useMemo(
+    () => (exercise ? exerciseProgress(workouts, exercise, formula, range) : []),
+    [workouts, exercise, formula, range]
+  );
+  const weekly = useMemo(() => weeklyVolume(workouts, range), [workouts, range]);
+
+  if (exerciseNames.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Progress</h2>
+          <p className="text-sm text-slate-400">Load and volume trends over time.</p>
+        </div>
+        <select
+          value={preset}
+          onChange={(event) => setPreset(event.target.value as RangePreset)}
+          className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+        >
+          {RANGE_PRESETS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </header>
+
+      {preset === "custom" && (
+        <div className="mt-4 flex flex-wrap gap-3">
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+            From
+            <input
+              type="date"
+              value={customRange.from ?? ""}
+              onChange={(event) => setCustomRange((prev) => ({ ...prev, from: event.target.value || undefined }))}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+            To
+            <input
+              type="date"
+              value={customRange.to ?? ""}
+              onChange={(event) => setCustomRange((prev) => ({ ...prev, to: event.target.value || undefined }))}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+            />
+          </label>
+        </div>
+      )}
+
+      <section className="mt-6">
+        <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <h3 className="text-base font-semibold text-white">Exercise load</h3>
+          <select
+            value={exercise}
+            onChange={(event) => setSelectedExercise(event.target.value)}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+          >
+            {exerciseNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <LineChart
+          unit={unit}
+          series={[
+            {
+              label: "Top set",
+              color: "#818cf8",
+              points: progress.map((point) => ({ date: point.date, value: point.topSetWeight })),
+            },
+            {
+              label: "Estimated 1RM",
+              color: "#fbbf24",
+              points: progress.map((point) => ({ date: point.date, value: point.oneRepMax })),
+            },
+          ]}
+        />
+        <h4 className="mb-2 mt-5 text-sm font-semibold text-slate-300">Session volume</h4>
+        <LineChart
+          unit={unit}
+          series={[
+            {
+              label: "Volume",
+              color: "#34d399",
+              points: progress.map((point) => ({ date: point.date, value: point.volume })),
+            },
+          ]}
+        />
+      </section>
+
+      <section className="mt-6">
+        <h3 className="mb-3 text-base font-semibold text-white">Weekly volume (all exercises)</h3>
+        <BarChart
+          unit={unit}
+          color="#6366f1"
+          points={weekly.map((point) => ({ date: point.weekStart, value: point.volume }))}
+        />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { PROGRESSION_RULES, type ProgressionRule, type ProgressionSettings } from "@/lib/progression";
+import { WEIGHT_UNITS } from "@/lib/units";
+
+type ProgressionSettingsPanelProps = {
+  settings: ProgressionSettings;
+  onChange: (settings: ProgressionSettings) => void;
+};
+
+const inputClass =
+  "w-20 rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+const labelClass = "flex items-center justify-between gap-3 text-sm text-slate-300";
+
+export default function ProgressionSettingsPanel({ settings, onChange }: ProgressionSettingsPanelProps) {
+  // Every rule setting has to be above zero; a cleared or unreadable field leaves the setting as it was.
+  const numberInput = (value: string, fallback: number) => {
+    const parsed = Number(value);
+    return value.trim() !== "" && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header>
+        <h2 className="text-xl font-semibold text-white">Progression rules</h2>
+        <p className="text-sm text-slate-400">How the editor suggests your next targets from the last session.</p>
+      </header>
+      <div className="mt-4 grid gap-3 md:grid-cols-2">
+        <label className={`${labelClass} md:col-span-2`}>
+          Rule
+          <select
+            value={settings.rule}
+            onChange={(event) => onChange({ ...settings, rule: event.target.value as ProgressionRule })}
+            className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {PROGRESSION_RULES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {WEIGHT_UNITS.map((unit) => (
+          <label key={unit} className={labelClass}>
+            Load increment ({unit})
+            <input
+              type="number"
+              min={0}
+              step="any"
+              defaultValue={settings.increment[unit]}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  increment: { ...settings.increment, [unit]: numberInput(event.target.value, settings.increment[unit]) },
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <label className={labelClass}>
+          Rep range low
+          <input
+            type="number"
+            min={1}
+            defaultValue={settings.repsMin}
+            onChange={(event) => onChange({ ...settings, repsMin: Math.round(numberInput(event.target.value, settings.repsMin)) })}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Rep range high
+          <input
+            type="number"
+            min={1}
+            defaultValue={settings.repsMax}
+            onChange={(event) => onChange({ ...settings, repsMax: Math.round(numberInput(event.target.value, settings.repsMax)) })}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Deload after misses
+          <input
+            type="number"
+            min={1}
+            defaultValue={settings.deloadAfterMisses}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                deloadAfterMisses: Math.round(numberInput(event.target.value, settings.deloadAfterMisses)),
+              })
+            }
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Deload by (%)
+          <input
+            type="number"
+            min={1}
+            max={99}
+            defaultValue={settings.deloadPercent}
+            onChange={(event) =>
+              onChange({ ...settings, deloadPercent: Math.min(99, numberInput(event.target.value, settings.deloadPercent)) })
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {settings.repsMin > settings.repsMax && (
+        <p className="mt-3 text-sm text-amber-200">The low end of the rep range is above the high end.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+
+import { addDays, startOfWeek } from "@/lib/progress";
+import type { OneRepMaxFormula } from "@/lib/records";
+import type { WeightUnit } from "@/lib/units";
+import { reportSearchParams } from "@/lib/workout-report";
+
+type ReportPanelProps = {
+  unit: WeightUnit;
+  formula: OneRepMaxFormula;
+  // Set when a coach is reporting on an athlete's shared log.
+  athleteId?: string;
+};
+
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+const PRESETS: { label: string; range: (today: string) => { from: string; to: string } }[] = [
+  { label: "This week", range: (today) => ({ from: startOfWeek(today), to: today }) },
+  {
+    label: "Last week",
+    range: (today) => ({ from: addDays(startOfWeek(today), -7), to: addDays(startOfWeek(today), -1) }),
+  },
+  { label: "Last 4 weeks", range: (today) => ({ from: addDays(startOfWeek(today), -21), to: today }) },
+];
+
+const inputClass =
+  "rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+export default function ReportPanel({ unit, formula, athleteId }: ReportPanelProps) {
+  const [range, setRange] = useState(() => PRESETS[0].range(todayISO()));
+  const valid = range.from !== "" && range.to !== "" && range.from <= range.to;
+  const query = reportSearchParams({ ...range, unit, formula }, athleteId).toString();
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-xl font-semibold text-white">Reports</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        A printable summary of a week or block for your coach: every session with its sets, totals, volume per
+        exercise and the PRs hit. Print it or save it as a PDF from the report page, or download it as Markdown.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => setRange(preset.range(todayISO()))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          From
+          <input
+            type="date"
+            value={range.from}
+            onChange={(event) => setRange({ ...range, from: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          To
+          <input
+            type="date"
+            value={range.to}
+            onChange={(event) => setRange({ ...range, to: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {!valid && <p className="mt-2 text-xs text-amber-300">Pick a start date on or before the end date.</p>}
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <a
+          href={valid ? `/report?${query}` : undefined}
+          target="_blank"
+          rel="noreferrer"
+          aria-disabled={!valid}
+          className={`rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-indigo-400 ${
+            valid ? "" : "pointer-events-none opacity-40"
+          }`}
+        >
+          Open printable report
+        </a>
+        <a
+          href={valid ? `/api/reports?${query}` : undefined}
+          aria-disabled={!valid}
+          className={`rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20 ${
+            valid ? "" : "pointer-events-none opacity-40"
+          }`}
+        >
+          Download Markdown
+        </a>
+      </div>
+    </div>
+  );
+}
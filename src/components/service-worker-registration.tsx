@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers the offline service worker; skipped in development, where it would serve stale bundles. */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((registerError) => {
+      console.error("Failed to register the service worker", registerError);
+    });
+  }, []);
+
+  return null;
+}
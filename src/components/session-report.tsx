@@ -0,0 +1,64 @@
+import { describeRecordHit } from "@/lib/records";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import { describeReportSet, taggedExercises, type ReportSession } from "@/lib/workout-report";
+import { setsVolume } from "@/lib/workout-stats";
+
+type SessionReportProps = {
+  entry: ReportSession;
+  unit: WeightUnit;
+};
+
+const formatLongDate = (iso: string) =>
+  new Intl.DateTimeFormat("en", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${iso}T00:00:00Z`));
+
+/** One session laid out for paper: used by the printable report and by shared session links. */
+export default function SessionReport({ entry, unit }: SessionReportProps) {
+  const { session } = entry;
+  return (
+    <article className="break-inside-avoid rounded-xl border border-slate-200 p-5 print:rounded-none print:border-x-0 print:border-b-0 print:px-0">
+      <header className="flex flex-col gap-1 md:flex-row md:items-baseline md:justify-between">
+        <div>
+          <p className="text-sm font-semibold uppercase tracking-wide text-indigo-700">{formatLongDate(session.date)}</p>
+          {session.title && <h3 className="text-lg font-semibold text-slate-900">{session.title}</h3>}
+        </div>
+        <p className="text-sm text-slate-600">Volume: {formatWeight(entry.volume, unit)}</p>
+      </header>
+      {session.notes && <p className="mt-2 text-sm text-slate-700">{session.notes}</p>}
+      {entry.records.length > 0 && (
+        <ul className="mt-3 space-y-1 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          {entry.records.map((hit) => (
+            <li key={`${hit.exercise}-${hit.kind}-${hit.weight ?? ""}`}>🏆 {describeRecordHit(hit, unit)}</li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-4 space-y-3">
+        {taggedExercises(session).map(({ exercise, tag }) => {
+          const volume = setsVolume(exercise.sets, unit);
+          return (
+            <section key={exercise.id}>
+              <h4 className="flex items-baseline justify-between gap-3 text-base font-semibold text-slate-900">
+                <span>
+                  {tag && <span className="mr-2 text-xs font-semibold text-indigo-700">{tag}</span>}
+                  {exercise.name}
+                </span>
+                {volume > 0 && <span className="text-xs font-normal text-slate-500">{formatWeight(volume, unit)}</span>}
+              </h4>
+              {exercise.notes && <p className="text-sm italic text-slate-600">{exercise.notes}</p>}
+              <ol className="mt-1 list-decimal space-y-0.5 pl-6 text-sm text-slate-800">
+                {exercise.sets.map((set) => (
+                  <li key={set.id}>{describeReportSet(set, exercise)}</li>
+                ))}
+              </ol>
+            </section>
+          );
+        })}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import {
+  bodyweightMultiple,
+  dotsScore,
+  SCORING_CATEGORIES,
+  wilksScore,
+  type ScoringCategory,
+} from "@/lib/strength-scores";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+
+type StrengthLift = {
+  name: string;
+  // Best estimated 1RM in `unit`, null when the lift was never logged.
+  oneRepMax: number | null;
+};
+
+type StrengthScoresPanelProps = {
+  lifts: StrengthLift[];
+  bodyweight: number | null;
+  unit: WeightUnit;
+  category: ScoringCategory;
+  onCategoryChange: (category: ScoringCategory) => void;
+};
+
+const formatMultiple = (multiple: number | null) => (multiple === null ? "–" : `${multiple.toFixed(2)}×`);
+
+export default function StrengthScoresPanel({
+  lifts,
+  bodyweight,
+  unit,
+  category,
+  onCategoryChange,
+}: StrengthScoresPanelProps) {
+  if (lifts.every((lift) => lift.oneRepMax === null)) return null;
+
+  const complete = lifts.every((lift) => lift.oneRepMax !== null);
+  const total = lifts.reduce((sum, lift) => sum + (lift.oneRepMax ?? 0), 0);
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Relative strength</h2>
+          <p className="text-sm text-slate-400">
+            Estimated maxes on the big three against your latest bodyweight.
+          </p>
+        </div>
+        <select
+          value={category}
+          onChange={(event) => onCategoryChange(event.target.value as ScoringCategory)}
+          aria-label="Scoring category"
+          className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-400"
+        >
+          {SCORING_CATEGORIES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </header>
+
+      <dl className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-3">
+        {lifts.map((lift) => (
+          <div key={lift.name} className="rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3">
+            <dt className="text-xs uppercase tracking-wide text-slate-400">{lift.name}</dt>
+            <dd className="mt-1 text-lg font-semibold text-slate-100">
+              {lift.oneRepMax === null ? "Not logged" : formatWeight(lift.oneRepMax, unit)}
+            </dd>
+            <dd className="text-sm text-indigo-200">
+              {lift.oneRepMax === null ? "–" : `${formatMultiple(bodyweightMultiple(lift.oneRepMax, bodyweight))} bodyweight`}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {bodyweight === null ? (
+        <p className="mt-4 text-sm text-slate-400">Log your bodyweight to see bodyweight multiples and Wilks/DOTS scores.</p>
+      ) : complete ? (
+        <dl className="mt-4 grid grid-cols-3 gap-3 text-sm">
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-400">Total</dt>
+            <dd className="font-semibold text-slate-100">{formatWeight(total, unit)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-400">Wilks</dt>
+            <dd className="font-semibold text-slate-100">{wilksScore(total, bodyweight, unit, category).toFixed(1)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-400">DOTS</dt>
+            <dd className="font-semibold text-slate-100">{dotsScore(total, bodyweight, unit, category).toFixed(1)}</dd>
+          </div>
+        </dl>
+      ) : (
+        <p className="mt-4 text-sm text-slate-400">Log all three lifts to see your total and Wilks/DOTS scores.</p>
+      )}
+    </div>
+  );
+}
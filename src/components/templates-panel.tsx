@@ -0,0 +1,370 @@
+"use client";
+
+import { useState } from "react";
+
+import { groupLabel, groupRuns, isLinkedWithNext, moveItem, normalizeGroups, toggleLinkWithNext } from "@/lib/exercise-groups";
+import { createId } from "@/lib/ids";
+import { formatRepRange, validateWorkoutTemplate, type WorkoutTemplate } from "@/lib/templates";
+import { formatWeight, WEIGHT_UNITS, type WeightUnit } from "@/lib/units";
+
+type TemplateExerciseDraft = {
+  id: string;
+  name: string;
+  targetSets: string;
+  repsMin: string;
+  repsMax: string;
+  weight: string;
+  unit: WeightUnit;
+  notes?: string;
+  groupId?: string;
+};
+
+type TemplateDraft = {
+  id: string;
+  name: string;
+  exercises: TemplateExerciseDraft[];
+  createdAt?: string;
+};
+
+type TemplatesPanelProps = {
+  templates: WorkoutTemplate[];
+  unit: WeightUnit;
+  onStart: (template: WorkoutTemplate) => void;
+  onSave: (template: WorkoutTemplate) => Promise<void>;
+  onDelete: (templateId: string) => void;
+};
+
+const newExerciseDraft = (unit: WeightUnit): TemplateExerciseDraft => ({
+  id: createId(),
+  name: "",
+  targetSets: "3",
+  repsMin: "8",
+  repsMax: "12",
+  weight: "",
+  unit,
+});
+
+const toDraft = (template: WorkoutTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  createdAt: template.createdAt,
+  exercises: template.exercises.map((exercise) => ({
+    id: exercise.id,
+    name: exercise.name,
+    notes: exercise.notes,
+    targetSets: String(exercise.targetSets),
+    repsMin: String(exercise.repsMin),
+    repsMax: String(exercise.repsMax),
+    weight: exercise.weight != null ? String(exercise.weight) : "",
+    unit: exercise.unit,
+    groupId: exercise.groupId,
+  })),
+});
+
+const inputClass =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500/30";
+
+export default function TemplatesPanel({ templates, unit, onStart, onSave, onDelete }: TemplatesPanelProps) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const updateDraftExercise = (exerciseId: string, patch: Partial<TemplateExerciseDraft>) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        exercises: prev.exercises.map((exercise) => (exercise.id === exerciseId ? { ...exercise, ...patch } : exercise)),
+      }
+    );
+  };
+
+  const moveDraftExercise = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const target = index + offset;
+      if (target < 0 || target >= prev.exercises.length) return prev;
+      return { ...prev, exercises: normalizeGroups(moveItem(prev.exercises, index, target), createId) };
+    });
+  };
+
+  const toggleDraftLink = (index: number) => {
+    setDraft((prev) => prev && { ...prev, exercises: toggleLinkWithNext(prev.exercises, index, createId) });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const now = new Date().toISOString();
+    const candidate = {
+      id: draft.id,
+      name: draft.name.trim(),
+      createdAt: draft.createdAt ?? now,
+      updatedAt: now,
+      exercises: draft.exercises.map((exercise) => ({
+        id: exercise.id,
+        name: exercise.name.trim(),
+        notes: exercise.notes,
+        targetSets: Number(exercise.targetSets),
+        repsMin: Number(exercise.repsMin),
+        repsMax: Number(exercise.repsMax),
+        weight: exercise.weight.trim() === "" ? undefined : Number(exercise.weight),
+        unit: exercise.unit,
+        groupId: exercise.groupId,
+      })),
+    };
+    const validated = validateWorkoutTemplate(candidate);
+    if (!validated.ok) {
+      setDraftError(`Cannot save: ${validated.reason}.`);
+      return;
+    }
+    try {
+      await onSave(validated.value);
+      setDraft(null);
+      setDraftError(null);
+    } catch (saveError) {
+      setDraftError(saveError instanceof Error ? saveError.message : "Saving the template failed.");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Templates</h2>
+          <p className="text-sm text-slate-400">Reusable routines with target sets, reps and weights.</p>
+        </div>
+        <button
+          type="button"
+          disabled={draft !== null}
+          onClick={() => {
+            setDraftError(null);
+            setDraft({ id: createId(), name: "", exercises: [newExerciseDraft(unit)] });
+          }}
+          className="rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          + New template
+        </button>
+      </header>
+
+      {draft && (
+        <div className="mt-5 space-y-4 rounded-xl border border-indigo-500/40 bg-slate-950/60 p-4">
+          <input
+            type="text"
+            value={draft.name}
+            placeholder="Template name (e.g. Push A)"
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            className={inputClass}
+          />
+          {draft.exercises.map((exercise, index) => (
+            <div key={exercise.id} className="space-y-2 rounded-lg border border-slate-800 p-3">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={exercise.name}
+                  placeholder={`Exercise ${index + 1}`}
+                  onChange={(event) => updateDraftExercise(exercise.id, { name: event.target.value })}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  aria-label="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveDraftExercise(index, -1)}
+                  className="rounded-lg bg-slate-800/80 px-2 text-xs text-slate-300 disabled:opacity-40"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  aria-label="Move down"
+                  disabled={index === draft.exercises.length - 1}
+                  onClick={() => moveDraftExercise(index, 1)}
+                  className="rounded-lg bg-slate-800/80 px-2 text-xs text-slate-300 disabled:opacity-40"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  disabled={draft.exercises.length <= 1}
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      exercises: normalizeGroups(
+                        draft.exercises.filter((candidate) => candidate.id !== exercise.id),
+                        createId
+                      ),
+                    })
+                  }
+                  className="rounded-lg bg-slate-800/80 px-2 text-xs uppercase text-slate-300 hover:bg-red-500/20 hover:text-red-300 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="grid grid-cols-5 gap-2 text-xs uppercase tracking-wide text-slate-400">
+                <label className="flex flex-col gap-1">
+                  Sets
+                  <input
+                    type="number"
+                    min={1}
+                    value={exercise.targetSets}
+                    onChange={(event) => updateDraftExercise(exercise.id, { targetSets: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Reps min
+                  <input
+                    type="number"
+                    min={1}
+                    value={exercise.repsMin}
+                    onChange={(event) => updateDraftExercise(exercise.id, { repsMin: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Reps max
+                  <input
+                    type="number"
+                    min={1}
+                    value={exercise.repsMax}
+                    onChange={(event) => updateDraftExercise(exercise.id, { repsMax: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Weight
+                  <input
+                    type="number"
+                    min={0}
+                    value={exercise.weight}
+                    onChange={(event) => updateDraftExercise(exercise.id, { weight: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Unit
+                  <select
+                    value={exercise.unit}
+                    onChange={(event) => updateDraftExercise(exercise.id, { unit: event.target.value as WeightUnit })}
+                    className={`${inputClass} normal-case`}
+                  >
+                    {WEIGHT_UNITS.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {index < draft.exercises.length - 1 && (
+                <button
+                  type="button"
+                  aria-pressed={isLinkedWithNext(draft.exercises, index)}
+                  onClick={() => toggleDraftLink(index)}
+                  className="text-xs text-indigo-300 hover:text-indigo-200"
+                >
+                  {isLinkedWithNext(draft.exercises, index) ? "Unlink from next exercise" : "Superset with next exercise"}
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, exercises: [...draft.exercises, newExerciseDraft(unit)] })}
+              className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/60"
+            >
+              + Add exercise
+            </button>
+            <button
+              type="button"
+              onClick={() => void saveDraft()}
+              className="rounded-lg bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400"
+            >
+              Save template
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setDraftError(null);
+              }}
+              className="rounded-lg px-3 py-2 text-sm text-slate-400 hover:text-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+          {draftError && <p className="text-sm font-medium text-red-300">{draftError}</p>}
+        </div>
+      )}
+
+      {templates.length === 0 && !draft ? (
+        <p className="mt-4 text-sm text-slate-400">
+          No templates yet. Create one here or use &quot;Save as template&quot; on a logged session.
+        </p>
+      ) : (
+        <ul className="mt-5 space-y-3">
+          {[...templates]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((template) => (
+              <li key={template.id} className="rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+                <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+                  <div>
+                    <h3 className="text-base font-semibold text-white">{template.name}</h3>
+                    <ol className="mt-2 space-y-1 text-sm text-slate-300">
+                      {groupRuns(template.exercises).map((run) => (
+                        <li
+                          key={run.items[0].id}
+                          className={run.items.length > 1 ? "border-l-2 border-indigo-400/60 pl-2" : undefined}
+                        >
+                          {run.items.length > 1 && (
+                            <span className="text-xs uppercase tracking-wide text-indigo-300">
+                              {groupLabel(run.items.length)}
+                            </span>
+                          )}
+                          {run.items.map((exercise) => (
+                            <p key={exercise.id}>
+                              {exercise.name}{" "}
+                              <span className="text-slate-400">
+                                {exercise.targetSets} × {formatRepRange(exercise)}
+                                {exercise.weight != null && ` @ ${formatWeight(exercise.weight, exercise.unit)}`}
+                              </span>
+                            </p>
+                          ))}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onStart(template)}
+                      className="rounded-lg bg-indigo-500 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-indigo-400"
+                    >
+                      Start
+                    </button>
+                    <button
+                      type="button"
+                      disabled={draft !== null}
+                      onClick={() => {
+                        setDraftError(null);
+                        setDraft(toDraft(template));
+                      }}
+                      className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200 disabled:opacity-40"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(template.id)}
+                      className="rounded-lg border border-transparent bg-red-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/30"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { heatmapWeeks, monthWeeks, trainingDays, volumeLevel } from "@/lib/training-calendar";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+type CalendarView = "month" | "year";
+
+type TrainingCalendarProps = {
+  workouts: WorkoutSession[];
+  // The unit the sessions were converted to; day volumes in the tooltips are labelled with it.
+  unit: WeightUnit;
+  onShowDay: (date: string) => void;
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const LEVEL_CLASSES = [
+  "bg-slate-800/60",
+  "bg-indigo-900",
+  "bg-indigo-700",
+  "bg-indigo-500",
+  "bg-indigo-300",
+];
+
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+const monthLabel = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 1)).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+
+const dayLabel = (iso: string) =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default function TrainingCalendar({ workouts, unit, onShowDay }: TrainingCalendarProps) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [month, setMonth] = useState<{ year: number; month: number }>(() => {
+    const today = new Date();
+    return { year: today.getUTCFullYear(), month: today.getUTCMonth() };
+  });
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const today = todayISO();
+  const days = useMemo(() => trainingDays(workouts), [workouts]);
+  const weeks = useMemo(
+    () => (view === "month" ? monthWeeks(month.year, month.month) : heatmapWeeks(today)),
+    [view, month, today]
+  );
+  // Colours are relative to the heaviest day in view so a light month still shows contrast.
+  const maxVolume = useMemo(
+    () => Math.max(0, ...weeks.flat().map((date) => (date ? (days.get(date)?.volume ?? 0) : 0))),
+    [weeks, days]
+  );
+  const selectedSessions = useMemo(
+    () => (selectedDate ? workouts.filter((session) => session.date === selectedDate) : []),
+    [workouts, selectedDate]
+  );
+
+  const shiftMonth = (delta: number) =>
+    setMonth((current) => {
+      const next = new Date(Date.UTC(current.year, current.month + delta, 1));
+      return { year: next.getUTCFullYear(), month: next.getUTCMonth() };
+    });
+
+  const dayClass = (date: string) => {
+    const day = days.get(date);
+    const level = day ? Math.max(1, volumeLevel(day.volume, maxVolume)) : 0;
+    return `${LEVEL_CLASSES[level]} ${date === selectedDate ? "ring-2 ring-amber-300" : date === today ? "ring-1 ring-slate-400" : ""}`;
+  };
+
+  const dayTitle = (date: string) => {
+    const day = days.get(date);
+    if (!day) return `${date}: rest day`;
+    const count = day.sessionIds.length;
+    return `${date}: ${count} session${count === 1 ? "" : "s"}, ${formatWeight(day.volume, unit)}`;
+  };
+
+  const selectDay = (date: string) => setSelectedDate((current) => (current === date ? null : date));
+
+  if (workouts.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Training calendar</h2>
+          <p className="text-sm text-slate-400">Training days shaded by volume. Pick a day to see its sessions.</p>
+        </div>
+        <div className="flex gap-1 rounded-lg border border-slate-700 p-1">
+          {(["month", "year"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`rounded-md px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                view === option ? "bg-indigo-500 text-white" : "text-slate-300 hover:text-indigo-200"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {view === "month" ? (
+        <div className="mt-4">
+          <div className="mb-3 flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => shiftMonth(-1)}
+              className="rounded-lg border border-slate-700 px-3 py-1 text-sm text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+              aria-label="Previous month"
+            >
+              ←
+            </button>
+            <p className="text-sm font-semibold text-slate-100">{monthLabel(month.year, month.month)}</p>
+            <button
+              type="button"
+              onClick={() => shiftMonth(1)}
+              className="rounded-lg border border-slate-700 px-3 py-1 text-sm text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+              aria-label="Next month"
+            >
+              →
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs text-slate-500">
+            {WEEKDAYS.map((weekday) => (
+              <span key={weekday}>{weekday}</span>
+            ))}
+          </div>
+          <div className="mt-1 grid grid-cols-7 gap-1">
+            {weeks.flat().map((date, index) =>
+              date ? (
+                <button
+                  key={date}
+                  type="button"
+                  onClick={() => selectDay(date)}
+                  title={dayTitle(date)}
+                  className={`flex aspect-square items-center justify-center rounded-lg text-sm text-slate-100 transition hover:opacity-80 ${dayClass(date)}`}
+                >
+                  {Number(date.slice(8))}
+                </button>
+              ) : (
+                <span key={`pad-${index}`} />
+              )
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <div className="flex gap-[3px]">
+            {weeks.map((week) => (
+              <div key={week[0] ?? ""} className="flex flex-col gap-[3px]">
+                {week.map((date) =>
+                  date && date <= today ? (
+                    <button
+                      key={date}
+                      type="button"
+                      onClick={() => selectDay(date)}
+                      title={dayTitle(date)}
+                      className={`h-3 w-3 rounded-sm transition hover:opacity-80 ${dayClass(date)}`}
+                    />
+                  ) : (
+                    <span key={date ?? ""} className="h-3 w-3" />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-1 text-xs text-slate-500">
+            Less
+            {LEVEL_CLASSES.map((className) => (
+              <span key={className} className={`h-3 w-3 rounded-sm ${className}`} />
+            ))}
+            More
+          </div>
+        </div>
+      )}
+
+      {selectedDate && (
+        <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-slate-100">{dayLabel(selectedDate)}</p>
+            {selectedSessions.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onShowDay(selectedDate)}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+              >
+                Show in log
+              </button>
+            )}
+          </div>
+          {selectedSessions.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">Rest day — nothing logged.</p>
+          ) : (
+            <ul className="mt-2 space-y-2 text-sm text-slate-300">
+              {selectedSessions.map((session) => (
+                <li key={session.id}>
+                  <span className="font-semibold text-slate-100">{session.title || "Workout"}</span>
+                  {" · "}
+                  {session.exercises.map((exercise) => exercise.name).join(", ")}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
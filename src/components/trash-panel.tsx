@@ -0,0 +1,83 @@
+"use client";
+
+import type { WorkoutSession } from "@/lib/workouts";
+
+type TrashPanelProps = {
+  sessions: WorkoutSession[];
+  onRestore: (workoutId: string) => void;
+  onDeleteForever: (workoutId: string) => void;
+  onEmpty: () => void;
+};
+
+const formatDeletedAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function TrashPanel({ sessions, onRestore, onDeleteForever, onEmpty }: TrashPanelProps) {
+  if (sessions.length === 0) return null;
+
+  // Most recently deleted first, which is usually the one being looked for.
+  const sorted = [...sessions].sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""));
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Trash</h2>
+          <p className="text-sm text-slate-400">
+            Deleted sessions stay here until you restore them or empty the trash.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            if (window.confirm(`Permanently delete ${sessions.length} session${sessions.length === 1 ? "" : "s"}?`)) {
+              onEmpty();
+            }
+          }}
+          className="rounded-lg border border-red-400/40 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/10"
+        >
+          Empty trash
+        </button>
+      </header>
+
+      <ul className="mt-4 space-y-2">
+        {sorted.map((session) => (
+          <li
+            key={session.id}
+            className="flex flex-col gap-2 rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3 md:flex-row md:items-center md:justify-between"
+          >
+            <div className="text-sm">
+              <p className="font-semibold text-slate-100">
+                {session.title || "Workout"} · {session.date}
+              </p>
+              <p className="text-xs text-slate-400">
+                {session.exercises.map((exercise) => exercise.name).join(", ")}
+                {session.deletedAt && ` — deleted ${formatDeletedAt(session.deletedAt)}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => onRestore(session.id)}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-indigo-400 hover:text-indigo-200"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm("Permanently delete this session? This cannot be undone.")) {
+                    onDeleteForever(session.id);
+                  }
+                }}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-400 transition hover:border-red-400 hover:text-red-200"
+              >
+                Delete forever
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+export const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  if (response.status === 204) return undefined as T;
+  return (await response.json()) as T;
+};
+
+/**
+ * Client for a collection served by the list/create (`endpoint`) and
+ * update/delete (`endpoint/:id`) route handler pair. `key` names the array
+ * in list/create responses and `itemKey` the object in update responses.
+ * Passing an athlete id to `list` reads that athlete's shared data instead.
+ */
+export const createCollectionClient = <T extends { id: string }>(endpoint: string, key: string, itemKey: string) => ({
+  list: async (athleteId?: string) => {
+    const url = athleteId ? `${endpoint}?athlete=${encodeURIComponent(athleteId)}` : endpoint;
+    const body = await request<Record<string, T[]>>(url, { cache: "no-store" });
+    return body[key];
+  },
+  create: async (records: T[]) => {
+    const body = await request<Record<string, T[]>>(endpoint, { method: "POST", body: JSON.stringify(records) });
+    return body[key];
+  },
+  update: async (record: T) => {
+    const body = await request<Record<string, T>>(`${endpoint}/${encodeURIComponent(record.id)}`, {
+      method: "PUT",
+      body: JSON.stringify(record),
+    });
+    return body[itemKey];
+  },
+  remove: (id: string) => request<void>(`${endpoint}/${encodeURIComponent(id)}`, { method: "DELETE" }),
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+
+import { findDuplicateSessions, groupRejected, parseAppExport } from "@/lib/app-import";
+import { buildCatalogIndex, type CatalogExercise } from "@/lib/exercise-catalog";
+import { entry, session, set } from "@/lib/test-fixtures";
+
+const csv = (...lines: string[]) => lines.join("\n");
+
+// Dates in the exports are local wall-clock times.
+const localTime = (year: number, month: number, day: number, hours: number, minutes: number) =>
+  new Date(year, month - 1, day, hours, minutes).toISOString();
+
+const STRONG = csv(
+  "Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Bench Press (Barbell),W,95,10,0,0,,Felt strong,",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Bench Press (Barbell),1,185,5,0,0,Paused,Felt strong,8",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Bench Press (Barbell),D,135,12,0,0,,Felt strong,",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Bench Press (Barbell),Rest Timer,0,0,0,90,,Felt strong,",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Plank,1,0,0,0,60,,Felt strong,",
+  "2023-01-15 08:30:00,Push Day,1h 5m,Plank,Rest Timer,0,0,0,60,,Felt strong,",
+  "2023-01-17 18:00:00,Legs,45m,Squat (Barbell),1,225,5,0,0,,,",
+  "2023-13-01 10:00:00,Legs,45m,Squat (Barbell),1,225,5,0,0,,,"
+);
+
+// A Strong export from a phone set to a comma decimal separator.
+const STRONG_SEMICOLON = csv(
+  "Date;Workout Name;Duration;Exercise Name;Set Order;Weight (kg);Reps;Distance (km);Seconds;Notes;Workout Notes;RPE",
+  "2023-02-01 07:00:00;Morgen;30m;Bench Press (Barbell);1;62,5;8;0;0;;;7,5",
+  "2023-02-01 07:00:00;Morgen;30m;Running;1;0;0;5,2;1800;;;"
+);
+
+const HEVY_HEADER =
+  "title,start_time,end_time,description,exercise_title,superset_id,exercise_notes,set_index,set_type,weight_lbs,reps," +
+  "distance_miles,duration_seconds,rpe";
+const HEVY_WORKOUT = 'Upper,"15 Jan 2023, 08:30","15 Jan 2023, 09:40",Upper body';
+const HEVY = csv(
+  HEVY_HEADER,
+  `${HEVY_WORKOUT},Bench Press (Barbell),,,0,warmup,95,10,,,`,
+  `${HEVY_WORKOUT},Bench Press (Barbell),,,1,normal,185,5,,,8`,
+  `${HEVY_WORKOUT},Bicep Curl (Dumbbell),0,,0,normal,30,12,,,`,
+  `${HEVY_WORKOUT},Triceps Pushdown,0,Cable,0,failure,50,15,,,`,
+  `${HEVY_WORKOUT},Triceps Pushdown,0,,1,dropset,40,10,,,`,
+  `${HEVY_WORKOUT},Row,,,0,cluster,100,5,,,`,
+  `${HEVY_WORKOUT},Row,,,1,normal,heavy,5,,,`
+);
+
+const FITNOTES = csv(
+  "Date,Exercise,Category,Weight (kgs),Reps,Distance,Distance Unit,Time,Comment",
+  "2023-03-01,Deadlift,Back,140.0,5,,,,",
+  "2023-03-01,Deadlift,Back,150.0,3,,,,Top set",
+  "2023-03-01,Treadmill,Cardio,,,3.5,km,25:00,",
+  "2023-03-02,Rowing Machine,Cardio,,,2000,yd,,",
+  "2023-03-03,Deadlift,Back,abc,5,,,,",
+  "03/04/2023,Deadlift,Back,140,5,,,,"
+);
+
+describe("parseAppExport", () => {
+  it("reads a Strong export into sessions with set types, notes and durations", () => {
+    const { source, workouts } = parseAppExport(STRONG, { weightUnit: "lb" });
+    expect(source).toBe("strong");
+    expect(workouts).toHaveLength(2);
+
+    const [push, legs] = workouts;
+    expect(push).toMatchObject({
+      date: "2023-01-15",
+      title: "Push Day",
+      notes: "Felt strong",
+      startedAt: localTime(2023, 1, 15, 8, 30),
+      endedAt: new Date(new Date(localTime(2023, 1, 15, 8, 30)).getTime() + 65 * 60 * 1000).toISOString(),
+    });
+    expect(push.exercises.map((exercise) => [exercise.name, exercise.kind])).toEqual([
+      ["Bench Press (Barbell)", "weighted"],
+      ["Plank", "timed"],
+    ]);
+    const [bench, plank] = push.exercises;
+    expect(bench.notes).toBe("Paused");
+    expect(bench.sets).toMatchObject([
+      { type: "warmup", weight: 95, reps: 10, unit: "lb" },
+      { type: "working", weight: 185, reps: 5, unit: "lb", rpe: 8 },
+      { type: "drop", weight: 135, reps: 12, unit: "lb" },
+    ]);
+    expect(plank.sets).toMatchObject([{ durationSeconds: 60 }]);
+    expect(plank.sets[0].reps).toBeUndefined();
+    expect(legs).toMatchObject({ date: "2023-01-17", title: "Legs", startedAt: localTime(2023, 1, 17, 18, 0) });
+  });
+
+  it("takes the weight unit from a labelled column over the app setting", () => {
+    expect(parseAppExport(STRONG, { weightUnit: "kg" }).workouts[0].exercises[0].sets[0].unit).toBe("kg");
+    const { workouts } = parseAppExport(STRONG_SEMICOLON, { weightUnit: "lb" });
+    expect(workouts[0].exercises[0].sets[0]).toMatchObject({ weight: 62.5, unit: "kg" });
+  });
+
+  it("reads decimal commas from a semicolon-separated file", () => {
+    const { workouts, rejected } = parseAppExport(STRONG_SEMICOLON, { weightUnit: "kg" });
+    expect(rejected).toEqual([]);
+    const [bench, running] = workouts[0].exercises;
+    expect(bench.sets[0]).toMatchObject({ weight: 62.5, reps: 8, rpe: 7.5 });
+    expect(running.kind).toBe("cardio");
+    expect(running.sets[0]).toMatchObject({ distance: 5.2, distanceUnit: "km", durationSeconds: 1800 });
+  });
+
+  it("reads a Hevy export with its written dates, supersets and set types", () => {
+    const { source, workouts } = parseAppExport(HEVY, { weightUnit: "kg" });
+    expect(source).toBe("hevy");
+    expect(workouts).toHaveLength(1);
+    const [upper] = workouts;
+    expect(upper).toMatchObject({
+      date: "2023-01-15",
+      title: "Upper",
+      notes: "Upper body",
+      startedAt: localTime(2023, 1, 15, 8, 30),
+      endedAt: localTime(2023, 1, 15, 9, 40),
+    });
+
+    const [bench, curl, pushdown] = upper.exercises;
+    expect(bench.groupId).toBeUndefined();
+    expect(bench.sets).toMatchObject([
+      { type: "warmup", weight: 95, unit: "lb" },
+      { type: "working", weight: 185, unit: "lb", rpe: 8 },
+    ]);
+    expect(curl.groupId).toBeDefined();
+    expect(pushdown.groupId).toBe(curl.groupId);
+    expect(pushdown.notes).toBe("Cable");
+    expect(pushdown.sets.map((workoutSet) => workoutSet.type)).toEqual(["failure", "drop"]);
+  });
+
+  it("reads a FitNotes export into one session per day", () => {
+    const { source, workouts } = parseAppExport(FITNOTES, { weightUnit: "lb" });
+    expect(source).toBe("fitnotes");
+    expect(workouts).toHaveLength(1);
+    const [deadlift, treadmill] = workouts[0].exercises;
+    expect(workouts[0].date).toBe("2023-03-01");
+    expect(workouts[0].startedAt).toBeUndefined();
+    expect(deadlift).toMatchObject({ kind: "weighted", notes: "Top set" });
+    expect(deadlift.sets).toMatchObject([
+      { weight: 140, reps: 5, unit: "kg" },
+      { weight: 150, reps: 3, unit: "kg" },
+    ]);
+    expect(treadmill.kind).toBe("cardio");
+    expect(treadmill.sets[0]).toMatchObject({ distance: 3.5, distanceUnit: "km", durationSeconds: 1500 });
+  });
+
+  it("reports each skipped row with its line and reason", () => {
+    expect(parseAppExport(STRONG, { weightUnit: "lb" }).rejected).toEqual([
+      { location: "line 5", reason: "rest timer entry" },
+      { location: "line 7", reason: "rest timer entry" },
+      { location: "line 9", reason: 'invalid date "2023-13-01 10:00:00"' },
+    ]);
+    expect(parseAppExport(HEVY, { weightUnit: "kg" }).rejected).toEqual([
+      { location: "line 7", reason: 'unknown set_type "cluster"' },
+      { location: "line 8", reason: 'invalid number "heavy" in weight_lbs' },
+    ]);
+    expect(parseAppExport(FITNOTES, { weightUnit: "kg" }).rejected).toEqual([
+      { location: "line 5", reason: 'unsupported distance unit "yd"' },
+      { location: "line 6", reason: 'invalid number "abc" in weight (kgs)' },
+      { location: "line 7", reason: 'invalid date "03/04/2023"' },
+    ]);
+  });
+
+  it("groups skipped rows by reason, most common first", () => {
+    expect(groupRejected(parseAppExport(STRONG, { weightUnit: "lb" }).rejected)).toEqual([
+      { reason: "rest timer entry", locations: ["line 5", "line 7"] },
+      { reason: 'invalid date "2023-13-01 10:00:00"', locations: ["line 9"] },
+    ]);
+  });
+
+  it("rejects files that are not a supported export", () => {
+    expect(() => parseAppExport("date,exercise,weight\n2023-01-01,Squat,100", { weightUnit: "kg" })).toThrow(
+      "The file does not look like a Strong, Hevy or FitNotes export."
+    );
+    expect(() => parseAppExport("Exercise Name,Set Order\nSquat,1", { weightUnit: "kg" })).toThrow(
+      "The Strong export is missing columns: date."
+    );
+  });
+});
+
+describe("findDuplicateSessions", () => {
+  const catalog: CatalogExercise[] = [
+    { id: "squat", name: "Back Squat", aliases: ["Squat (Barbell)"], muscleGroups: ["quads"], equipment: "barbell" },
+  ];
+  const index = buildCatalogIndex(catalog);
+
+  it("matches imported sessions to logged ones by date, catalog exercise and set count", () => {
+    const { workouts } = parseAppExport(STRONG, { weightUnit: "lb" });
+    const [push, legs] = workouts;
+    const logged = session("2023-01-17", [entry("Back Squat", [set({ reps: 5, weight: 100 })])]);
+    const longer = session("2023-01-15", [entry("Bench Press (Barbell)", [set({ reps: 5, weight: 80 })])]);
+
+    const duplicates = findDuplicateSessions([logged, longer], workouts, index);
+    expect(Array.from(duplicates.entries())).toEqual([[legs.id, logged]]);
+    expect(duplicates.has(push.id)).toBe(false);
+  });
+});
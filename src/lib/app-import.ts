@@ -0,0 +1,401 @@
+import {
+  normalizeExerciseName,
+  resolveCatalogEntry,
+  type CatalogExercise,
+  type CatalogIndex,
+} from "@/lib/exercise-catalog";
+import { createId } from "@/lib/ids";
+import { parseDuration, type DistanceUnit, type WeightUnit } from "@/lib/units";
+import { parseCsv, type ImportResult, type RejectedRecord } from "@/lib/workout-transfer";
+import {
+  isISODate,
+  validateWorkoutSet,
+  type ExerciseEntry,
+  type ExerciseKind,
+  type SetType,
+  type WorkoutSession,
+  type WorkoutSet,
+} from "@/lib/workouts";
+
+export type ImportSource = "strong" | "hevy" | "fitnotes";
+
+export const IMPORT_SOURCES: { value: ImportSource; label: string }[] = [
+  { value: "strong", label: "Strong" },
+  { value: "hevy", label: "Hevy" },
+  { value: "fitnotes", label: "FitNotes" },
+];
+
+export type AppImportOptions = {
+  // Detected from the header row when unset.
+  source?: ImportSource;
+  // Unit for weights in files whose columns do not name one (older Strong exports use the app setting).
+  weightUnit: WeightUnit;
+};
+
+export type AppImport = ImportResult & { source: ImportSource };
+
+/** One CSV row mapped onto the app's model, before rows are grouped into sessions. */
+type ImportRow = {
+  sessionKey: string;
+  date: string;
+  title?: string;
+  sessionNotes?: string;
+  startedAt?: string;
+  endedAt?: string;
+  exercise: string;
+  exerciseNotes?: string;
+  groupKey?: string;
+  cardio?: boolean;
+  set: Omit<WorkoutSet, "id" | "unit" | "type"> & { type: SetType; unit: WeightUnit };
+};
+
+type RowReader = {
+  has: (...columns: string[]) => boolean;
+  text: (...columns: string[]) => string;
+  // Undefined for empty cells; throws on anything that is not a number.
+  number: (...columns: string[]) => number | undefined;
+};
+
+class RowError extends Error {}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Reads the date formats the supported apps write: "2023-01-15 08:30:00"
+ * (Strong, FitNotes) and "15 Jan 2023, 08:30" (Hevy). Times are local, as
+ * the apps record them; the start time is only set when the text has one.
+ */
+const parseDateTime = (text: string): { date: string; startedAt?: string } | null => {
+  let parts: number[] | null = null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) parts = [Number(iso[1]), Number(iso[2]), Number(iso[3]), ...iso.slice(4).map((part) => Number(part ?? NaN))];
+  const written = text.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? ?(?:(\d{1,2}):(\d{2}))?/);
+  if (written) {
+    const month = MONTHS.indexOf(written[2].toLowerCase()) + 1;
+    if (month === 0) return null;
+    parts = [Number(written[3]), month, Number(written[1]), Number(written[4] ?? NaN), Number(written[5] ?? NaN), NaN];
+  }
+  if (!parts) return null;
+  const [year, month, day, hours, minutes, seconds] = parts;
+  const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  if (!isISODate(date)) return null;
+  if (Number.isNaN(hours)) return { date };
+  const started = new Date(year, month - 1, day, hours, minutes, Number.isNaN(seconds) ? 0 : seconds);
+  return { date, startedAt: started.toISOString() };
+};
+
+const addSeconds = (iso: string | undefined, seconds: number | undefined) =>
+  iso && seconds ? new Date(new Date(iso).getTime() + seconds * 1000).toISOString() : undefined;
+
+// Strong writes workout durations as "1h 5m", "45m" or "30s".
+const parseStrongDuration = (text: string) => {
+  const match = text.match(/^(?:(\d+)h)?\s*(?:(\d+)m)?\s*(?:(\d+)s)?$/);
+  if (!text || !match) return undefined;
+  return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0) || undefined;
+};
+
+const positive = (value: number | undefined) => (value !== undefined && value > 0 ? value : undefined);
+
+const STRONG_SET_TYPES: Record<string, SetType> = { w: "warmup", d: "drop", f: "failure" };
+
+const mapStrongRow = (read: RowReader, options: AppImportOptions): ImportRow | string => {
+  const setOrder = read.text("set order");
+  if (/rest timer/i.test(setOrder)) return "rest timer entry";
+  const dateText = read.text("date");
+  const when = parseDateTime(dateText);
+  if (!when) return `invalid date "${dateText}"`;
+  const unit: WeightUnit = read.has("weight (lbs)") ? "lb" : read.has("weight (kg)") ? "kg" : options.weightUnit;
+  const duration = read.has("duration (sec)")
+    ? read.number("duration (sec)")
+    : parseStrongDuration(read.text("duration"));
+  // Unlabelled distances follow the weight setting: kilometres with kilograms, miles with pounds.
+  const distanceUnit: DistanceUnit = read.has("distance (meters)")
+    ? "m"
+    : read.has("distance (miles)")
+      ? "mi"
+      : read.has("distance (km)")
+        ? "km"
+        : unit === "lb"
+          ? "mi"
+          : "km";
+  return {
+    sessionKey: `${read.text("workout #")}|${dateText}|${read.text("workout name")}`,
+    date: when.date,
+    title: read.text("workout name") || undefined,
+    sessionNotes: read.text("workout notes") || undefined,
+    startedAt: when.startedAt,
+    endedAt: addSeconds(when.startedAt, duration),
+    exercise: read.text("exercise name"),
+    exerciseNotes: read.text("notes") || undefined,
+    set: {
+      type: STRONG_SET_TYPES[setOrder.toLowerCase()] ?? "working",
+      reps: positive(read.number("reps")),
+      weight: positive(read.number("weight", "weight (kg)", "weight (lbs)")),
+      unit,
+      rpe: positive(read.number("rpe")),
+      durationSeconds: positive(read.number("seconds")),
+      distance: positive(read.number("distance", "distance (meters)", "distance (km)", "distance (miles)")),
+      distanceUnit,
+    },
+  };
+};
+
+const HEVY_SET_TYPES: Record<string, SetType> = {
+  normal: "working",
+  warmup: "warmup",
+  dropset: "drop",
+  failure: "failure",
+};
+
+const mapHevyRow = (read: RowReader): ImportRow | string => {
+  const startText = read.text("start_time");
+  const when = parseDateTime(startText);
+  if (!when) return `invalid start_time "${startText}"`;
+  const setType = read.text("set_type").toLowerCase() || "normal";
+  if (!HEVY_SET_TYPES[setType]) return `unknown set_type "${setType}"`;
+  const end = parseDateTime(read.text("end_time"));
+  const supersetId = read.text("superset_id");
+  return {
+    sessionKey: `${startText}|${read.text("title")}`,
+    date: when.date,
+    title: read.text("title") || undefined,
+    sessionNotes: read.text("description") || undefined,
+    startedAt: when.startedAt,
+    endedAt: end?.startedAt,
+    exercise: read.text("exercise_title"),
+    exerciseNotes: read.text("exercise_notes") || undefined,
+    groupKey: supersetId || undefined,
+    set: {
+      type: HEVY_SET_TYPES[setType],
+      reps: positive(read.number("reps")),
+      weight: positive(read.number("weight_kg", "weight_lbs")),
+      unit: read.has("weight_lbs") ? "lb" : "kg",
+      rpe: positive(read.number("rpe")),
+      durationSeconds: positive(read.number("duration_seconds")),
+      distance: positive(read.number("distance_km", "distance_miles")),
+      distanceUnit: read.has("distance_miles") ? "mi" : "km",
+    },
+  };
+};
+
+const FITNOTES_DISTANCE_UNITS: Record<string, DistanceUnit> = {
+  m: "m",
+  km: "km",
+  mi: "mi",
+  mile: "mi",
+  miles: "mi",
+};
+
+const mapFitNotesRow = (read: RowReader): ImportRow | string => {
+  const date = read.text("date");
+  if (!isISODate(date)) return `invalid date "${date}"`;
+  const timeText = read.text("time");
+  const duration = timeText ? parseDuration(timeText) : undefined;
+  if (Number.isNaN(duration)) return `invalid time "${timeText}"`;
+  const distance = positive(read.number("distance"));
+  const distanceUnitText = read.text("distance unit").toLowerCase();
+  if (distance !== undefined && !FITNOTES_DISTANCE_UNITS[distanceUnitText]) {
+    return `unsupported distance unit "${distanceUnitText}"`;
+  }
+  return {
+    // FitNotes has no workouts, only dated sets, so each training day becomes one session.
+    sessionKey: date,
+    date,
+    exercise: read.text("exercise"),
+    exerciseNotes: read.text("comment") || undefined,
+    cardio: read.text("category").toLowerCase() === "cardio",
+    set: {
+      type: "working",
+      reps: positive(read.number("reps")),
+      weight: positive(read.number("weight (kgs)", "weight (kg)", "weight (lbs)")),
+      unit: read.has("weight (lbs)") ? "lb" : "kg",
+      durationSeconds: positive(duration),
+      distance,
+      distanceUnit: FITNOTES_DISTANCE_UNITS[distanceUnitText],
+    },
+  };
+};
+
+/** Recognizes an export by its header row. */
+export const detectImportSource = (header: string[]): ImportSource | null => {
+  const columns = new Set(header.map((name) => name.trim().toLowerCase()));
+  if (columns.has("exercise name") && columns.has("set order")) return "strong";
+  if (columns.has("exercise_title") && columns.has("set_index")) return "hevy";
+  if (columns.has("exercise") && columns.has("category") && columns.has("date")) return "fitnotes";
+  return null;
+};
+
+const REQUIRED_COLUMNS: Record<ImportSource, string[]> = {
+  strong: ["date", "exercise name", "set order"],
+  hevy: ["start_time", "exercise_title"],
+  fitnotes: ["date", "exercise"],
+};
+
+/** Cardio when any set covered a distance, timed when no set has reps, weighted otherwise. */
+const inferKind = (sets: WorkoutSet[], cardio: boolean): ExerciseKind => {
+  if (cardio || sets.some((set) => set.distance !== undefined)) return "cardio";
+  return sets.every((set) => set.reps === undefined) ? "timed" : "weighted";
+};
+
+/**
+ * Parses a Strong, Hevy or FitNotes CSV export into sessions. Rows that cannot
+ * be mapped are reported in `rejected`; a file that is not one of those
+ * exports throws.
+ */
+export const parseAppExport = (text: string, options: AppImportOptions): AppImport => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const [header, ...records] = parseCsv(content, delimiter);
+  if (!header) throw new Error("The CSV file is empty.");
+
+  const source = options.source ?? detectImportSource(header.fields);
+  if (!source) throw new Error("The file does not look like a Strong, Hevy or FitNotes export.");
+  const columnIndex = new Map(header.fields.map((name, index) => [name.trim().toLowerCase(), index]));
+  const missing = REQUIRED_COLUMNS[source].filter((column) => !columnIndex.has(column));
+  if (missing.length > 0) {
+    const label = IMPORT_SOURCES.find((option) => option.value === source)?.label;
+    throw new Error(`The ${label} export is missing columns: ${missing.join(", ")}.`);
+  }
+
+  const sessions = new Map<string, WorkoutSession>();
+  const kinds = new Map<ExerciseEntry, boolean>();
+  const rejected: RejectedRecord[] = [];
+
+  records.forEach(({ line, fields }) => {
+    const cell = (columns: string[]) => {
+      const index = columns.map((column) => columnIndex.get(column)).find((candidate) => candidate !== undefined);
+      return index === undefined ? "" : (fields[index] ?? "").trim();
+    };
+    const read: RowReader = {
+      has: (...columns) => columns.some((column) => columnIndex.has(column)),
+      text: (...columns) => cell(columns),
+      number: (...columns) => {
+        const value = cell(columns);
+        if (value === "") return undefined;
+        const parsed = Number(delimiter === ";" ? value.replace(",", ".") : value);
+        if (Number.isNaN(parsed)) {
+          // Name the column the file has, such as "weight_lbs" rather than "weight_kg".
+          throw new RowError(`invalid number "${value}" in ${columns.find((column) => columnIndex.has(column))}`);
+        }
+        return parsed;
+      },
+    };
+    const reject = (reason: string) => rejected.push({ location: `line ${line}`, reason });
+
+    let row: ImportRow | string;
+    try {
+      row =
+        source === "strong" ? mapStrongRow(read, options) : source === "hevy" ? mapHevyRow(read) : mapFitNotesRow(read);
+    } catch (error) {
+      if (!(error instanceof RowError)) throw error;
+      return reject(error.message);
+    }
+    if (typeof row === "string") return reject(row);
+    if (!row.exercise) return reject("missing exercise name");
+    if (row.set.reps !== undefined && !Number.isInteger(row.set.reps)) return reject(`fractional reps "${row.set.reps}"`);
+    const set = validateWorkoutSet({ id: createId(), ...row.set });
+    if (!set.ok) return reject("set has no reps, duration or distance");
+
+    let session = sessions.get(row.sessionKey);
+    if (!session) {
+      session = {
+        id: createId(),
+        date: row.date,
+        title: row.title,
+        notes: row.sessionNotes,
+        exercises: [],
+        createdAt: row.startedAt ?? new Date(`${row.date}T00:00:00`).toISOString(),
+        startedAt: row.startedAt,
+        endedAt: row.endedAt,
+      };
+      sessions.set(row.sessionKey, session);
+    }
+
+    // Rows for one exercise are contiguous in every supported export; a repeat later on is a new entry.
+    let exercise = session.exercises.at(-1);
+    if (exercise?.name !== row.exercise) {
+      const groupKey = row.groupKey && `${session.id}:${row.groupKey}`;
+      exercise = { id: createId(), name: row.exercise, kind: "weighted", notes: row.exerciseNotes, groupId: groupKey, sets: [] };
+      session.exercises.push(exercise);
+    } else if (!exercise.notes && row.exerciseNotes) {
+      exercise.notes = row.exerciseNotes;
+    }
+    kinds.set(exercise, (kinds.get(exercise) ?? false) || Boolean(row.cardio));
+    exercise.sets.push(set.value);
+  });
+
+  kinds.forEach((cardio, exercise) => {
+    exercise.kind = inferKind(exercise.sets, cardio);
+  });
+  return { source, workouts: Array.from(sessions.values()), rejected };
+};
+
+/** Skipped rows grouped by reason, most common first, for the import summary. */
+export const groupRejected = (rejected: RejectedRecord[]) => {
+  const groups = new Map<string, string[]>();
+  rejected.forEach((record) => groups.set(record.reason, [...(groups.get(record.reason) ?? []), record.location]));
+  return Array.from(groups.entries())
+    .map(([reason, locations]) => ({ reason, locations }))
+    .sort((a, b) => b.locations.length - a.locations.length);
+};
+
+/**
+ * A catalog entry for an imported name. Strong and Hevy append the equipment,
+ * as in "Bench Press (Dumbbell)", so "Dumbbell Bench Press" is tried too, and
+ * the bare name when that entry uses the same equipment.
+ */
+export const suggestCatalogEntry = (index: CatalogIndex, name: string) => {
+  const exact = resolveCatalogEntry(index, name);
+  const suffixed = name.match(/^(.*?)\s*\(([^)]+)\)$/);
+  if (exact || !suffixed) return exact;
+  const [, base, equipment] = suffixed;
+  const bare = resolveCatalogEntry(index, base);
+  return (
+    resolveCatalogEntry(index, `${equipment} ${base}`) ??
+    (bare?.equipment === equipment.toLowerCase() ? bare : undefined)
+  );
+};
+
+/** Distinct exercise names in an import with how many sets each has. */
+export const importedExerciseNames = (workouts: WorkoutSession[]) => {
+  const counts = new Map<string, number>();
+  workouts.forEach((session) =>
+    session.exercises.forEach((exercise) => counts.set(exercise.name, (counts.get(exercise.name) ?? 0) + exercise.sets.length))
+  );
+  return Array.from(counts.entries())
+    .map(([name, sets]) => ({ name, sets }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Renames imported exercises to the catalog entries chosen for them; unmapped names stay as free text. */
+export const applyNameMapping = (workouts: WorkoutSession[], mapping: Map<string, CatalogExercise>) =>
+  workouts.map((session) => ({
+    ...session,
+    exercises: session.exercises.map((exercise) => {
+      const entry = mapping.get(exercise.name);
+      return entry ? { ...exercise, name: entry.name, exerciseId: entry.id } : exercise;
+    }),
+  }));
+
+const sessionFingerprint = (session: WorkoutSession, index: CatalogIndex) => {
+  const exercises = session.exercises.map(
+    (exercise) => resolveCatalogEntry(index, exercise.name, exercise.exerciseId)?.id ?? normalizeExerciseName(exercise.name)
+  );
+  const sets = session.exercises.reduce((sum, exercise) => sum + exercise.sets.length, 0);
+  return `${session.date}|${Array.from(new Set(exercises)).sort().join(",")}|${sets}`;
+};
+
+/**
+ * Imported sessions that look like ones already in the log: same date, same
+ * exercises and the same number of sets. Maps each imported id to the match.
+ */
+export const findDuplicateSessions = (existing: WorkoutSession[], incoming: WorkoutSession[], index: CatalogIndex) => {
+  const known = new Map(existing.map((session) => [sessionFingerprint(session, index), session]));
+  const duplicates = new Map<string, WorkoutSession>();
+  incoming.forEach((session) => {
+    const match = known.get(sessionFingerprint(session, index));
+    if (match) duplicates.set(session.id, match);
+  });
+  return duplicates;
+};
@@ -0,0 +1,47 @@
+import { request } from "@/lib/api-client";
+import type { User, UserRole, UserSummary } from "@/lib/users";
+
+/** The signed-in account, or null when the visitor needs to sign in. */
+export const fetchCurrentUser = async () => {
+  const response = await fetch("/api/account", { cache: "no-store" });
+  if (response.status === 401) return null;
+  if (!response.ok) throw new Error(`Request failed with status ${response.status}`);
+  const { user } = (await response.json()) as { user: User };
+  return user;
+};
+
+export const signIn = async (username: string, password: string) => {
+  const { user } = await request<{ user: User }>("/api/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ username, password }),
+  });
+  return user;
+};
+
+export const register = async (username: string, password: string, role: UserRole) => {
+  const { user } = await request<{ user: User }>("/api/auth/register", {
+    method: "POST",
+    body: JSON.stringify({ username, password, role }),
+  });
+  return user;
+};
+
+export const signOut = () => request<void>("/api/auth/logout", { method: "POST" });
+
+export const updateSharing = async (sharedWith: string[]) => {
+  const { user } = await request<{ user: User }>("/api/account", {
+    method: "PUT",
+    body: JSON.stringify({ sharedWith }),
+  });
+  return user;
+};
+
+export const fetchCoaches = async () => {
+  const { coaches } = await request<{ coaches: UserSummary[] }>("/api/account/coaches", { cache: "no-store" });
+  return coaches;
+};
+
+export const fetchAthletes = async () => {
+  const { athletes } = await request<{ athletes: UserSummary[] }>("/api/account/athletes", { cache: "no-store" });
+  return athletes;
+};
@@ -0,0 +1,12 @@
+import { createCollectionClient } from "@/lib/api-client";
+import type { BodyMetricEntry } from "@/lib/body-metrics";
+
+const client = createCollectionClient<BodyMetricEntry>("/api/body-metrics", "entries", "entry");
+
+export const fetchBodyMetrics = client.list;
+
+export const createBodyMetrics = client.create;
+
+export const updateBodyMetric = client.update;
+
+export const deleteBodyMetric = client.remove;
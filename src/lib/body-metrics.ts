@@ -0,0 +1,137 @@
+import {
+  convertLength,
+  convertWeight,
+  DEFAULT_LENGTH_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  isLengthUnit,
+  isWeightUnit,
+  type LengthUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import { fail, isRecord } from "@/lib/validation";
+import { isISODate, type ValidationResult } from "@/lib/workouts";
+
+export const MEASUREMENT_SITES = [
+  { value: "neck", label: "Neck" },
+  { value: "chest", label: "Chest" },
+  { value: "waist", label: "Waist" },
+  { value: "hips", label: "Hips" },
+  { value: "arm", label: "Upper arm" },
+  { value: "thigh", label: "Thigh" },
+  { value: "calf", label: "Calf" },
+] as const;
+
+export type MeasurementSite = (typeof MEASUREMENT_SITES)[number]["value"];
+
+/** One weigh-in or measuring session; every figure is optional so partial check-ins are fine. */
+export type BodyMetricEntry = {
+  id: string;
+  date: string; // ISO date (yyyy-mm-dd)
+  bodyweight?: number;
+  weightUnit: WeightUnit;
+  bodyFatPercent?: number;
+  // Circumferences, all in `lengthUnit`.
+  measurements: Partial<Record<MeasurementSite, number>>;
+  lengthUnit: LengthUnit;
+  notes?: string;
+  createdAt: string;
+};
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export const validateBodyMetricEntry = (value: unknown): ValidationResult<BodyMetricEntry> => {
+  if (!isRecord(value)) return fail("body metric entry must be an object");
+  if (typeof value.id !== "string" || !value.id) return fail("body metric entry is missing an id");
+  if (typeof value.date !== "string" || !isISODate(value.date)) {
+    return fail(`body metric entry ${value.id} must have a yyyy-mm-dd date`);
+  }
+  if (typeof value.createdAt !== "string") return fail(`body metric entry ${value.id} is missing createdAt`);
+  if (value.bodyweight != null && !isPositiveNumber(value.bodyweight)) {
+    return fail(`body metric entry ${value.id} has an invalid bodyweight`);
+  }
+  if (value.weightUnit !== undefined && !isWeightUnit(value.weightUnit)) {
+    return fail(`body metric entry ${value.id} has an unknown weight unit`);
+  }
+  if (
+    value.bodyFatPercent != null &&
+    (typeof value.bodyFatPercent !== "number" || !(value.bodyFatPercent > 0 && value.bodyFatPercent < 100))
+  ) {
+    return fail(`body metric entry ${value.id} has a body fat percentage outside 0-100`);
+  }
+  if (value.lengthUnit !== undefined && !isLengthUnit(value.lengthUnit)) {
+    return fail(`body metric entry ${value.id} has an unknown length unit`);
+  }
+  const rawMeasurements = value.measurements ?? {};
+  if (!isRecord(rawMeasurements)) return fail(`body metric entry ${value.id} has invalid measurements`);
+  const measurements: Partial<Record<MeasurementSite, number>> = {};
+  for (const [site, measurement] of Object.entries(rawMeasurements)) {
+    if (!MEASUREMENT_SITES.some((option) => option.value === site) || !isPositiveNumber(measurement)) {
+      return fail(`body metric entry ${value.id} has an invalid ${site} measurement`);
+    }
+    measurements[site as MeasurementSite] = measurement;
+  }
+  if (value.notes != null && typeof value.notes !== "string") {
+    return fail(`body metric entry ${value.id} has invalid notes`);
+  }
+  if (value.bodyweight == null && value.bodyFatPercent == null && Object.keys(measurements).length === 0) {
+    return fail(`body metric entry ${value.id} records nothing`);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      date: value.date,
+      bodyweight: isPositiveNumber(value.bodyweight) ? value.bodyweight : undefined,
+      weightUnit: value.weightUnit ?? DEFAULT_WEIGHT_UNIT,
+      bodyFatPercent: typeof value.bodyFatPercent === "number" ? value.bodyFatPercent : undefined,
+      measurements,
+      lengthUnit: value.lengthUnit ?? DEFAULT_LENGTH_UNIT,
+      notes: typeof value.notes === "string" && value.notes.trim() ? value.notes : undefined,
+      createdAt: value.createdAt,
+    },
+  };
+};
+
+export const parseBodyMetricEntry = (value: unknown): BodyMetricEntry | null => {
+  const result = validateBodyMetricEntry(value);
+  return result.ok ? result.value : null;
+};
+
+/** Oldest first, the order charts and lookups want; same-day entries keep the order they were added. */
+export const sortByDate = (entries: BodyMetricEntry[]) =>
+  [...entries].sort((a, b) => (a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date < b.date ? -1 : 1));
+
+export type BodyMetric = "bodyweight" | "bodyFat" | MeasurementSite;
+
+/** One chart point per entry that recorded the metric, converted to the requested units. */
+export const metricSeries = (
+  entries: BodyMetricEntry[],
+  metric: BodyMetric,
+  weightUnit: WeightUnit,
+  lengthUnit: LengthUnit
+) =>
+  sortByDate(entries).flatMap((entry) => {
+    if (metric === "bodyweight") {
+      return entry.bodyweight != null
+        ? [{ date: entry.date, value: convertWeight(entry.bodyweight, entry.weightUnit, weightUnit) }]
+        : [];
+    }
+    if (metric === "bodyFat") {
+      return entry.bodyFatPercent != null ? [{ date: entry.date, value: entry.bodyFatPercent }] : [];
+    }
+    const measurement = entry.measurements[metric];
+    return measurement != null
+      ? [{ date: entry.date, value: convertLength(measurement, entry.lengthUnit, lengthUnit) }]
+      : [];
+  });
+
+/**
+ * Bodyweight in `unit` around a date: the last weigh-in on or before it, or
+ * the first one after when the log starts later. Null without any weigh-ins.
+ */
+export const bodyweightOn = (entries: BodyMetricEntry[], date: string, unit: WeightUnit) => {
+  const weighIns = metricSeries(entries, "bodyweight", unit, DEFAULT_LENGTH_UNIT);
+  const before = weighIns.filter((point) => point.date <= date).at(-1);
+  return (before ?? weighIns[0])?.value ?? null;
+};
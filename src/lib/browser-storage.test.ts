@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  adoptUnscopedStorage,
+  clearPreference,
+  clearSignedInUser,
+  DRAFTS_PREFERENCE,
+  FORMULA_PREFERENCE,
+  LEGACY_BACKUP_KEY,
+  LEGACY_QUARANTINE_KEY,
+  LEGACY_STORAGE_KEY,
+  LIVE_SESSION_PREFERENCE,
+  migrateLegacyWorkouts,
+  PROGRESSION_PREFERENCE,
+  readPreference,
+  readSignedInUser,
+  scopedKey,
+  SIGNED_IN_USER_KEY,
+  UNIT_PREFERENCE,
+  WEEKLY_GOAL_PREFERENCE,
+  writePreference,
+  writeSignedInUser,
+  type KeyValueStorage,
+} from "@/lib/browser-storage";
+import { parseProgressionSettings } from "@/lib/progression";
+import { DEFAULT_WEEKLY_GOAL } from "@/lib/training-calendar";
+import type { User } from "@/lib/users";
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  const storage: KeyValueStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+  return { storage, items };
+};
+
+describe("preferences", () => {
+  it("round-trips values per account", () => {
+    const { storage } = memoryStorage();
+    writePreference(storage, "ana", UNIT_PREFERENCE, "lb");
+    writePreference(storage, "ana", WEEKLY_GOAL_PREFERENCE, 5);
+    expect(readPreference(storage, "ana", UNIT_PREFERENCE)).toBe("lb");
+    expect(readPreference(storage, "ana", WEEKLY_GOAL_PREFERENCE)).toBe(5);
+    expect(readPreference(storage, "ben", UNIT_PREFERENCE)).toBe(UNIT_PREFERENCE.fallback);
+  });
+
+  it("falls back without storage, for unknown values and for corrupt JSON", () => {
+    const { storage } = memoryStorage({
+      [scopedKey(UNIT_PREFERENCE.key, "ana")]: "stone",
+      [scopedKey(WEEKLY_GOAL_PREFERENCE.key, "ana")]: "NaN",
+      [scopedKey(PROGRESSION_PREFERENCE.key, "ana")]: "{not json",
+      [scopedKey(DRAFTS_PREFERENCE.key, "ana")]: '[{"id":1}]',
+      [scopedKey(FORMULA_PREFERENCE.key, "ana")]: "lombardi",
+    });
+    expect(readPreference(null, "ana", UNIT_PREFERENCE)).toBe(UNIT_PREFERENCE.fallback);
+    expect(readPreference(storage, "ana", UNIT_PREFERENCE)).toBe(UNIT_PREFERENCE.fallback);
+    expect(readPreference(storage, "ana", WEEKLY_GOAL_PREFERENCE)).toBe(DEFAULT_WEEKLY_GOAL);
+    expect(readPreference(storage, "ana", PROGRESSION_PREFERENCE)).toEqual(parseProgressionSettings(null));
+    expect(readPreference(storage, "ana", DRAFTS_PREFERENCE)).toEqual([]);
+    expect(readPreference(storage, "ana", FORMULA_PREFERENCE)).toBe("epley");
+  });
+
+  it("only restores a live session with a valid state and draft", () => {
+    const state = { startedAt: "2026-03-02T10:00:00.000Z", completedSetIds: [], restSeconds: {}, restEndsAt: null };
+    const draft = { date: "2026-03-02", title: "", sessionNotes: "", exercises: [] };
+    const { storage } = memoryStorage();
+    writePreference(storage, "ana", LIVE_SESSION_PREFERENCE, { state, draft });
+    expect(readPreference(storage, "ana", LIVE_SESSION_PREFERENCE)).toEqual({ state, draft });
+
+    storage.setItem(scopedKey(LIVE_SESSION_PREFERENCE.key, "ana"), JSON.stringify({ state: { ...state, startedAt: "soon" }, draft }));
+    expect(readPreference(storage, "ana", LIVE_SESSION_PREFERENCE)).toBeNull();
+
+    clearPreference(storage, "ana", LIVE_SESSION_PREFERENCE);
+    expect(storage.getItem(scopedKey(LIVE_SESSION_PREFERENCE.key, "ana"))).toBeNull();
+  });
+});
+
+describe("adoptUnscopedStorage", () => {
+  it("moves state saved before accounts to the account without overwriting its own", () => {
+    const { storage, items } = memoryStorage({
+      [UNIT_PREFERENCE.key]: "lb",
+      [FORMULA_PREFERENCE.key]: "brzycki",
+      [scopedKey(FORMULA_PREFERENCE.key, "ana")]: "epley",
+      unrelated: "kept",
+    });
+    adoptUnscopedStorage(storage, "ana");
+    expect(Object.fromEntries(items)).toEqual({
+      [scopedKey(UNIT_PREFERENCE.key, "ana")]: "lb",
+      [scopedKey(FORMULA_PREFERENCE.key, "ana")]: "epley",
+      unrelated: "kept",
+    });
+  });
+});
+
+describe("signed-in user", () => {
+  const user: User = {
+    id: "ana",
+    username: "ana",
+    role: "athlete",
+    sharedWith: ["coach-1"],
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  it("remembers the last account until it is cleared", () => {
+    const { storage } = memoryStorage();
+    expect(readSignedInUser(storage)).toBeNull();
+    writeSignedInUser(storage, user);
+    expect(readSignedInUser(storage)).toEqual(user);
+    clearSignedInUser(storage);
+    expect(readSignedInUser(storage)).toBeNull();
+  });
+
+  it("ignores a missing storage and stored values that are not an account", () => {
+    expect(readSignedInUser(null)).toBeNull();
+    expect(readSignedInUser(memoryStorage({ [SIGNED_IN_USER_KEY]: "{not json" }).storage)).toBeNull();
+    const noRole = JSON.stringify({ ...user, role: "admin" });
+    expect(readSignedInUser(memoryStorage({ [SIGNED_IN_USER_KEY]: noRole }).storage)).toBeNull();
+  });
+});
+
+describe("migrateLegacyWorkouts", () => {
+  const legacySession = {
+    id: "s1",
+    date: "2026-01-10",
+    exercises: [{ id: "e1", name: "Squat", sets: [{ id: "t1", reps: 5, weight: 100 }] }],
+    createdAt: "2026-01-10T12:00:00.000Z",
+  };
+
+  it("hands valid sessions over, keeps a backup and quarantines the rest", async () => {
+    const raw = JSON.stringify([legacySession, { id: "broken" }]);
+    const { storage } = memoryStorage({ [LEGACY_STORAGE_KEY]: raw });
+    const save = vi.fn(async () => undefined);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    await migrateLegacyWorkouts(storage, save);
+
+    expect(save).toHaveBeenCalledOnce();
+    expect(save.mock.calls[0]).toEqual([[expect.objectContaining({ id: "s1", date: "2026-01-10" })]]);
+    expect(storage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+    expect(storage.getItem(LEGACY_BACKUP_KEY)).toBe(raw);
+    expect(JSON.parse(storage.getItem(LEGACY_QUARANTINE_KEY) ?? "[]")).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  it("leaves the legacy log in place when saving fails", async () => {
+    const raw = JSON.stringify([legacySession]);
+    const { storage } = memoryStorage({ [LEGACY_STORAGE_KEY]: raw });
+    await expect(migrateLegacyWorkouts(storage, async () => Promise.reject(new Error("offline")))).rejects.toThrow();
+    expect(storage.getItem(LEGACY_STORAGE_KEY)).toBe(raw);
+  });
+
+  it("does nothing without a legacy log", async () => {
+    const { storage, items } = memoryStorage();
+    const save = vi.fn(async () => undefined);
+    await migrateLegacyWorkouts(storage, save);
+    expect(save).not.toHaveBeenCalled();
+    expect(items.size).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { parseSavedDrafts, type SavedDraft } from "@/lib/drafts";
+import { isLiveSessionState, type LiveSessionState } from "@/lib/live-session";
+import { parseMuscleSetTargets, type MuscleSetTargets } from "@/lib/muscle-analytics";
+import { parseProgressionSettings, type ProgressionSettings } from "@/lib/progression";
+import type { OneRepMaxFormula } from "@/lib/records";
+import { isDraftSnapshot, type DraftSnapshot } from "@/lib/session-draft";
+import { loadCollection, WORKOUT_SCHEMA } from "@/lib/storage-schema";
+import { isScoringCategory, type ScoringCategory } from "@/lib/strength-scores";
+import { DEFAULT_WEEKLY_GOAL } from "@/lib/training-calendar";
+import { DEFAULT_WEIGHT_UNIT, isWeightUnit, type WeightUnit } from "@/lib/units";
+import { isUser, type User } from "@/lib/users";
+import { validateWorkoutSession, type WorkoutSession } from "@/lib/workouts";
+
+/**
+ * The part of the Web Storage API the app relies on. The page passes
+ * `window.localStorage`; anything with the same three methods works, which
+ * keeps the helpers below usable without a browser.
+ */
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/** A value kept per account under `key`, with how to read it back and what to use when it is missing or unreadable. */
+export type Preference<T> = {
+  key: string;
+  fallback: T;
+  parse: (raw: string) => T | undefined;
+  serialize: (value: T) => string;
+};
+
+const jsonPreference = <T>(key: string, fallback: T, parse: (value: unknown) => T | undefined): Preference<T> => ({
+  key,
+  fallback,
+  parse: (raw) => parse(JSON.parse(raw)),
+  serialize: (value) => JSON.stringify(value),
+});
+
+export type StoredLiveSession = {
+  state: LiveSessionState;
+  draft: DraftSnapshot;
+};
+
+// The in-progress live session and its draft, so a reload at the gym loses nothing.
+export const LIVE_SESSION_PREFERENCE = jsonPreference<StoredLiveSession | null>(
+  "workout-tracker-live-session",
+  null,
+  (value) => {
+    const parsed = value as Partial<StoredLiveSession> | null;
+    if (!isLiveSessionState(parsed?.state) || !Array.isArray(parsed.draft?.exercises)) return undefined;
+    return parsed as StoredLiveSession;
+  }
+);
+
+// Named drafts of sessions being typed, autosaved so a reload or closed tab loses nothing.
+export const DRAFTS_PREFERENCE = jsonPreference<SavedDraft<DraftSnapshot>[]>("workout-tracker-drafts", [], (value) =>
+  parseSavedDrafts(value, isDraftSnapshot)
+);
+
+export const FORMULA_PREFERENCE: Preference<OneRepMaxFormula> = {
+  key: "workout-tracker-1rm-formula",
+  fallback: "epley",
+  parse: (raw) => (raw === "brzycki" ? "brzycki" : "epley"),
+  serialize: (value) => value,
+};
+
+export const UNIT_PREFERENCE: Preference<WeightUnit> = {
+  key: "workout-tracker-weight-unit",
+  fallback: DEFAULT_WEIGHT_UNIT,
+  parse: (raw) => (isWeightUnit(raw) ? raw : undefined),
+  serialize: (value) => value,
+};
+
+export const PROGRESSION_PREFERENCE = jsonPreference<ProgressionSettings>(
+  "workout-tracker-progression",
+  parseProgressionSettings(null),
+  parseProgressionSettings
+);
+
+export const WEEKLY_GOAL_PREFERENCE: Preference<number> = {
+  key: "workout-tracker-weekly-goal",
+  fallback: DEFAULT_WEEKLY_GOAL,
+  parse: (raw) => {
+    const stored = Number(raw);
+    return Number.isInteger(stored) && stored > 0 ? stored : undefined;
+  },
+  serialize: (value) => String(value),
+};
+
+// Weekly working-set target ranges per muscle group.
+export const MUSCLE_TARGETS_PREFERENCE = jsonPreference<MuscleSetTargets>(
+  "workout-tracker-muscle-targets",
+  parseMuscleSetTargets(null),
+  parseMuscleSetTargets
+);
+
+// Men's or women's Wilks/DOTS curves.
+export const SCORING_CATEGORY_PREFERENCE: Preference<ScoringCategory> = {
+  key: "workout-tracker-scoring-category",
+  fallback: "male",
+  parse: (raw) => (isScoringCategory(raw) ? raw : undefined),
+  serialize: (value) => value,
+};
+
+// Browser-side state is kept per account, so people sharing a device never see each other's drafts.
+const ACCOUNT_STORAGE_KEYS = [
+  LIVE_SESSION_PREFERENCE,
+  DRAFTS_PREFERENCE,
+  FORMULA_PREFERENCE,
+  UNIT_PREFERENCE,
+  PROGRESSION_PREFERENCE,
+  WEEKLY_GOAL_PREFERENCE,
+  MUSCLE_TARGETS_PREFERENCE,
+  SCORING_CATEGORY_PREFERENCE,
+].map((preference) => preference.key);
+
+export const scopedKey = (key: string, userId: string) => `${key}:${userId}`;
+
+/**
+ * Reads an account's preference, falling back when storage is unavailable
+ * (during server rendering), the value is missing, or it does not parse.
+ */
+export const readPreference = <T>(storage: KeyValueStorage | null, userId: string, preference: Preference<T>): T => {
+  const raw = storage?.getItem(scopedKey(preference.key, userId));
+  if (raw == null) return preference.fallback;
+  try {
+    return preference.parse(raw) ?? preference.fallback;
+  } catch {
+    return preference.fallback;
+  }
+};
+
+export const writePreference = <T>(storage: KeyValueStorage, userId: string, preference: Preference<T>, value: T) =>
+  storage.setItem(scopedKey(preference.key, userId), preference.serialize(value));
+
+export const clearPreference = <T>(storage: KeyValueStorage, userId: string, preference: Preference<T>) =>
+  storage.removeItem(scopedKey(preference.key, userId));
+
+/** Hands state saved before accounts existed to the first account that signs in on this browser. */
+export const adoptUnscopedStorage = (storage: KeyValueStorage, userId: string) => {
+  ACCOUNT_STORAGE_KEYS.forEach((key) => {
+    const value = storage.getItem(key);
+    if (value === null) return;
+    if (storage.getItem(scopedKey(key, userId)) === null) {
+      storage.setItem(scopedKey(key, userId), value);
+    }
+    storage.removeItem(key);
+  });
+};
+
+// The account last signed in on this browser. It is not scoped like the keys above because it decides
+// which account to open when the server cannot be asked, e.g. when the app is started offline.
+export const SIGNED_IN_USER_KEY = "workout-tracker-signed-in-user";
+
+export const readSignedInUser = (storage: KeyValueStorage | null): User | null => {
+  const raw = storage?.getItem(SIGNED_IN_USER_KEY);
+  if (raw == null) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return isUser(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeSignedInUser = (storage: KeyValueStorage, user: User) =>
+  storage.setItem(SIGNED_IN_USER_KEY, JSON.stringify(user));
+
+export const clearSignedInUser = (storage: KeyValueStorage) => storage.removeItem(SIGNED_IN_USER_KEY);
+
+// Sessions used to live only in the browser under this key. They are pushed to
+// the server once and then removed so the server becomes the source of truth.
+export const LEGACY_STORAGE_KEY = "workout-tracker-sessions";
+
+// A copy of the legacy data as it was before migrating, and any sessions that failed validation.
+export const LEGACY_BACKUP_KEY = `${LEGACY_STORAGE_KEY}-backup`;
+export const LEGACY_QUARANTINE_KEY = `${LEGACY_STORAGE_KEY}-quarantine`;
+
+const readLegacyWorkouts = (storage: KeyValueStorage): WorkoutSession[] => {
+  const raw = storage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return [];
+  storage.setItem(LEGACY_BACKUP_KEY, raw);
+  try {
+    const loaded = loadCollection(JSON.parse(raw) as unknown, WORKOUT_SCHEMA, validateWorkoutSession);
+    if (loaded.quarantined.length > 0) {
+      console.warn(`Quarantined ${loaded.quarantined.length} unreadable legacy sessions`);
+      storage.setItem(LEGACY_QUARANTINE_KEY, JSON.stringify(loaded.quarantined));
+    }
+    return loaded.records;
+  } catch (error) {
+    console.error("Failed to parse workout data", error);
+    return [];
+  }
+};
+
+/**
+ * Hands sessions from the pre-server log to `save` and removes them once it
+ * resolves; if saving fails they stay put for the next attempt.
+ */
+export const migrateLegacyWorkouts = async (
+  storage: KeyValueStorage,
+  save: (sessions: WorkoutSession[]) => Promise<unknown>
+) => {
+  const legacy = readLegacyWorkouts(storage);
+  if (legacy.length > 0) {
+    await save(legacy);
+  }
+  storage.removeItem(LEGACY_STORAGE_KEY);
+};
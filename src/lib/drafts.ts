@@ -0,0 +1,36 @@
+import { isRecord } from "@/lib/validation";
+
+/**
+ * Named editor drafts kept in the browser. The snapshot shape belongs to the
+ * editor, so the helpers here only handle naming, ordering and validation.
+ */
+export type SavedDraft<T> = {
+  id: string;
+  name: string;
+  updatedAt: string;
+  snapshot: T;
+};
+
+/** Reads a stored draft list, dropping entries that are malformed or whose snapshot fails `isSnapshot`. */
+export const parseSavedDrafts = <T>(value: unknown, isSnapshot: (snapshot: unknown) => snapshot is T): SavedDraft<T>[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((candidate): SavedDraft<T>[] => {
+    if (
+      !isRecord(candidate) ||
+      typeof candidate.id !== "string" ||
+      typeof candidate.name !== "string" ||
+      typeof candidate.updatedAt !== "string" ||
+      Number.isNaN(new Date(candidate.updatedAt).getTime()) ||
+      !isSnapshot(candidate.snapshot)
+    ) {
+      return [];
+    }
+    return [{ id: candidate.id, name: candidate.name, updatedAt: candidate.updatedAt, snapshot: candidate.snapshot }];
+  });
+};
+
+export const sortDraftsByRecent = <T>(drafts: SavedDraft<T>[]) =>
+  [...drafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/** The explicit name, else the fallback (usually the draft's session title), else a generic label. */
+export const draftLabel = (name: string, fallback = "") => name.trim() || fallback.trim() || "Untitled draft";
@@ -0,0 +1,186 @@
+import { fail, isRecord } from "@/lib/validation";
+import { EXERCISE_KINDS, type ExerciseKind, type ValidationResult, type WorkoutSession } from "@/lib/workouts";
+
+export const MUSCLE_GROUPS = [
+  "chest",
+  "back",
+  "shoulders",
+  "biceps",
+  "triceps",
+  "forearms",
+  "core",
+  "quads",
+  "hamstrings",
+  "glutes",
+  "calves",
+  "full body",
+  "cardio",
+] as const;
+
+export type MuscleGroup = (typeof MUSCLE_GROUPS)[number];
+
+export const EQUIPMENT = ["barbell", "dumbbell", "machine", "cable", "bodyweight", "kettlebell", "band", "other"] as const;
+
+export type Equipment = (typeof EQUIPMENT)[number];
+
+export type CatalogExercise = {
+  id: string;
+  name: string; // canonical display name
+  aliases: string[];
+  muscleGroups: MuscleGroup[];
+  equipment: Equipment;
+  // How the exercise is logged; inferred from equipment and muscle groups when unset.
+  kind?: ExerciseKind;
+};
+
+/** Lowercases and collapses whitespace so "Bench  Press" and "bench press" compare equal. */
+export const normalizeExerciseName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const validateCatalogExercise = (value: unknown): ValidationResult<CatalogExercise> => {
+  if (!isRecord(value)) return fail("catalog exercise must be an object");
+  if (typeof value.id !== "string" || !value.id) return fail("catalog exercise is missing an id");
+  if (typeof value.name !== "string" || !value.name.trim()) return fail(`catalog exercise ${value.id} needs a name`);
+  if (!Array.isArray(value.aliases) || value.aliases.some((alias) => typeof alias !== "string")) {
+    return fail(`catalog exercise ${value.id} has invalid aliases`);
+  }
+  if (
+    !Array.isArray(value.muscleGroups) ||
+    value.muscleGroups.some((group) => !MUSCLE_GROUPS.includes(group as MuscleGroup))
+  ) {
+    return fail(`catalog exercise ${value.id} has unknown muscle groups`);
+  }
+  if (!EQUIPMENT.includes(value.equipment as Equipment)) {
+    return fail(`catalog exercise ${value.id} has unknown equipment`);
+  }
+  if (value.kind !== undefined && !EXERCISE_KINDS.includes(value.kind as ExerciseKind)) {
+    return fail(`catalog exercise ${value.id} has an unknown kind`);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name.trim(),
+      aliases: (value.aliases as string[]).map((alias) => alias.trim()).filter(Boolean),
+      muscleGroups: value.muscleGroups as MuscleGroup[],
+      equipment: value.equipment as Equipment,
+      kind: value.kind as ExerciseKind | undefined,
+    },
+  };
+};
+
+/** The exercise kind the editor starts with when an exercise is picked from the catalog. */
+export const catalogExerciseKind = (entry: CatalogExercise): ExerciseKind => {
+  if (entry.kind) return entry.kind;
+  if (entry.muscleGroups.includes("cardio")) return "cardio";
+  return entry.equipment === "bodyweight" ? "bodyweight" : "weighted";
+};
+
+export const parseCatalogExercise = (value: unknown): CatalogExercise | null => {
+  const result = validateCatalogExercise(value);
+  return result.ok ? result.value : null;
+};
+
+export type CatalogIndex = {
+  byId: Map<string, CatalogExercise>;
+  byName: Map<string, CatalogExercise>;
+};
+
+/** Looks entries up by id and by normalized canonical name or alias. */
+export const buildCatalogIndex = (catalog: CatalogExercise[]): CatalogIndex => {
+  const byId = new Map<string, CatalogExercise>();
+  const byName = new Map<string, CatalogExercise>();
+  catalog.forEach((entry) => {
+    byId.set(entry.id, entry);
+    [entry.name, ...entry.aliases].forEach((name) => {
+      const key = normalizeExerciseName(name);
+      // Canonical names win over aliases when two entries claim the same text.
+      if (!byName.has(key) || name === entry.name) byName.set(key, entry);
+    });
+  });
+  return { byId, byName };
+};
+
+export const resolveCatalogEntry = (index: CatalogIndex, name: string, exerciseId?: string) =>
+  (exerciseId ? index.byId.get(exerciseId) : undefined) ?? index.byName.get(normalizeExerciseName(name));
+
+/**
+ * Rewrites every exercise that resolves to a catalog entry to its canonical
+ * name, so aggregates keyed by name group aliases together.
+ */
+export const canonicalizeWorkouts = (workouts: WorkoutSession[], index: CatalogIndex): WorkoutSession[] =>
+  workouts.map((session) => ({
+    ...session,
+    exercises: session.exercises.map((exercise) => {
+      const entry = resolveCatalogEntry(index, exercise.name, exercise.exerciseId);
+      return entry ? { ...exercise, exerciseId: entry.id, name: entry.name } : exercise;
+    }),
+  }));
+
+export type UnlinkedName = {
+  name: string;
+  occurrences: number;
+};
+
+/** Free-text exercise names in the log that do not resolve to any catalog entry. */
+export const findUnlinkedNames = (workouts: WorkoutSession[], index: CatalogIndex): UnlinkedName[] => {
+  const counts = new Map<string, UnlinkedName>();
+  workouts.forEach((session) =>
+    session.exercises.forEach((exercise) => {
+      if (resolveCatalogEntry(index, exercise.name, exercise.exerciseId)) return;
+      const key = normalizeExerciseName(exercise.name);
+      const entry = counts.get(key) ?? { name: exercise.name.trim(), occurrences: 0 };
+      entry.occurrences += 1;
+      counts.set(key, entry);
+    })
+  );
+  return Array.from(counts.values()).sort((a, b) => b.occurrences - a.occurrences);
+};
+
+/**
+ * Links every exercise whose name normalizes to `name` to the catalog entry
+ * and returns only the sessions that changed.
+ */
+export const linkNameToEntry = (workouts: WorkoutSession[], name: string, entry: CatalogExercise) => {
+  const key = normalizeExerciseName(name);
+  return workouts.flatMap((session) => {
+    let changed = false;
+    const exercises = session.exercises.map((exercise) => {
+      if (normalizeExerciseName(exercise.name) !== key) return exercise;
+      changed = true;
+      return { ...exercise, exerciseId: entry.id, name: entry.name };
+    });
+    return changed ? [{ ...session, exercises }] : [];
+  });
+};
+
+/** Adds `name` as an alias unless it already matches the entry's name or an alias. */
+export const withAlias = (entry: CatalogExercise, name: string): CatalogExercise => {
+  const key = normalizeExerciseName(name);
+  const known = [entry.name, ...entry.aliases].some((candidate) => normalizeExerciseName(candidate) === key);
+  return known ? entry : { ...entry, aliases: [...entry.aliases, name.trim()] };
+};
+
+/** Served until the catalog file is first written, so new installs get common lifts out of the box. */
+export const STARTER_CATALOG: CatalogExercise[] = [
+  { id: "bench-press", name: "Bench Press", aliases: ["Bench", "Flat Bench", "BB Bench"], muscleGroups: ["chest", "triceps", "shoulders"], equipment: "barbell" },
+  { id: "incline-bench-press", name: "Incline Bench Press", aliases: ["Incline Bench"], muscleGroups: ["chest", "shoulders", "triceps"], equipment: "barbell" },
+  { id: "overhead-press", name: "Overhead Press", aliases: ["OHP", "Military Press", "Shoulder Press"], muscleGroups: ["shoulders", "triceps"], equipment: "barbell" },
+  { id: "back-squat", name: "Back Squat", aliases: ["Squat", "BB Squat"], muscleGroups: ["quads", "glutes"], equipment: "barbell" },
+  { id: "front-squat", name: "Front Squat", aliases: [], muscleGroups: ["quads", "glutes", "core"], equipment: "barbell" },
+  { id: "deadlift", name: "Deadlift", aliases: ["DL", "Conventional Deadlift"], muscleGroups: ["back", "hamstrings", "glutes"], equipment: "barbell" },
+  { id: "romanian-deadlift", name: "Romanian Deadlift", aliases: ["RDL"], muscleGroups: ["hamstrings", "glutes"], equipment: "barbell" },
+  { id: "barbell-row", name: "Barbell Row", aliases: ["Bent Over Row", "BB Row"], muscleGroups: ["back", "biceps"], equipment: "barbell" },
+  { id: "pull-up", name: "Pull-up", aliases: ["Pullup", "Pull Up"], muscleGroups: ["back", "biceps"], equipment: "bodyweight" },
+  { id: "lat-pulldown", name: "Lat Pulldown", aliases: ["Pulldown"], muscleGroups: ["back", "biceps"], equipment: "cable" },
+  { id: "dip", name: "Dip", aliases: ["Dips"], muscleGroups: ["chest", "triceps"], equipment: "bodyweight" },
+  { id: "leg-press", name: "Leg Press", aliases: [], muscleGroups: ["quads", "glutes"], equipment: "machine" },
+  { id: "leg-curl", name: "Leg Curl", aliases: ["Hamstring Curl"], muscleGroups: ["hamstrings"], equipment: "machine" },
+  { id: "biceps-curl", name: "Biceps Curl", aliases: ["Curl", "Bicep Curl", "DB Curl"], muscleGroups: ["biceps"], equipment: "dumbbell" },
+  { id: "triceps-pushdown", name: "Triceps Pushdown", aliases: ["Pushdown", "Tricep Pushdown"], muscleGroups: ["triceps"], equipment: "cable" },
+  { id: "lateral-raise", name: "Lateral Raise", aliases: ["Side Raise"], muscleGroups: ["shoulders"], equipment: "dumbbell" },
+  { id: "hip-thrust", name: "Hip Thrust", aliases: [], muscleGroups: ["glutes", "hamstrings"], equipment: "barbell" },
+  { id: "calf-raise", name: "Calf Raise", aliases: [], muscleGroups: ["calves"], equipment: "machine" },
+  { id: "plank", name: "Plank", aliases: [], muscleGroups: ["core"], equipment: "bodyweight", kind: "timed" },
+  { id: "running", name: "Running", aliases: ["Run", "Jog"], muscleGroups: ["cardio"], equipment: "other" },
+  { id: "rowing-machine", name: "Rowing Machine", aliases: ["Rower", "Erg"], muscleGroups: ["cardio", "back"], equipment: "machine" },
+];
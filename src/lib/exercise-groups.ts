@@ -0,0 +1,102 @@
+/**
+ * Supersets and circuits: consecutive exercises that share a `groupId` were
+ * done together, rotating between them with one rest after each round.
+ * Works on anything with an optional groupId so editor drafts and saved
+ * entries use the same rules.
+ */
+type Groupable = { groupId?: string };
+
+export type ExerciseRun<T> = {
+  groupId?: string;
+  items: T[];
+};
+
+/** Splits a list into runs of consecutive items sharing a group; ungrouped items are runs of one. */
+export const groupRuns = <T extends Groupable>(items: T[]): ExerciseRun<T>[] =>
+  items.reduce<ExerciseRun<T>[]>((runs, item) => {
+    const last = runs.at(-1);
+    if (last && item.groupId && last.groupId === item.groupId) {
+      last.items.push(item);
+    } else {
+      runs.push({ groupId: item.groupId, items: [item] });
+    }
+    return runs;
+  }, []);
+
+export const groupLabel = (size: number) => (size > 2 ? "Circuit" : "Superset");
+
+/**
+ * Keeps groups well formed after a reorder: a group id that shows up again
+ * further down is given a fresh id for that later run, and runs of a single
+ * exercise are no longer a group.
+ */
+export const normalizeGroups = <T extends Groupable>(items: T[], newId: () => string): T[] => {
+  const seen = new Set<string>();
+  return groupRuns(items).flatMap((run) => {
+    if (!run.groupId || run.items.length < 2) {
+      return run.items.map((item) => (item.groupId ? { ...item, groupId: undefined } : item));
+    }
+    const groupId = seen.has(run.groupId) ? newId() : run.groupId;
+    seen.add(groupId);
+    return run.items.map((item) => ({ ...item, groupId }));
+  });
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const isLinkedWithNext = <T extends Groupable>(items: T[], index: number) =>
+  Boolean(items[index]?.groupId) && items[index]?.groupId === items[index + 1]?.groupId;
+
+/** Joins the item at `index` with the next one, merging their groups, or splits them apart again. */
+export const toggleLinkWithNext = <T extends Groupable>(items: T[], index: number, newId: () => string): T[] => {
+  if (index < 0 || index >= items.length - 1) return items;
+  if (isLinkedWithNext(items, index)) {
+    const splitId = newId();
+    const groupId = items[index].groupId;
+    let splitting = false;
+    const next = items.map((item, position) => {
+      if (position === index + 1) splitting = true;
+      if (splitting && item.groupId !== groupId) splitting = false;
+      return splitting ? { ...item, groupId: splitId } : item;
+    });
+    return normalizeGroups(next, newId);
+  }
+  const current = items[index].groupId;
+  const following = items[index + 1].groupId;
+  const groupId = current ?? following ?? newId();
+  return normalizeGroups(
+    items.map((item, position) =>
+      position === index ||
+      position === index + 1 ||
+      (current && item.groupId === current) ||
+      (following && item.groupId === following)
+        ? { ...item, groupId }
+        : item
+    ),
+    newId
+  );
+};
+
+/** The last item of each group, after whose sets the shared rest starts. Ungrouped items always rest. */
+export const endsRound = <T extends Groupable & { id: string }>(items: T[], id: string) => {
+  const index = items.findIndex((item) => item.id === id);
+  return index !== -1 && !isLinkedWithNext(items, index);
+};
+
+/** Labels grouped items "A1", "A2", "B1"… by group and position, the way programs write supersets. */
+export const groupTags = <T extends Groupable & { id: string }>(items: T[]) => {
+  const tags = new Map<string, string>();
+  groupRuns(items)
+    .filter((run) => run.groupId && run.items.length > 1)
+    .forEach((run, runIndex) => {
+      const letter = String.fromCharCode(65 + (runIndex % 26));
+      run.items.forEach((item, position) => tags.set(item.id, `${letter}${position + 1}`));
+    });
+  return tags;
+};
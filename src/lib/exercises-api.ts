@@ -0,0 +1,12 @@
+import { createCollectionClient } from "@/lib/api-client";
+import type { CatalogExercise } from "@/lib/exercise-catalog";
+
+const client = createCollectionClient<CatalogExercise>("/api/exercises", "exercises", "exercise");
+
+export const fetchCatalog = client.list;
+
+export const createCatalogExercises = client.create;
+
+export const updateCatalogExercise = client.update;
+
+export const deleteCatalogExercise = client.remove;
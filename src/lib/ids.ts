@@ -0,0 +1,7 @@
+export const createId = () => {
+  const globalScope = globalThis as unknown as { crypto?: { randomUUID?: () => string } };
+  if (globalScope.crypto?.randomUUID) {
+    return globalScope.crypto.randomUUID();
+  }
+  return `id-${Math.random().toString(36).slice(2, 11)}`;
+};
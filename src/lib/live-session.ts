@@ -0,0 +1,74 @@
+import { isRecord } from "@/lib/validation";
+
+/**
+ * Bookkeeping for a session logged live at the gym. The sets themselves stay
+ * in the editor draft; this only tracks timing and which sets are done.
+ */
+export type LiveSessionState = {
+  startedAt: string;
+  completedSetIds: string[];
+  // Rest length per exercise draft id, or per group id for supersets and circuits; anything without an entry uses the default.
+  restSeconds: Record<string, number>;
+  restEndsAt: string | null;
+};
+
+export const DEFAULT_REST_SECONDS = 90;
+
+export const REST_PRESETS = [30, 60, 90, 120, 150, 180, 240, 300];
+
+export const isLiveSessionState = (value: unknown): value is LiveSessionState =>
+  isRecord(value) &&
+  typeof value.startedAt === "string" &&
+  !Number.isNaN(new Date(value.startedAt).getTime()) &&
+  Array.isArray(value.completedSetIds) &&
+  value.completedSetIds.every((id) => typeof id === "string") &&
+  isRecord(value.restSeconds) &&
+  Object.values(value.restSeconds).every((seconds) => typeof seconds === "number" && seconds > 0) &&
+  (value.restEndsAt === null || typeof value.restEndsAt === "string");
+
+export const startLiveSession = (now: Date): LiveSessionState => ({
+  startedAt: now.toISOString(),
+  completedSetIds: [],
+  restSeconds: {},
+  restEndsAt: null,
+});
+
+export const restSecondsFor = (state: LiveSessionState, exerciseId: string) =>
+  state.restSeconds[exerciseId] ?? DEFAULT_REST_SECONDS;
+
+/**
+ * Marks a set done and starts the rest timer for `restKey`, or un-marks it.
+ * A null `restKey` completes the set without resting, as mid-way through a
+ * superset round. Un-marking leaves a running timer alone.
+ */
+export const toggleSetCompleted = (
+  state: LiveSessionState,
+  restKey: string | null,
+  setId: string,
+  now: Date
+): LiveSessionState => {
+  if (state.completedSetIds.includes(setId)) {
+    return { ...state, completedSetIds: state.completedSetIds.filter((id) => id !== setId) };
+  }
+  return {
+    ...state,
+    completedSetIds: [...state.completedSetIds, setId],
+    restEndsAt:
+      restKey === null
+        ? state.restEndsAt
+        : new Date(now.getTime() + restSecondsFor(state, restKey) * 1000).toISOString(),
+  };
+};
+
+/** Lengthens or shortens the running rest, never past the current moment. */
+export const adjustRest = (state: LiveSessionState, seconds: number, now: Date): LiveSessionState => {
+  if (!state.restEndsAt) return state;
+  const endsAt = Math.max(now.getTime(), new Date(state.restEndsAt).getTime() + seconds * 1000);
+  return { ...state, restEndsAt: new Date(endsAt).toISOString() };
+};
+
+/** Whole seconds left on the rest timer, or null when no rest is running. */
+export const restRemaining = (state: Pick<LiveSessionState, "restEndsAt">, now: number) => {
+  if (!state.restEndsAt) return null;
+  return Math.max(0, Math.ceil((new Date(state.restEndsAt).getTime() - now) / 1000));
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCatalogIndex, type CatalogExercise } from "@/lib/exercise-catalog";
+import {
+  EMPTY_LOG_FILTER,
+  filterFromSearchParams,
+  filterToSearchParams,
+  filterWorkouts,
+  isFilterActive,
+  parseLogQuery,
+  type LogFilter,
+} from "@/lib/log-filter";
+import { entry, session, set } from "@/lib/test-fixtures";
+
+const catalog: CatalogExercise[] = [
+  { id: "bench-press", name: "Bench Press", aliases: ["Bench"], muscleGroups: ["chest", "triceps"], equipment: "barbell" },
+  { id: "back-squat", name: "Back Squat", aliases: ["Squat"], muscleGroups: ["quads", "glutes"], equipment: "barbell" },
+];
+
+const index = buildCatalogIndex(catalog);
+
+const push = session("2026-03-02", [entry("Bench Press", [set({ reps: 5, weight: 100 }), set({ reps: 10, weight: 60 })])], {
+  title: "Push",
+  startedAt: "2026-03-02T17:00:00.000Z",
+  endedAt: "2026-03-02T17:45:00.000Z",
+});
+const legs = session("2026-03-04", [entry("Back Squat", [set({ reps: 5, weight: 140 })], { notes: "Belt on top set" })], {
+  title: "Legs",
+  startedAt: "2026-03-04T17:00:00.000Z",
+  endedAt: "2026-03-04T18:30:00.000Z",
+});
+const mixed = session("2026-03-06", [
+  entry("Bench", [set({ reps: 8, weight: 80 })]),
+  entry("Squat", [set({ reps: 12, weight: 60 })]),
+]);
+const workouts = [push, legs, mixed];
+
+const filtered = (fields: Partial<LogFilter>) =>
+  filterWorkouts(workouts, { ...EMPTY_LOG_FILTER, ...fields }, index).map((workout) => workout.title ?? workout.date);
+
+describe("parseLogQuery", () => {
+  it("splits filter terms from free text and reports the ones it cannot read", () => {
+    expect(parseLogQuery('exercise:"bench press" muscle:chest weight>=100 reps<6 after:2026-01-01 sort:oldest heavy')).toEqual({
+      text: ["heavy"],
+      exerciseTerms: ["bench press"],
+      muscleGroups: ["chest"],
+      after: "2026-01-01",
+      conditions: [
+        { field: "weight", op: ">=", value: 100 },
+        { field: "reps", op: "<", value: 6 },
+      ],
+      sort: "date-asc",
+      invalid: [],
+    });
+    expect(parseLogQuery("muscle:wings before:2026-02-30 sort:random").invalid).toEqual([
+      "muscle:wings",
+      "before:2026-02-30",
+      "sort:random",
+    ]);
+  });
+});
+
+describe("filterWorkouts", () => {
+  it("sorts newest first by default and by volume or duration on request", () => {
+    expect(filtered({})).toEqual(["2026-03-06", "Legs", "Push"]);
+    expect(filtered({ sort: "date-asc" })).toEqual(["Push", "Legs", "2026-03-06"]);
+    expect(filtered({ query: "sort:volume" })).toEqual(["2026-03-06", "Push", "Legs"]);
+    expect(filtered({ sort: "duration-desc" })).toEqual(["Legs", "Push", "2026-03-06"]);
+  });
+
+  it("matches free text against titles, notes and exercise names", () => {
+    expect(filtered({ query: "belt" })).toEqual(["Legs"]);
+    expect(filtered({ query: "bench" })).toEqual(["2026-03-06", "Push"]);
+  });
+
+  it("finds muscle groups through the catalog, aliases included", () => {
+    expect(filtered({ muscleGroups: ["quads"] })).toEqual(["2026-03-06", "Legs"]);
+    expect(filtered({ query: "muscle:triceps" })).toEqual(["2026-03-06", "Push"]);
+  });
+
+  it("needs every set condition to hold on the same set", () => {
+    expect(filtered({ query: "weight>=100 reps>=10" })).toEqual([]);
+    expect(filtered({ minWeight: 60, minReps: 10 })).toEqual(["2026-03-06", "Push"]);
+  });
+
+  it("keeps the narrower of the date controls and the query's dates", () => {
+    expect(filtered({ from: "2026-03-01", to: "2026-03-05", query: "after:2026-03-03" })).toEqual(["Legs"]);
+  });
+});
+
+describe("filter search params", () => {
+  it("round-trips a filter through the URL, leaving defaults out", () => {
+    const filter: LogFilter = {
+      query: "exercise:squat",
+      from: "2026-03-01",
+      exercises: ["Back Squat", "Bench Press"],
+      muscleGroups: ["quads"],
+      minWeight: 100,
+      sort: "volume-desc",
+    };
+    const params = filterToSearchParams(filter);
+    expect(params.toString()).toBe(
+      "q=exercise%3Asquat&from=2026-03-01&exercise=Back+Squat&exercise=Bench+Press&muscle=quads&minWeight=100&sort=volume-desc"
+    );
+    expect(filterFromSearchParams(params)).toEqual({ ...filter, to: undefined, minReps: undefined });
+    expect(filterToSearchParams(EMPTY_LOG_FILTER).toString()).toBe("");
+  });
+
+  it("ignores values a hand-edited URL gets wrong", () => {
+    const filter = filterFromSearchParams(new URLSearchParams("from=2026-13-01&muscle=wings&minReps=-3&sort=random"));
+    expect(filter).toEqual({ ...EMPTY_LOG_FILTER, from: undefined, to: undefined, minWeight: undefined, minReps: undefined });
+    expect(isFilterActive(filter)).toBe(false);
+    expect(isFilterActive({ ...EMPTY_LOG_FILTER, minReps: 5 })).toBe(true);
+  });
+});
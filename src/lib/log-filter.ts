@@ -0,0 +1,259 @@
+import {
+  MUSCLE_GROUPS,
+  normalizeExerciseName,
+  resolveCatalogEntry,
+  type CatalogIndex,
+  type MuscleGroup,
+} from "@/lib/exercise-catalog";
+import { sessionVolume } from "@/lib/progress";
+import { isISODate, type ExerciseEntry, type WorkoutSession } from "@/lib/workouts";
+
+export type LogSort = "date-desc" | "date-asc" | "volume-desc" | "duration-desc";
+
+export const LOG_SORTS: { value: LogSort; label: string }[] = [
+  { value: "date-desc", label: "Newest first" },
+  { value: "date-asc", label: "Oldest first" },
+  { value: "volume-desc", label: "Most volume" },
+  { value: "duration-desc", label: "Longest" },
+];
+
+/**
+ * The structured filter controls. `query` holds free text plus any
+ * `key:value` / `weight>100` terms, which are parsed on every change.
+ */
+export type LogFilter = {
+  query: string;
+  from?: string;
+  to?: string;
+  exercises: string[]; // exact canonical names
+  muscleGroups: MuscleGroup[];
+  minWeight?: number;
+  minReps?: number;
+  sort: LogSort;
+};
+
+export const EMPTY_LOG_FILTER: LogFilter = { query: "", exercises: [], muscleGroups: [], sort: "date-desc" };
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+export type SetCondition = {
+  field: "weight" | "reps";
+  op: Comparison;
+  value: number;
+};
+
+export type ParsedQuery = {
+  text: string[];
+  exerciseTerms: string[];
+  muscleGroups: MuscleGroup[];
+  after?: string;
+  before?: string;
+  conditions: SetCondition[];
+  sort?: LogSort;
+  // Terms that looked like filters but could not be understood, shown back to the user.
+  invalid: string[];
+};
+
+const SORT_ALIASES: Record<string, LogSort> = {
+  date: "date-desc",
+  newest: "date-desc",
+  oldest: "date-asc",
+  volume: "volume-desc",
+  duration: "duration-desc",
+};
+
+// Splits on whitespace while keeping quoted values such as exercise:"bench press" together.
+const tokenize = (query: string) =>
+  Array.from(query.matchAll(/(?:[^\s"]+|"[^"]*")+/g), ([token]) => token.replace(/"/g, ""));
+
+/**
+ * Parses `exercise:squat muscle:chest weight>100 reps>=5 after:2026-01-01
+ * before:2026-06-30 sort:volume`; everything else is free text matched
+ * against titles, notes and exercise names.
+ */
+export const parseLogQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { text: [], exerciseTerms: [], muscleGroups: [], conditions: [], invalid: [] };
+  tokenize(query).forEach((token) => {
+    const comparison = token.match(/^(weight|reps)(>=|<=|>|<|=)(\d+(?:\.\d+)?)$/i);
+    if (comparison) {
+      parsed.conditions.push({
+        field: comparison[1].toLowerCase() as SetCondition["field"],
+        op: comparison[2] as Comparison,
+        value: Number(comparison[3]),
+      });
+      return;
+    }
+    const keyed = token.match(/^(exercise|ex|muscle|after|before|sort):(.+)$/i);
+    if (!keyed) {
+      parsed.text.push(token.toLowerCase());
+      return;
+    }
+    const value = keyed[2].trim();
+    switch (keyed[1].toLowerCase()) {
+      case "exercise":
+      case "ex":
+        parsed.exerciseTerms.push(normalizeExerciseName(value));
+        return;
+      case "muscle": {
+        const group = MUSCLE_GROUPS.find((candidate) => candidate === value.toLowerCase());
+        if (group) parsed.muscleGroups.push(group);
+        else parsed.invalid.push(token);
+        return;
+      }
+      case "after":
+      case "before":
+        if (!isISODate(value)) {
+          parsed.invalid.push(token);
+        } else if (keyed[1].toLowerCase() === "after") {
+          parsed.after = value;
+        } else {
+          parsed.before = value;
+        }
+        return;
+      case "sort": {
+        const sort = SORT_ALIASES[value.toLowerCase()];
+        if (sort) parsed.sort = sort;
+        else parsed.invalid.push(token);
+        return;
+      }
+    }
+  });
+  return parsed;
+};
+
+const compare = (actual: number, { op, value }: SetCondition) => {
+  switch (op) {
+    case ">":
+      return actual > value;
+    case ">=":
+      return actual >= value;
+    case "<":
+      return actual < value;
+    case "<=":
+      return actual <= value;
+    case "=":
+      return actual === value;
+  }
+};
+
+export const sessionDuration = (session: WorkoutSession) =>
+  session.startedAt && session.endedAt
+    ? (new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000
+    : null;
+
+const byNewest = (a: WorkoutSession, b: WorkoutSession) =>
+  a.date === b.date ? b.createdAt.localeCompare(a.createdAt) : a.date < b.date ? 1 : -1;
+
+/**
+ * Applies the filter controls and the parsed query together. Weight
+ * thresholds are compared in whatever unit the sessions are expressed in, so
+ * pass sessions already converted to the display unit.
+ */
+export const filterWorkouts = (workouts: WorkoutSession[], filter: LogFilter, index: CatalogIndex) => {
+  const parsed = parseLogQuery(filter.query);
+  const from = [filter.from, parsed.after].filter(Boolean).sort().pop();
+  const to = [filter.to, parsed.before].filter(Boolean).sort()[0];
+  const muscleGroups = [...filter.muscleGroups, ...parsed.muscleGroups];
+  const conditions: SetCondition[] = [...parsed.conditions];
+  if (filter.minWeight != null) conditions.push({ field: "weight", op: ">=", value: filter.minWeight });
+  if (filter.minReps != null) conditions.push({ field: "reps", op: ">=", value: filter.minReps });
+  const exerciseScoped =
+    filter.exercises.length > 0 || parsed.exerciseTerms.length > 0 || muscleGroups.length > 0 || conditions.length > 0;
+
+  // Every exercise-level criterion has to hold for the same exercise.
+  const exerciseMatches = (exercise: ExerciseEntry) => {
+    const name = normalizeExerciseName(exercise.name);
+    if (filter.exercises.length > 0 && !filter.exercises.some((selected) => normalizeExerciseName(selected) === name)) {
+      return false;
+    }
+    if (parsed.exerciseTerms.length > 0 && !parsed.exerciseTerms.some((term) => name.includes(term))) return false;
+    if (muscleGroups.length > 0) {
+      const groups = resolveCatalogEntry(index, exercise.name, exercise.exerciseId)?.muscleGroups ?? [];
+      if (!muscleGroups.some((group) => groups.includes(group))) return false;
+    }
+    return (
+      conditions.length === 0 ||
+      exercise.sets.some((set) =>
+        conditions.every((condition) => {
+          const actual = condition.field === "weight" ? set.weight : set.reps;
+          return actual != null && compare(actual, condition);
+        })
+      )
+    );
+  };
+
+  const textMatches = (session: WorkoutSession) => {
+    if (parsed.text.length === 0) return true;
+    const haystack = [
+      session.title,
+      session.notes,
+      ...session.exercises.flatMap((exercise) => [exercise.name, exercise.notes]),
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .toLowerCase();
+    return parsed.text.every((word) => haystack.includes(word));
+  };
+
+  const matching = workouts.filter(
+    (session) =>
+      (!from || session.date >= from) &&
+      (!to || session.date <= to) &&
+      textMatches(session) &&
+      (!exerciseScoped || session.exercises.some(exerciseMatches))
+  );
+
+  const sort = parsed.sort ?? filter.sort;
+  return matching.sort((a, b) => {
+    if (sort === "date-asc") return -byNewest(a, b);
+    if (sort === "volume-desc") return sessionVolume(b) - sessionVolume(a) || byNewest(a, b);
+    if (sort === "duration-desc") return (sessionDuration(b) ?? -1) - (sessionDuration(a) ?? -1) || byNewest(a, b);
+    return byNewest(a, b);
+  });
+};
+
+export const isFilterActive = (filter: LogFilter) =>
+  filter.query.trim() !== "" ||
+  Boolean(filter.from || filter.to) ||
+  filter.exercises.length > 0 ||
+  filter.muscleGroups.length > 0 ||
+  filter.minWeight != null ||
+  filter.minReps != null;
+
+/** Encodes the non-default parts of a filter as URL search params so views can be bookmarked. */
+export const filterToSearchParams = (filter: LogFilter) => {
+  const params = new URLSearchParams();
+  if (filter.query.trim()) params.set("q", filter.query.trim());
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  filter.exercises.forEach((name) => params.append("exercise", name));
+  filter.muscleGroups.forEach((group) => params.append("muscle", group));
+  if (filter.minWeight != null) params.set("minWeight", String(filter.minWeight));
+  if (filter.minReps != null) params.set("minReps", String(filter.minReps));
+  if (filter.sort !== EMPTY_LOG_FILTER.sort) params.set("sort", filter.sort);
+  return params;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): LogFilter => {
+  const number = (key: string) => {
+    const value = Number(params.get(key) ?? "");
+    return params.get(key) && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && isISODate(value) ? value : undefined;
+  };
+  const sort = params.get("sort");
+  return {
+    query: params.get("q") ?? "",
+    from: date("from"),
+    to: date("to"),
+    exercises: params.getAll("exercise").filter(Boolean),
+    muscleGroups: params.getAll("muscle").filter((group): group is MuscleGroup =>
+      MUSCLE_GROUPS.includes(group as MuscleGroup)
+    ),
+    minWeight: number("minWeight"),
+    minReps: number("minReps"),
+    sort: LOG_SORTS.some((option) => option.value === sort) ? (sort as LogSort) : EMPTY_LOG_FILTER.sort,
+  };
+};
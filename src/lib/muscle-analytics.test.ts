@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCatalogIndex, type CatalogExercise } from "@/lib/exercise-catalog";
+import {
+  acuteChronicWorkload,
+  balanceRatio,
+  BALANCE_RATIOS,
+  DEFAULT_MUSCLE_SET_TARGETS,
+  parseMuscleSetTargets,
+  targetStatus,
+  weeklyMuscleSets,
+  workloadHistory,
+  workloadZone,
+} from "@/lib/muscle-analytics";
+import { entry, session, set } from "@/lib/test-fixtures";
+
+const catalog: CatalogExercise[] = [
+  {
+    id: "bench-press",
+    name: "Bench Press",
+    aliases: ["Bench"],
+    muscleGroups: ["chest", "triceps", "shoulders"],
+    equipment: "barbell",
+  },
+  { id: "back-squat", name: "Back Squat", aliases: [], muscleGroups: ["quads", "glutes"], equipment: "barbell" },
+  { id: "burpee", name: "Burpee", aliases: [], muscleGroups: ["full body"], equipment: "bodyweight" },
+];
+
+const index = buildCatalogIndex(catalog);
+
+const working = (count: number) => Array.from({ length: count }, () => set({ reps: 5, weight: 100 }));
+
+describe("weeklyMuscleSets", () => {
+  // 2026-03-09 is a Monday.
+  const workouts = [
+    session("2026-03-02", [entry("Bench Press", working(1))]),
+    session("2026-03-10", [
+      entry("Bench", [set({ type: "warmup", reps: 10, weight: 40 }), ...working(3)]),
+      entry("Back Squat", working(2)),
+      entry("Burpee", working(4)),
+      entry("Cable Fly", working(3)),
+    ]),
+    session("2026-03-16", [entry("Bench Press", working(5))]),
+  ];
+
+  it("counts working sets fully for the main muscle group and half for the others", () => {
+    expect(weeklyMuscleSets(workouts, index, "2026-03-09")).toMatchObject({
+      chest: 3,
+      triceps: 1.5,
+      shoulders: 1.5,
+      quads: 2,
+      glutes: 1,
+      back: 0,
+    });
+  });
+
+  it("averages over several weeks", () => {
+    expect(weeklyMuscleSets(workouts, index, "2026-03-09", 2)).toMatchObject({ chest: 2, quads: 1 });
+  });
+});
+
+describe("targets and balance", () => {
+  it("reads stored targets, putting ranges in order and defaulting invalid groups", () => {
+    expect(parseMuscleSetTargets(null)).toEqual(DEFAULT_MUSCLE_SET_TARGETS);
+    expect(parseMuscleSetTargets({ chest: { min: 20, max: 12 }, back: { min: -1, max: 5 }, calves: "lots" })).toEqual({
+      ...DEFAULT_MUSCLE_SET_TARGETS,
+      chest: { min: 12, max: 20 },
+    });
+  });
+
+  it("places a set count below, within or above its range", () => {
+    const range = { min: 10, max: 20 };
+    expect([9, 10, 20, 20.5].map((sets) => targetStatus(sets, range))).toEqual(["below", "within", "within", "above"]);
+  });
+
+  it("has no ratio until the denominator side was trained", () => {
+    const [pushPull] = BALANCE_RATIOS;
+    const sets = weeklyMuscleSets([session("2026-03-10", [entry("Bench", working(4))])], index, "2026-03-09");
+    expect(balanceRatio(sets, pushPull)).toBeNull();
+    expect(balanceRatio({ ...sets, back: 3, biceps: 1 }, pushPull)).toBe(2);
+  });
+});
+
+describe("acuteChronicWorkload", () => {
+  // Each session moves 500 kg.
+  const workouts = ["2026-02-20", "2026-03-03", "2026-03-10", "2026-03-27", "2026-03-29"].map((date) =>
+    session(date, [entry("Back Squat", working(1))])
+  );
+
+  it("compares the last 7 days with the weekly average of the last 28", () => {
+    const point = acuteChronicWorkload(workouts, "2026-03-28");
+    expect(point).toMatchObject({ date: "2026-03-28", acute: 500, chronic: 375 });
+    expect(point.ratio).toBeCloseTo(4 / 3);
+    expect(workloadZone(point.ratio ?? 0)).toBe("caution");
+    expect(acuteChronicWorkload(workouts, "2026-02-01").ratio).toBeNull();
+  });
+
+  it("sorts ratios into zones", () => {
+    expect([0.5, 0.8, 1.29, 1.5, 3].map(workloadZone)).toEqual(["low", "optimal", "optimal", "spike", "spike"]);
+  });
+
+  it("samples the end of each week, ending today", () => {
+    expect(workloadHistory(workouts, "2026-03-18", 3).map((point) => point.date)).toEqual([
+      "2026-03-08",
+      "2026-03-15",
+      "2026-03-18",
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { resolveCatalogEntry, type CatalogIndex, type MuscleGroup } from "@/lib/exercise-catalog";
+import { addDays, sessionVolume, startOfWeek } from "@/lib/progress";
+import { isRecord } from "@/lib/validation";
+import type { WorkoutSession } from "@/lib/workouts";
+
+/** Muscle groups with weekly set targets; "full body" and "cardio" are too broad to count sets against. */
+export const TRACKED_MUSCLE_GROUPS = [
+  "chest",
+  "back",
+  "shoulders",
+  "biceps",
+  "triceps",
+  "forearms",
+  "core",
+  "quads",
+  "hamstrings",
+  "glutes",
+  "calves",
+] as const satisfies readonly MuscleGroup[];
+
+export type TrackedMuscleGroup = (typeof TRACKED_MUSCLE_GROUPS)[number];
+
+export type SetRange = { min: number; max: number };
+
+export type MuscleSetTargets = Record<TrackedMuscleGroup, SetRange>;
+
+// Common hypertrophy guidelines: roughly 10-20 hard sets a week for large groups, fewer for small ones.
+export const DEFAULT_MUSCLE_SET_TARGETS: MuscleSetTargets = {
+  chest: { min: 10, max: 20 },
+  back: { min: 10, max: 20 },
+  shoulders: { min: 8, max: 16 },
+  biceps: { min: 6, max: 14 },
+  triceps: { min: 6, max: 14 },
+  forearms: { min: 4, max: 10 },
+  core: { min: 6, max: 12 },
+  quads: { min: 10, max: 20 },
+  hamstrings: { min: 8, max: 16 },
+  glutes: { min: 8, max: 16 },
+  calves: { min: 6, max: 12 },
+};
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/** Reads stored targets, falling back to the defaults for any group missing or invalid. */
+export const parseMuscleSetTargets = (value: unknown): MuscleSetTargets => {
+  const stored = isRecord(value) ? value : {};
+  return Object.fromEntries(
+    TRACKED_MUSCLE_GROUPS.map((group) => {
+      const range = stored[group];
+      if (!isRecord(range) || !isCount(range.min) || !isCount(range.max)) {
+        return [group, DEFAULT_MUSCLE_SET_TARGETS[group]];
+      }
+      return [group, { min: Math.min(range.min, range.max), max: Math.max(range.min, range.max) }];
+    })
+  ) as MuscleSetTargets;
+};
+
+const isTracked = (group: MuscleGroup): group is TrackedMuscleGroup =>
+  (TRACKED_MUSCLE_GROUPS as readonly MuscleGroup[]).includes(group);
+
+const emptyCounts = () =>
+  Object.fromEntries(TRACKED_MUSCLE_GROUPS.map((group) => [group, 0])) as Record<TrackedMuscleGroup, number>;
+
+/**
+ * Working sets per muscle group per week, averaged over `weeks` Monday-based
+ * weeks ending with the one starting `lastWeek`. A set counts fully towards
+ * the first muscle group its catalog entry lists and half towards the others;
+ * warm-ups and exercises missing from the catalog are not counted.
+ */
+export const weeklyMuscleSets = (workouts: WorkoutSession[], index: CatalogIndex, lastWeek: string, weeks = 1) => {
+  const counts = emptyCounts();
+  const from = addDays(lastWeek, -7 * (weeks - 1));
+  const to = addDays(lastWeek, 6);
+  workouts.forEach((session) => {
+    if (session.date < from || session.date > to) return;
+    session.exercises.forEach((exercise) => {
+      const entry = resolveCatalogEntry(index, exercise.name, exercise.exerciseId);
+      if (!entry) return;
+      const sets = exercise.sets.filter((set) => set.type !== "warmup").length;
+      entry.muscleGroups.forEach((group, position) => {
+        if (isTracked(group)) counts[group] += position === 0 ? sets : sets / 2;
+      });
+    });
+  });
+  TRACKED_MUSCLE_GROUPS.forEach((group) => {
+    counts[group] /= weeks;
+  });
+  return counts;
+};
+
+export type TargetStatus = "below" | "within" | "above";
+
+export const targetStatus = (sets: number, range: SetRange): TargetStatus =>
+  sets < range.min ? "below" : sets > range.max ? "above" : "within";
+
+export type BalanceRatio = {
+  id: "push-pull" | "quad-hamstring";
+  label: string;
+  numerator: TrackedMuscleGroup[];
+  denominator: TrackedMuscleGroup[];
+  // The ratio range considered balanced.
+  balanced: { min: number; max: number };
+};
+
+export const BALANCE_RATIOS: BalanceRatio[] = [
+  {
+    id: "push-pull",
+    label: "Push : pull",
+    numerator: ["chest", "shoulders", "triceps"],
+    denominator: ["back", "biceps"],
+    balanced: { min: 0.67, max: 1.5 },
+  },
+  {
+    id: "quad-hamstring",
+    label: "Quad : hamstring",
+    numerator: ["quads"],
+    denominator: ["hamstrings"],
+    balanced: { min: 0.8, max: 2 },
+  },
+];
+
+/** A ratio between summed set counts, or null when the denominator side was not trained. */
+export const balanceRatio = (sets: Record<TrackedMuscleGroup, number>, ratio: BalanceRatio) => {
+  const sum = (groups: TrackedMuscleGroup[]) => groups.reduce((total, group) => total + sets[group], 0);
+  const denominator = sum(ratio.denominator);
+  return denominator > 0 ? sum(ratio.numerator) / denominator : null;
+};
+
+export type WorkloadZone = "low" | "optimal" | "caution" | "spike";
+
+export const WORKLOAD_ZONES: { value: WorkloadZone; label: string; max: number }[] = [
+  { value: "low", label: "Detraining", max: 0.8 },
+  { value: "optimal", label: "Sweet spot", max: 1.3 },
+  { value: "caution", label: "Elevated", max: 1.5 },
+  { value: "spike", label: "Spike", max: Infinity },
+];
+
+export const workloadZone = (ratio: number): WorkloadZone =>
+  (WORKLOAD_ZONES.find((zone) => ratio < zone.max) ?? WORKLOAD_ZONES[WORKLOAD_ZONES.length - 1]).value;
+
+export type WorkloadPoint = {
+  date: string;
+  acute: number; // volume over the 7 days ending on `date`
+  chronic: number; // average weekly volume over the 28 days ending on `date`
+  ratio: number | null; // null until there is chronic load to compare against
+};
+
+/**
+ * Acute:chronic workload ratio from session volume, the rolling 7-day load
+ * against the rolling 4-week weekly average. Values well above 1 flag a
+ * sudden jump in training load. Expects sessions converted to one unit.
+ */
+export const acuteChronicWorkload = (workouts: WorkoutSession[], date: string): WorkloadPoint => {
+  let acute = 0;
+  let chronicTotal = 0;
+  const acuteFrom = addDays(date, -6);
+  const chronicFrom = addDays(date, -27);
+  workouts.forEach((session) => {
+    if (session.date > date || session.date < chronicFrom) return;
+    const volume = sessionVolume(session);
+    chronicTotal += volume;
+    if (session.date >= acuteFrom) acute += volume;
+  });
+  const chronic = chronicTotal / 4;
+  return { date, acute, chronic, ratio: chronic > 0 ? acute / chronic : null };
+};
+
+/** The workload ratio at the end of each of the last `weeks` weeks, the current week ending today. */
+export const workloadHistory = (workouts: WorkoutSession[], today: string, weeks = 12): WorkloadPoint[] => {
+  const weekEnd = addDays(startOfWeek(today), 6);
+  return Array.from({ length: weeks }, (_, offset) => {
+    const date = offset === weeks - 1 ? today : addDays(weekEnd, -7 * (weeks - 1 - offset));
+    return acuteChronicWorkload(workouts, date);
+  });
+};
@@ -0,0 +1,123 @@
+import { createId } from "@/lib/ids";
+import { withPendingChanges, type SyncRequest, type SyncResult } from "@/lib/workout-sync";
+import * as workoutsApi from "@/lib/workouts-api";
+import type { WorkoutSession } from "@/lib/workouts";
+
+/**
+ * Where the page keeps its copy of an account's log. Changes are recorded
+ * locally first and reach the server on `sync`, so the log works offline.
+ */
+export type WorkoutStorage = {
+  /** Sessions as last seen on this device, changes not yet synced included. */
+  cached: () => Promise<WorkoutSession[]>;
+  /** How many sessions have changes waiting for the server. */
+  pendingCount: () => Promise<number>;
+  /** Saves sessions and removes ids for good; resolves with the saved sessions as stored, with a fresh updatedAt. */
+  record: (sessions: WorkoutSession[], removedIds: string[]) => Promise<WorkoutSession[]>;
+  /** Pushes waiting changes and returns the merged log; rejects while the server is out of reach. */
+  sync: () => Promise<SyncResult & { pending: number }>;
+};
+
+// One database per account so a shared device keeps each person's log apart.
+const DB_VERSION = 1;
+const WORKOUTS = "workouts";
+const QUEUE = "queue";
+
+/**
+ * The latest unsynced change per session id: a new copy, or a permanent
+ * delete. A later change to the same session replaces the queued one.
+ */
+type QueuedChange = { id: string; changeId: string } & ({ session: WorkoutSession } | { deletedAt: string });
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const toSyncRequest = (changes: QueuedChange[]): SyncRequest => ({
+  upserts: changes.flatMap((change) => ("session" in change ? [change.session] : [])),
+  deletions: changes.flatMap((change) => ("deletedAt" in change ? [{ id: change.id, deletedAt: change.deletedAt }] : [])),
+});
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(WORKOUTS, { keyPath: "id" });
+      request.result.createObjectStore(QUEUE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * A `WorkoutStorage` in IndexedDB: the device's copy of an account's log plus
+ * a queue holding the latest unsynced change per session.
+ */
+export const createOfflineWorkouts = (userId: string): WorkoutStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => (database ??= openDatabase(`workout-tracker:${userId}`));
+
+  return {
+    cached: async () => {
+      const db = await open();
+      return settle(db.transaction(WORKOUTS).objectStore(WORKOUTS).getAll() as IDBRequest<WorkoutSession[]>);
+    },
+
+    pendingCount: async () => {
+      const db = await open();
+      return settle(db.transaction(QUEUE).objectStore(QUEUE).count());
+    },
+
+    // The local copy and the queue change in one transaction.
+    record: async (sessions: WorkoutSession[], removedIds: string[]) => {
+      const now = new Date().toISOString();
+      const stamped = sessions.map((session) => ({ ...session, updatedAt: now }));
+      const db = await open();
+      const transaction = db.transaction([WORKOUTS, QUEUE], "readwrite");
+      const workouts = transaction.objectStore(WORKOUTS);
+      const queue = transaction.objectStore(QUEUE);
+      stamped.forEach((session) => {
+        workouts.put(session);
+        queue.put({ id: session.id, changeId: createId(), session } satisfies QueuedChange);
+      });
+      removedIds.forEach((id) => {
+        workouts.delete(id);
+        queue.put({ id, changeId: createId(), deletedAt: now } satisfies QueuedChange);
+      });
+      await completion(transaction);
+      return stamped;
+    },
+
+    // A failed push leaves the queue for the next try.
+    sync: async () => {
+      const db = await open();
+      const sent = await settle(db.transaction(QUEUE).objectStore(QUEUE).getAll() as IDBRequest<QueuedChange[]>);
+      const result = await workoutsApi.syncWorkouts(toSyncRequest(sent));
+
+      const transaction = db.transaction([WORKOUTS, QUEUE], "readwrite");
+      const workouts = transaction.objectStore(WORKOUTS);
+      const queue = transaction.objectStore(QUEUE);
+      const sentChanges = new Set(sent.map((change) => change.changeId));
+      const queued = await settle(queue.getAll() as IDBRequest<QueuedChange[]>);
+      const pending = queued.filter((change) => !sentChanges.has(change.changeId));
+      queued.forEach((change) => {
+        if (sentChanges.has(change.changeId)) queue.delete(change.id);
+      });
+
+      const merged = withPendingChanges(result.workouts, toSyncRequest(pending));
+      workouts.clear();
+      merged.forEach((session) => workouts.put(session));
+      await completion(transaction);
+      return { workouts: merged, conflicts: result.conflicts, pending: pending.length };
+    },
+  };
+};
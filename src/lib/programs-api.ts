@@ -0,0 +1,12 @@
+import { createCollectionClient } from "@/lib/api-client";
+import type { TrainingProgram } from "@/lib/programs";
+
+const client = createCollectionClient<TrainingProgram>("/api/programs", "programs", "program");
+
+export const fetchPrograms = client.list;
+
+export const createPrograms = client.create;
+
+export const updateProgram = client.update;
+
+export const deleteProgram = client.remove;
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  programAdherence,
+  programEndDate,
+  programSchedule,
+  validateTrainingProgram,
+  type TrainingProgram,
+} from "@/lib/programs";
+import type { WorkoutSession } from "@/lib/workouts";
+
+// Starts on a Wednesday, so week 1 is the week of Monday 2026-03-02.
+const PROGRAM: TrainingProgram = {
+  id: "p1",
+  name: "Spring",
+  startDate: "2026-03-04",
+  unit: "kg",
+  trainingMaxes: [{ name: "Back Squat", weight: 180 }],
+  blocks: [
+    {
+      id: "b1",
+      name: "Volume",
+      weeks: [
+        { id: "w1", percentOffset: 0, deload: false },
+        { id: "w2", percentOffset: 5, deload: false },
+      ],
+      days: [
+        {
+          id: "thu",
+          weekday: 3,
+          title: "Pull",
+          exercises: [{ id: "e3", name: "Row", sets: 4, reps: 10 }],
+        },
+        {
+          id: "mon",
+          weekday: 0,
+          title: "Squat",
+          exercises: [{ id: "e1", name: "back squat", sets: 5, reps: 5, percent: 70 }],
+        },
+      ],
+    },
+    {
+      id: "b2",
+      name: "Deload",
+      weeks: [{ id: "w3", percentOffset: 0, deload: true }],
+      days: [{ id: "mon2", weekday: 0, title: "", exercises: [{ id: "e4", name: "Back Squat", sets: 5, reps: 5, percent: 70 }] }],
+    },
+  ],
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+};
+
+const loggedSession = (id: string, date: string, planned: WorkoutSession["planned"], sets: number): WorkoutSession => ({
+  id,
+  date,
+  createdAt: `${date}T18:00:00.000Z`,
+  planned,
+  exercises: [
+    {
+      id: `${id}-squat`,
+      name: "Back Squat",
+      kind: "weighted",
+      sets: [
+        { id: `${id}-warmup`, type: "warmup", reps: 5, weight: 60, unit: "kg" },
+        ...Array.from({ length: sets }, (_, index) => ({
+          id: `${id}-${index}`,
+          type: "working" as const,
+          reps: 5,
+          weight: 125,
+          unit: "kg" as const,
+        })),
+      ],
+    },
+  ],
+});
+
+describe("programSchedule", () => {
+  const schedule = programSchedule(PROGRAM);
+
+  it("lays the days out week by week across blocks, in weekday order", () => {
+    expect(schedule.map((day) => [day.week, day.date, day.dayId])).toEqual([
+      [1, "2026-03-02", "mon"],
+      [1, "2026-03-05", "thu"],
+      [2, "2026-03-09", "mon"],
+      [2, "2026-03-12", "thu"],
+      [3, "2026-03-16", "mon2"],
+    ]);
+    expect(programEndDate(PROGRAM)).toBe("2026-03-22");
+  });
+
+  it("loads from the training max with each week's offset, rounded to the plate step", () => {
+    expect(schedule[0].exercises[0]).toMatchObject({ sets: 5, reps: 5, percent: 70, weight: 125, unit: "kg" });
+    expect(schedule[2].exercises[0]).toMatchObject({ percent: 75, weight: 135 });
+  });
+
+  it("leaves exercises without a percentage or training max unloaded", () => {
+    expect(schedule[1].exercises[0]).toMatchObject({ name: "Row", sets: 4, reps: 10 });
+    expect(schedule[1].exercises[0].weight).toBeUndefined();
+  });
+
+  it("halves the sets and lightens the load in deload weeks", () => {
+    expect(schedule[4]).toMatchObject({ deload: true, blockName: "Deload" });
+    expect(schedule[4].exercises[0]).toMatchObject({ sets: 3, percent: 56, weight: 100 });
+  });
+});
+
+describe("programAdherence", () => {
+  const workouts = [
+    loggedSession("s1", "2026-03-02", { programId: "p1", dayId: "mon", week: 1 }, 5),
+    // Logged a day late and one set short.
+    loggedSession("s2", "2026-03-10", { programId: "p1", dayId: "mon", week: 2 }, 4),
+    // Trashed sessions and sessions from other programs do not count.
+    { ...loggedSession("s3", "2026-03-05", { programId: "p1", dayId: "thu", week: 1 }, 4), deletedAt: "2026-03-06T00:00:00Z" },
+    loggedSession("s4", "2026-03-12", { programId: "other", dayId: "thu", week: 2 }, 4),
+    loggedSession("s5", "2026-03-12", undefined, 4),
+  ];
+  const adherence = programAdherence(PROGRAM, workouts, "2026-03-12");
+
+  it("marks days done, missed or still planned", () => {
+    expect(adherence.days.map((entry) => entry.status)).toEqual(["done", "missed", "done", "upcoming", "upcoming"]);
+    expect(adherence).toMatchObject({ done: 2, missed: 1, upcoming: 2 });
+    expect(adherence.days[2].session?.id).toBe("s2");
+  });
+
+  it("compares performed working sets and volume with the plan", () => {
+    expect(adherence.days[2]).toMatchObject({ plannedSets: 5, performedSets: 4, plannedVolume: 3375, performedVolume: 2500 });
+    expect(adherence.setCompletion).toBeCloseTo(0.9);
+  });
+
+  it("has no set completion before anything was done", () => {
+    expect(programAdherence(PROGRAM, [], "2026-03-01").setCompletion).toBeNull();
+  });
+});
+
+describe("validateTrainingProgram", () => {
+  it("accepts a complete program", () => {
+    expect(validateTrainingProgram(PROGRAM)).toEqual({ ok: true, value: PROGRAM });
+  });
+
+  it("rejects two days on one weekday, bad percentages and empty blocks", () => {
+    const [block] = PROGRAM.blocks;
+    const sameDay = { ...PROGRAM, blocks: [{ ...block, days: [block.days[1], { ...block.days[0], weekday: 0 }] }] };
+    expect(validateTrainingProgram(sameDay)).toEqual({ ok: false, reason: "Volume has two days on the same weekday" });
+    const day = { ...block.days[1], exercises: [{ ...block.days[1].exercises[0], percent: 0 }] };
+    expect(validateTrainingProgram({ ...PROGRAM, blocks: [{ ...block, days: [day] }] }).ok).toBe(false);
+    expect(validateTrainingProgram({ ...PROGRAM, blocks: [{ ...block, weeks: [] }] }).ok).toBe(false);
+    expect(validateTrainingProgram({ ...PROGRAM, trainingMaxes: [{ name: "Squat", weight: -1 }] }).ok).toBe(false);
+  });
+
+  it("rejects a week offset that takes a percentage to zero or below", () => {
+    const [block] = PROGRAM.blocks;
+    const weeks = [...block.weeks, { id: "w9", percentOffset: -70, deload: true }];
+    const lowered = { ...PROGRAM, blocks: [{ ...block, weeks }] };
+    expect(validateTrainingProgram(lowered)).toEqual({
+      ok: false,
+      reason: "week 3 of Volume takes back squat to 0% or below",
+    });
+    const eased = { ...PROGRAM, blocks: [{ ...block, weeks: [{ id: "w9", percentOffset: -20, deload: false }] }] };
+    expect(validateTrainingProgram(eased).ok).toBe(true);
+  });
+});
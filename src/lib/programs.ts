@@ -0,0 +1,341 @@
+import { normalizeExerciseName } from "@/lib/exercise-catalog";
+import { addDays, startOfWeek } from "@/lib/progress";
+import { isWeightUnit, roundTo, setVolume, type WeightUnit } from "@/lib/units";
+import { fail, isFiniteNumber, isNonEmptyString, isPositiveInteger, isRecord } from "@/lib/validation";
+import { isISODate, type PlannedSessionLink, type ValidationResult, type WorkoutSession } from "@/lib/workouts";
+
+/** The load percentages of an exercise are taken from; usually a little under the true 1RM. */
+export type TrainingMax = {
+  name: string;
+  weight: number; // in the program's unit
+};
+
+export type ProgramExercise = {
+  id: string;
+  name: string;
+  notes?: string;
+  sets: number;
+  reps: number;
+  // Percentage of the exercise's training max; exercises without one (accessories) are loaded by feel.
+  percent?: number;
+};
+
+export type ProgramDay = {
+  id: string;
+  weekday: number; // 0 = Monday … 6 = Sunday
+  title: string;
+  exercises: ProgramExercise[];
+};
+
+export type ProgramWeek = {
+  id: string;
+  // Percentage points added to every prescription that week, e.g. 0, 5, 10 for a three-week wave.
+  percentOffset: number;
+  deload: boolean;
+};
+
+/** A block repeats its days every week, with each week's offset applied. */
+export type ProgramBlock = {
+  id: string;
+  name: string;
+  days: ProgramDay[];
+  weeks: ProgramWeek[];
+};
+
+export type TrainingProgram = {
+  id: string;
+  name: string;
+  // Week 1 is the Monday-to-Sunday week containing this date; blocks follow each other without gaps.
+  startDate: string;
+  unit: WeightUnit;
+  trainingMaxes: TrainingMax[];
+  blocks: ProgramBlock[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Deload weeks keep every exercise but halve the sets (rounded up) and lighten the load.
+export const DELOAD_LOAD_FACTOR = 0.8;
+
+// Prescribed loads are rounded to what can be put on a bar.
+export const LOAD_STEP: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+const MAX_PERCENT = 150;
+
+// Validates every item of a list with `validate`, stopping at the first failure.
+const validateList = <T>(values: unknown[], validate: (value: unknown) => ValidationResult<T>): ValidationResult<T[]> => {
+  const items: T[] = [];
+  for (const candidate of values) {
+    const item = validate(candidate);
+    if (!item.ok) return item;
+    items.push(item.value);
+  }
+  return { ok: true, value: items };
+};
+
+const validateProgramExercise = (value: unknown): ValidationResult<ProgramExercise> => {
+  if (!isRecord(value)) return fail("program exercise must be an object");
+  if (!isNonEmptyString(value.id)) return fail("program exercise is missing an id");
+  if (!isNonEmptyString(value.name)) return fail(`program exercise ${value.id} needs a name`);
+  if (!isPositiveInteger(value.sets) || !isPositiveInteger(value.reps)) {
+    return fail(`${value.name} needs a whole number of sets and reps`);
+  }
+  if (value.percent != null && (!isFiniteNumber(value.percent) || value.percent <= 0 || value.percent > MAX_PERCENT)) {
+    return fail(`${value.name} has a training max percentage outside 1-${MAX_PERCENT}`);
+  }
+  if (value.notes != null && typeof value.notes !== "string") return fail(`${value.name} has invalid notes`);
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name,
+      notes: typeof value.notes === "string" && value.notes ? value.notes : undefined,
+      sets: value.sets,
+      reps: value.reps,
+      percent: isFiniteNumber(value.percent) ? value.percent : undefined,
+    },
+  };
+};
+
+const validateProgramDay = (value: unknown): ValidationResult<ProgramDay> => {
+  if (!isRecord(value)) return fail("program day must be an object");
+  if (!isNonEmptyString(value.id)) return fail("program day is missing an id");
+  if (typeof value.weekday !== "number" || !Number.isInteger(value.weekday) || value.weekday < 0 || value.weekday > 6) {
+    return fail(`program day ${value.id} needs a weekday`);
+  }
+  if (typeof value.title !== "string") return fail(`program day ${value.id} has an invalid title`);
+  if (!Array.isArray(value.exercises) || value.exercises.length === 0) {
+    return fail(`${value.title || `program day ${value.id}`} needs at least one exercise`);
+  }
+  const exercises = validateList(value.exercises, validateProgramExercise);
+  if (!exercises.ok) return exercises;
+  return { ok: true, value: { id: value.id, weekday: value.weekday, title: value.title, exercises: exercises.value } };
+};
+
+const validateProgramWeek = (value: unknown): ValidationResult<ProgramWeek> => {
+  if (!isRecord(value)) return fail("program week must be an object");
+  if (!isNonEmptyString(value.id)) return fail("program week is missing an id");
+  if (!isFiniteNumber(value.percentOffset)) return fail(`program week ${value.id} has an invalid percentage offset`);
+  if (typeof value.deload !== "boolean") return fail(`program week ${value.id} must say whether it is a deload`);
+  return { ok: true, value: { id: value.id, percentOffset: value.percentOffset, deload: value.deload } };
+};
+
+const validateProgramBlock = (value: unknown): ValidationResult<ProgramBlock> => {
+  if (!isRecord(value)) return fail("program block must be an object");
+  if (!isNonEmptyString(value.id)) return fail("program block is missing an id");
+  if (!isNonEmptyString(value.name)) return fail(`program block ${value.id} needs a name`);
+  if (!Array.isArray(value.weeks) || value.weeks.length === 0) return fail(`${value.name} needs at least one week`);
+  if (!Array.isArray(value.days) || value.days.length === 0) return fail(`${value.name} needs at least one training day`);
+  const weeks = validateList(value.weeks, validateProgramWeek);
+  if (!weeks.ok) return weeks;
+  const days = validateList(value.days, validateProgramDay);
+  if (!days.ok) return days;
+  if (new Set(days.value.map((day) => day.weekday)).size !== days.value.length) {
+    return fail(`${value.name} has two days on the same weekday`);
+  }
+  // An offset may lower a week's loads, but never to nothing or below.
+  for (const [index, week] of weeks.value.entries()) {
+    const emptied = days.value
+      .flatMap((day) => day.exercises)
+      .find((exercise) => exercise.percent != null && exercise.percent + week.percentOffset <= 0);
+    if (emptied) return fail(`week ${index + 1} of ${value.name} takes ${emptied.name} to 0% or below`);
+  }
+  return { ok: true, value: { id: value.id, name: value.name, days: days.value, weeks: weeks.value } };
+};
+
+const validateTrainingMax = (value: unknown): ValidationResult<TrainingMax> => {
+  if (!isRecord(value) || !isNonEmptyString(value.name)) return fail("training max needs an exercise name");
+  if (!isFiniteNumber(value.weight) || value.weight <= 0) return fail(`training max for ${value.name} must be above zero`);
+  return { ok: true, value: { name: value.name, weight: value.weight } };
+};
+
+export const validateTrainingProgram = (value: unknown): ValidationResult<TrainingProgram> => {
+  if (!isRecord(value)) return fail("program must be an object");
+  if (!isNonEmptyString(value.id)) return fail("program is missing an id");
+  if (!isNonEmptyString(value.name)) return fail(`program ${value.id} needs a name`);
+  if (typeof value.startDate !== "string" || !isISODate(value.startDate)) {
+    return fail(`${value.name} needs a yyyy-mm-dd start date`);
+  }
+  if (!isWeightUnit(value.unit)) return fail(`${value.name} has an unknown unit`);
+  if (typeof value.createdAt !== "string" || typeof value.updatedAt !== "string") {
+    return fail(`program ${value.id} is missing timestamps`);
+  }
+  if (!Array.isArray(value.trainingMaxes)) return fail(`${value.name} has no training max list`);
+  if (!Array.isArray(value.blocks) || value.blocks.length === 0) return fail(`${value.name} needs at least one block`);
+  const trainingMaxes = validateList(value.trainingMaxes, validateTrainingMax);
+  if (!trainingMaxes.ok) return trainingMaxes;
+  const blocks = validateList(value.blocks, validateProgramBlock);
+  if (!blocks.ok) return blocks;
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name,
+      startDate: value.startDate,
+      unit: value.unit,
+      trainingMaxes: trainingMaxes.value,
+      blocks: blocks.value,
+      createdAt: value.createdAt,
+      updatedAt: value.updatedAt,
+    },
+  };
+};
+
+export const parseTrainingProgram = (value: unknown): TrainingProgram | null => {
+  const result = validateTrainingProgram(value);
+  return result.ok ? result.value : null;
+};
+
+export type PlannedExercise = {
+  name: string;
+  notes?: string;
+  sets: number;
+  reps: number;
+  // The week's effective percentage and the load it works out to; both are missing for exercises loaded by feel.
+  percent?: number;
+  weight?: number;
+  unit: WeightUnit;
+};
+
+/** One scheduled session of a program on a concrete date. */
+export type PlannedDay = PlannedSessionLink & {
+  date: string;
+  weekday: number;
+  title: string;
+  blockName: string;
+  deload: boolean;
+  exercises: PlannedExercise[];
+};
+
+export const programWeekCount = (program: Pick<TrainingProgram, "blocks">) =>
+  program.blocks.reduce((sum, block) => sum + block.weeks.length, 0);
+
+const planExercise = (
+  exercise: ProgramExercise,
+  week: ProgramWeek,
+  program: TrainingProgram,
+  trainingMaxes: Map<string, number>
+): PlannedExercise => {
+  const trainingMax = trainingMaxes.get(normalizeExerciseName(exercise.name));
+  const percent =
+    exercise.percent != null
+      ? (exercise.percent + week.percentOffset) * (week.deload ? DELOAD_LOAD_FACTOR : 1)
+      : undefined;
+  return {
+    name: exercise.name,
+    notes: exercise.notes,
+    sets: week.deload ? Math.ceil(exercise.sets / 2) : exercise.sets,
+    reps: exercise.reps,
+    percent,
+    weight:
+      percent != null && trainingMax != null
+        ? roundTo((trainingMax * percent) / 100, LOAD_STEP[program.unit])
+        : undefined,
+    unit: program.unit,
+  };
+};
+
+/** Every session the program schedules, in date order, with loads worked out from the training maxes. */
+export const programSchedule = (program: TrainingProgram): PlannedDay[] => {
+  const trainingMaxes = new Map(program.trainingMaxes.map((max) => [normalizeExerciseName(max.name), max.weight]));
+  const firstMonday = startOfWeek(program.startDate);
+  let weekIndex = 0;
+  return program.blocks.flatMap((block) =>
+    block.weeks.flatMap((week) => {
+      const weekStart = addDays(firstMonday, weekIndex * 7);
+      weekIndex += 1;
+      return [...block.days]
+        .sort((a, b) => a.weekday - b.weekday)
+        .map((day) => ({
+          programId: program.id,
+          dayId: day.id,
+          week: weekIndex,
+          date: addDays(weekStart, day.weekday),
+          weekday: day.weekday,
+          title: day.title,
+          blockName: block.name,
+          deload: week.deload,
+          exercises: day.exercises.map((exercise) => planExercise(exercise, week, program, trainingMaxes)),
+        }));
+    })
+  );
+};
+
+export const programEndDate = (program: TrainingProgram) =>
+  addDays(startOfWeek(program.startDate), programWeekCount(program) * 7 - 1);
+
+export const plannedDayLabel = (day: Pick<PlannedDay, "week" | "title">) =>
+  `Week ${day.week}${day.title ? ` · ${day.title}` : ""}`;
+
+/** "5/3/1 · Week 2 · Squat day" for a session's plan link, or null once the program or day is gone. */
+export const describePlannedLink = (programs: TrainingProgram[], link: PlannedSessionLink) => {
+  const program = programs.find((candidate) => candidate.id === link.programId);
+  const day = program?.blocks.flatMap((block) => block.days).find((candidate) => candidate.id === link.dayId);
+  return program && day ? `${program.name} · ${plannedDayLabel({ week: link.week, title: day.title })}` : null;
+};
+
+export const isSamePlannedDay = (a: PlannedSessionLink, b: PlannedSessionLink) =>
+  a.programId === b.programId && a.dayId === b.dayId && a.week === b.week;
+
+export type PlannedDayStatus = "done" | "missed" | "upcoming";
+
+export type DayAdherence = {
+  day: PlannedDay;
+  status: PlannedDayStatus;
+  // The latest session logged against this day, if any.
+  session?: WorkoutSession;
+  plannedSets: number;
+  performedSets: number;
+  plannedVolume: number;
+  performedVolume: number;
+};
+
+export type ProgramAdherence = {
+  days: DayAdherence[];
+  done: number;
+  missed: number;
+  upcoming: number;
+  // Performed over planned working sets, across the days that were done; null before any were.
+  setCompletion: number | null;
+};
+
+const plannedVolume = (exercises: PlannedExercise[]) =>
+  exercises.reduce((sum, exercise) => sum + exercise.sets * exercise.reps * (exercise.weight ?? 0), 0);
+
+/**
+ * Planned versus performed for every day of a program. A day counts as done
+ * once a session that links back to it is logged, whatever date it was
+ * logged on; days before `today` without one are missed.
+ */
+export const programAdherence = (
+  program: TrainingProgram,
+  workouts: WorkoutSession[],
+  today: string
+): ProgramAdherence => {
+  const linked = workouts
+    .filter((session) => !session.deletedAt && session.planned?.programId === program.id)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const days = programSchedule(program).map((day): DayAdherence => {
+    const session = linked.findLast((candidate) => candidate.planned && isSamePlannedDay(candidate.planned, day));
+    const performed = session?.exercises.flatMap((exercise) => exercise.sets.filter((set) => set.type !== "warmup")) ?? [];
+    return {
+      day,
+      status: session ? "done" : day.date < today ? "missed" : "upcoming",
+      session,
+      plannedSets: day.exercises.reduce((sum, exercise) => sum + exercise.sets, 0),
+      performedSets: performed.length,
+      plannedVolume: plannedVolume(day.exercises),
+      performedVolume: performed.reduce((sum, set) => sum + setVolume(set, program.unit), 0),
+    };
+  });
+  const completed = days.filter((entry) => entry.status === "done");
+  const plannedSets = completed.reduce((sum, entry) => sum + entry.plannedSets, 0);
+  return {
+    days,
+    done: completed.length,
+    missed: days.filter((entry) => entry.status === "missed").length,
+    upcoming: days.filter((entry) => entry.status === "upcoming").length,
+    setCompletion:
+      plannedSets > 0 ? completed.reduce((sum, entry) => sum + entry.performedSets, 0) / plannedSets : null,
+  };
+};
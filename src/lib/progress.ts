@@ -0,0 +1,100 @@
+import { estimateOneRepMax, exerciseKey, type OneRepMaxFormula } from "@/lib/records";
+import { setVolume } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+export type DateRange = {
+  from?: string; // inclusive ISO date
+  to?: string; // inclusive ISO date
+};
+
+export type ExerciseProgressPoint = {
+  date: string;
+  sessionId: string;
+  topSetWeight: number;
+  oneRepMax: number;
+  volume: number;
+};
+
+export type WeeklyVolumePoint = {
+  weekStart: string; // ISO date of the Monday starting the week
+  volume: number;
+  sessions: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUTCDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const toISO = (date: Date) => date.toISOString().slice(0, 10);
+
+export const startOfWeek = (iso: string) => {
+  const date = toUTCDate(iso);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return toISO(new Date(date.getTime() - daysSinceMonday * DAY_MS));
+};
+
+export const addDays = (iso: string, days: number) => toISO(new Date(toUTCDate(iso).getTime() + days * DAY_MS));
+
+/** Total volume of a session in the units its sets are expressed in; warm-ups are excluded. */
+export const sessionVolume = (session: WorkoutSession) =>
+  session.exercises.reduce(
+    (sum, exercise) => sum + exercise.sets.reduce((acc, set) => acc + setVolume(set, set.unit), 0),
+    0
+  );
+
+export const isWithinRange = (iso: string, range: DateRange) =>
+  (!range.from || iso >= range.from) && (!range.to || iso <= range.to);
+
+/**
+ * One point per session that included the exercise, oldest first. Sessions
+ * where the exercise was only done without load are skipped.
+ */
+export const exerciseProgress = (
+  workouts: WorkoutSession[],
+  name: string,
+  formula: OneRepMaxFormula,
+  range: DateRange = {}
+): ExerciseProgressPoint[] =>
+  workouts
+    .filter((session) => isWithinRange(session.date, range))
+    .map((session) => {
+      const sets = session.exercises.filter((exercise) => exerciseKey(exercise) === name).flatMap((e) => e.sets);
+      let topSetWeight = 0;
+      let oneRepMax = 0;
+      let volume = 0;
+      sets.forEach((set) => {
+        if (set.type === "warmup" || set.reps == null) return;
+        const weight = set.weight ?? 0;
+        topSetWeight = Math.max(topSetWeight, weight);
+        oneRepMax = Math.max(oneRepMax, estimateOneRepMax(weight, set.reps, formula));
+        volume += weight * set.reps;
+      });
+      return { date: session.date, sessionId: session.id, topSetWeight, oneRepMax, volume };
+    })
+    .filter((point) => point.topSetWeight > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Total volume per Monday-based week across all exercises. Weeks without
+ * training inside the covered span are included as zero so gaps stay visible.
+ */
+export const weeklyVolume = (workouts: WorkoutSession[], range: DateRange = {}): WeeklyVolumePoint[] => {
+  const weeks = new Map<string, WeeklyVolumePoint>();
+  workouts
+    .filter((session) => isWithinRange(session.date, range))
+    .forEach((session) => {
+      const weekStart = startOfWeek(session.date);
+      const point = weeks.get(weekStart) ?? { weekStart, volume: 0, sessions: 0 };
+      point.sessions += 1;
+      point.volume += sessionVolume(session);
+      weeks.set(weekStart, point);
+    });
+
+  if (weeks.size === 0) return [];
+  const keys = Array.from(weeks.keys()).sort();
+  const points: WeeklyVolumePoint[] = [];
+  for (let week = keys[0]; week <= keys[keys.length - 1]; week = addDays(week, 7)) {
+    points.push(weeks.get(week) ?? { weekStart: week, volume: 0, sessions: 0 });
+  }
+  return points;
+};
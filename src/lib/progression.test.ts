@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_PROGRESSION,
+  describeSet,
+  exerciseHistory,
+  parseProgressionSettings,
+  suggestProgression,
+  type PreviousPerformance,
+} from "@/lib/progression";
+import { entry, session, set } from "@/lib/test-fixtures";
+import type { WorkoutSet } from "@/lib/workouts";
+
+// Newest first, as exerciseHistory returns them.
+const performances = (...sessions: WorkoutSet[][]): PreviousPerformance[] =>
+  sessions.map((sets, index) => ({ date: `2026-03-${20 - index}`, sessionId: `s${index}`, sets }));
+
+const linear = { ...DEFAULT_PROGRESSION, rule: "linear" as const };
+
+describe("exerciseHistory", () => {
+  it("lists sessions with the exercise newest first, keeping only working sets with reps", () => {
+    const workouts = [
+      session("2026-03-02", [
+        entry("Bench Press", [set({ type: "warmup", reps: 10, weight: 40 }), set({ reps: 5, weight: 100 })]),
+      ]),
+      session("2026-03-09", [entry("Squat", [set({ reps: 5, weight: 140 })])], { createdAt: "2026-03-09T08:00:00.000Z" }),
+      session("2026-03-09", [entry("  bench PRESS", [set({ reps: 5, weight: 102.5 }), set({ durationSeconds: 30 })])], {
+        createdAt: "2026-03-09T18:00:00.000Z",
+      }),
+    ];
+    const history = exerciseHistory(workouts, "Bench Press");
+    expect(history.map((performance) => [performance.date, performance.sets.map((logged) => logged.weight)])).toEqual([
+      ["2026-03-09", [102.5]],
+      ["2026-03-02", [100]],
+    ]);
+    expect(exerciseHistory(workouts, " ")).toEqual([]);
+  });
+});
+
+describe("suggestProgression", () => {
+  it("has nothing to suggest without history", () => {
+    expect(suggestProgression([], DEFAULT_PROGRESSION)).toBeNull();
+  });
+
+  it("adds a rep per set within the range under double progression", () => {
+    const last = [set({ reps: 10, weight: 80 }), set({ reps: 12, weight: 80 })];
+    const suggestion = suggestProgression(performances(last), DEFAULT_PROGRESSION);
+    expect(suggestion).toEqual({
+      reason: "Add a rep per set, working towards 12",
+      sets: [
+        { reps: 11, weight: 80, unit: "kg" },
+        { reps: 12, weight: 80, unit: "kg" },
+      ],
+    });
+  });
+
+  it("adds load in the set's own unit and restarts the range once every set reaches the top", () => {
+    const suggestion = suggestProgression(
+      performances([set({ reps: 12, weight: 80 }), set({ reps: 12, weight: 185, unit: "lb" })]),
+      DEFAULT_PROGRESSION
+    );
+    expect(suggestion?.reason).toBe("All sets reached 12 reps — add load and restart at 8");
+    expect(suggestion?.sets).toEqual([
+      { reps: 8, weight: 82.5, unit: "kg" },
+      { reps: 8, weight: 190, unit: "lb" },
+    ]);
+  });
+
+  it("deloads to the nearest increment after enough missed sessions in a row", () => {
+    const missed = set({ reps: 6, weight: 102.5 });
+    const history = performances([missed], [missed], [missed], [set({ reps: 8, weight: 100 })]);
+    expect(suggestProgression(history, DEFAULT_PROGRESSION)).toEqual({
+      reason: "Deload 10% after 3 missed sessions",
+      sets: [{ reps: 8, weight: 92.5, unit: "kg" }],
+    });
+    expect(suggestProgression(performances([missed], [missed]), DEFAULT_PROGRESSION)?.reason).toBe(
+      "Add a rep per set, working towards 12"
+    );
+  });
+
+  it("adds load after a session that hit the target and repeats it otherwise under linear progression", () => {
+    expect(suggestProgression(performances([set({ reps: 8, weight: 100 })]), linear)).toEqual({
+      reason: "Add load after a successful session",
+      sets: [{ reps: 8, weight: 102.5, unit: "kg" }],
+    });
+    expect(suggestProgression(performances([set({ reps: 7, weight: 100 })]), linear)).toEqual({
+      reason: "Repeat the load until every set reaches the target reps",
+      sets: [{ reps: 7, weight: 100, unit: "kg" }],
+    });
+  });
+
+  it("only adds reps to sets without load", () => {
+    expect(suggestProgression(performances([set({ reps: 12 })]), linear)).toEqual({
+      reason: "Add a rep to each set",
+      sets: [{ reps: 13, weight: undefined, unit: "kg" }],
+    });
+    expect(suggestProgression(performances([set({ reps: 12 })]), DEFAULT_PROGRESSION)?.sets).toEqual([
+      { reps: 13, weight: undefined, unit: "kg" },
+    ]);
+  });
+});
+
+describe("parseProgressionSettings", () => {
+  it("falls back to the defaults for missing or invalid values", () => {
+    expect(parseProgressionSettings(null)).toEqual(DEFAULT_PROGRESSION);
+    expect(
+      parseProgressionSettings({ rule: "wave", increment: { kg: -1, lb: 10 }, deloadAfterMisses: 0, deloadPercent: 100 })
+    ).toEqual({ ...DEFAULT_PROGRESSION, increment: { kg: 2.5, lb: 10 } });
+  });
+
+  it("keeps the rep range in order", () => {
+    expect(parseProgressionSettings({ repsMin: 15, repsMax: 5.4 })).toMatchObject({ repsMin: 5, repsMax: 15 });
+  });
+});
+
+describe("describeSet", () => {
+  it("shows the load when there is one and the reps otherwise", () => {
+    expect(describeSet({ reps: 5, weight: 100, unit: "kg" })).toBe("100 kg × 5");
+    expect(describeSet({ reps: 12, weight: 0, unit: "kg" })).toBe("12 reps");
+  });
+});
@@ -0,0 +1,169 @@
+import { normalizeExerciseName } from "@/lib/exercise-catalog";
+import { formatWeight, roundTo, type WeightUnit } from "@/lib/units";
+import { isRecord } from "@/lib/validation";
+import type { ExerciseEntry, WorkoutSession, WorkoutSet } from "@/lib/workouts";
+
+export type ProgressionRule = "linear" | "double";
+
+export const PROGRESSION_RULES: { value: ProgressionRule; label: string }[] = [
+  { value: "linear", label: "Linear load increase" },
+  { value: "double", label: "Double progression" },
+];
+
+export type ProgressionSettings = {
+  rule: ProgressionRule;
+  // Load added after a successful session, per unit so pounds get sensible plates.
+  increment: Record<WeightUnit, number>;
+  repsMin: number;
+  repsMax: number;
+  // Consecutive sessions below repsMin before the load drops by deloadPercent.
+  deloadAfterMisses: number;
+  deloadPercent: number;
+};
+
+export const DEFAULT_PROGRESSION: ProgressionSettings = {
+  rule: "double",
+  increment: { kg: 2.5, lb: 5 },
+  repsMin: 8,
+  repsMax: 12,
+  deloadAfterMisses: 3,
+  deloadPercent: 10,
+};
+
+const isPositive = (value: unknown): value is number => typeof value === "number" && value > 0;
+
+/** Reads stored settings, falling back to the defaults for anything missing or invalid. */
+export const parseProgressionSettings = (value: unknown): ProgressionSettings => {
+  if (!isRecord(value)) return DEFAULT_PROGRESSION;
+  const increment = isRecord(value.increment) ? value.increment : {};
+  const repsMin = isPositive(value.repsMin) ? Math.round(value.repsMin) : DEFAULT_PROGRESSION.repsMin;
+  const repsMax = isPositive(value.repsMax) ? Math.round(value.repsMax) : DEFAULT_PROGRESSION.repsMax;
+  return {
+    rule: value.rule === "linear" || value.rule === "double" ? value.rule : DEFAULT_PROGRESSION.rule,
+    increment: {
+      kg: isPositive(increment.kg) ? increment.kg : DEFAULT_PROGRESSION.increment.kg,
+      lb: isPositive(increment.lb) ? increment.lb : DEFAULT_PROGRESSION.increment.lb,
+    },
+    repsMin: Math.min(repsMin, repsMax),
+    repsMax: Math.max(repsMin, repsMax),
+    deloadAfterMisses: isPositive(value.deloadAfterMisses)
+      ? Math.round(value.deloadAfterMisses)
+      : DEFAULT_PROGRESSION.deloadAfterMisses,
+    deloadPercent:
+      isPositive(value.deloadPercent) && value.deloadPercent < 100
+        ? value.deloadPercent
+        : DEFAULT_PROGRESSION.deloadPercent,
+  };
+};
+
+export type PreviousPerformance = {
+  date: string;
+  sessionId: string;
+  sets: WorkoutSet[];
+};
+
+const workingSets = (exercise: ExerciseEntry) =>
+  exercise.sets.filter((set) => set.type !== "warmup" && set.reps != null);
+
+/**
+ * Sessions that included the exercise, newest first, with that session's
+ * working sets. Expects canonicalized workouts so aliases match.
+ */
+export const exerciseHistory = (workouts: WorkoutSession[], name: string): PreviousPerformance[] => {
+  const key = normalizeExerciseName(name);
+  if (!key) return [];
+  return [...workouts]
+    .sort((a, b) => (a.date === b.date ? b.createdAt.localeCompare(a.createdAt) : a.date < b.date ? 1 : -1))
+    .flatMap((session) => {
+      const sets = session.exercises
+        .filter((exercise) => normalizeExerciseName(exercise.name) === key)
+        .flatMap(workingSets);
+      return sets.length > 0 ? [{ date: session.date, sessionId: session.id, sets }] : [];
+    });
+};
+
+export type SetSuggestion = {
+  reps: number;
+  weight?: number;
+  unit: WeightUnit;
+};
+
+export type ProgressionSuggestion = {
+  reason: string;
+  sets: SetSuggestion[];
+};
+
+const missedSession = (performance: PreviousPerformance, settings: ProgressionSettings) =>
+  performance.sets.some((set) => (set.reps ?? 0) < settings.repsMin);
+
+const repeat = (performance: PreviousPerformance): SetSuggestion[] =>
+  performance.sets.map((set) => ({ reps: set.reps ?? 0, weight: set.weight, unit: set.unit }));
+
+/**
+ * Next targets based on the most recent session. Sets without load only
+ * progress in reps, since there is nothing to add weight to.
+ */
+export const suggestProgression = (
+  history: PreviousPerformance[],
+  settings: ProgressionSettings
+): ProgressionSuggestion | null => {
+  const [last] = history;
+  if (!last) return null;
+
+  let misses = 0;
+  while (misses < history.length && missedSession(history[misses], settings)) misses += 1;
+  const loaded = last.sets.some((set) => (set.weight ?? 0) > 0);
+
+  if (loaded && misses >= settings.deloadAfterMisses) {
+    return {
+      reason: `Deload ${settings.deloadPercent}% after ${misses} missed sessions`,
+      sets: last.sets.map((set) => ({
+        reps: settings.repsMin,
+        weight:
+          set.weight != null
+            ? roundTo(set.weight * (1 - settings.deloadPercent / 100), settings.increment[set.unit])
+            : undefined,
+        unit: set.unit,
+      })),
+    };
+  }
+
+  const topOfRange = last.sets.every((set) => (set.reps ?? 0) >= settings.repsMax);
+  const hitTarget = misses === 0;
+
+  if (settings.rule === "linear") {
+    if (!hitTarget) {
+      return { reason: "Repeat the load until every set reaches the target reps", sets: repeat(last) };
+    }
+    return {
+      reason: loaded ? "Add load after a successful session" : "Add a rep to each set",
+      sets: last.sets.map((set) =>
+        set.weight != null && set.weight > 0
+          ? { reps: set.reps ?? settings.repsMin, weight: set.weight + settings.increment[set.unit], unit: set.unit }
+          : { reps: (set.reps ?? 0) + 1, weight: set.weight, unit: set.unit }
+      ),
+    };
+  }
+
+  if (topOfRange && loaded) {
+    return {
+      reason: `All sets reached ${settings.repsMax} reps — add load and restart at ${settings.repsMin}`,
+      sets: last.sets.map((set) => ({
+        reps: settings.repsMin,
+        weight: set.weight != null ? set.weight + settings.increment[set.unit] : undefined,
+        unit: set.unit,
+      })),
+    };
+  }
+  return {
+    reason: `Add a rep per set, working towards ${settings.repsMax}`,
+    sets: last.sets.map((set) => ({
+      reps: loaded ? Math.min((set.reps ?? 0) + 1, settings.repsMax) : (set.reps ?? 0) + 1,
+      weight: set.weight,
+      unit: set.unit,
+    })),
+  };
+};
+
+export const describeSet = (set: { reps?: number; weight?: number; unit: WeightUnit }) =>
+  set.weight != null && set.weight !== 0 ? `${formatWeight(set.weight, set.unit)} × ${set.reps ?? 0}` : `${set.reps ?? 0} reps`;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCatalogIndex, canonicalizeWorkouts, type CatalogExercise } from "@/lib/exercise-catalog";
+import { findNewRecords } from "@/lib/records";
+import { entry, session, set } from "@/lib/test-fixtures";
+import { convertWorkouts } from "@/lib/units";
+import type { WorkoutSession } from "@/lib/workouts";
+
+const catalog: CatalogExercise[] = [
+  { id: "bench", name: "Bench Press", aliases: ["Flat Bench"], muscleGroups: ["chest"], equipment: "barbell" },
+];
+
+const index = buildCatalogIndex(catalog);
+
+// Mirrors saving in the editor: the log and the new session are both compared in the display unit under canonical names.
+const recordsOnSave = (workouts: WorkoutSession[], saved: WorkoutSession) =>
+  findNewRecords(
+    canonicalizeWorkouts(convertWorkouts(workouts, "kg"), index),
+    canonicalizeWorkouts(convertWorkouts([saved], "kg"), index)[0],
+    "epley"
+  );
+
+describe("findNewRecords", () => {
+  const history = [session("2026-04-01", [entry("Bench Press", [set({ reps: 5, weight: 100 })])])];
+
+  it("reports a heavier lift saved under an alias against the canonical history", () => {
+    const saved = session("2026-04-08", [entry("Flat Bench", [set({ reps: 5, weight: 105 })])]);
+    const hits = recordsOnSave(history, saved);
+    expect(hits.map((hit) => hit.kind)).toEqual(["weight", "volume", "oneRepMax"]);
+    expect(hits.every((hit) => hit.exercise === "Bench Press")).toBe(true);
+  });
+
+  it("compares rep records for an alias with differently spaced text", () => {
+    const saved = session("2026-04-08", [entry("flat  bench", [set({ reps: 8, weight: 100 })])]);
+    expect(recordsOnSave(history, saved)).toContainEqual({ exercise: "Bench Press", kind: "reps", value: 8, weight: 100 });
+  });
+
+  it("ignores exercises without earlier history", () => {
+    const saved = session("2026-04-08", [entry("Overhead Press", [set({ reps: 5, weight: 60 })])]);
+    expect(recordsOnSave(history, saved)).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { ExerciseEntry, WorkoutSession } from "@/lib/workouts";
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const ONE_REP_MAX_FORMULAS: { value: OneRepMaxFormula; label: string }[] = [
+  { value: "epley", label: "Epley" },
+  { value: "brzycki", label: "Brzycki" },
+];
+
+export type RecordKind = "weight" | "reps" | "volume" | "oneRepMax";
+
+export type RecordHit = {
+  exercise: string;
+  kind: RecordKind;
+  value: number;
+  // Only set for rep records, which are tracked per weight.
+  weight?: number;
+};
+
+type RecordSource = {
+  sessionId: string;
+  date: string;
+};
+
+export type ExerciseRecords = {
+  heaviest: (RecordSource & { weight: number; reps: number }) | null;
+  bestRepsByWeight: Map<number, RecordSource & { reps: number }>;
+  bestSessionVolume: (RecordSource & { volume: number }) | null;
+  bestOneRepMax: (RecordSource & { value: number; weight: number; reps: number }) | null;
+};
+
+/**
+ * Estimates a one-rep max from a set. Both formulas lose accuracy past ~10
+ * reps; Brzycki is undefined from 37 reps on, so those sets are ignored.
+ */
+export const estimateOneRepMax = (weight: number, reps: number, formula: OneRepMaxFormula) => {
+  if (!(weight > 0) || !(reps > 0)) return 0;
+  if (reps === 1) return weight;
+  if (formula === "brzycki") {
+    return reps >= 37 ? 0 : (weight * 36) / (37 - reps);
+  }
+  return weight * (1 + reps / 30);
+};
+
+export const exerciseKey = (exercise: ExerciseEntry) => exercise.name.trim() || "Unnamed Exercise";
+
+const emptyRecords = (): ExerciseRecords => ({
+  heaviest: null,
+  bestRepsByWeight: new Map(),
+  bestSessionVolume: null,
+  bestOneRepMax: null,
+});
+
+const chronological = (workouts: WorkoutSession[]) =>
+  [...workouts].sort((a, b) => (a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date < b.date ? -1 : 1));
+
+type SessionBests = {
+  heaviest: { weight: number; reps: number } | null;
+  repsByWeight: Map<number, number>;
+  volume: number;
+  oneRepMax: { value: number; weight: number; reps: number } | null;
+};
+
+// The same exercise may appear more than once in a session, so bests are combined per name.
+const collectSessionBests = (session: WorkoutSession, formula: OneRepMaxFormula) => {
+  const bests = new Map<string, SessionBests>();
+  session.exercises.forEach((exercise) => {
+    const key = exerciseKey(exercise);
+    const entry = bests.get(key) ?? { heaviest: null, repsByWeight: new Map(), volume: 0, oneRepMax: null };
+    bests.set(key, entry);
+
+    exercise.sets.forEach((set) => {
+      // Warm-ups, unloaded sets and timed or distance-only sets never set strength records.
+      if (set.type === "warmup" || set.reps == null || set.weight == null || set.weight <= 0) return;
+      entry.volume += set.weight * set.reps;
+      if (!entry.heaviest || set.weight > entry.heaviest.weight) {
+        entry.heaviest = { weight: set.weight, reps: set.reps };
+      }
+      entry.repsByWeight.set(set.weight, Math.max(entry.repsByWeight.get(set.weight) ?? 0, set.reps));
+      const oneRepMax = estimateOneRepMax(set.weight, set.reps, formula);
+      if (oneRepMax > 0 && (!entry.oneRepMax || oneRepMax > entry.oneRepMax.value)) {
+        entry.oneRepMax = { value: oneRepMax, weight: set.weight, reps: set.reps };
+      }
+    });
+  });
+  return bests;
+};
+
+/**
+ * Folds one session into the running records and returns the records it
+ * broke. Only exercises with earlier history can produce hits, otherwise
+ * every first session would count as a PR.
+ */
+const applySession = (
+  records: Map<string, ExerciseRecords>,
+  session: WorkoutSession,
+  formula: OneRepMaxFormula
+): RecordHit[] => {
+  const hits: RecordHit[] = [];
+  const source: RecordSource = { sessionId: session.id, date: session.date };
+
+  collectSessionBests(session, formula).forEach((bests, key) => {
+    const record = records.get(key) ?? emptyRecords();
+    records.set(key, record);
+
+    if (bests.heaviest && (!record.heaviest || bests.heaviest.weight > record.heaviest.weight)) {
+      if (record.heaviest) hits.push({ exercise: key, kind: "weight", value: bests.heaviest.weight });
+      record.heaviest = { ...source, ...bests.heaviest };
+    }
+
+    bests.repsByWeight.forEach((reps, weight) => {
+      const best = record.bestRepsByWeight.get(weight);
+      if (!best || reps > best.reps) {
+        if (best) hits.push({ exercise: key, kind: "reps", value: reps, weight });
+        record.bestRepsByWeight.set(weight, { ...source, reps });
+      }
+    });
+
+    if (bests.volume > 0 && (!record.bestSessionVolume || bests.volume > record.bestSessionVolume.volume)) {
+      if (record.bestSessionVolume) hits.push({ exercise: key, kind: "volume", value: bests.volume });
+      record.bestSessionVolume = { ...source, volume: bests.volume };
+    }
+
+    if (bests.oneRepMax && (!record.bestOneRepMax || bests.oneRepMax.value > record.bestOneRepMax.value)) {
+      if (record.bestOneRepMax) hits.push({ exercise: key, kind: "oneRepMax", value: bests.oneRepMax.value });
+      record.bestOneRepMax = { ...source, ...bests.oneRepMax };
+    }
+  });
+
+  return hits;
+};
+
+/** Current personal records per exercise name across the whole log. */
+export const computeRecords = (workouts: WorkoutSession[], formula: OneRepMaxFormula) => {
+  const records = new Map<string, ExerciseRecords>();
+  chronological(workouts).forEach((session) => applySession(records, session, formula));
+  return records;
+};
+
+/** Records each session broke at the time it was performed, keyed by session id. */
+export const recordHitsBySession = (workouts: WorkoutSession[], formula: OneRepMaxFormula) => {
+  const records = new Map<string, ExerciseRecords>();
+  const hitsBySession = new Map<string, RecordHit[]>();
+  chronological(workouts).forEach((session) => {
+    const hits = applySession(records, session, formula);
+    if (hits.length > 0) hitsBySession.set(session.id, hits);
+  });
+  return hitsBySession;
+};
+
+/** Records a new session would break if it were added after every existing session. */
+export const findNewRecords = (
+  workouts: WorkoutSession[],
+  session: WorkoutSession,
+  formula: OneRepMaxFormula
+) => {
+  const records = computeRecords(workouts, formula);
+  return applySession(records, session, formula);
+};
+
+const RECORD_LABELS: Record<RecordKind, string> = {
+  weight: "heaviest weight",
+  reps: "most reps",
+  volume: "session volume",
+  oneRepMax: "estimated 1RM",
+};
+
+export const describeRecordHit = (hit: RecordHit, unit: WeightUnit) => {
+  switch (hit.kind) {
+    case "reps":
+      return `${hit.exercise}: ${RECORD_LABELS.reps} at ${formatWeight(hit.weight ?? 0, unit)} (${hit.value})`;
+    default:
+      return `${hit.exercise}: ${RECORD_LABELS[hit.kind]} ${formatWeight(hit.value, unit)}`;
+  }
+};
@@ -0,0 +1,117 @@
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import { createCollectionStore } from "@/lib/server/collection-store";
+import { userStore, type StoredUser } from "@/lib/server/user-store";
+import { AUTH_SESSION_SCHEMA } from "@/lib/storage-schema";
+import type { ValidationResult } from "@/lib/workouts";
+
+type AuthSession = {
+  // SHA-256 of the cookie token; the token itself is never written to disk.
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const validateAuthSession = (value: unknown): ValidationResult<AuthSession> => {
+  const session = value as Partial<AuthSession> | null;
+  if (
+    typeof session !== "object" ||
+    session === null ||
+    typeof session.id !== "string" ||
+    typeof session.userId !== "string" ||
+    typeof session.createdAt !== "string" ||
+    typeof session.expiresAt !== "string"
+  ) {
+    return { ok: false, reason: "invalid sign-in session" };
+  }
+  const { id, userId, createdAt, expiresAt } = session;
+  return { ok: true, value: { id, userId, createdAt, expiresAt } };
+};
+
+const sessionStore = createCollectionStore({
+  fileName: "auth-sessions.json",
+  schema: AUTH_SESSION_SCHEMA,
+  validate: validateAuthSession,
+});
+
+export const SESSION_COOKIE = "workout-session";
+
+const SESSION_DAYS = 30;
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const isExpired = (session: AuthSession, now: Date) => new Date(session.expiresAt).getTime() <= now.getTime();
+
+/** Signs the user in on `response` with a fresh session cookie. */
+export const startSession = async (request: Request, response: NextResponse, userId: string) => {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  // Signing in is rare enough to double as the sweep for expired sessions.
+  await sessionStore.removeWhere((session) => isExpired(session, now));
+  await sessionStore.create([
+    { id: hashToken(token), userId, createdAt: now.toISOString(), expiresAt: expiresAt.toISOString() },
+  ]);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    // Plain http is normal for a tracker on localhost or the home network.
+    secure: new URL(request.url).protocol === "https:",
+    path: "/",
+    expires: expiresAt,
+  });
+  return response;
+};
+
+export const endSession = async (response: NextResponse) => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) await sessionStore.remove(hashToken(token));
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+};
+
+/** The account signed in on this request, or null. */
+export const currentUser = async (): Promise<StoredUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const id = hashToken(token);
+  const session = (await sessionStore.list()).find((candidate) => candidate.id === id);
+  if (!session || isExpired(session, new Date())) return null;
+  return (await userStore.list()).find((user) => user.id === session.userId) ?? null;
+};
+
+export const unauthorizedResponse = () => NextResponse.json({ error: "Sign in to continue." }, { status: 401 });
+
+export const requireUser = async (): Promise<{ ok: true; user: StoredUser } | { ok: false; response: NextResponse }> => {
+  const user = await currentUser();
+  return user ? { ok: true, user } : { ok: false, response: unauthorizedResponse() };
+};
+
+/** The account `user` reads when asking for `athleteId`'s data: their own, a shared athlete's, or null if not allowed. */
+export const readableUserId = async (user: StoredUser, athleteId: string | null) => {
+  if (!athleteId || athleteId === user.id) return user.id;
+  const athlete = (await userStore.list()).find((candidate) => candidate.id === athleteId);
+  return user.role === "coach" && athlete?.sharedWith.includes(user.id) ? athlete.id : null;
+};
+
+/**
+ * Whose data a read is for. By default the signed-in user's own; with
+ * `?athlete=<id>` a coach reads an athlete who has shared with them.
+ */
+export const requireReader = async (
+  request: Request
+): Promise<{ ok: true; userId: string } | { ok: false; response: NextResponse }> => {
+  const auth = await requireUser();
+  if (!auth.ok) return auth;
+
+  const userId = await readableUserId(auth.user, new URL(request.url).searchParams.get("athlete"));
+  if (!userId) {
+    return { ok: false, response: NextResponse.json({ error: "That athlete has not shared with you." }, { status: 403 }) };
+  }
+  return { ok: true, userId };
+};
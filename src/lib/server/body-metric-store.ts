@@ -0,0 +1,18 @@
+import { parseBodyMetricEntry, validateBodyMetricEntry } from "@/lib/body-metrics";
+import { createCollectionRoutes } from "@/lib/server/collection-routes";
+import { createUserCollectionStore } from "@/lib/server/collection-store";
+import { BODY_METRIC_SCHEMA } from "@/lib/storage-schema";
+
+export const bodyMetricStoreFor = createUserCollectionStore({
+  fileName: "body-metrics.json",
+  schema: BODY_METRIC_SCHEMA,
+  validate: validateBodyMetricEntry,
+});
+
+export const bodyMetricRoutes = createCollectionRoutes({
+  storeFor: bodyMetricStoreFor,
+  parse: parseBodyMetricEntry,
+  key: "entries",
+  itemKey: "entry",
+  label: "body metric entry",
+});
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+
+import { requireReader, requireUser } from "@/lib/server/auth";
+import type { CollectionStore } from "@/lib/server/collection-store";
+
+type IdContext = {
+  params: Promise<{ id: string }>;
+};
+
+type CollectionRouteOptions<T extends { id: string }> = {
+  // Each account has its own copy of the collection.
+  storeFor: (userId: string) => CollectionStore<T>;
+  parse: (value: unknown) => T | null;
+  // Response property names, e.g. "workouts" for lists and "workout" for single records.
+  key: string;
+  itemKey: string;
+  label: string;
+};
+
+export const readJsonBody = async (request: Request): Promise<{ ok: true; body: unknown } | { ok: false }> => {
+  try {
+    return { ok: true, body: await request.json() };
+  } catch {
+    return { ok: false };
+  }
+};
+
+export const invalidJsonResponse = () =>
+  NextResponse.json({ error: "Request body must be valid JSON." }, { status: 400 });
+
+/**
+ * Route handlers for a collection: GET/POST for `/api/<name>` and PUT/DELETE
+ * for `/api/<name>/[id]`. POST accepts one record or an array and ignores ids
+ * that already exist, which lets clients replay a create safely. Every
+ * handler needs a signed-in user; GET also serves `?athlete=<id>` to coaches
+ * the athlete has shared with, while writes only ever touch the caller's own data.
+ */
+export const createCollectionRoutes = <T extends { id: string }>({
+  storeFor,
+  parse,
+  key,
+  itemKey,
+  label,
+}: CollectionRouteOptions<T>) => {
+  const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+
+  return {
+    GET: async (request: Request) => {
+      const reader = await requireReader(request);
+      if (!reader.ok) return reader.response;
+      return NextResponse.json({ [key]: await storeFor(reader.userId).list() });
+    },
+
+    POST: async (request: Request) => {
+      const auth = await requireUser();
+      if (!auth.ok) return auth.response;
+      const json = await readJsonBody(request);
+      if (!json.ok) return invalidJsonResponse();
+
+      const candidates = Array.isArray(json.body) ? json.body : [json.body];
+      const records = candidates.map(parse);
+      if (records.length === 0 || records.some((record) => record === null)) {
+        return NextResponse.json({ error: `Invalid ${label} payload.` }, { status: 400 });
+      }
+
+      const created = await storeFor(auth.user.id).create(records as T[]);
+      return NextResponse.json({ [key]: created }, { status: 201 });
+    },
+
+    PUT: async (request: Request, { params }: IdContext) => {
+      const auth = await requireUser();
+      if (!auth.ok) return auth.response;
+      const { id } = await params;
+      const json = await readJsonBody(request);
+      if (!json.ok) return invalidJsonResponse();
+
+      const record = parse(json.body);
+      if (!record) {
+        return NextResponse.json({ error: `Invalid ${label} payload.` }, { status: 400 });
+      }
+      if (record.id !== id) {
+        return NextResponse.json({ error: `${capitalized} id does not match the request path.` }, { status: 400 });
+      }
+
+      const updated = await storeFor(auth.user.id).update(record);
+      if (!updated) {
+        return NextResponse.json({ error: `${capitalized} not found.` }, { status: 404 });
+      }
+      return NextResponse.json({ [itemKey]: updated });
+    },
+
+    DELETE: async (_request: Request, { params }: IdContext) => {
+      const auth = await requireUser();
+      if (!auth.ok) return auth.response;
+      const { id } = await params;
+      const removed = await storeFor(auth.user.id).remove(id);
+      if (!removed) {
+        return NextResponse.json({ error: `${capitalized} not found.` }, { status: 404 });
+      }
+      return new NextResponse(null, { status: 204 });
+    },
+  };
+};
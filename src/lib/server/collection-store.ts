@@ -0,0 +1,181 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { loadCollection, type QuarantinedRecord, type StorageSchema } from "@/lib/storage-schema";
+import type { ValidationResult } from "@/lib/workouts";
+
+export const DATA_DIR = process.env.WORKOUT_DATA_DIR ?? path.join(process.cwd(), "data");
+
+// Every mutation across all collections is chained onto this promise so
+// concurrent requests never interleave their read-modify-write cycles.
+let queue: Promise<unknown> = Promise.resolve();
+
+export const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+export const readJsonFile = async (file: string): Promise<unknown> => {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as unknown;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+};
+
+export const writeJsonFile = async (file: string, value: unknown) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tempFile, file);
+};
+
+type CollectionOptions<T> = {
+  fileName: string;
+  schema: StorageSchema;
+  validate: (value: unknown) => ValidationResult<T>;
+  // Records to start with when the file does not exist yet.
+  seed?: T[];
+};
+
+/**
+ * A versioned JSON file under DATA_DIR holding records keyed by `id`. Older
+ * files are backed up and migrated on first read; records that fail
+ * validation are moved to a quarantine file next to it instead of being lost.
+ */
+export const createCollectionStore = <T extends { id: string }>({
+  fileName,
+  schema,
+  validate,
+  seed,
+}: CollectionOptions<T>) => {
+  const file = path.join(DATA_DIR, fileName);
+  const folder = path.dirname(file);
+  const baseName = path.basename(fileName, ".json");
+  const quarantineFile = path.join(folder, `${baseName}.quarantine.json`);
+
+  const readQuarantine = async (): Promise<QuarantinedRecord[]> => {
+    const stored = await readJsonFile(quarantineFile);
+    return Array.isArray(stored) ? (stored as QuarantinedRecord[]) : [];
+  };
+
+  const backUp = async (version: number) => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const backupFile = path.join(folder, "backups", `${baseName}.v${version}.${stamp}.json`);
+    await fs.mkdir(path.dirname(backupFile), { recursive: true });
+    await fs.copyFile(file, backupFile);
+  };
+
+  const writeAll = (records: T[]) => writeJsonFile(file, { schemaVersion: schema.version, records });
+
+  const readAll = async (): Promise<T[]> => {
+    const stored = await readJsonFile(file);
+    if (stored === undefined) return seed ?? [];
+
+    const loaded = loadCollection(stored, schema, validate);
+    const migrated = loaded.fromVersion < schema.version;
+    if (migrated) await backUp(loaded.fromVersion);
+    if (loaded.quarantined.length > 0) {
+      await writeJsonFile(quarantineFile, [...(await readQuarantine()), ...loaded.quarantined]);
+    }
+    if (migrated || loaded.quarantined.length > 0) await writeAll(loaded.records);
+    return loaded.records;
+  };
+
+  return {
+    list: () => serialize(readAll),
+
+    /** Records that failed validation on load, with the reason and when they were set aside. */
+    quarantined: () =>
+      serialize(async () => {
+        // Loading first makes sure anything the current file would quarantine is already listed.
+        await readAll();
+        return readQuarantine();
+      }),
+
+    /** Inserts records, skipping any whose id is already stored. */
+    create: (records: T[]) =>
+      serialize(async () => {
+        const existing = await readAll();
+        const known = new Set(existing.map((record) => record.id));
+        const created = records.filter((record) => {
+          if (known.has(record.id)) return false;
+          known.add(record.id);
+          return true;
+        });
+        if (created.length > 0) {
+          await writeAll([...existing, ...created]);
+        }
+        return created;
+      }),
+
+    /** Inserts new records and replaces stored records that share an id. */
+    upsert: (records: T[]) =>
+      serialize(async () => {
+        const byId = new Map((await readAll()).map((record) => [record.id, record]));
+        records.forEach((record) => byId.set(record.id, record));
+        await writeAll(Array.from(byId.values()));
+        return records;
+      }),
+
+    update: (record: T) =>
+      serialize(async () => {
+        const existing = await readAll();
+        const index = existing.findIndex((candidate) => candidate.id === record.id);
+        if (index === -1) return null;
+        const next = [...existing];
+        next[index] = record;
+        await writeAll(next);
+        return record;
+      }),
+
+    remove: (id: string) =>
+      serialize(async () => {
+        const existing = await readAll();
+        const next = existing.filter((record) => record.id !== id);
+        if (next.length === existing.length) return false;
+        await writeAll(next);
+        return true;
+      }),
+
+    /** Removes every record matching the predicate in one write and returns them. */
+    removeWhere: (predicate: (record: T) => boolean) =>
+      serialize(async () => {
+        const existing = await readAll();
+        const removed = existing.filter(predicate);
+        if (removed.length > 0) await writeAll(existing.filter((record) => !predicate(record)));
+        return removed;
+      }),
+
+    /**
+     * Runs a read-modify-write in one step: `change` returns the new record list and a result to hand back.
+     * Nothing else touches the data folder until it settles, so `change` may do related file work of its own.
+     */
+    modify: <R>(change: (records: T[]) => { records: T[]; result: R } | Promise<{ records: T[]; result: R }>) =>
+      serialize(async () => {
+        const { records, result } = await change(await readAll());
+        await writeAll(records);
+        return result;
+      }),
+  };
+};
+
+export type CollectionStore<T extends { id: string }> = ReturnType<typeof createCollectionStore<T>>;
+
+/**
+ * One collection per account, each in its own folder: `data/users/<id>/<fileName>`.
+ * Stores are created on first use and reused afterwards.
+ */
+export const createUserCollectionStore = <T extends { id: string }>(options: CollectionOptions<T>) => {
+  const stores = new Map<string, CollectionStore<T>>();
+  return (userId: string) => {
+    let store = stores.get(userId);
+    if (!store) {
+      store = createCollectionStore({ ...options, fileName: path.join("users", userId, options.fileName) });
+      stores.set(userId, store);
+    }
+    return store;
+  };
+};
@@ -0,0 +1,19 @@
+import { parseCatalogExercise, STARTER_CATALOG, validateCatalogExercise } from "@/lib/exercise-catalog";
+import { createCollectionRoutes } from "@/lib/server/collection-routes";
+import { createUserCollectionStore } from "@/lib/server/collection-store";
+import { CATALOG_SCHEMA } from "@/lib/storage-schema";
+
+export const exerciseStoreFor = createUserCollectionStore({
+  fileName: "exercises.json",
+  schema: CATALOG_SCHEMA,
+  validate: validateCatalogExercise,
+  seed: STARTER_CATALOG,
+});
+
+export const exerciseRoutes = createCollectionRoutes({
+  storeFor: exerciseStoreFor,
+  parse: parseCatalogExercise,
+  key: "exercises",
+  itemKey: "exercise",
+  label: "catalog exercise",
+});
@@ -0,0 +1,19 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/** Salted scrypt hash, base64 encoded for the JSON store. */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return { passwordHash: hash.toString("base64"), passwordSalt: salt.toString("base64") };
+};
+
+export const verifyPassword = async (password: string, stored: { passwordHash: string; passwordSalt: string }) => {
+  const expected = Buffer.from(stored.passwordHash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(stored.passwordSalt, "base64"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,18 @@
+import { parseTrainingProgram, validateTrainingProgram } from "@/lib/programs";
+import { createCollectionRoutes } from "@/lib/server/collection-routes";
+import { createUserCollectionStore } from "@/lib/server/collection-store";
+import { PROGRAM_SCHEMA } from "@/lib/storage-schema";
+
+export const programStoreFor = createUserCollectionStore({
+  fileName: "programs.json",
+  schema: PROGRAM_SCHEMA,
+  validate: validateTrainingProgram,
+});
+
+export const programRoutes = createCollectionRoutes({
+  storeFor: programStoreFor,
+  parse: parseTrainingProgram,
+  key: "programs",
+  itemKey: "program",
+  label: "program",
+});
@@ -0,0 +1,10 @@
+import { buildCatalogIndex } from "@/lib/exercise-catalog";
+import { exerciseStoreFor } from "@/lib/server/exercise-store";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+import { buildWorkoutReport, type ReportOptions } from "@/lib/workout-report";
+
+/** Builds a report from an account's stored sessions, with names following its own catalog. */
+export const loadWorkoutReport = async (userId: string, options: ReportOptions) => {
+  const [workouts, catalog] = await Promise.all([workoutStoreFor(userId).list(), exerciseStoreFor(userId).list()]);
+  return buildWorkoutReport(workouts, buildCatalogIndex(catalog), options);
+};
@@ -0,0 +1,149 @@
+import { randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+
+import { buildCatalogIndex } from "@/lib/exercise-catalog";
+import { requireUser } from "@/lib/server/auth";
+import { invalidJsonResponse, readJsonBody } from "@/lib/server/collection-routes";
+import { createCollectionStore } from "@/lib/server/collection-store";
+import { exerciseStoreFor } from "@/lib/server/exercise-store";
+import { userStore } from "@/lib/server/user-store";
+import { workoutStoreFor } from "@/lib/server/workout-store";
+import type { SessionShare } from "@/lib/session-shares";
+import { SESSION_SHARE_SCHEMA } from "@/lib/storage-schema";
+import { isWeightUnit } from "@/lib/units";
+import { isRecord } from "@/lib/validation";
+import { buildWorkoutReport, type ReportSession } from "@/lib/workout-report";
+import type { ValidationResult } from "@/lib/workouts";
+
+/** The share as stored on disk; whose session it is stays on the server. */
+type StoredShare = SessionShare & {
+  userId: string;
+};
+
+type IdContext = {
+  params: Promise<{ id: string }>;
+};
+
+const validateStoredShare = (value: unknown): ValidationResult<StoredShare> => {
+  if (!isRecord(value)) return { ok: false, reason: "share must be an object" };
+  const { id, userId, sessionId, unit, createdAt } = value;
+  if (
+    typeof id !== "string" ||
+    typeof userId !== "string" ||
+    typeof sessionId !== "string" ||
+    !isWeightUnit(unit) ||
+    typeof createdAt !== "string"
+  ) {
+    return { ok: false, reason: `share ${String(id)} is incomplete` };
+  }
+  return { ok: true, value: { id, userId, sessionId, unit, createdAt } };
+};
+
+// Shares from every account live in one file so a link can be resolved without knowing whose it is.
+const shareStore = createCollectionStore({
+  fileName: "session-shares.json",
+  schema: SESSION_SHARE_SCHEMA,
+  validate: validateStoredShare,
+});
+
+const toSessionShare = ({ id, sessionId, unit, createdAt }: StoredShare): SessionShare => ({
+  id,
+  sessionId,
+  unit,
+  createdAt,
+});
+
+const findSession = async (userId: string, sessionId: string) =>
+  (await workoutStoreFor(userId).list()).find((session) => session.id === sessionId && !session.deletedAt);
+
+/**
+ * The session behind a link, with its owner's username. Links to sessions
+ * that were deleted or trashed resolve to null, as do revoked ones. The
+ * session is built like a one-day report of the owner's log, so exercise
+ * names follow their catalog and the PRs match what their own report shows.
+ */
+export const findSharedSession = async (
+  shareId: string
+): Promise<{ share: SessionShare; entry: ReportSession; owner: string } | null> => {
+  const share = (await shareStore.list()).find((candidate) => candidate.id === shareId);
+  if (!share) return null;
+  const [workouts, catalog, users] = await Promise.all([
+    workoutStoreFor(share.userId).list(),
+    exerciseStoreFor(share.userId).list(),
+    userStore.list(),
+  ]);
+  const session = workouts.find((candidate) => candidate.id === share.sessionId && !candidate.deletedAt);
+  const owner = users.find((user) => user.id === share.userId);
+  if (!session || !owner) return null;
+
+  // Links do not carry the owner's 1RM formula, so estimated-max PRs use the app's default.
+  const report = buildWorkoutReport(workouts, buildCatalogIndex(catalog), {
+    from: session.date,
+    to: session.date,
+    unit: share.unit,
+    formula: "epley",
+  });
+  const entry = report.sessions.find((candidate) => candidate.session.id === session.id);
+  return entry ? { share: toSessionShare(share), entry, owner: owner.username } : null;
+};
+
+/**
+ * `/api/shares` lists and creates the signed-in user's links; sharing a
+ * session again returns its existing link with the unit updated.
+ * `/api/shares/[id]` revokes one.
+ */
+export const shareRoutes = {
+  GET: async () => {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+    const shares = (await shareStore.list()).filter((share) => share.userId === auth.user.id);
+    return NextResponse.json({ shares: shares.map(toSessionShare) });
+  },
+
+  POST: async (request: Request) => {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+    const json = await readJsonBody(request);
+    if (!json.ok) return invalidJsonResponse();
+    const body = isRecord(json.body) ? json.body : {};
+    if (typeof body.sessionId !== "string" || !isWeightUnit(body.unit)) {
+      return NextResponse.json({ error: "Invalid share payload." }, { status: 400 });
+    }
+    const { sessionId, unit } = body;
+    if (!(await findSession(auth.user.id, sessionId))) {
+      return NextResponse.json({ error: "Workout session not found." }, { status: 404 });
+    }
+
+    const userId = auth.user.id;
+    const { share, created } = await shareStore.modify((shares) => {
+      const existing = shares.find((candidate) => candidate.userId === userId && candidate.sessionId === sessionId);
+      if (existing) {
+        const updated = { ...existing, unit };
+        return {
+          records: shares.map((candidate) => (candidate === existing ? updated : candidate)),
+          result: { share: updated, created: false },
+        };
+      }
+      const fresh: StoredShare = {
+        id: randomBytes(18).toString("base64url"),
+        userId,
+        sessionId,
+        unit,
+        createdAt: new Date().toISOString(),
+      };
+      return { records: [...shares, fresh], result: { share: fresh, created: true } };
+    });
+    return NextResponse.json({ share: toSessionShare(share) }, { status: created ? 201 : 200 });
+  },
+
+  DELETE: async (_request: Request, { params }: IdContext) => {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+    const { id } = await params;
+    const removed = await shareStore.removeWhere((share) => share.id === id && share.userId === auth.user.id);
+    if (removed.length === 0) {
+      return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  },
+};
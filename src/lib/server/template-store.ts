@@ -0,0 +1,18 @@
+import { createCollectionRoutes } from "@/lib/server/collection-routes";
+import { createUserCollectionStore } from "@/lib/server/collection-store";
+import { TEMPLATE_SCHEMA } from "@/lib/storage-schema";
+import { parseWorkoutTemplate, validateWorkoutTemplate } from "@/lib/templates";
+
+export const templateStoreFor = createUserCollectionStore({
+  fileName: "templates.json",
+  schema: TEMPLATE_SCHEMA,
+  validate: validateWorkoutTemplate,
+});
+
+export const templateRoutes = createCollectionRoutes({
+  storeFor: templateStoreFor,
+  parse: parseWorkoutTemplate,
+  key: "templates",
+  itemKey: "template",
+  label: "template",
+});
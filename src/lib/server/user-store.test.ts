@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+let dataDir = "";
+
+// The stores resolve DATA_DIR on import, so each test loads a fresh copy pointed at its own folder.
+const loadUserStore = () => import("@/lib/server/user-store");
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "user-store-"));
+  vi.stubEnv("WORKOUT_DATA_DIR", dataDir);
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("registerUser", () => {
+  it("lets only one of two concurrent sign-ups take a username", async () => {
+    const { registerUser, userStore } = await loadUserStore();
+    const results = await Promise.all([
+      registerUser("sam", "first password", "athlete"),
+      registerUser("sam", "second password", "athlete"),
+    ]);
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results.find((result) => !result.ok)).toEqual({ ok: false, reason: "That username is already taken." });
+    expect(await userStore.list()).toHaveLength(1);
+  });
+
+  it("moves data from before accounts existed to exactly one of two concurrent first sign-ups", async () => {
+    await fs.writeFile(path.join(dataDir, "workouts.json"), JSON.stringify({ schemaVersion: 1, records: [] }));
+    const { registerUser } = await loadUserStore();
+    const results = await Promise.all([
+      registerUser("alex", "first password", "athlete"),
+      registerUser("kim", "second password", "coach"),
+    ]);
+
+    if (!results[0].ok || !results[1].ok) throw new Error("both sign-ups should succeed");
+
+    // Only the account that claimed the data gets a folder this early.
+    const folders = await fs.readdir(path.join(dataDir, "users"));
+    expect(folders).toHaveLength(1);
+    expect(results.map((result) => result.ok && result.value.id)).toContain(folders[0]);
+    await expect(fs.access(path.join(dataDir, "users", folders[0], "workouts.json"))).resolves.toBeUndefined();
+    await expect(fs.access(path.join(dataDir, "workouts.json"))).rejects.toThrow();
+  });
+});
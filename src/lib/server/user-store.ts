@@ -0,0 +1,104 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { createId } from "@/lib/ids";
+import { createCollectionStore, DATA_DIR } from "@/lib/server/collection-store";
+import { hashPassword } from "@/lib/server/passwords";
+import { USER_SCHEMA } from "@/lib/storage-schema";
+import { isUserRole, type User, type UserRole } from "@/lib/users";
+import { fail, isRecord } from "@/lib/validation";
+import type { ValidationResult } from "@/lib/workouts";
+
+/** The account as stored on disk; the password fields never leave the server. */
+export type StoredUser = User & {
+  passwordHash: string;
+  passwordSalt: string;
+};
+
+export const validateStoredUser = (value: unknown): ValidationResult<StoredUser> => {
+  if (!isRecord(value)) return fail("user must be an object");
+  if (typeof value.id !== "string" || !value.id) return fail("user is missing an id");
+  if (typeof value.username !== "string" || !value.username) return fail(`user ${value.id} is missing a username`);
+  if (!isUserRole(value.role)) return fail(`user ${value.id} has an unknown role`);
+  if (typeof value.passwordHash !== "string" || typeof value.passwordSalt !== "string") {
+    return fail(`user ${value.id} has no password`);
+  }
+  if (!Array.isArray(value.sharedWith) || value.sharedWith.some((id) => typeof id !== "string")) {
+    return fail(`user ${value.id} has an invalid sharing list`);
+  }
+  if (typeof value.createdAt !== "string") return fail(`user ${value.id} is missing createdAt`);
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      username: value.username,
+      role: value.role,
+      sharedWith: value.sharedWith as string[],
+      createdAt: value.createdAt,
+      passwordHash: value.passwordHash,
+      passwordSalt: value.passwordSalt,
+    },
+  };
+};
+
+export const userStore = createCollectionStore({
+  fileName: "users.json",
+  schema: USER_SCHEMA,
+  validate: validateStoredUser,
+});
+
+export const toPublicUser = (user: StoredUser): User => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  sharedWith: user.sharedWith,
+  createdAt: user.createdAt,
+});
+
+// Collections written before accounts existed sit directly in DATA_DIR.
+const LEGACY_ENTRIES = ["workouts", "templates", "exercises"]
+  .flatMap((base) => [`${base}.json`, `${base}.quarantine.json`])
+  .concat("backups");
+
+/**
+ * Moves pre-account data into the first account's folder so nothing logged earlier is lost. Runs inside
+ * the user store's write, which already holds the write queue.
+ */
+const claimLegacyData = async (userId: string) => {
+  const target = path.join(DATA_DIR, "users", userId);
+  await fs.mkdir(target, { recursive: true });
+  for (const entry of LEGACY_ENTRIES) {
+    try {
+      await fs.rename(path.join(DATA_DIR, entry), path.join(target, entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+};
+
+/**
+ * Creates the account unless the username is taken. The check, the insert and the first account's
+ * legacy claim share one write, so two concurrent sign-ups can neither take the same name nor both
+ * count as the first account.
+ */
+export const registerUser = async (
+  username: string,
+  password: string,
+  role: UserRole
+): Promise<ValidationResult<StoredUser>> => {
+  const user: StoredUser = {
+    id: createId(),
+    username,
+    role,
+    sharedWith: [],
+    createdAt: new Date().toISOString(),
+    ...(await hashPassword(password)),
+  };
+  return userStore.modify(async (existing) => {
+    if (existing.some((stored) => stored.username === username)) {
+      return { records: existing, result: fail<StoredUser>("That username is already taken.") };
+    }
+    if (existing.length === 0) await claimLegacyData(user.id);
+    return { records: [...existing, user], result: { ok: true, value: user } };
+  });
+};
@@ -0,0 +1,19 @@
+import { createCollectionRoutes } from "@/lib/server/collection-routes";
+import { createUserCollectionStore } from "@/lib/server/collection-store";
+import { WORKOUT_SCHEMA } from "@/lib/storage-schema";
+import { parseWorkoutSession, validateWorkoutSession } from "@/lib/workouts";
+
+// `create` skips ids that already exist, so replaying the localStorage migration is harmless.
+export const workoutStoreFor = createUserCollectionStore({
+  fileName: "workouts.json",
+  schema: WORKOUT_SCHEMA,
+  validate: validateWorkoutSession,
+});
+
+export const workoutRoutes = createCollectionRoutes({
+  storeFor: workoutStoreFor,
+  parse: parseWorkoutSession,
+  key: "workouts",
+  itemKey: "workout",
+  label: "workout session",
+});
@@ -0,0 +1,162 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { runInNewContext } from "vm";
+
+import { describe, expect, it } from "vitest";
+
+const ORIGIN = "https://tracker.test";
+
+type FakeRequest = { url: string; method: string; mode: string };
+type Listener = (event: Record<string, unknown>) => void;
+
+const keyOf = (request: string | FakeRequest) =>
+  new URL(typeof request === "string" ? request : request.url, ORIGIN).href;
+
+const shellHtml = (build: string) => `<!DOCTYPE html><html><head>
+<link rel="stylesheet" href="/_next/static/chunks/${build}-app.css" data-precedence="next"/>
+<script src="/_next/static/chunks/${build}-main.js" async=""></script></head>
+<body><script>self.__next_f.push([1,"2:I[\\"/_next/static/chunks/${build}-page.js\\",\\"default\\"]"])</script></body></html>`;
+
+const ASSET_NAMES = ["app.css", "main.js", "page.js"];
+
+/**
+ * Runs public/sw.js against an in-memory Cache Storage and a network that
+ * serves one build of the app until it is switched off.
+ */
+const installWorker = () => {
+  const listeners = new Map<string, Listener>();
+  const stores = new Map<string, Map<string, Response>>();
+  const network = { online: true, build: "build-1" };
+
+  const serve = (url: string) => {
+    const { pathname } = new URL(url);
+    if (pathname === "/") return new Response(shellHtml(network.build), { headers: { "Content-Type": "text/html" } });
+    const asset = ASSET_NAMES.find((name) => pathname === `/_next/static/chunks/${network.build}-${name}`);
+    if (asset || !pathname.startsWith("/_next/")) return new Response(`contents of ${pathname}`);
+    return new Response("not found", { status: 404 });
+  };
+
+  const fetch = async (request: string | FakeRequest) => {
+    if (!network.online) throw new TypeError("Failed to fetch");
+    return serve(keyOf(request));
+  };
+
+  const openCache = async (name: string) => {
+    const entries = stores.get(name) ?? new Map<string, Response>();
+    stores.set(name, entries);
+    return {
+      match: async (request: string | FakeRequest) => entries.get(keyOf(request))?.clone(),
+      put: async (request: string | FakeRequest, response: Response) => void entries.set(keyOf(request), response),
+      addAll: async (requests: string[]) => {
+        const responses = await Promise.all(requests.map(fetch));
+        if (responses.some((response) => !response.ok)) throw new TypeError("addAll received a failed response");
+        responses.forEach((response, index) => entries.set(keyOf(requests[index]), response));
+      },
+    };
+  };
+
+  const caches = {
+    open: openCache,
+    keys: async () => Array.from(stores.keys()),
+    delete: async (name: string) => stores.delete(name),
+    match: async (request: string | FakeRequest) => {
+      for (const entries of stores.values()) {
+        const cached = entries.get(keyOf(request));
+        if (cached) return cached.clone();
+      }
+      return undefined;
+    },
+  };
+
+  const self = {
+    location: new URL(`${ORIGIN}/sw.js`),
+    addEventListener: (type: string, listener: Listener) => listeners.set(type, listener),
+    skipWaiting: () => undefined,
+    clients: { claim: async () => undefined },
+  };
+
+  runInNewContext(readFileSync(path.join(process.cwd(), "public", "sw.js"), "utf8"), {
+    self,
+    caches,
+    fetch,
+    console,
+    URL,
+    Response,
+  });
+
+  const dispatch = async (type: string, fields: Record<string, unknown> = {}) => {
+    const pending: Promise<unknown>[] = [];
+    let response: Promise<Response> | undefined;
+    listeners.get(type)?.({
+      ...fields,
+      waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+      respondWith: (promise: Promise<Response>) => {
+        response = promise;
+      },
+    });
+    const result = response ? await response : undefined;
+    // Work the worker hands to waitUntil may be added while the response settles.
+    for (let index = 0; index < pending.length; index += 1) await pending[index];
+    return result;
+  };
+
+  const request = (pathname: string, mode = "no-cors"): FakeRequest => ({
+    url: `${ORIGIN}${pathname}`,
+    method: "GET",
+    mode,
+  });
+
+  return {
+    network,
+    install: async () => {
+      await dispatch("install");
+      await dispatch("activate");
+    },
+    navigate: (pathname: string) => dispatch("fetch", { request: request(pathname, "navigate") }),
+    get: (pathname: string) => dispatch("fetch", { request: request(pathname) }),
+  };
+};
+
+const assetsOf = (build: string) => ASSET_NAMES.map((name) => `/_next/static/chunks/${build}-${name}`);
+
+describe("service worker", () => {
+  it("renders the app offline right after installing, before any chunk was requested", async () => {
+    const worker = installWorker();
+    await worker.install();
+    worker.network.online = false;
+
+    const page = await worker.navigate("/");
+    expect(await page?.text()).toBe(shellHtml("build-1"));
+    for (const asset of assetsOf("build-1")) {
+      const response = await worker.get(asset);
+      expect(response?.ok).toBe(true);
+      expect(await response?.text()).toBe(`contents of ${asset}`);
+    }
+    expect(await (await worker.get("/manifest.webmanifest"))?.text()).toBe("contents of /manifest.webmanifest");
+  });
+
+  it("caches a new build's assets when an online visit brings a new shell", async () => {
+    const worker = installWorker();
+    await worker.install();
+    worker.network.build = "build-2";
+    await worker.navigate("/");
+    worker.network.online = false;
+
+    expect(await (await worker.navigate("/"))?.text()).toBe(shellHtml("build-2"));
+    for (const asset of assetsOf("build-2")) {
+      expect((await worker.get(asset))?.ok).toBe(true);
+    }
+  });
+
+  it("keeps the last complete shell when a new build's assets cannot be fetched", async () => {
+    const worker = installWorker();
+    await worker.install();
+    worker.network.build = "build-3";
+    // The new build's shell arrives, but the connection drops before its assets load.
+    const page = worker.navigate("/");
+    worker.network.online = false;
+    expect(await (await page)?.text()).toBe(shellHtml("build-3"));
+
+    expect(await (await worker.navigate("/"))?.text()).toBe(shellHtml("build-1"));
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, expect, it } from "vitest";
+
+import { parseSavedDrafts } from "@/lib/drafts";
+import { buildCatalogIndex, type CatalogExercise } from "@/lib/exercise-catalog";
+import { DEFAULT_PROGRESSION } from "@/lib/progression";
+import {
+  applySuggestion,
+  changeSetUnit,
+  draftProgressions,
+  fillFromTargets,
+  hasDraftContent,
+  isDraftSnapshot,
+  newExerciseDraft,
+  newSetDraft,
+  parseSessionDraft,
+  type DraftSnapshot,
+  type ExerciseDraft,
+  type SetDraft,
+} from "@/lib/session-draft";
+import { entry, session, set as loggedSet } from "@/lib/test-fixtures";
+
+const BENCH: CatalogExercise = {
+  id: "bench-press",
+  name: "Bench Press",
+  aliases: ["Bench"],
+  muscleGroups: ["chest"],
+  equipment: "barbell",
+};
+
+const catalogIndex = buildCatalogIndex([BENCH]);
+
+const set = (fields: Partial<SetDraft> = {}): SetDraft => ({ ...newSetDraft("kg"), ...fields });
+
+const exercise = (name: string, sets: SetDraft[], fields: Partial<ExerciseDraft> = {}): ExerciseDraft => ({
+  ...newExerciseDraft("kg"),
+  name,
+  sets,
+  ...fields,
+});
+
+const draft = (exercises: ExerciseDraft[], fields: Partial<DraftSnapshot> = {}): DraftSnapshot => ({
+  date: "2026-03-02",
+  title: "",
+  sessionNotes: "",
+  exercises,
+  ...fields,
+});
+
+describe("parseSessionDraft", () => {
+  it("parses reps, weight and effort and links catalog entries by name or alias", () => {
+    const result = parseSessionDraft(
+      draft([exercise("  bench ", [set({ reps: "5", weight: "100", effort: "8" })])], { title: "  Push  " }),
+      { catalogIndex }
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("Push");
+    expect(result.value.notes).toBeUndefined();
+    const [entry] = result.value.exercises;
+    expect(entry).toMatchObject({ name: "bench", exerciseId: "bench-press" });
+    expect(entry.sets[0]).toMatchObject({ reps: 5, weight: 100, unit: "kg", rpe: 8, rir: undefined });
+  });
+
+  it("rejects reps that are not a number", () => {
+    const result = parseSessionDraft(draft([exercise("Squat", [set({ reps: "five", weight: "100" })])]), {
+      catalogIndex,
+    });
+    expect(result).toEqual({ ok: false, reason: 'Could not save — Squat: "reps" is out of range.' });
+  });
+
+  it("rejects fractional and negative reps", () => {
+    expect(parseSessionDraft(draft([exercise("Squat", [set({ reps: "2.5" })])]), { catalogIndex }).ok).toBe(false);
+    expect(parseSessionDraft(draft([exercise("Squat", [set({ reps: "-3" })])]), { catalogIndex }).ok).toBe(false);
+  });
+
+  it("keeps sets without a weight", () => {
+    const result = parseSessionDraft(draft([exercise("Pull-up", [set({ reps: "8" })], { kind: "bodyweight" })]), {
+      catalogIndex,
+    });
+    expect(result.ok && result.value.exercises[0].sets[0].weight).toBeUndefined();
+  });
+
+  it("names the exercise when a weight does not parse", () => {
+    const result = parseSessionDraft(draft([exercise("", [set({ reps: "5", weight: "heavy" })])]), { catalogIndex });
+    expect(result).toEqual({ ok: false, reason: 'Could not save — Unnamed exercise: "weight" is out of range.' });
+  });
+
+  it("reports effort outside the scale", () => {
+    const result = parseSessionDraft(
+      draft([exercise("Row", [set({ reps: "10", effort: "12" })], { effortScale: "rir" })]),
+      { catalogIndex }
+    );
+    expect(result).toEqual({ ok: false, reason: 'Could not save — Row: "rir" is out of range.' });
+  });
+
+  it("drops placeholder rows and exercises left without a name or sets", () => {
+    const result = parseSessionDraft(
+      draft([
+        exercise("Squat", [set({ reps: "5", weight: "140" }), set({ weight: "140" }), set()]),
+        exercise("", [set()]),
+        exercise("Lunge", [set()]),
+      ]),
+      { catalogIndex }
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.exercises.map((entry) => entry.name)).toEqual(["Squat"]);
+    expect(result.value.exercises[0].sets).toHaveLength(1);
+  });
+
+  it("keeps repeated exercises with the same name as separate entries", () => {
+    const first = exercise("Bench Press", [set({ reps: "5", weight: "100" })]);
+    const second = exercise("Bench Press", [set({ reps: "10", weight: "70" })]);
+    const result = parseSessionDraft(draft([first, second]), { catalogIndex });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.exercises.map((entry) => entry.id)).toEqual([first.id, second.id]);
+    expect(result.value.exercises.every((entry) => entry.exerciseId === "bench-press")).toBe(true);
+  });
+
+  it("uses duration and distance for timed and cardio exercises", () => {
+    const result = parseSessionDraft(
+      draft([
+        exercise("Plank", [set({ reps: "99", duration: "1:30" })], { kind: "timed" }),
+        exercise("Run", [set({ distance: "5", distanceUnit: "km" })], { kind: "cardio" }),
+      ]),
+      { catalogIndex }
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.exercises[0].sets[0]).toMatchObject({ reps: undefined, durationSeconds: 90 });
+    expect(result.value.exercises[1].sets[0]).toMatchObject({ distance: 5, distanceUnit: "km" });
+  });
+
+  it("only keeps completed sets when finishing a live session", () => {
+    const done = set({ reps: "5", weight: "100" });
+    const skipped = set({ reps: "5", weight: "100" });
+    const result = parseSessionDraft(draft([exercise("Squat", [done, skipped])]), {
+      catalogIndex,
+      completedSetIds: [done.id],
+    });
+    expect(result.ok && result.value.exercises[0].sets.map((entry) => entry.id)).toEqual([done.id]);
+  });
+
+  it("asks for at least one set when nothing usable was entered", () => {
+    expect(parseSessionDraft(draft([exercise("Squat", [set()])]), { catalogIndex })).toEqual({
+      ok: false,
+      reason: "Add at least one exercise with a valid set before saving.",
+    });
+    expect(
+      parseSessionDraft(draft([exercise("Squat", [set({ reps: "5" })])]), { catalogIndex, completedSetIds: [] })
+    ).toEqual({ ok: false, reason: "Complete at least one set before finishing the workout." });
+  });
+
+  it("rejects a missing or impossible date", () => {
+    const exercises = [exercise("Squat", [set({ reps: "5" })])];
+    expect(parseSessionDraft(draft(exercises, { date: "" }), { catalogIndex }).ok).toBe(false);
+    expect(parseSessionDraft(draft(exercises, { date: "2026-02-30" }), { catalogIndex }).ok).toBe(false);
+  });
+
+  it("drops the group of a superset left with a single member", () => {
+    const result = parseSessionDraft(
+      draft([
+        exercise("Curl", [set({ reps: "12" })], { groupId: "g1" }),
+        exercise("Pushdown", [set()], { groupId: "g1" }),
+      ]),
+      { catalogIndex }
+    );
+    expect(result.ok && result.value.exercises[0].groupId).toBeUndefined();
+  });
+  it("keeps the link to the program day the draft was opened from", () => {
+    const planned = { programId: "p1", dayId: "d1", week: 2 };
+    const result = parseSessionDraft(draft([exercise("Squat", [set({ reps: "5", weight: "100" })])], { planned }), {
+      catalogIndex,
+    });
+    expect(result.ok && result.value.planned).toEqual(planned);
+  });
+});
+
+describe("hasDraftContent", () => {
+  it("ignores a blank form", () => {
+    expect(hasDraftContent(draft([exercise("", [set()])]))).toBe(false);
+    expect(hasDraftContent(draft([exercise("", [set({ weight: "  " })])]))).toBe(false);
+  });
+
+  it("counts any typed value", () => {
+    expect(hasDraftContent(draft([exercise("", [set({ effort: "7" })])]))).toBe(true);
+    expect(hasDraftContent(draft([exercise("", [set()])], { sessionNotes: "felt good" }))).toBe(true);
+  });
+});
+
+describe("isDraftSnapshot", () => {
+  const stored = (value: unknown) => JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+  const squat = exercise("Squat", [set({ reps: "5", target: { reps: "5", weight: "100" } })], { groupId: "g1" });
+  const saved = draft([squat], { planned: { programId: "p1", dayId: "d1", week: 2 } });
+
+  it("accepts a draft read back from storage", () => {
+    expect(isDraftSnapshot(stored(saved))).toBe(true);
+  });
+
+  it("rejects a stored draft with a malformed exercise or set", () => {
+    const [entry] = saved.exercises;
+    const malformed = [
+      { ...saved, exercises: [{ ...entry, sets: undefined }] },
+      { ...saved, exercises: [{ ...entry, name: 42 }] },
+      { ...saved, exercises: [{ ...entry, kind: "swimming" }] },
+      { ...saved, exercises: [{ ...entry, sets: [{ ...entry.sets[0], reps: 5 }] }] },
+      { ...saved, exercises: [{ ...entry, sets: [{ ...entry.sets[0], unit: "stone" }] }] },
+      { ...saved, exercises: [{ ...entry, sets: [null] }] },
+      { ...saved, planned: { programId: "p1" } },
+    ];
+    malformed.forEach((value) => expect(isDraftSnapshot(stored(value))).toBe(false));
+  });
+
+  it("drops a malformed draft from the saved list and keeps the rest", () => {
+    const list = [
+      { id: "good", name: "", updatedAt: "2026-03-02T10:00:00.000Z", snapshot: saved },
+      {
+        id: "bad",
+        name: "",
+        updatedAt: "2026-03-02T11:00:00.000Z",
+        snapshot: { ...saved, exercises: [{ name: "Squat" }] },
+      },
+    ];
+    expect(parseSavedDrafts(stored(list), isDraftSnapshot).map((entry) => entry.id)).toEqual(["good"]);
+  });
+});
+
+describe("editing sets", () => {
+  it("logs a planned set's targets when it is completed untouched", () => {
+    const target = { reps: "8-10", weight: "60" };
+    expect(fillFromTargets(set({ target }))).toMatchObject({ reps: "8", weight: "60" });
+    expect(fillFromTargets(set({ reps: "6", target }))).toMatchObject({ reps: "6", weight: "60" });
+  });
+
+  it("converts the typed weight when the unit changes", () => {
+    expect(changeSetUnit(set({ weight: "100" }), "lb")).toMatchObject({ unit: "lb", weight: "220.46" });
+    expect(changeSetUnit(set({ weight: "" }), "lb")).toMatchObject({ unit: "lb", weight: "" });
+    expect(changeSetUnit(set({ weight: "heavy" }), "lb")).toMatchObject({ unit: "lb", weight: "heavy" });
+  });
+
+  it("fills working sets from a suggestion and adds the sets it has beyond the draft", () => {
+    const warmup = set({ type: "warmup", reps: "10", weight: "40" });
+    const filled = applySuggestion(exercise("Bench", [warmup, set()]), [
+      { reps: 8, weight: 80, unit: "kg" },
+      { reps: 8, weight: 180, unit: "lb" },
+    ]);
+    expect(filled.sets[0]).toEqual(warmup);
+    expect(filled.sets.slice(1)).toMatchObject([
+      { type: "working", reps: "8", weight: "80", unit: "kg" },
+      { type: "working", reps: "8", weight: "180", unit: "lb" },
+    ]);
+  });
+});
+
+describe("draftProgressions", () => {
+  const history = [
+    session("2026-03-02", [entry("Bench Press", [loggedSet({ reps: 10, weight: 80 }), loggedSet({ reps: 9, weight: 80 })])]),
+  ];
+
+  it("suggests next targets for rep-based exercises with history, matched through the catalog", () => {
+    const bench = exercise("bench", [set()]);
+    const cardio = exercise("Bench", [set()], { kind: "cardio" });
+    const squat = exercise("Squat", [set()]);
+    const progressions = draftProgressions([bench, cardio, squat], history, catalogIndex, DEFAULT_PROGRESSION);
+
+    expect(Array.from(progressions.keys())).toEqual([bench.id]);
+    const progression = progressions.get(bench.id);
+    expect(progression?.previous.date).toBe("2026-03-02");
+    expect(progression?.suggestion?.sets).toEqual([
+      { reps: 11, weight: 80, unit: "kg" },
+      { reps: 10, weight: 80, unit: "kg" },
+    ]);
+  });
+});
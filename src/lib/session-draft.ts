@@ -0,0 +1,379 @@
+import { resolveCatalogEntry, type CatalogIndex } from "@/lib/exercise-catalog";
+import { normalizeGroups } from "@/lib/exercise-groups";
+import { createId } from "@/lib/ids";
+import type { PlannedDay } from "@/lib/programs";
+import {
+  exerciseHistory,
+  suggestProgression,
+  type PreviousPerformance,
+  type ProgressionSettings,
+  type ProgressionSuggestion,
+  type SetSuggestion,
+} from "@/lib/progression";
+import { formatRepRange, type WorkoutTemplate } from "@/lib/templates";
+import {
+  convertWeight,
+  DEFAULT_DISTANCE_UNIT,
+  formatDuration,
+  isDistanceUnit,
+  isWeightUnit,
+  parseDuration,
+  type DistanceUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import { isRecord } from "@/lib/validation";
+import {
+  EXERCISE_KINDS,
+  isISODate,
+  SET_TYPES,
+  validatePlannedLink,
+  validateWorkoutSet,
+  type ExerciseEntry,
+  type ExerciseKind,
+  type PlannedSessionLink,
+  type SetType,
+  type ValidationResult,
+  type WorkoutSession,
+  type WorkoutSet,
+} from "@/lib/workouts";
+
+/**
+ * The editor's model of a session being typed: every field is the raw text
+ * from its input, so nothing is lost while the user is mid-way through a value.
+ */
+export type SetDraft = {
+  id: string;
+  type: SetType;
+  reps: string;
+  weight: string;
+  unit: WeightUnit;
+  effort: string; // RPE or RIR depending on the exercise's effort scale
+  duration: string; // seconds, m:ss or h:mm:ss
+  distance: string;
+  distanceUnit: DistanceUnit;
+  // Targets from the template or program day the draft was started from, shown as placeholders.
+  target?: {
+    reps: string;
+    weight: string;
+  };
+};
+
+export type EffortScale = "rpe" | "rir";
+
+export type ExerciseDraft = {
+  id: string;
+  name: string;
+  kind: ExerciseKind;
+  effortScale: EffortScale;
+  // Catalog link carried over from a saved session; cleared when the name is edited.
+  exerciseId?: string;
+  notes: string;
+  groupId?: string;
+  sets: SetDraft[];
+};
+
+export type SetDraftField = "reps" | "weight" | "effort" | "duration" | "distance";
+
+export type DraftSnapshot = {
+  date: string;
+  title: string;
+  sessionNotes: string;
+  exercises: ExerciseDraft[];
+  // Set while the draft is a program day, so the saved session links back to the plan.
+  planned?: PlannedSessionLink;
+};
+
+// Which inputs each exercise kind shows in the editor.
+export const KIND_FIELDS: Record<ExerciseKind, { reps: boolean; weight: boolean; duration: boolean; distance: boolean }> = {
+  weighted: { reps: true, weight: true, duration: false, distance: false },
+  bodyweight: { reps: true, weight: true, duration: false, distance: false },
+  timed: { reps: false, weight: true, duration: true, distance: false },
+  cardio: { reps: false, weight: false, duration: true, distance: true },
+};
+
+export const newSetDraft = (unit: WeightUnit, distanceUnit: DistanceUnit = DEFAULT_DISTANCE_UNIT): SetDraft => ({
+  id: createId(),
+  type: "working",
+  reps: "",
+  weight: "",
+  unit,
+  effort: "",
+  duration: "",
+  distance: "",
+  distanceUnit,
+});
+
+export const newExerciseDraft = (unit: WeightUnit): ExerciseDraft => ({
+  id: createId(),
+  name: "",
+  kind: "weighted",
+  effortScale: "rpe",
+  notes: "",
+  sets: [newSetDraft(unit)],
+});
+
+const formatOptional = (value: number | undefined) => (value != null ? String(value) : "");
+
+// Edits keep the stored ids so the saved session replaces the original entries;
+// copies get fresh ids so they never collide with the session they came from.
+export const sessionToDrafts = (session: WorkoutSession, keepIds: boolean): ExerciseDraft[] =>
+  session.exercises.map((exercise) => ({
+    id: keepIds ? exercise.id : createId(),
+    name: exercise.name,
+    kind: exercise.kind,
+    effortScale: exercise.sets.some((set) => set.rir != null && set.rpe == null) ? "rir" : "rpe",
+    exerciseId: exercise.exerciseId,
+    notes: exercise.notes ?? "",
+    groupId: exercise.groupId,
+    sets: exercise.sets.map((set) => ({
+      id: keepIds ? set.id : createId(),
+      type: set.type,
+      reps: formatOptional(set.reps),
+      weight: formatOptional(set.weight),
+      unit: set.unit,
+      effort: formatOptional(set.rpe ?? set.rir),
+      duration: set.durationSeconds != null ? formatDuration(set.durationSeconds) : "",
+      distance: formatOptional(set.distance),
+      distanceUnit: set.distanceUnit ?? DEFAULT_DISTANCE_UNIT,
+    })),
+  }));
+
+export const templateToDrafts = (template: WorkoutTemplate, kindFor: (name: string) => ExerciseKind): ExerciseDraft[] =>
+  template.exercises.map((exercise) => ({
+    id: createId(),
+    name: exercise.name,
+    kind: kindFor(exercise.name),
+    effortScale: "rpe",
+    notes: exercise.notes ?? "",
+    groupId: exercise.groupId,
+    sets: Array.from({ length: exercise.targetSets }, () => ({
+      ...newSetDraft(exercise.unit),
+      target: {
+        reps: formatRepRange(exercise),
+        weight: exercise.weight != null ? String(exercise.weight) : "",
+      },
+    })),
+  }));
+
+export const plannedDayToDrafts = (day: PlannedDay, kindFor: (name: string) => ExerciseKind): ExerciseDraft[] =>
+  day.exercises.map((exercise) => ({
+    id: createId(),
+    name: exercise.name,
+    kind: kindFor(exercise.name),
+    effortScale: "rpe",
+    notes: exercise.notes ?? "",
+    sets: Array.from({ length: exercise.sets }, () => ({
+      ...newSetDraft(exercise.unit),
+      target: {
+        reps: String(exercise.reps),
+        weight: exercise.weight != null ? String(exercise.weight) : "",
+      },
+    })),
+  }));
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+const isSetDraft = (value: unknown): value is SetDraft =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  SET_TYPES.includes(value.type as SetType) &&
+  [value.reps, value.weight, value.effort, value.duration, value.distance].every(
+    (field) => typeof field === "string"
+  ) &&
+  isWeightUnit(value.unit) &&
+  isDistanceUnit(value.distanceUnit) &&
+  (value.target === undefined ||
+    (isRecord(value.target) && typeof value.target.reps === "string" && typeof value.target.weight === "string"));
+
+const isExerciseDraft = (value: unknown): value is ExerciseDraft =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  EXERCISE_KINDS.includes(value.kind as ExerciseKind) &&
+  (value.effortScale === "rpe" || value.effortScale === "rir") &&
+  typeof value.notes === "string" &&
+  isOptionalString(value.exerciseId) &&
+  isOptionalString(value.groupId) &&
+  Array.isArray(value.sets) &&
+  value.sets.every(isSetDraft);
+
+/**
+ * Checks a draft read back from storage down to every set, since the editor
+ * reads each field without further checks; one malformed entry rejects the draft.
+ */
+export const isDraftSnapshot = (value: unknown): value is DraftSnapshot =>
+  isRecord(value) &&
+  typeof value.date === "string" &&
+  typeof value.title === "string" &&
+  typeof value.sessionNotes === "string" &&
+  Array.isArray(value.exercises) &&
+  value.exercises.length > 0 &&
+  value.exercises.every(isExerciseDraft) &&
+  (value.planned === undefined || validatePlannedLink(value.planned).ok);
+
+// A blank form is not worth keeping as a draft.
+export const hasDraftContent = (snapshot: DraftSnapshot) =>
+  snapshot.title.trim() !== "" ||
+  snapshot.sessionNotes.trim() !== "" ||
+  snapshot.exercises.some(
+    (exercise) =>
+      exercise.name.trim() !== "" ||
+      exercise.notes.trim() !== "" ||
+      exercise.sets.some((set) => [set.reps, set.weight, set.effort, set.duration, set.distance].some((field) => field.trim()))
+  );
+
+// Template targets such as "8-10" fill a completed set with the low end of the range.
+export const targetReps = (set: SetDraft) => {
+  const match = set.target?.reps.match(/\d+/);
+  return match ? match[0] : "";
+};
+
+/** Completing an untouched planned set logs its template targets as performed. */
+export const fillFromTargets = (set: SetDraft): SetDraft => ({
+  ...set,
+  reps: set.reps || targetReps(set),
+  weight: set.weight || (set.target?.weight ?? ""),
+});
+
+/** Switches a set's unit, converting what was typed so the change never silently alters the load. */
+export const changeSetUnit = (set: SetDraft, unit: WeightUnit): SetDraft => {
+  const weight = parseFloat(set.weight);
+  if (Number.isNaN(weight)) return { ...set, unit };
+  return { ...set, unit, weight: String(Math.round(convertWeight(weight, set.unit, unit) * 100) / 100) };
+};
+
+export const suggestionToDraft = (suggestion: SetSuggestion): Pick<SetDraft, "reps" | "weight" | "unit"> => ({
+  reps: String(suggestion.reps),
+  weight: suggestion.weight != null ? String(suggestion.weight) : "",
+  unit: suggestion.unit,
+});
+
+/** Fills working sets in order, adding sets when the suggestion has more than the draft. */
+export const applySuggestion = (exercise: ExerciseDraft, suggestions: SetSuggestion[]): ExerciseDraft => {
+  let next = 0;
+  const sets = exercise.sets.map((set) => {
+    if (set.type === "warmup" || next >= suggestions.length) return set;
+    return { ...set, ...suggestionToDraft(suggestions[next++]) };
+  });
+  const extra = suggestions.slice(next).map((suggestion) => ({
+    ...newSetDraft(suggestion.unit),
+    ...suggestionToDraft(suggestion),
+  }));
+  return { ...exercise, sets: [...sets, ...extra] };
+};
+
+export type DraftProgression = {
+  previous: PreviousPerformance;
+  suggestion: ProgressionSuggestion | null;
+};
+
+/**
+ * The last performance and next suggestion for each rep-based exercise in the
+ * editor that has history, keyed by exercise draft id. Expects canonicalized
+ * workouts, without the session being edited, so aliases match the catalog name.
+ */
+export const draftProgressions = (
+  exercises: ExerciseDraft[],
+  history: WorkoutSession[],
+  catalogIndex: CatalogIndex,
+  settings: ProgressionSettings
+) => {
+  const byExercise = new Map<string, DraftProgression>();
+  exercises.forEach((exercise) => {
+    if (!KIND_FIELDS[exercise.kind].reps) return;
+    const entry = resolveCatalogEntry(catalogIndex, exercise.name, exercise.exerciseId);
+    const performances = exerciseHistory(history, entry?.name ?? exercise.name);
+    if (performances.length === 0) return;
+    byExercise.set(exercise.id, { previous: performances[0], suggestion: suggestProgression(performances, settings) });
+  });
+  return byExercise;
+};
+
+/** The parts of a session a draft determines; ids and timestamps come from whoever saves it. */
+export type ParsedDraft = Pick<WorkoutSession, "date" | "title" | "notes" | "exercises" | "planned">;
+
+export type ParseDraftOptions = {
+  catalogIndex: CatalogIndex;
+  // Set when finishing a live session: only the sets ticked off are kept.
+  completedSetIds?: string[];
+};
+
+/**
+ * Turns the editor's text fields into a validated session. Set rows without
+ * the kind's main measurement are unused placeholders and dropped, as are
+ * exercises left without a name or sets; anything else that does not parse
+ * fails with a message naming the exercise.
+ */
+export const parseSessionDraft = (draft: DraftSnapshot, options: ParseDraftOptions): ValidationResult<ParsedDraft> => {
+  const { catalogIndex, completedSetIds } = options;
+  if (!isISODate(draft.date)) return { ok: false, reason: "Pick a date for the session." };
+
+  let invalidSet: string | null = null;
+  const exercises = draft.exercises.flatMap((exercise): ExerciseEntry[] => {
+    const cleanName = exercise.name.trim();
+    const fields = KIND_FIELDS[exercise.kind];
+    const cleanSets = exercise.sets.flatMap((set): WorkoutSet[] => {
+      if (completedSetIds && !completedSetIds.includes(set.id)) return [];
+      const number = (text: string) => (text.trim() === "" ? undefined : Number(text));
+      const reps = fields.reps ? number(set.reps) : undefined;
+      const duration = fields.duration && set.duration.trim() !== "" ? parseDuration(set.duration) : undefined;
+      const distance = fields.distance ? number(set.distance) : undefined;
+      const required = exercise.kind === "cardio" ? [duration, distance] : [fields.reps ? reps : duration];
+      if (required.every((value) => value === undefined)) return [];
+
+      const effort = number(set.effort);
+      const validated = validateWorkoutSet({
+        id: set.id,
+        type: set.type,
+        reps,
+        weight: fields.weight ? number(set.weight) : undefined,
+        unit: set.unit,
+        rpe: exercise.effortScale === "rpe" ? effort : undefined,
+        rir: exercise.effortScale === "rir" ? effort : undefined,
+        durationSeconds: duration,
+        distance,
+        distanceUnit: set.distanceUnit,
+      });
+      if (!validated.ok) {
+        invalidSet ??= `${cleanName || "Unnamed exercise"}: ${validated.reason.replace(/^set \S+:? ?/, "")}`;
+        return [];
+      }
+      return [validated.value];
+    });
+
+    if (!cleanName || cleanSets.length === 0) return [];
+    return [
+      {
+        id: exercise.id,
+        name: cleanName,
+        kind: exercise.kind,
+        exerciseId: resolveCatalogEntry(catalogIndex, cleanName, exercise.exerciseId)?.id,
+        notes: exercise.notes.trim() || undefined,
+        groupId: exercise.groupId,
+        sets: cleanSets,
+      },
+    ];
+  });
+
+  if (invalidSet) return { ok: false, reason: `Could not save — ${invalidSet}.` };
+  if (exercises.length === 0) {
+    return {
+      ok: false,
+      reason: completedSetIds
+        ? "Complete at least one set before finishing the workout."
+        : "Add at least one exercise with a valid set before saving.",
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      date: draft.date,
+      title: draft.title.trim() || undefined,
+      notes: draft.sessionNotes.trim() || undefined,
+      // Dropping empty exercises can leave a superset with a single member.
+      exercises: normalizeGroups(exercises, createId),
+      planned: draft.planned,
+    },
+  };
+};
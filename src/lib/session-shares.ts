@@ -0,0 +1,15 @@
+import type { WeightUnit } from "@/lib/units";
+
+/**
+ * A read-only link to one session. The id doubles as the secret in the URL,
+ * so anyone holding the link can view the session until it is revoked.
+ */
+export type SessionShare = {
+  id: string;
+  sessionId: string;
+  // Weights on the shared page are shown in this unit.
+  unit: WeightUnit;
+  createdAt: string;
+};
+
+export const sharePath = (shareId: string) => `/shared/${encodeURIComponent(shareId)}`;
@@ -0,0 +1,21 @@
+import { request } from "@/lib/api-client";
+import type { SessionShare } from "@/lib/session-shares";
+import type { WeightUnit } from "@/lib/units";
+
+const ENDPOINT = "/api/shares";
+
+export const fetchShares = async () => {
+  const { shares } = await request<{ shares: SessionShare[] }>(ENDPOINT, { cache: "no-store" });
+  return shares;
+};
+
+/** Returns the session's link, creating it on first share. */
+export const shareSession = async (sessionId: string, unit: WeightUnit) => {
+  const { share } = await request<{ share: SessionShare }>(ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify({ sessionId, unit }),
+  });
+  return share;
+};
+
+export const revokeShare = (id: string) => request<void>(`${ENDPOINT}/${encodeURIComponent(id)}`, { method: "DELETE" });
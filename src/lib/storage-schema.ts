@@ -0,0 +1,148 @@
+import { DEFAULT_WEIGHT_UNIT } from "@/lib/units";
+import { isRecord } from "@/lib/validation";
+import type { ValidationResult } from "@/lib/workouts";
+
+/** What every collection is stored as. Bare arrays written before versioning count as version 0. */
+export type StorageEnvelope = {
+  schemaVersion: number;
+  records: unknown[];
+};
+
+export type Migration = {
+  // The version the data is at after this step runs.
+  version: number;
+  description: string;
+  migrate: (records: unknown[]) => unknown[];
+};
+
+export type StorageSchema = {
+  version: number;
+  // Ordered oldest first; every version from 1 up to `version` needs exactly one step.
+  migrations: Migration[];
+};
+
+export type QuarantinedRecord = {
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+};
+
+export type LoadedCollection<T> = {
+  // Version the stored data was at before migrating.
+  fromVersion: number;
+  records: T[];
+  quarantined: QuarantinedRecord[];
+};
+
+const wrapInEnvelope: Migration = {
+  version: 1,
+  description: "Wrap the bare record array in a versioned envelope",
+  migrate: (records) => records,
+};
+
+/** Reads the version and records out of stored data, throwing when it is neither an envelope nor an array. */
+export const readEnvelope = (data: unknown): StorageEnvelope => {
+  if (Array.isArray(data)) return { schemaVersion: 0, records: data };
+  if (isRecord(data) && Number.isInteger(data.schemaVersion) && Array.isArray(data.records)) {
+    return { schemaVersion: data.schemaVersion as number, records: data.records };
+  }
+  throw new Error("Stored data is not a versioned record list.");
+};
+
+/**
+ * Runs every migration newer than the stored version, in order. Data written
+ * by a newer version of the app is refused rather than guessed at.
+ */
+export const migrateEnvelope = (envelope: StorageEnvelope, schema: StorageSchema): StorageEnvelope => {
+  if (envelope.schemaVersion > schema.version) {
+    throw new Error(
+      `Stored data uses schema version ${envelope.schemaVersion}, newer than the supported version ${schema.version}.`
+    );
+  }
+  return schema.migrations
+    .filter((migration) => migration.version > envelope.schemaVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce<StorageEnvelope>(
+      (current, migration) => ({ schemaVersion: migration.version, records: migration.migrate(current.records) }),
+      envelope
+    );
+};
+
+/**
+ * Migrates stored data and validates each record on its own, so one corrupt
+ * record ends up in `quarantined` instead of emptying the whole collection.
+ */
+export const loadCollection = <T>(
+  data: unknown,
+  schema: StorageSchema,
+  validate: (value: unknown) => ValidationResult<T>
+): LoadedCollection<T> => {
+  const stored = readEnvelope(data);
+  const migrated = migrateEnvelope(stored, schema);
+  const quarantinedAt = new Date().toISOString();
+  const records: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  migrated.records.forEach((record) => {
+    const result = validate(record);
+    if (result.ok) {
+      records.push(result.value);
+    } else {
+      quarantined.push({ record, reason: result.reason, quarantinedAt });
+    }
+  });
+  return { fromVersion: stored.schemaVersion, records, quarantined };
+};
+
+// Applies `update` to each nested set while leaving malformed shapes for validation to report.
+const mapSets = (records: unknown[], update: (set: Record<string, unknown>) => Record<string, unknown>) =>
+  records.map((session) => {
+    if (!isRecord(session) || !Array.isArray(session.exercises)) return session;
+    return {
+      ...session,
+      exercises: session.exercises.map((exercise) => {
+        if (!isRecord(exercise) || !Array.isArray(exercise.sets)) return exercise;
+        return { ...exercise, sets: exercise.sets.map((set) => (isRecord(set) ? update(set) : set)) };
+      }),
+    };
+  });
+
+export const WORKOUT_SCHEMA: StorageSchema = {
+  version: 3,
+  migrations: [
+    wrapInEnvelope,
+    {
+      version: 2,
+      description: "Record the unit of every set; sets logged before units existed were kilograms",
+      migrate: (records) => mapSets(records, (set) => ({ unit: DEFAULT_WEIGHT_UNIT, ...set })),
+    },
+    {
+      version: 3,
+      description: "Mark existing sets as working sets and exercises as weighted",
+      migrate: (records) =>
+        mapSets(records, (set) => ({ type: "working", ...set })).map((session) =>
+          isRecord(session) && Array.isArray(session.exercises)
+            ? {
+                ...session,
+                exercises: session.exercises.map((exercise) =>
+                  isRecord(exercise) ? { kind: "weighted", ...exercise } : exercise
+                ),
+              }
+            : session
+        ),
+    },
+  ],
+};
+
+export const TEMPLATE_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const CATALOG_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const USER_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const AUTH_SESSION_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const BODY_METRIC_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const SESSION_SHARE_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
+
+export const PROGRAM_SCHEMA: StorageSchema = { version: 1, migrations: [wrapInEnvelope] };
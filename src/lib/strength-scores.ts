@@ -0,0 +1,61 @@
+import { convertWeight, type WeightUnit } from "@/lib/units";
+
+/** Wilks and DOTS use separate curves for men and women, so scores need the lifter's category. */
+export type ScoringCategory = "male" | "female";
+
+export const SCORING_CATEGORIES: { value: ScoringCategory; label: string }[] = [
+  { value: "male", label: "Men" },
+  { value: "female", label: "Women" },
+];
+
+export const isScoringCategory = (value: unknown): value is ScoringCategory => value === "male" || value === "female";
+
+// Catalog ids of the powerlifting "big three", whose best lifts make up the total.
+export const BIG_THREE_IDS = ["back-squat", "bench-press", "deadlift"] as const;
+
+const polynomial = (coefficients: number[], x: number) =>
+  coefficients.reduce((sum, coefficient, power) => sum + coefficient * x ** power, 0);
+
+// Classic Wilks coefficients, lowest power first.
+const WILKS: Record<ScoringCategory, { coefficients: number[]; min: number; max: number }> = {
+  male: {
+    coefficients: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8],
+    min: 40,
+    max: 201.9,
+  },
+  female: {
+    coefficients: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8],
+    min: 26.51,
+    max: 154.53,
+  },
+};
+
+const DOTS: Record<ScoringCategory, { coefficients: number[]; min: number; max: number }> = {
+  male: { coefficients: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093], min: 40, max: 210 },
+  female: { coefficients: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706], min: 40, max: 150 },
+};
+
+/**
+ * Scores a total against bodyweight with one of the formulas above. Both are
+ * defined in kilograms; bodyweights outside a formula's range are clamped to it.
+ */
+const score = (
+  formula: { coefficients: number[]; min: number; max: number },
+  total: number,
+  bodyweight: number,
+  unit: WeightUnit
+) => {
+  if (!(total > 0) || !(bodyweight > 0)) return 0;
+  const bodyweightKg = Math.min(formula.max, Math.max(formula.min, convertWeight(bodyweight, unit, "kg")));
+  return (convertWeight(total, unit, "kg") * 500) / polynomial(formula.coefficients, bodyweightKg);
+};
+
+export const wilksScore = (total: number, bodyweight: number, unit: WeightUnit, category: ScoringCategory) =>
+  score(WILKS[category], total, bodyweight, unit);
+
+export const dotsScore = (total: number, bodyweight: number, unit: WeightUnit, category: ScoringCategory) =>
+  score(DOTS[category], total, bodyweight, unit);
+
+/** A lift as a multiple of bodyweight, e.g. 1.5 for a 120 kg bench at 80 kg. */
+export const bodyweightMultiple = (lift: number, bodyweight: number | null) =>
+  bodyweight && bodyweight > 0 ? lift / bodyweight : null;
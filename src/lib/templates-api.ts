@@ -0,0 +1,12 @@
+import { createCollectionClient } from "@/lib/api-client";
+import type { WorkoutTemplate } from "@/lib/templates";
+
+const client = createCollectionClient<WorkoutTemplate>("/api/templates", "templates", "template");
+
+export const fetchTemplates = client.list;
+
+export const createTemplates = client.create;
+
+export const updateTemplate = client.update;
+
+export const deleteTemplate = client.remove;
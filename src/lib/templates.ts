@@ -0,0 +1,130 @@
+import { createId } from "@/lib/ids";
+import { DEFAULT_WEIGHT_UNIT, isWeightUnit, type WeightUnit } from "@/lib/units";
+import { fail, isPositiveInteger, isRecord } from "@/lib/validation";
+import type { ValidationResult, WorkoutSession } from "@/lib/workouts";
+
+export type TemplateExercise = {
+  id: string;
+  name: string;
+  notes?: string;
+  targetSets: number;
+  repsMin: number;
+  repsMax: number;
+  weight?: number;
+  unit: WeightUnit;
+  // Shared with the neighbouring exercises of a superset or circuit, as on ExerciseEntry.
+  groupId?: string;
+};
+
+export type WorkoutTemplate = {
+  id: string;
+  name: string;
+  // Order matters: drafts started from the template follow it.
+  exercises: TemplateExercise[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const validateTemplateExercise = (value: unknown): ValidationResult<TemplateExercise> => {
+  if (!isRecord(value)) return fail("template exercise must be an object");
+  if (typeof value.id !== "string" || !value.id) return fail("template exercise is missing an id");
+  if (typeof value.name !== "string" || !value.name.trim()) return fail(`template exercise ${value.id} needs a name`);
+  if (!isPositiveInteger(value.targetSets)) return fail(`template exercise ${value.id} needs a target set count`);
+  if (!isPositiveInteger(value.repsMin) || !isPositiveInteger(value.repsMax) || value.repsMin > value.repsMax) {
+    return fail(`template exercise ${value.id} has an invalid rep range`);
+  }
+  if (value.weight != null && (typeof value.weight !== "number" || !Number.isFinite(value.weight))) {
+    return fail(`template exercise ${value.id} has an invalid weight`);
+  }
+  if (value.unit !== undefined && !isWeightUnit(value.unit)) {
+    return fail(`template exercise ${value.id} has an unknown unit`);
+  }
+  if (value.notes != null && typeof value.notes !== "string") {
+    return fail(`template exercise ${value.id} has invalid notes`);
+  }
+  if (value.groupId != null && typeof value.groupId !== "string") {
+    return fail(`template exercise ${value.id} has an invalid group`);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name,
+      notes: typeof value.notes === "string" ? value.notes : undefined,
+      targetSets: value.targetSets,
+      repsMin: value.repsMin,
+      repsMax: value.repsMax,
+      weight: typeof value.weight === "number" ? value.weight : undefined,
+      unit: value.unit ?? DEFAULT_WEIGHT_UNIT,
+      groupId: typeof value.groupId === "string" && value.groupId ? value.groupId : undefined,
+    },
+  };
+};
+
+export const validateWorkoutTemplate = (value: unknown): ValidationResult<WorkoutTemplate> => {
+  if (!isRecord(value)) return fail("template must be an object");
+  if (typeof value.id !== "string" || !value.id) return fail("template is missing an id");
+  if (typeof value.name !== "string" || !value.name.trim()) return fail(`template ${value.id} needs a name`);
+  if (typeof value.createdAt !== "string" || typeof value.updatedAt !== "string") {
+    return fail(`template ${value.id} is missing timestamps`);
+  }
+  if (!Array.isArray(value.exercises)) return fail(`template ${value.id} has no exercises array`);
+
+  const exercises: TemplateExercise[] = [];
+  for (const candidate of value.exercises) {
+    const exercise = validateTemplateExercise(candidate);
+    if (!exercise.ok) return exercise;
+    exercises.push(exercise.value);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name,
+      exercises,
+      createdAt: value.createdAt,
+      updatedAt: value.updatedAt,
+    },
+  };
+};
+
+export const parseWorkoutTemplate = (value: unknown): WorkoutTemplate | null => {
+  const result = validateWorkoutTemplate(value);
+  return result.ok ? result.value : null;
+};
+
+/**
+ * Builds a template from a logged session: the set count, rep range and top
+ * weight of each exercise become its targets.
+ */
+export const templateFromSession = (session: WorkoutSession, name: string): WorkoutTemplate => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name,
+    exercises: session.exercises.map((exercise) => {
+      const reps = exercise.sets.flatMap((set) => (set.reps == null ? [] : [set.reps]));
+      const heaviest = exercise.sets.reduce<(typeof exercise.sets)[number] | undefined>(
+        (best, set) => (set.weight != null && (best?.weight == null || set.weight > best.weight) ? set : best),
+        undefined
+      );
+      return {
+        id: createId(),
+        name: exercise.name,
+        notes: exercise.notes,
+        targetSets: exercise.sets.length,
+        // Timed and cardio exercises carry no reps; fall back to a single rep as the target.
+        repsMin: reps.length > 0 ? Math.min(...reps) : 1,
+        repsMax: reps.length > 0 ? Math.max(...reps) : 1,
+        weight: heaviest?.weight,
+        unit: heaviest?.unit ?? exercise.sets[0]?.unit ?? DEFAULT_WEIGHT_UNIT,
+        groupId: exercise.groupId,
+      };
+    }),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const formatRepRange = (exercise: Pick<TemplateExercise, "repsMin" | "repsMax">) =>
+  exercise.repsMin === exercise.repsMax ? String(exercise.repsMin) : `${exercise.repsMin}-${exercise.repsMax}`;
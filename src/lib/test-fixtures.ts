@@ -0,0 +1,28 @@
+import type { ExerciseEntry, WorkoutSession, WorkoutSet } from "@/lib/workouts";
+
+// Builders for the domain tests: every record gets a unique id, and fields not given get the usual defaults.
+
+let nextId = 0;
+
+export const set = (fields: Partial<WorkoutSet>): WorkoutSet => ({
+  id: `set-${nextId++}`,
+  type: "working",
+  unit: "kg",
+  ...fields,
+});
+
+export const entry = (name: string, sets: WorkoutSet[], fields: Partial<ExerciseEntry> = {}): ExerciseEntry => ({
+  id: `exercise-${nextId++}`,
+  name,
+  kind: "weighted",
+  sets,
+  ...fields,
+});
+
+export const session = (date: string, exercises: ExerciseEntry[], fields: Partial<WorkoutSession> = {}): WorkoutSession => ({
+  id: `session-${date}-${nextId++}`,
+  date,
+  exercises,
+  createdAt: `${date}T12:00:00.000Z`,
+  ...fields,
+});
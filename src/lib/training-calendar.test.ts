@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { entry, session, set } from "@/lib/test-fixtures";
+import { heatmapWeeks, monthWeeks, trainingDays, volumeLevel, weeklyStats } from "@/lib/training-calendar";
+
+const workout = (date: string) => session(date, [entry("Squat", [set({ reps: 5, weight: 100 })])]);
+
+describe("weeklyStats", () => {
+  // 2026-03-16 is a Monday; the two weeks before it each have two sessions, the current week one.
+  const workouts = ["2026-03-02", "2026-03-04", "2026-03-09", "2026-03-11", "2026-03-17"].map(workout);
+
+  it("counts the streak of weeks that met the goal without breaking it on the week in progress", () => {
+    expect(weeklyStats(workouts, 2, "2026-03-18")).toMatchObject({ thisWeek: 1, currentStreak: 2, longestStreak: 2 });
+  });
+
+  it("treats a goal below one session as one instead of counting back forever", () => {
+    for (const goal of [0, -2, 0.5]) {
+      expect(weeklyStats(workouts, goal, "2026-03-18")).toMatchObject({ currentStreak: 3, longestStreak: 3 });
+    }
+  });
+
+  it("averages over completed weeks and remembers a longer streak that has ended", () => {
+    const earlier = ["2026-01-05", "2026-01-12", "2026-01-19", "2026-01-26"].map(workout);
+    expect(weeklyStats([...earlier, ...workouts], 1, "2026-03-18", 4)).toEqual({
+      thisWeek: 1,
+      averagePerWeek: 1,
+      currentStreak: 3,
+      longestStreak: 4,
+    });
+  });
+});
+
+describe("trainingDays", () => {
+  it("adds up the volume of every session on a date", () => {
+    const days = trainingDays([workout("2026-03-02"), workout("2026-03-02"), workout("2026-03-04")]);
+    expect(days.get("2026-03-02")).toMatchObject({ volume: 1000 });
+    expect(days.get("2026-03-02")?.sessionIds).toHaveLength(2);
+    expect(days.get("2026-03-04")?.volume).toBe(500);
+  });
+});
+
+describe("monthWeeks", () => {
+  it("lays a month out in Monday-first rows, padding days from other months", () => {
+    // March 2026 starts on a Sunday and ends on a Tuesday.
+    const weeks = monthWeeks(2026, 2);
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0]).toEqual([null, null, null, null, null, null, "2026-03-01"]);
+    expect(weeks[5]).toEqual(["2026-03-30", "2026-03-31", null, null, null, null, null]);
+    expect(weeks.flat().filter(Boolean)).toHaveLength(31);
+  });
+});
+
+describe("heatmapWeeks", () => {
+  it("ends with the week that contains the end date", () => {
+    const weeks = heatmapWeeks("2026-03-18", 2);
+    expect(weeks.map((week) => [week[0], week[6]])).toEqual([
+      ["2026-03-09", "2026-03-15"],
+      ["2026-03-16", "2026-03-22"],
+    ]);
+    expect(heatmapWeeks("2026-03-18")).toHaveLength(53);
+  });
+});
+
+describe("volumeLevel", () => {
+  it("buckets volume relative to the heaviest day, with rest days at zero", () => {
+    expect([0, 1, 250, 251, 1000, 1500].map((volume) => volumeLevel(volume, 1000))).toEqual([0, 1, 1, 2, 4, 4]);
+    expect(volumeLevel(500, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { addDays, sessionVolume, startOfWeek } from "@/lib/progress";
+import type { WorkoutSession } from "@/lib/workouts";
+
+export type TrainingDay = {
+  date: string;
+  volume: number;
+  sessionIds: string[];
+};
+
+/** Volume and sessions per calendar date. Expects sessions converted to one unit. */
+export const trainingDays = (workouts: WorkoutSession[]) => {
+  const days = new Map<string, TrainingDay>();
+  workouts.forEach((session) => {
+    const day = days.get(session.date) ?? { date: session.date, volume: 0, sessionIds: [] };
+    day.volume += sessionVolume(session);
+    day.sessionIds.push(session.id);
+    days.set(session.date, day);
+  });
+  return days;
+};
+
+/**
+ * Monday-first rows covering a month; days outside the month are null so the
+ * grid keeps its shape. `month` is 0-based like Date.
+ */
+export const monthWeeks = (year: number, month: number): (string | null)[][] => {
+  const first = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  const monthPrefix = first.slice(0, 7);
+  const weeks: (string | null)[][] = [];
+  for (let weekStart = startOfWeek(first); weekStart.slice(0, 7) <= monthPrefix; weekStart = addDays(weekStart, 7)) {
+    weeks.push(
+      Array.from({ length: 7 }, (_, offset) => {
+        const date = addDays(weekStart, offset);
+        return date.startsWith(monthPrefix) ? date : null;
+      })
+    );
+  }
+  return weeks;
+};
+
+/** Week columns (Monday to Sunday) for a contribution-style heatmap ending with the week of `endDate`. */
+export const heatmapWeeks = (endDate: string, weekCount = 53): string[][] => {
+  const lastWeek = startOfWeek(endDate);
+  return Array.from({ length: weekCount }, (_, index) => {
+    const weekStart = addDays(lastWeek, (index - weekCount + 1) * 7);
+    return Array.from({ length: 7 }, (_, offset) => addDays(weekStart, offset));
+  });
+};
+
+/** Buckets a day's volume into 0 (rest) to 4 relative to the heaviest day shown. */
+export const volumeLevel = (volume: number, maxVolume: number) => {
+  if (volume <= 0 || maxVolume <= 0) return 0;
+  return Math.min(4, Math.max(1, Math.ceil((volume / maxVolume) * 4)));
+};
+
+export const DEFAULT_WEEKLY_GOAL = 3;
+
+export type WeeklyStats = {
+  thisWeek: number;
+  averagePerWeek: number;
+  // Consecutive weeks that met the goal. The current week only extends the
+  // streak once it meets the goal, and never breaks it while in progress.
+  currentStreak: number;
+  longestStreak: number;
+};
+
+export const weeklyStats = (
+  workouts: WorkoutSession[],
+  goal: number,
+  today: string,
+  averageWindowWeeks = 12
+): WeeklyStats => {
+  const perWeek = new Map<string, number>();
+  workouts.forEach((session) => {
+    const week = startOfWeek(session.date);
+    perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+  });
+  const currentWeek = startOfWeek(today);
+  const thisWeek = perWeek.get(currentWeek) ?? 0;
+
+  // Completed weeks only, so a fresh Monday does not drag the average down.
+  let windowTotal = 0;
+  for (let index = 1; index <= averageWindowWeeks; index += 1) {
+    windowTotal += perWeek.get(addDays(currentWeek, -7 * index)) ?? 0;
+  }
+
+  // Every week would meet a goal of zero, and the streak count would never stop walking back.
+  const target = Math.max(1, Math.floor(goal));
+  const metGoal = (week: string) => (perWeek.get(week) ?? 0) >= target;
+  let currentStreak = metGoal(currentWeek) ? 1 : 0;
+  for (let week = addDays(currentWeek, -7); metGoal(week); week = addDays(week, -7)) currentStreak += 1;
+
+  let longestStreak = 0;
+  let run = 0;
+  const weeks = Array.from(perWeek.keys()).sort();
+  if (weeks.length > 0) {
+    for (let week = weeks[0]; week <= currentWeek; week = addDays(week, 7)) {
+      run = metGoal(week) ? run + 1 : 0;
+      longestStreak = Math.max(longestStreak, run);
+    }
+  }
+
+  return {
+    thisWeek,
+    averagePerWeek: windowTotal / averageWindowWeeks,
+    currentStreak,
+    longestStreak: Math.max(longestStreak, currentStreak),
+  };
+};
@@ -0,0 +1,94 @@
+import type { WorkoutSession, WorkoutSet } from "@/lib/workouts";
+
+export type WeightUnit = "kg" | "lb";
+
+export const WEIGHT_UNITS: WeightUnit[] = ["kg", "lb"];
+
+// Sets saved before units existed were always entered and labelled as kilograms.
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "kg";
+
+const KG_PER_LB = 0.45359237;
+
+export type DistanceUnit = "m" | "km" | "mi";
+
+export const DISTANCE_UNITS: DistanceUnit[] = ["m", "km", "mi"];
+
+export const DEFAULT_DISTANCE_UNIT: DistanceUnit = "km";
+
+export type LengthUnit = "cm" | "in";
+
+export const LENGTH_UNITS: LengthUnit[] = ["cm", "in"];
+
+export const DEFAULT_LENGTH_UNIT: LengthUnit = "cm";
+
+const CM_PER_IN = 2.54;
+
+export const isLengthUnit = (value: unknown): value is LengthUnit => value === "cm" || value === "in";
+
+export const isDistanceUnit = (value: unknown): value is DistanceUnit => value === "m" || value === "km" || value === "mi";
+
+export const isWeightUnit = (value: unknown): value is WeightUnit => value === "kg" || value === "lb";
+
+export const convertWeight = (value: number, from: WeightUnit, to: WeightUnit) => {
+  if (from === to) return value;
+  return from === "lb" ? value * KG_PER_LB : value / KG_PER_LB;
+};
+
+export const convertLength = (value: number, from: LengthUnit, to: LengthUnit) => {
+  if (from === to) return value;
+  return from === "in" ? value * CM_PER_IN : value / CM_PER_IN;
+};
+
+/** Rounds to the nearest multiple of `step`, e.g. the smallest plate increment. */
+export const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/** A set's weight expressed in the requested unit, or 0 when it carries no load. */
+export const setWeightIn = (set: WorkoutSet, unit: WeightUnit) =>
+  set.weight == null ? 0 : convertWeight(set.weight, set.unit, unit);
+
+/**
+ * Load times reps in the requested unit. Warm-up sets and sets without reps
+ * (timed holds, cardio) contribute nothing.
+ */
+export const setVolume = (set: WorkoutSet, unit: WeightUnit) =>
+  set.type === "warmup" || set.reps == null ? 0 : setWeightIn(set, unit) * set.reps;
+
+export const formatWeight = (value: number, unit: WeightUnit) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ${unit}`;
+
+export const formatLength = (value: number, unit: LengthUnit) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ${unit}`;
+
+export const formatDistance = (value: number, unit: DistanceUnit) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`;
+
+/** Formats seconds as m:ss, or h:mm:ss past an hour. */
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+};
+
+/** Parses "90", "1:30" or "1:02:30" into seconds; returns NaN for anything else. */
+export const parseDuration = (text: string) => {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return Number.NaN;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+/**
+ * Returns copies of the sessions with every set expressed in one unit, so
+ * aggregates can add weights together without caring how each set was logged.
+ */
+export const convertWorkouts = (workouts: WorkoutSession[], unit: WeightUnit): WorkoutSession[] =>
+  workouts.map((session) => ({
+    ...session,
+    exercises: session.exercises.map((exercise) => ({
+      ...exercise,
+      sets: exercise.sets.map((set) =>
+        set.unit === unit || set.weight == null ? { ...set, unit } : { ...set, weight: setWeightIn(set, unit), unit }
+      ),
+    })),
+  }));
@@ -0,0 +1,56 @@
+import { isRecord } from "@/lib/validation";
+import type { ValidationResult } from "@/lib/workouts";
+
+export type UserRole = "athlete" | "coach";
+
+export const USER_ROLES: { value: UserRole; label: string }[] = [
+  { value: "athlete", label: "Athlete" },
+  { value: "coach", label: "Coach" },
+];
+
+/** What the browser gets to see about an account. */
+export type User = {
+  id: string;
+  username: string;
+  role: UserRole;
+  // Coaches this user lets view their workouts and insights, read-only.
+  sharedWith: string[];
+  createdAt: string;
+};
+
+/** Another account as listed to a user: coaches to share with, or athletes shared with a coach. */
+export type UserSummary = Pick<User, "id" | "username" | "role">;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const isUserRole = (value: unknown): value is UserRole => value === "athlete" || value === "coach";
+
+export const isUser = (value: unknown): value is User =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  value.id !== "" &&
+  typeof value.username === "string" &&
+  isUserRole(value.role) &&
+  Array.isArray(value.sharedWith) &&
+  value.sharedWith.every((id) => typeof id === "string") &&
+  typeof value.createdAt === "string";
+
+/** Checks sign-up input; usernames are case-insensitive and stored lower-case. */
+export const validateCredentials = (
+  username: unknown,
+  password: unknown
+): ValidationResult<{ username: string; password: string }> => {
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(normalizeUsername(username))) {
+    return { ok: false, reason: "Usernames are 3-32 letters, digits, dots, dashes or underscores." };
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return { ok: false, reason: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+  }
+  return { ok: true, value: { username: normalizeUsername(username), password } };
+};
+
+export const toUserSummary = ({ id, username, role }: UserSummary): UserSummary => ({ id, username, role });
@@ -0,0 +1,15 @@
+import type { ValidationResult } from "@/lib/workouts";
+
+// Building blocks for the validators that check untrusted records (request bodies, stored JSON, imported files).
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+export const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const fail = <T>(reason: string): ValidationResult<T> => ({ ok: false, reason });
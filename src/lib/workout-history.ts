@@ -0,0 +1,68 @@
+import type { WorkoutSession } from "@/lib/workouts";
+
+/** One session before and after an action; null means the session did not exist. */
+export type WorkoutChange = {
+  before: WorkoutSession | null;
+  after: WorkoutSession | null;
+};
+
+export type HistoryEntry = {
+  label: string;
+  changes: WorkoutChange[];
+};
+
+export type WorkoutHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: WorkoutHistory = { past: [], future: [] };
+
+export const MAX_HISTORY = 50;
+
+/** Adds an action to the undo stack. A new action discards anything that could be redone. */
+export const recordEntry = (history: WorkoutHistory, entry: HistoryEntry): WorkoutHistory => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: [],
+});
+
+/** Drops an entry again, e.g. when the request behind it failed and was reverted. */
+export const discardEntry = (history: WorkoutHistory, entry: HistoryEntry): WorkoutHistory => ({
+  past: history.past.filter((candidate) => candidate !== entry),
+  future: history.future.filter((candidate) => candidate !== entry),
+});
+
+export const undoEntry = (history: WorkoutHistory): WorkoutHistory => {
+  const entry = history.past.at(-1);
+  return entry ? { past: history.past.slice(0, -1), future: [...history.future, entry] } : history;
+};
+
+export const redoEntry = (history: WorkoutHistory): WorkoutHistory => {
+  const entry = history.future.at(-1);
+  return entry ? { past: [...history.past, entry], future: history.future.slice(0, -1) } : history;
+};
+
+const sessionId = (change: WorkoutChange) => (change.after ?? change.before)?.id ?? "";
+
+/**
+ * The sessions to write and the ids to delete so the store matches one side
+ * of an entry: "before" to undo it, "after" to redo it.
+ */
+export const entryTargets = (entry: HistoryEntry, side: keyof WorkoutChange) => ({
+  sessions: entry.changes.flatMap((change) => change[side] ?? []),
+  removedIds: entry.changes.filter((change) => change[side] === null).map(sessionId),
+});
+
+export const applyEntry = (workouts: WorkoutSession[], entry: HistoryEntry, side: keyof WorkoutChange) => {
+  const { sessions, removedIds } = entryTargets(entry, side);
+  const byId = new Map(workouts.map((session) => [session.id, session]));
+  removedIds.forEach((id) => byId.delete(id));
+  sessions.forEach((session) => byId.set(session.id, session));
+  return Array.from(byId.values());
+};
+
+/** Forgets entries touching sessions that were deleted for good, so undo cannot bring them back. */
+export const forgetSessions = (history: WorkoutHistory, ids: string[]): WorkoutHistory => {
+  const touches = (entry: HistoryEntry) => entry.changes.some((change) => ids.includes(sessionId(change)));
+  return { past: history.past.filter((entry) => !touches(entry)), future: history.future.filter((entry) => !touches(entry)) };
+};
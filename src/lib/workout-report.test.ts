@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCatalogIndex } from "@/lib/exercise-catalog";
+import { entry, session, set } from "@/lib/test-fixtures";
+import {
+  buildWorkoutReport,
+  describeReportSet,
+  parseReportParams,
+  reportToMarkdown,
+  type ReportOptions,
+} from "@/lib/workout-report";
+
+const catalogIndex = buildCatalogIndex([
+  { id: "bench-press", name: "Bench Press", aliases: ["Bench"], muscleGroups: ["chest"], equipment: "barbell" },
+]);
+
+const OPTIONS: ReportOptions = { from: "2026-03-02", to: "2026-03-08", unit: "kg", formula: "epley" };
+
+describe("buildWorkoutReport", () => {
+  const workouts = [
+    session("2026-02-23", [entry("Bench Press", [set({ reps: 5, weight: 100 })])]),
+    session("2026-03-04", [entry("Bench", [set({ reps: 5, weight: 95 }), set({ reps: 5, weight: 220, unit: "lb" })])]),
+    session("2026-03-02", [entry("Squat", [set({ reps: 5, weight: 140 }), set({ type: "warmup", reps: 5, weight: 60 })])]),
+    session("2026-03-06", [entry("Squat", [set({ reps: 5, weight: 150 })])], { deletedAt: "2026-03-07T00:00:00.000Z" }),
+    session("2026-03-09", [entry("Squat", [set({ reps: 5, weight: 150 })])]),
+  ];
+  const report = buildWorkoutReport(workouts, catalogIndex, OPTIONS);
+
+  it("keeps sessions in the range oldest first and leaves out trashed ones", () => {
+    expect(report.sessions.map((item) => item.session.date)).toEqual(["2026-03-02", "2026-03-04"]);
+  });
+
+  it("converts weights and groups aliases under the catalog name", () => {
+    expect(report.totals).toEqual({ sessions: 2, sets: 4, volume: expect.closeTo(700 + 475 + 498.95, 1) });
+    expect(report.exercises.map((exercise) => exercise.name)).toEqual(["Bench Press", "Squat"]);
+    expect(report.sessions[1].session.exercises[0].sets[1]).toMatchObject({ unit: "kg", weight: expect.closeTo(99.79, 1) });
+  });
+
+  it("judges records against the whole history, not just the range", () => {
+    const bench = report.sessions[1].records;
+    expect(bench.some((hit) => hit.exercise === "Bench Press" && hit.kind === "weight")).toBe(false);
+    expect(bench.some((hit) => hit.kind === "volume")).toBe(true);
+    // The first squat session has nothing earlier to beat.
+    expect(report.sessions[0].records).toEqual([]);
+    expect(report.recordCount).toBe(bench.length);
+  });
+
+  it("is empty for a range without sessions", () => {
+    const empty = buildWorkoutReport(workouts, catalogIndex, { ...OPTIONS, from: "2025-01-01", to: "2025-01-07" });
+    expect(empty.sessions).toEqual([]);
+    expect(empty.totals).toEqual({ sessions: 0, sets: 0, volume: 0 });
+    expect(reportToMarkdown(empty)).toContain("No sessions were logged in this period.");
+  });
+});
+
+describe("describeReportSet", () => {
+  it("describes loaded, bodyweight, timed and cardio sets", () => {
+    expect(describeReportSet(set({ reps: 5, weight: 100, rpe: 8 }), { kind: "weighted" })).toBe("100 kg × 5 · RPE 8");
+    expect(describeReportSet(set({ reps: 8, type: "warmup" }), { kind: "bodyweight" })).toBe("BW × 8 · warm-up");
+    expect(describeReportSet(set({ reps: 6, weight: 10 }), { kind: "bodyweight" })).toBe("BW + 10 kg × 6");
+    expect(describeReportSet(set({ reps: 12 }), { kind: "weighted" })).toBe("12 reps");
+    expect(describeReportSet(set({ durationSeconds: 90 }), { kind: "timed" })).toBe("1:30");
+    expect(describeReportSet(set({ durationSeconds: 1500, distance: 5, distanceUnit: "km" }), { kind: "cardio" })).toBe(
+      "25:00 · 5 km"
+    );
+  });
+});
+
+describe("reportToMarkdown", () => {
+  it("lists totals, volume per exercise and every set", () => {
+    const report = buildWorkoutReport(
+      [
+        session("2026-03-03", [entry("Row | cable", [set({ reps: 10, weight: 50 })], { notes: "slow eccentrics" })], {
+          title: "Pull",
+        }),
+      ],
+      catalogIndex,
+      OPTIONS
+    );
+    const markdown = reportToMarkdown(report);
+    expect(markdown).toContain("# Training report: 2026-03-02 to 2026-03-08");
+    expect(markdown).toContain("- Sessions: 1");
+    expect(markdown).toContain("| Row \\| cable | 1 | 10 | 500 |");
+    expect(markdown).toContain("## 2026-03-03 · Pull");
+    expect(markdown).toContain("_slow eccentrics_");
+    expect(markdown).toContain("1. 50 kg × 10");
+    expect(markdown.endsWith("\n")).toBe(true);
+  });
+});
+
+describe("parseReportParams", () => {
+  it("requires a valid, ordered range", () => {
+    expect(parseReportParams(new URLSearchParams("from=2026-03-02")).ok).toBe(false);
+    expect(parseReportParams(new URLSearchParams("from=2026-03-09&to=2026-03-02")).ok).toBe(false);
+    expect(parseReportParams(new URLSearchParams("from=2026-02-30&to=2026-03-02")).ok).toBe(false);
+  });
+
+  it("falls back to the default unit and formula", () => {
+    expect(parseReportParams(new URLSearchParams("from=2026-03-02&to=2026-03-08&unit=stone&formula=x"))).toEqual({
+      ok: true,
+      value: { from: "2026-03-02", to: "2026-03-08", unit: "kg", formula: "epley" },
+    });
+    expect(parseReportParams(new URLSearchParams("from=2026-03-02&to=2026-03-02&unit=lb&formula=brzycki"))).toEqual({
+      ok: true,
+      value: { from: "2026-03-02", to: "2026-03-02", unit: "lb", formula: "brzycki" },
+    });
+  });
+});
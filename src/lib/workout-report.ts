@@ -0,0 +1,190 @@
+import { canonicalizeWorkouts, type CatalogIndex } from "@/lib/exercise-catalog";
+import { groupTags } from "@/lib/exercise-groups";
+import { isWithinRange } from "@/lib/progress";
+import { describeRecordHit, recordHitsBySession, type OneRepMaxFormula, type RecordHit } from "@/lib/records";
+import {
+  convertWorkouts,
+  DEFAULT_DISTANCE_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  formatDistance,
+  formatDuration,
+  formatWeight,
+  isWeightUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import { logTotals, setsVolume, summarizeExercises, type ExerciseSummary, type LogTotals } from "@/lib/workout-stats";
+import { isISODate, type ExerciseEntry, type ValidationResult, type WorkoutSession, type WorkoutSet } from "@/lib/workouts";
+
+export type ReportOptions = {
+  from: string; // inclusive ISO date
+  to: string; // inclusive ISO date
+  unit: WeightUnit;
+  formula: OneRepMaxFormula;
+};
+
+export type ReportSession = {
+  session: WorkoutSession;
+  volume: number;
+  // Records this session set against everything logged before it, not just the report range.
+  records: RecordHit[];
+};
+
+export type WorkoutReport = ReportOptions & {
+  sessions: ReportSession[];
+  totals: LogTotals;
+  exercises: ExerciseSummary[];
+  recordCount: number;
+};
+
+/**
+ * A coach-facing summary of every session between `from` and `to`, oldest
+ * first. Weights are converted to `unit` and exercise names follow the
+ * catalog, so totals per exercise group aliases together.
+ */
+export const buildWorkoutReport = (
+  workouts: WorkoutSession[],
+  catalogIndex: CatalogIndex,
+  options: ReportOptions
+): WorkoutReport => {
+  const kept = workouts.filter((session) => !session.deletedAt);
+  const history = canonicalizeWorkouts(convertWorkouts(kept, options.unit), catalogIndex);
+  const hits = recordHitsBySession(history, options.formula);
+  const inRange = history
+    .filter((session) => isWithinRange(session.date, options))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  const sessions = inRange.map((session) => ({
+    session,
+    volume: session.exercises.reduce((sum, exercise) => sum + setsVolume(exercise.sets, options.unit), 0),
+    records: hits.get(session.id) ?? [],
+  }));
+
+  return {
+    ...options,
+    sessions,
+    totals: logTotals(inRange, options.unit),
+    exercises: summarizeExercises(inRange, options.unit).sort((a, b) => b.totalVolume - a.totalVolume),
+    recordCount: sessions.reduce((sum, entry) => sum + entry.records.length, 0),
+  };
+};
+
+const SET_TYPE_NOTES: Record<WorkoutSet["type"], string | null> = {
+  warmup: "warm-up",
+  working: null,
+  drop: "drop set",
+  failure: "to failure",
+};
+
+/** One line per set, e.g. "100 kg × 5 · RPE 8" or "BW + 10 kg × 8 · warm-up". */
+export const describeReportSet = (set: WorkoutSet, exercise: Pick<ExerciseEntry, "kind">) => {
+  const load =
+    exercise.kind === "bodyweight"
+      ? ["BW", set.weight ? formatWeight(set.weight, set.unit) : null].filter(Boolean).join(" + ")
+      : set.weight != null
+        ? formatWeight(set.weight, set.unit)
+        : null;
+  const main = set.reps != null ? (load ? `${load} × ${set.reps}` : `${set.reps} reps`) : load;
+  return [
+    main,
+    set.durationSeconds != null && formatDuration(set.durationSeconds),
+    set.distance != null && formatDistance(set.distance, set.distanceUnit ?? DEFAULT_DISTANCE_UNIT),
+    set.rpe != null && `RPE ${set.rpe}`,
+    set.rir != null && `${set.rir} RIR`,
+    SET_TYPE_NOTES[set.type],
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+/** Exercises with their superset/circuit tag ("A1", "A2") when they are grouped. */
+export const taggedExercises = (session: WorkoutSession) => {
+  const tags = groupTags(session.exercises);
+  return session.exercises.map((exercise) => ({ exercise, tag: tags.get(exercise.id) }));
+};
+
+const sessionDuration = (session: WorkoutSession) =>
+  session.startedAt && session.endedAt
+    ? formatDuration((new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000)
+    : null;
+
+const sessionHeading = (session: WorkoutSession) =>
+  [session.date, session.title, sessionDuration(session)].filter(Boolean).join(" · ");
+
+const sessionToMarkdown = (entry: ReportSession, unit: WeightUnit) => {
+  const { session } = entry;
+  const lines = [`## ${sessionHeading(session)}`, ""];
+  if (session.notes) lines.push(session.notes, "");
+  taggedExercises(session).forEach(({ exercise, tag }) => {
+    const volume = setsVolume(exercise.sets, unit);
+    lines.push(`### ${tag ? `${tag} ` : ""}${exercise.name}${volume > 0 ? ` — ${formatWeight(volume, unit)}` : ""}`, "");
+    if (exercise.notes) lines.push(`_${exercise.notes}_`, "");
+    exercise.sets.forEach((set, index) => lines.push(`${index + 1}. ${describeReportSet(set, exercise)}`));
+    lines.push("");
+  });
+  lines.push(`Session volume: ${formatWeight(entry.volume, unit)}`, "");
+  if (entry.records.length > 0) {
+    lines.push("Personal records:", ...entry.records.map((hit) => `- ${describeRecordHit(hit, unit)}`), "");
+  }
+  return lines;
+};
+
+export const reportToMarkdown = (report: WorkoutReport) => {
+  const { unit } = report;
+  const lines = [
+    `# Training report: ${report.from} to ${report.to}`,
+    "",
+    `- Sessions: ${report.totals.sessions}`,
+    `- Sets: ${report.totals.sets}`,
+    `- Volume: ${formatWeight(report.totals.volume, unit)}`,
+    `- Personal records: ${report.recordCount}`,
+    "",
+  ];
+  if (report.exercises.length > 0) {
+    lines.push(
+      "## Volume per exercise",
+      "",
+      `| Exercise | Sets | Reps | Volume (${unit}) |`,
+      "| --- | ---: | ---: | ---: |",
+      ...report.exercises.map(
+        (exercise) =>
+          `| ${exercise.name.replace(/\|/g, "\\|")} | ${exercise.totalSets} | ${exercise.totalReps} | ` +
+          `${exercise.totalVolume.toLocaleString(undefined, { maximumFractionDigits: 1 })} |`
+      ),
+      ""
+    );
+  }
+  report.sessions.forEach((entry) => lines.push(...sessionToMarkdown(entry, unit)));
+  if (report.sessions.length === 0) lines.push("No sessions were logged in this period.", "");
+  return `${lines.join("\n").trimEnd()}\n`;
+};
+
+export const reportFileName = (report: Pick<ReportOptions, "from" | "to">) =>
+  `training-report-${report.from}-to-${report.to}.md`;
+
+/** Reads report options from a query string; unit and formula fall back to the defaults. */
+export const parseReportParams = (params: URLSearchParams): ValidationResult<ReportOptions> => {
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  if (!isISODate(from) || !isISODate(to)) return { ok: false, reason: "Pick a start and end date for the report." };
+  if (from > to) return { ok: false, reason: "The report cannot start after it ends." };
+  const unit = params.get("unit");
+  return {
+    ok: true,
+    value: {
+      from,
+      to,
+      unit: isWeightUnit(unit) ? unit : DEFAULT_WEIGHT_UNIT,
+      formula: params.get("formula") === "brzycki" ? "brzycki" : "epley",
+    },
+  };
+};
+
+export const reportSearchParams = (options: ReportOptions, athleteId?: string) => {
+  const params = new URLSearchParams({
+    from: options.from,
+    to: options.to,
+    unit: options.unit,
+    formula: options.formula,
+  });
+  if (athleteId) params.set("athlete", athleteId);
+  return params;
+};
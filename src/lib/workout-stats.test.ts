@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { entry, session, set } from "@/lib/test-fixtures";
+import { logTotals, setsVolume, summarizeExercises } from "@/lib/workout-stats";
+
+describe("setsVolume", () => {
+  it("multiplies load by reps", () => {
+    expect(setsVolume([set({ reps: 5, weight: 100 }), set({ reps: 10, weight: 60 })], "kg")).toBe(1100);
+  });
+
+  it("counts sets without a weight as zero", () => {
+    expect(setsVolume([set({ reps: 12 }), set({ reps: 5, weight: 50 })], "kg")).toBe(250);
+  });
+
+  it("leaves out warm-ups and sets without reps", () => {
+    const sets = [set({ type: "warmup", reps: 5, weight: 60 }), set({ durationSeconds: 60, weight: 20 })];
+    expect(setsVolume(sets, "kg")).toBe(0);
+  });
+
+  it("converts each set to the requested unit", () => {
+    const volume = setsVolume([set({ reps: 1, weight: 100 }), set({ reps: 1, weight: 100, unit: "lb" })], "lb");
+    expect(volume).toBeCloseTo(320.46, 1);
+  });
+
+  it("is zero for no sets", () => {
+    expect(setsVolume([], "kg")).toBe(0);
+  });
+});
+
+describe("logTotals", () => {
+  it("adds up sessions, sets and volume", () => {
+    const workouts = [
+      session("2026-03-01", [entry("Squat", [set({ reps: 5, weight: 100 }), set({ type: "warmup", reps: 5, weight: 40 })])]),
+      session("2026-03-03", [entry("Plank", [set({ durationSeconds: 60 })]), entry("Row", [set({ reps: 10, weight: 50 })])]),
+    ];
+    expect(logTotals(workouts, "kg")).toEqual({ sessions: 2, sets: 4, volume: 1000 });
+  });
+
+  it("is empty for an empty log", () => {
+    expect(logTotals([], "lb")).toEqual({ sessions: 0, sets: 0, volume: 0 });
+  });
+});
+
+describe("summarizeExercises", () => {
+  it("merges repeats of a name within and across sessions", () => {
+    const workouts = [
+      session("2026-03-01", [entry("Bench Press", [set({ reps: 5, weight: 100 })]), entry(" Bench Press ", [set({ reps: 8 })])]),
+      session("2026-03-04", [entry("Bench Press", [set({ reps: 3, weight: 110 })])]),
+    ];
+    expect(summarizeExercises(workouts, "kg")).toEqual([
+      { name: "Bench Press", totalSets: 3, totalReps: 16, totalVolume: 830, lastPerformed: "2026-03-04" },
+    ]);
+  });
+
+  it("groups exercises without a name together", () => {
+    const [summary] = summarizeExercises([session("2026-03-01", [entry("", [set({ reps: 5 })]), entry("  ", [set({ reps: 5 })])])], "kg");
+    expect(summary).toMatchObject({ name: "Unnamed Exercise", totalSets: 2, totalReps: 10 });
+  });
+
+  it("sorts by the most recent session whatever order the log is in", () => {
+    const workouts = [
+      session("2026-03-05", [entry("Squat", [set({ reps: 5 })])]),
+      session("2026-03-07", [entry("Deadlift", [set({ reps: 5 })])]),
+      session("2026-03-01", [entry("Squat", [set({ reps: 5 })]), entry("Row", [set({ reps: 5 })])]),
+    ];
+    expect(summarizeExercises(workouts, "kg").map((summary) => [summary.name, summary.lastPerformed])).toEqual([
+      ["Deadlift", "2026-03-07"],
+      ["Squat", "2026-03-05"],
+      ["Row", "2026-03-01"],
+    ]);
+  });
+
+  it("counts reps only where they were logged", () => {
+    const [summary] = summarizeExercises([session("2026-03-01", [entry("Carry", [set({ distance: 40, weight: 30 })])])], "kg");
+    expect(summary).toMatchObject({ totalSets: 1, totalReps: 0, totalVolume: 0 });
+  });
+});
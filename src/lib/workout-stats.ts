@@ -0,0 +1,58 @@
+import { exerciseKey } from "@/lib/records";
+import { setVolume, type WeightUnit } from "@/lib/units";
+import type { WorkoutSession, WorkoutSet } from "@/lib/workouts";
+
+/** Volume of a list of sets in `unit`; warm-ups and sets without reps or weight add nothing. */
+export const setsVolume = (sets: WorkoutSet[], unit: WeightUnit) =>
+  sets.reduce((total, set) => total + setVolume(set, unit), 0);
+
+export type LogTotals = {
+  sessions: number;
+  sets: number;
+  volume: number;
+};
+
+/** Totals for the summary tiles. Volume is in `unit`, whatever unit each set was logged in. */
+export const logTotals = (workouts: WorkoutSession[], unit: WeightUnit): LogTotals => ({
+  sessions: workouts.length,
+  sets: workouts.reduce((sum, session) => sum + session.exercises.reduce((acc, exercise) => acc + exercise.sets.length, 0), 0),
+  volume: workouts.reduce(
+    (sum, session) => sum + session.exercises.reduce((acc, exercise) => acc + setsVolume(exercise.sets, unit), 0),
+    0
+  ),
+});
+
+export type ExerciseSummary = {
+  name: string;
+  totalSets: number;
+  totalReps: number;
+  totalVolume: number;
+  lastPerformed: string;
+};
+
+/**
+ * Per-exercise totals keyed by trimmed name, so repeats of an exercise within
+ * or across sessions add up. Most recently performed first. Callers that want
+ * aliases merged canonicalize the sessions first.
+ */
+export const summarizeExercises = (workouts: WorkoutSession[], unit: WeightUnit): ExerciseSummary[] => {
+  const summary = new Map<string, ExerciseSummary>();
+  workouts.forEach((session) => {
+    session.exercises.forEach((exercise) => {
+      const name = exerciseKey(exercise);
+      const record = summary.get(name) ?? {
+        name,
+        totalSets: 0,
+        totalReps: 0,
+        totalVolume: 0,
+        lastPerformed: session.date,
+      };
+      record.totalSets += exercise.sets.length;
+      record.totalReps += exercise.sets.reduce((acc, set) => acc + (set.reps ?? 0), 0);
+      record.totalVolume += setsVolume(exercise.sets, unit);
+      if (session.date > record.lastPerformed) record.lastPerformed = session.date;
+      summary.set(name, record);
+    });
+  });
+  return Array.from(summary.values()).sort((a, b) => b.lastPerformed.localeCompare(a.lastPerformed));
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { entry, session, set } from "@/lib/test-fixtures";
+import { applySyncChanges, changedAt, parseSyncRequest, withPendingChanges } from "@/lib/workout-sync";
+import type { WorkoutSession } from "@/lib/workouts";
+
+const squat = [entry("Squat", [set({ reps: 5, weight: 100 })])];
+
+const stamped = (id: string, updatedAt: string, fields: Partial<WorkoutSession> = {}) =>
+  session("2026-03-02", squat, { id, updatedAt, ...fields });
+
+describe("changedAt", () => {
+  it("uses the update stamp, then the trash stamp, then creation", () => {
+    const created = session("2026-03-02", squat, { createdAt: "2026-03-02T10:00:00.000Z" });
+    expect(changedAt(created)).toBe(Date.parse("2026-03-02T10:00:00.000Z"));
+    expect(changedAt({ ...created, deletedAt: "2026-03-03T10:00:00.000Z" })).toBe(Date.parse("2026-03-03T10:00:00.000Z"));
+    expect(changedAt({ ...created, deletedAt: "2026-03-03T10:00:00.000Z", updatedAt: "2026-03-04T10:00:00.000Z" })).toBe(
+      Date.parse("2026-03-04T10:00:00.000Z")
+    );
+  });
+});
+
+describe("applySyncChanges", () => {
+  const stored = [stamped("a", "2026-03-05T10:00:00.000Z"), stamped("b", "2026-03-05T10:00:00.000Z")];
+
+  it("keeps the newer copy of each session and reports pushed changes that lost", () => {
+    const result = applySyncChanges(stored, {
+      upserts: [
+        stamped("a", "2026-03-04T10:00:00.000Z", { title: "stale" }),
+        stamped("b", "2026-03-06T10:00:00.000Z", { title: "newer" }),
+        stamped("c", "2026-03-01T10:00:00.000Z", { title: "new" }),
+      ],
+      deletions: [],
+    });
+    expect(result.conflicts).toEqual(["a"]);
+    expect(result.workouts.map((workout) => [workout.id, workout.title])).toEqual([
+      ["a", undefined],
+      ["b", "newer"],
+      ["c", "new"],
+    ]);
+  });
+
+  it("lets a replayed push win a tie", () => {
+    const replay = stamped("a", "2026-03-05T10:00:00.000Z", { title: "replayed" });
+    expect(applySyncChanges(stored, { upserts: [replay], deletions: [] })).toEqual({
+      workouts: [replay, stored[1]],
+      conflicts: [],
+    });
+  });
+
+  it("removes sessions deleted after their last change and ignores unknown ids", () => {
+    const result = applySyncChanges(stored, {
+      upserts: [],
+      deletions: [
+        { id: "a", deletedAt: "2026-03-06T10:00:00.000Z" },
+        { id: "b", deletedAt: "2026-03-04T10:00:00.000Z" },
+        { id: "gone", deletedAt: "2026-03-06T10:00:00.000Z" },
+      ],
+    });
+    expect(result).toEqual({ workouts: [stored[1]], conflicts: ["b"] });
+  });
+});
+
+describe("withPendingChanges", () => {
+  it("lays changes queued during a sync over the server's answer", () => {
+    const server = [stamped("a", "2026-03-05T10:00:00.000Z"), stamped("b", "2026-03-05T10:00:00.000Z")];
+    const edited = stamped("a", "2026-03-06T10:00:00.000Z", { title: "edited offline" });
+    const added = stamped("c", "2026-03-06T10:00:00.000Z");
+    const merged = withPendingChanges(server, {
+      upserts: [edited, added],
+      deletions: [{ id: "b", deletedAt: "2026-03-06T10:00:00.000Z" }],
+    });
+    expect(merged).toEqual([edited, added]);
+  });
+});
+
+describe("parseSyncRequest", () => {
+  const upsert = stamped("a", "2026-03-05T10:00:00.000Z");
+
+  it("accepts valid upserts and deletions", () => {
+    const body = JSON.parse(
+      JSON.stringify({ upserts: [upsert], deletions: [{ id: "b", deletedAt: "2026-03-06T10:00:00.000Z", extra: 1 }] })
+    );
+    expect(parseSyncRequest(body)).toEqual({
+      upserts: [upsert],
+      deletions: [{ id: "b", deletedAt: "2026-03-06T10:00:00.000Z" }],
+    });
+  });
+
+  it("rejects a body with a missing list, an invalid session or a bad deletion", () => {
+    const invalid = [
+      null,
+      { upserts: [] },
+      { upserts: [{ ...upsert, date: "yesterday" }], deletions: [] },
+      { upserts: [], deletions: [{ id: "b" }] },
+      { upserts: [], deletions: [{ id: "b", deletedAt: "soon" }] },
+    ];
+    invalid.forEach((body) => expect(parseSyncRequest(body)).toBeNull());
+  });
+});
@@ -0,0 +1,86 @@
+import { parseWorkoutSession, type WorkoutSession } from "@/lib/workouts";
+
+/** A session removed for good on a device, with when it happened. */
+export type SyncDeletion = {
+  id: string;
+  deletedAt: string;
+};
+
+/** Changes a device made while it could not reach the server, pushed in one request. */
+export type SyncRequest = {
+  upserts: WorkoutSession[];
+  deletions: SyncDeletion[];
+};
+
+export type SyncResult = {
+  workouts: WorkoutSession[];
+  // Ids whose pushed change lost to a newer copy already on the server.
+  conflicts: string[];
+};
+
+/** When a session last changed: an explicit update stamp, else the trash stamp, else creation. */
+export const changedAt = (session: WorkoutSession) =>
+  new Date(session.updatedAt ?? session.deletedAt ?? session.createdAt).getTime();
+
+/**
+ * Merges pushed changes into the stored sessions by id, last write wins. A
+ * change older than the stored copy is dropped and reported as a conflict;
+ * ties go to the pushed change so replaying a push after a lost response is harmless.
+ */
+export const applySyncChanges = (stored: WorkoutSession[], { upserts, deletions }: SyncRequest): SyncResult => {
+  const byId = new Map(stored.map((session) => [session.id, session]));
+  const conflicts: string[] = [];
+
+  upserts.forEach((session) => {
+    const current = byId.get(session.id);
+    if (current && changedAt(current) > changedAt(session)) {
+      conflicts.push(session.id);
+      return;
+    }
+    byId.set(session.id, session);
+  });
+  deletions.forEach(({ id, deletedAt }) => {
+    const current = byId.get(id);
+    if (!current) return;
+    if (changedAt(current) > new Date(deletedAt).getTime()) {
+      conflicts.push(id);
+      return;
+    }
+    byId.delete(id);
+  });
+
+  return { workouts: Array.from(byId.values()), conflicts };
+};
+
+/**
+ * The log a device shows after a sync: the server's answer with the changes
+ * queued while the request was in flight laid on top, as those are newer still.
+ */
+export const withPendingChanges = (workouts: WorkoutSession[], { upserts, deletions }: SyncRequest) => {
+  const byId = new Map(workouts.map((session) => [session.id, session]));
+  upserts.forEach((session) => byId.set(session.id, session));
+  deletions.forEach(({ id }) => byId.delete(id));
+  return Array.from(byId.values());
+};
+
+export const parseSyncRequest = (value: unknown): SyncRequest | null => {
+  const body = value as Partial<Record<keyof SyncRequest, unknown>> | null;
+  if (!Array.isArray(body?.upserts) || !Array.isArray(body.deletions)) return null;
+  const upserts = body.upserts.map(parseWorkoutSession);
+  if (upserts.some((session) => session === null)) return null;
+  const deletions = body.deletions as Partial<SyncDeletion>[];
+  if (
+    deletions.some(
+      (deletion) =>
+        typeof deletion?.id !== "string" ||
+        typeof deletion.deletedAt !== "string" ||
+        Number.isNaN(new Date(deletion.deletedAt).getTime())
+    )
+  ) {
+    return null;
+  }
+  return {
+    upserts: upserts as WorkoutSession[],
+    deletions: deletions.map(({ id, deletedAt }) => ({ id: id as string, deletedAt: deletedAt as string })),
+  };
+};
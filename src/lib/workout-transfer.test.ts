@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { entry, session, set } from "@/lib/test-fixtures";
+import { exportToCsv, exportToJson, mergeWorkouts, parseImportFile } from "@/lib/workout-transfer";
+import type { WorkoutSession } from "@/lib/workouts";
+
+// The same record with every object's keys written in reverse order, as another exporter might.
+const reverseKeys = <T>(value: T): T =>
+  JSON.parse(
+    JSON.stringify(value, (_key, field: unknown) =>
+      typeof field === "object" && field !== null && !Array.isArray(field)
+        ? Object.fromEntries(Object.entries(field).reverse())
+        : field
+    )
+  );
+
+describe("export and import", () => {
+  const workouts = [
+    session("2026-03-02", [entry("Squat", [set({ reps: 5, weight: 100, rpe: 8 }), set({ reps: 5, weight: 225, unit: "lb" })])], {
+      title: "Legs, heavy",
+      planned: { programId: "p1", dayId: "mon", week: 2 },
+    }),
+    session("2026-03-04", [entry("Plank", [set({ durationSeconds: 60 })], { kind: "timed", notes: 'said "ouch"' })]),
+  ];
+
+  it("round-trips the log through CSV, program links included", () => {
+    const result = parseImportFile("log.csv", exportToCsv(workouts));
+    expect(result.rejected).toEqual([]);
+    expect(result.workouts).toEqual(workouts);
+  });
+
+  it("round-trips the log through JSON", () => {
+    expect(parseImportFile("log.json", exportToJson(workouts))).toEqual({ workouts, rejected: [] });
+  });
+
+  it("rejects CSV rows with half a program link", () => {
+    const csv = exportToCsv(workouts.slice(0, 1)).replace(",p1,mon,2,", ",p1,,2,");
+    expect(parseImportFile("log.csv", csv).rejected[0]?.reason).toBe("planned program, day and week must be given together");
+  });
+});
+
+describe("mergeWorkouts", () => {
+  const stored = session("2026-03-02", [entry("Squat", [set({ reps: 5, weight: 100, rpe: 8 })])], { title: "Legs" });
+
+  it("adds new ids and replaces changed sessions", () => {
+    const fresh = session("2026-03-04", [entry("Row", [set({ reps: 10, weight: 50 })])]);
+    const edited: WorkoutSession = { ...stored, title: "Heavy legs" };
+    const result = mergeWorkouts([stored], [edited, fresh]);
+    expect(result.added).toEqual([fresh]);
+    expect(result.updated).toEqual([edited]);
+    expect(result.workouts).toEqual([edited, fresh]);
+  });
+
+  it("treats a copy with its keys in another order as unchanged", () => {
+    const result = mergeWorkouts([stored], [reverseKeys(stored)]);
+    expect(result).toMatchObject({ added: [], updated: [], unchanged: 1 });
+  });
+});
@@ -0,0 +1,370 @@
+import {
+  EXERCISE_KINDS,
+  isISODate,
+  validateWorkoutSession,
+  validateWorkoutSet,
+  type ExerciseEntry,
+  type ExerciseKind,
+  type WorkoutSession,
+} from "@/lib/workouts";
+
+export const EXPORT_FORMAT = "rep-set-tracker";
+export const EXPORT_VERSION = 1;
+
+export type WorkoutExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  workouts: WorkoutSession[];
+};
+
+export type RejectedRecord = {
+  // 1-based CSV line number, or "session N" for JSON entries.
+  location: string;
+  reason: string;
+};
+
+export type ImportResult = {
+  workouts: WorkoutSession[];
+  rejected: RejectedRecord[];
+};
+
+export type MergeResult = {
+  workouts: WorkoutSession[];
+  added: WorkoutSession[];
+  updated: WorkoutSession[];
+  unchanged: number;
+};
+
+const CSV_COLUMNS = [
+  "session_id",
+  "date",
+  "title",
+  "session_notes",
+  "created_at",
+  "started_at",
+  "ended_at",
+  "updated_at",
+  "planned_program_id",
+  "planned_day_id",
+  "planned_week",
+  "exercise_id",
+  "exercise",
+  "catalog_id",
+  "exercise_notes",
+  "group_id",
+  "kind",
+  "set_id",
+  "set_number",
+  "set_type",
+  "reps",
+  "weight",
+  "unit",
+  "rpe",
+  "rir",
+  "duration_seconds",
+  "distance",
+  "distance_unit",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ["session_id", "date", "exercise_id", "exercise", "set_id"];
+
+export const exportToJson = (workouts: WorkoutSession[]) => {
+  const payload: WorkoutExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workouts,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const formatOptional = (value: number | undefined) => (value != null ? String(value) : "");
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Flattens the log into one CSV row per set. */
+export const exportToCsv = (workouts: WorkoutSession[]) => {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+  workouts.forEach((session) => {
+    session.exercises.forEach((exercise) => {
+      exercise.sets.forEach((set, index) => {
+        const row: Record<CsvColumn, string> = {
+          session_id: session.id,
+          date: session.date,
+          title: session.title ?? "",
+          session_notes: session.notes ?? "",
+          created_at: session.createdAt,
+          started_at: session.startedAt ?? "",
+          ended_at: session.endedAt ?? "",
+          updated_at: session.updatedAt ?? "",
+          planned_program_id: session.planned?.programId ?? "",
+          planned_day_id: session.planned?.dayId ?? "",
+          planned_week: formatOptional(session.planned?.week),
+          exercise_id: exercise.id,
+          exercise: exercise.name,
+          catalog_id: exercise.exerciseId ?? "",
+          exercise_notes: exercise.notes ?? "",
+          group_id: exercise.groupId ?? "",
+          kind: exercise.kind,
+          set_id: set.id,
+          set_number: String(index + 1),
+          set_type: set.type,
+          reps: formatOptional(set.reps),
+          weight: formatOptional(set.weight),
+          unit: set.unit,
+          rpe: formatOptional(set.rpe),
+          rir: formatOptional(set.rir),
+          duration_seconds: formatOptional(set.durationSeconds),
+          distance: formatOptional(set.distance),
+          distance_unit: set.distanceUnit ?? "",
+        };
+        rows.push(CSV_COLUMNS.map((column) => row[column]));
+      });
+    });
+  });
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+};
+
+/**
+ * Splits CSV text into records, honouring quoted fields with embedded
+ * delimiters and newlines. Some apps write semicolons in comma-decimal locales.
+ */
+export const parseCsv = (text: string, delimiter = ","): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line += 1;
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) endRecord();
+  return records;
+};
+
+const parseJsonImport = (text: string): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(parsed)) {
+    // Bare arrays are what the app kept in localStorage before exports were versioned.
+    entries = parsed;
+  } else if (typeof parsed === "object" && parsed !== null && Array.isArray((parsed as WorkoutExport).workouts)) {
+    const envelope = parsed as WorkoutExport;
+    if (typeof envelope.version !== "number" || envelope.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version ${String(envelope.version)}.`);
+    }
+    entries = envelope.workouts;
+  } else {
+    throw new Error("The file does not contain a workout export.");
+  }
+
+  const result: ImportResult = { workouts: [], rejected: [] };
+  entries.forEach((entry, index) => {
+    const validated = validateWorkoutSession(entry);
+    if (validated.ok) {
+      result.workouts.push(validated.value);
+    } else {
+      result.rejected.push({ location: `session ${index + 1}`, reason: validated.reason });
+    }
+  });
+  return result;
+};
+
+const parseCsvImport = (text: string): ImportResult => {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) throw new Error("The CSV file is empty.");
+
+  const columnIndex = new Map(header.fields.map((name, index) => [name.trim().toLowerCase(), index]));
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new Error(`The CSV file is missing columns: ${missing.join(", ")}.`);
+  }
+
+  const sessions = new Map<string, WorkoutSession>();
+  const exercises = new Map<string, ExerciseEntry>();
+  const rejected: RejectedRecord[] = [];
+  const seenSets = new Set<string>();
+
+  records.forEach(({ line, fields }) => {
+    const read = (column: CsvColumn) => {
+      const index = columnIndex.get(column);
+      return index === undefined ? "" : (fields[index] ?? "").trim();
+    };
+    const reject = (reason: string) => rejected.push({ location: `line ${line}`, reason });
+
+    const sessionId = read("session_id");
+    const date = read("date");
+    const exerciseId = read("exercise_id");
+    const exerciseName = read("exercise");
+    const setId = read("set_id");
+    const createdAt = read("created_at");
+    const startedAt = read("started_at");
+    const endedAt = read("ended_at");
+    const updatedAt = read("updated_at");
+    const plannedWeek = read("planned_week");
+    const planned = [read("planned_program_id"), read("planned_day_id"), plannedWeek].some(Boolean)
+      ? { programId: read("planned_program_id"), dayId: read("planned_day_id"), week: Number(plannedWeek) }
+      : undefined;
+    const kind = read("kind").toLowerCase() || "weighted";
+    // Empty cells are left out so the set validator applies its defaults; anything else must be a number.
+    const readNumber = (column: CsvColumn) => (read(column) === "" ? undefined : Number(read(column)));
+    const readText = (column: CsvColumn) => read(column).toLowerCase() || undefined;
+
+    if (!sessionId || !exerciseId || !setId) return reject("missing session, exercise or set id");
+    if (!isISODate(date)) return reject(`invalid date "${date}"`);
+    if (!exerciseName) return reject("missing exercise name");
+    if (!EXERCISE_KINDS.includes(kind as ExerciseKind)) return reject(`unknown exercise kind "${kind}"`);
+    if (createdAt && Number.isNaN(new Date(createdAt).getTime())) return reject(`invalid created_at "${createdAt}"`);
+    if (startedAt && Number.isNaN(new Date(startedAt).getTime())) return reject(`invalid started_at "${startedAt}"`);
+    if (endedAt && Number.isNaN(new Date(endedAt).getTime())) return reject(`invalid ended_at "${endedAt}"`);
+    if (updatedAt && Number.isNaN(new Date(updatedAt).getTime())) return reject(`invalid updated_at "${updatedAt}"`);
+    if (planned && (!planned.programId || !planned.dayId || !Number.isInteger(planned.week) || planned.week < 1)) {
+      return reject("planned program, day and week must be given together");
+    }
+    if (seenSets.has(setId)) return reject(`duplicate set id "${setId}"`);
+
+    const set = validateWorkoutSet({
+      id: setId,
+      type: readText("set_type"),
+      reps: readNumber("reps"),
+      weight: readNumber("weight"),
+      unit: readText("unit"),
+      rpe: readNumber("rpe"),
+      rir: readNumber("rir"),
+      durationSeconds: readNumber("duration_seconds"),
+      distance: readNumber("distance"),
+      distanceUnit: readText("distance_unit"),
+    });
+    if (!set.ok) return reject(set.reason);
+
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = {
+        id: sessionId,
+        date,
+        title: read("title") || undefined,
+        notes: read("session_notes") || undefined,
+        exercises: [],
+        createdAt: createdAt || new Date(`${date}T00:00:00`).toISOString(),
+        startedAt: startedAt || undefined,
+        endedAt: endedAt || undefined,
+        updatedAt: updatedAt || undefined,
+        planned,
+      };
+      sessions.set(sessionId, session);
+    } else if (session.date !== date) {
+      return reject(`date "${date}" conflicts with earlier rows of session ${sessionId}`);
+    }
+
+    const exerciseKey = `${sessionId}:${exerciseId}`;
+    let exercise = exercises.get(exerciseKey);
+    if (!exercise) {
+      exercise = {
+        id: exerciseId,
+        name: exerciseName,
+        kind: kind as ExerciseKind,
+        exerciseId: read("catalog_id") || undefined,
+        notes: read("exercise_notes") || undefined,
+        groupId: read("group_id") || undefined,
+        sets: [],
+      };
+      exercises.set(exerciseKey, exercise);
+      session.exercises.push(exercise);
+    }
+
+    seenSets.add(setId);
+    exercise.sets.push(set.value);
+  });
+
+  return { workouts: Array.from(sessions.values()), rejected };
+};
+
+/**
+ * Parses an exported JSON or CSV file. Structural problems with the file as a
+ * whole throw; individual invalid sessions or rows are reported in `rejected`.
+ */
+export const parseImportFile = (fileName: string, text: string): ImportResult => {
+  const looksLikeJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  return looksLikeJson ? parseJsonImport(text) : parseCsvImport(text);
+};
+
+// JSON with object keys sorted, so two copies of a record compare equal whatever order their keys were written in.
+const stableStringify = (value: unknown) =>
+  JSON.stringify(value, (_key, field: unknown) =>
+    typeof field === "object" && field !== null && !Array.isArray(field)
+      ? Object.fromEntries(Object.entries(field).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : field
+  );
+
+/**
+ * Merges imported sessions into the existing log by id. Imported sessions
+ * replace stored ones with the same id; identical sessions are left alone.
+ */
+export const mergeWorkouts = (existing: WorkoutSession[], incoming: WorkoutSession[]): MergeResult => {
+  const byId = new Map(existing.map((session) => [session.id, session]));
+  const added: WorkoutSession[] = [];
+  const updated: WorkoutSession[] = [];
+  let unchanged = 0;
+
+  // A file that repeats an id keeps only its last occurrence.
+  const deduplicated = new Map(incoming.map((session) => [session.id, session]));
+  deduplicated.forEach((session) => {
+    const current = byId.get(session.id);
+    if (!current) {
+      added.push(session);
+    } else if (stableStringify(current) === stableStringify(session)) {
+      unchanged += 1;
+      return;
+    } else {
+      updated.push(session);
+    }
+    byId.set(session.id, session);
+  });
+
+  return { workouts: Array.from(byId.values()), added, updated, unchanged };
+};
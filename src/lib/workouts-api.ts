@@ -0,0 +1,18 @@
+import { createCollectionClient, request } from "@/lib/api-client";
+import type { QuarantinedRecord } from "@/lib/storage-schema";
+import type { SyncRequest, SyncResult } from "@/lib/workout-sync";
+import type { WorkoutSession } from "@/lib/workouts";
+
+const ENDPOINT = "/api/workouts";
+
+const client = createCollectionClient<WorkoutSession>(ENDPOINT, "workouts", "workout");
+
+export const fetchWorkouts = client.list;
+
+export const fetchQuarantinedWorkouts = async () => {
+  const { quarantined } = await request<{ quarantined: QuarantinedRecord[] }>(`${ENDPOINT}/quarantine`);
+  return quarantined;
+};
+
+export const syncWorkouts = (changes: SyncRequest) =>
+  request<SyncResult>(`${ENDPOINT}/sync`, { method: "POST", body: JSON.stringify(changes) });
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+
+import { formatSessionDate } from "@/lib/workouts";
+
+describe("formatSessionDate", () => {
+  it("shows the weekday and day of a session date", () => {
+    expect(formatSessionDate("2026-03-02", "en-US")).toBe("Mon, Mar 2");
+  });
+
+  it("shows text that is not a date as it is", () => {
+    expect(formatSessionDate("2026-02-30", "en-US")).toBe("2026-02-30");
+    expect(formatSessionDate("", "en-US")).toBe("");
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  DEFAULT_DISTANCE_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  isDistanceUnit,
+  isWeightUnit,
+  type DistanceUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import { fail, isNonEmptyString, isRecord } from "@/lib/validation";
+
+export const SET_TYPES = ["warmup", "working", "drop", "failure"] as const;
+
+export type SetType = (typeof SET_TYPES)[number];
+
+// Decides which inputs the editor shows and which fields a set needs.
+export const EXERCISE_KINDS = ["weighted", "bodyweight", "timed", "cardio"] as const;
+
+export type ExerciseKind = (typeof EXERCISE_KINDS)[number];
+
+export type WorkoutSet = {
+  id: string;
+  type: SetType;
+  reps?: number;
+  // Total load for weighted exercises; load added on top of bodyweight for bodyweight exercises.
+  weight?: number;
+  // The unit the weight was entered in. Stored per set so changing the display preference never rewrites history.
+  unit: WeightUnit;
+  rpe?: number; // rate of perceived exertion, 1-10
+  rir?: number; // reps in reserve
+  durationSeconds?: number;
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+};
+
+export type ExerciseEntry = {
+  id: string;
+  name: string;
+  kind: ExerciseKind;
+  // Catalog entry this exercise was matched to; entries logged as free text have none.
+  exerciseId?: string;
+  notes?: string;
+  // Consecutive exercises sharing an id form a superset or circuit; the order of `exercises` is the order performed.
+  groupId?: string;
+  sets: WorkoutSet[];
+};
+
+/** The program day a session was started from; `week` counts from 1 across the whole program. */
+export type PlannedSessionLink = {
+  programId: string;
+  dayId: string;
+  week: number;
+};
+
+export type WorkoutSession = {
+  id: string;
+  date: string; // ISO date (yyyy-mm-dd)
+  title?: string;
+  notes?: string;
+  exercises: ExerciseEntry[];
+  createdAt: string;
+  // Wall-clock bounds of sessions logged live; sessions entered afterwards have neither.
+  startedAt?: string;
+  endedAt?: string;
+  // Set when the session is moved to the trash; trashed sessions are kept until the trash is emptied.
+  deletedAt?: string;
+  // Last local change, stamped when the change is queued for sync; the newer copy wins a sync conflict.
+  updatedAt?: string;
+  planned?: PlannedSessionLink;
+};
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isISODate = (value: string) => {
+  if (!ISO_DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  // Date rolls impossible days over (2026-02-30 becomes March 2nd), so compare the round trip.
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+/** A session date as "Mon, Mar 2" in the reader's locale; text that is not a yyyy-mm-dd date is shown as is. */
+export const formatSessionDate = (iso: string, locale?: string) =>
+  isISODate(iso)
+    ? new Intl.DateTimeFormat(locale, { weekday: "short", month: "short", day: "numeric" }).format(new Date(`${iso}T00:00:00`))
+    : iso;
+
+const optionalString = (record: Record<string, unknown>, key: string): ValidationResult<string | undefined> => {
+  const value = record[key];
+  if (value === undefined || value === null) return { ok: true, value: undefined };
+  if (typeof value !== "string") return fail(`"${key}" must be a string`);
+  return { ok: true, value };
+};
+
+const optionalNumber = (
+  record: Record<string, unknown>,
+  key: string,
+  isValid: (value: number) => boolean
+): ValidationResult<number | undefined> => {
+  const value = record[key];
+  if (value === undefined || value === null) return { ok: true, value: undefined };
+  if (typeof value !== "number" || !Number.isFinite(value) || !isValid(value)) {
+    return fail(`"${key}" is out of range`);
+  }
+  return { ok: true, value };
+};
+
+/**
+ * Sets logged before set types existed only had reps and weight; they parse
+ * as working sets in the default unit.
+ */
+export const validateWorkoutSet = (value: unknown): ValidationResult<WorkoutSet> => {
+  if (!isRecord(value)) return fail("set must be an object");
+  if (!isNonEmptyString(value.id)) return fail("set is missing an id");
+  const id = value.id;
+  const field = <T>(result: ValidationResult<T>): ValidationResult<T> =>
+    result.ok ? result : fail(`set ${id}: ${result.reason}`);
+
+  const type = value.type ?? "working";
+  if (!SET_TYPES.includes(type as SetType)) return fail(`set ${id} has an unknown set type`);
+  const reps = field(optionalNumber(value, "reps", (reps) => Number.isInteger(reps) && reps > 0));
+  if (!reps.ok) return reps;
+  const weight = field(optionalNumber(value, "weight", () => true));
+  if (!weight.ok) return weight;
+  if (value.unit !== undefined && !isWeightUnit(value.unit)) return fail(`set ${id} has an unknown unit`);
+  const rpe = field(optionalNumber(value, "rpe", (rpe) => rpe >= 1 && rpe <= 10));
+  if (!rpe.ok) return rpe;
+  const rir = field(optionalNumber(value, "rir", (rir) => rir >= 0 && rir <= 10));
+  if (!rir.ok) return rir;
+  const durationSeconds = field(optionalNumber(value, "durationSeconds", (seconds) => seconds > 0));
+  if (!durationSeconds.ok) return durationSeconds;
+  const distance = field(optionalNumber(value, "distance", (distance) => distance > 0));
+  if (!distance.ok) return distance;
+  if (value.distanceUnit !== undefined && !isDistanceUnit(value.distanceUnit)) {
+    return fail(`set ${id} has an unknown distance unit`);
+  }
+  if (reps.value === undefined && durationSeconds.value === undefined && distance.value === undefined) {
+    return fail(`set ${id} needs reps, a duration or a distance`);
+  }
+
+  return {
+    ok: true,
+    value: {
+      id,
+      type: type as SetType,
+      reps: reps.value,
+      weight: weight.value,
+      unit: value.unit ?? DEFAULT_WEIGHT_UNIT,
+      rpe: rpe.value,
+      rir: rir.value,
+      durationSeconds: durationSeconds.value,
+      distance: distance.value,
+      distanceUnit: distance.value === undefined ? undefined : (value.distanceUnit ?? DEFAULT_DISTANCE_UNIT),
+    },
+  };
+};
+
+export const validateExerciseEntry = (value: unknown): ValidationResult<ExerciseEntry> => {
+  if (!isRecord(value)) return fail("exercise must be an object");
+  if (!isNonEmptyString(value.id)) return fail("exercise is missing an id");
+  if (!isNonEmptyString(value.name)) return fail(`exercise ${value.id} is missing a name`);
+  if (!Array.isArray(value.sets)) return fail(`exercise ${value.id} has no sets array`);
+  const notes = optionalString(value, "notes");
+  if (!notes.ok) return notes;
+  const exerciseId = optionalString(value, "exerciseId");
+  if (!exerciseId.ok) return exerciseId;
+  const groupId = optionalString(value, "groupId");
+  if (!groupId.ok) return groupId;
+  const kind = value.kind ?? "weighted";
+  if (!EXERCISE_KINDS.includes(kind as ExerciseKind)) return fail(`exercise ${value.id} has an unknown kind`);
+
+  const sets: WorkoutSet[] = [];
+  for (const candidate of value.sets) {
+    const set = validateWorkoutSet(candidate);
+    if (!set.ok) return set;
+    sets.push(set.value);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      name: value.name,
+      kind: kind as ExerciseKind,
+      exerciseId: exerciseId.value,
+      notes: notes.value,
+      groupId: groupId.value || undefined,
+      sets,
+    },
+  };
+};
+
+export const validatePlannedLink = (value: unknown): ValidationResult<PlannedSessionLink | undefined> => {
+  if (value === undefined || value === null) return { ok: true, value: undefined };
+  if (
+    !isRecord(value) ||
+    !isNonEmptyString(value.programId) ||
+    !isNonEmptyString(value.dayId) ||
+    typeof value.week !== "number" ||
+    !Number.isInteger(value.week) ||
+    value.week < 1
+  ) {
+    return fail('"planned" must name a program, day and week');
+  }
+  return { ok: true, value: { programId: value.programId, dayId: value.dayId, week: value.week } };
+};
+
+/**
+ * Checks an untrusted value (request body, stored JSON, imported file) against
+ * the WorkoutSession schema and reports the first problem found.
+ */
+export const validateWorkoutSession = (value: unknown): ValidationResult<WorkoutSession> => {
+  if (!isRecord(value)) return fail("session must be an object");
+  if (!isNonEmptyString(value.id)) return fail("session is missing an id");
+  if (typeof value.date !== "string" || !isISODate(value.date)) {
+    return fail(`session ${value.id} must have a yyyy-mm-dd date`);
+  }
+  if (typeof value.createdAt !== "string" || Number.isNaN(new Date(value.createdAt).getTime())) {
+    return fail(`session ${value.id} has an invalid createdAt timestamp`);
+  }
+  if (!Array.isArray(value.exercises)) return fail(`session ${value.id} has no exercises array`);
+  const title = optionalString(value, "title");
+  if (!title.ok) return title;
+  const notes = optionalString(value, "notes");
+  if (!notes.ok) return notes;
+  const startedAt = optionalString(value, "startedAt");
+  if (!startedAt.ok) return startedAt;
+  const endedAt = optionalString(value, "endedAt");
+  if (!endedAt.ok) return endedAt;
+  const deletedAt = optionalString(value, "deletedAt");
+  if (!deletedAt.ok) return deletedAt;
+  const updatedAt = optionalString(value, "updatedAt");
+  if (!updatedAt.ok) return updatedAt;
+  if ([startedAt.value, endedAt.value].some((stamp) => stamp !== undefined && Number.isNaN(new Date(stamp).getTime()))) {
+    return fail(`session ${value.id} has an invalid start or end timestamp`);
+  }
+  if (deletedAt.value !== undefined && Number.isNaN(new Date(deletedAt.value).getTime())) {
+    return fail(`session ${value.id} has an invalid deletedAt timestamp`);
+  }
+  if (updatedAt.value !== undefined && Number.isNaN(new Date(updatedAt.value).getTime())) {
+    return fail(`session ${value.id} has an invalid updatedAt timestamp`);
+  }
+  const planned = validatePlannedLink(value.planned);
+  if (!planned.ok) return fail(`session ${value.id}: ${planned.reason}`);
+
+  const exercises: ExerciseEntry[] = [];
+  for (const candidate of value.exercises) {
+    const exercise = validateExerciseEntry(candidate);
+    if (!exercise.ok) return exercise;
+    exercises.push(exercise.value);
+  }
+  return {
+    ok: true,
+    value: {
+      id: value.id,
+      date: value.date,
+      title: title.value,
+      notes: notes.value,
+      exercises,
+      createdAt: value.createdAt,
+      startedAt: startedAt.value,
+      endedAt: endedAt.value,
+      deletedAt: deletedAt.value,
+      updatedAt: updatedAt.value,
+      planned: planned.value,
+    },
+  };
+};
+
+/**
+ * Narrows an untrusted value to a WorkoutSession, or null when it does not
+ * match the schema.
+ */
+export const parseWorkoutSession = (value: unknown): WorkoutSession | null => {
+  const result = validateWorkoutSession(value);
+  return result.ok ? result.value : null;
+};